@@ -5,6 +5,7 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { SidebarProvider, SidebarTrigger } from "@/components/ui/sidebar";
 import { useAuth } from "@/hooks/useAuth";
+import { useRealtimeAlerts } from "@/hooks/useRealtimeAlerts";
 import { AppSidebar } from "@/components/app-sidebar";
 import { Button } from "@/components/ui/button";
 import { Moon, Sun } from "lucide-react";
@@ -17,6 +18,17 @@ import Materials from "@/pages/Materials";
 import Requisitions from "@/pages/Requisitions";
 import NotFound from "@/pages/not-found";
 import EmployeeAccess from "@/pages/EmployeeAccess";
+import Users from "@/pages/Users";
+import Audit from "@/pages/Audit";
+import Movements from "@/pages/Movements";
+import Locations from "@/pages/Locations";
+import Inventory from "@/pages/Inventory";
+import Suppliers from "@/pages/Suppliers";
+import PurchaseOrders from "@/pages/PurchaseOrders";
+import Replenishment from "@/pages/Replenishment";
+import Alerts from "@/pages/Alerts";
+import Settings from "@/pages/Settings";
+import Reports from "@/pages/Reports";
 
 function ThemeToggle() {
   const [isDark, setIsDark] = useState(false);
@@ -48,7 +60,9 @@ function ThemeToggle() {
 }
 
 function AuthenticatedApp() {
-  const { isAuthenticated, isLoading, user } = useAuth();
+  const { isAuthenticated, isLoading, user, can } = useAuth();
+  useRealtimeAlerts(isAuthenticated && can("alerts:view"));
+  const Home = can("dashboard:view") ? Dashboard : Requisitions;
   
   // Custom sidebar width for inventory management application
   const style = {
@@ -98,19 +112,24 @@ function AuthenticatedApp() {
           </header>
           <main className="flex-1 overflow-auto p-6">
             <Switch>
-              <Route path="/" component={Dashboard} />
-              <Route path="/dashboard" component={Dashboard} />
+              <Route path="/" component={Home} />
+              <Route path="/dashboard" component={Home} />
               <Route path="/materials" component={Materials} />
               <Route path="/materiais" component={Materials} />
               <Route path="/requisicoes" component={Requisitions} />
               <Route path="/requisitions" component={Requisitions} />
               <Route path="/my-requisitions" component={Requisitions} />
-              <Route path="/movements" component={Dashboard} /> {/* todo: create Movements page */}
-              <Route path="/reports" component={Dashboard} /> {/* todo: create Reports page */}
-              <Route path="/users" component={Dashboard} /> {/* todo: create Users page */}
-              <Route path="/audit" component={Dashboard} /> {/* todo: create Audit page */}
-              <Route path="/alerts" component={Dashboard} /> {/* todo: create Alerts page */}
-              <Route path="/settings" component={Dashboard} /> {/* todo: create Settings page */}
+              <Route path="/movements" component={Movements} />
+              <Route path="/locations" component={Locations} />
+              <Route path="/inventory" component={Inventory} />
+              <Route path="/suppliers" component={Suppliers} />
+              <Route path="/purchase-orders" component={PurchaseOrders} />
+              <Route path="/replenishment" component={Replenishment} />
+              <Route path="/reports" component={Reports} />
+              <Route path="/users" component={Users} />
+              <Route path="/audit" component={Audit} />
+              <Route path="/alerts" component={Alerts} />
+              <Route path="/settings" component={Settings} />
               <Route component={NotFound} />
             </Switch>
           </main>
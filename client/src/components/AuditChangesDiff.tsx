@@ -0,0 +1,58 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+
+type ChangeSet = {
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+};
+
+interface AuditChangesDiffProps {
+  changes: unknown;
+}
+
+function isChangeSet(value: unknown): value is ChangeSet {
+  return typeof value === "object" && value !== null && ("before" in value || "after" in value);
+}
+
+function formatValue(value: unknown) {
+  if (value === undefined) return "";
+  if (value === null) return "—";
+  if (typeof value === "object") return JSON.stringify(value);
+  return String(value);
+}
+
+export default function AuditChangesDiff({ changes }: AuditChangesDiffProps) {
+  if (!changes) {
+    return <p className="text-sm text-muted-foreground italic">Sem alterações registradas</p>;
+  }
+
+  // Entries written before change sets existed hold the bare patch
+  const { before = {}, after = {} } = isChangeSet(changes)
+    ? changes
+    : { after: changes as Record<string, unknown> };
+  const fields = Array.from(new Set([...Object.keys(before), ...Object.keys(after)]));
+
+  return (
+    <Table data-testid="table-audit-diff">
+      <TableHeader>
+        <TableRow>
+          <TableHead>Campo</TableHead>
+          <TableHead>Antes</TableHead>
+          <TableHead>Depois</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {fields.map((field) => (
+          <TableRow key={field}>
+            <TableCell className="font-mono text-xs">{field}</TableCell>
+            <TableCell className="text-sm text-red-600 dark:text-red-400 break-all">
+              {field in before ? formatValue(before[field]) : ""}
+            </TableCell>
+            <TableCell className="text-sm text-green-600 dark:text-green-400 break-all">
+              {field in after ? formatValue(after[field]) : ""}
+            </TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
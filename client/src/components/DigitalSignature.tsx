@@ -10,7 +10,8 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from "@/components/ui/alert-dialog";
-import { PenTool, Shield, Clock, User, Package, Hash, FileText } from "lucide-react";
+import SignatureVerificationBadge from "@/components/SignatureVerificationBadge";
+import { PenTool, Shield, Clock, User, Package, Hash, FileText, ClipboardList } from "lucide-react";
 
 const signatureSchema = z.object({
   password: z.string().min(1, "Senha é obrigatória para assinar"),
@@ -18,16 +19,27 @@ const signatureSchema = z.object({
 
 type SignatureFormData = z.infer<typeof signatureSchema>;
 
-interface Requisition {
+interface RequisitionItem {
   id: string;
-  employeeName: string;
   materialName: string;
   materialCode: string;
   quantity: number;
+  // Set when the stock team approved less than the employee asked for
+  requestedQuantity?: number;
   unit: string;
+}
+
+interface Requisition {
+  id: string;
+  number: string;
+  employeeName: string;
+  items: RequisitionItem[];
   observation?: string;
   createdAt: string;
-  status: 'PENDENTE' | 'ASSINADA' | 'CANCELADA';
+  status: 'SOLICITADA' | 'PENDENTE' | 'ASSINADA' | 'CANCELADA' | 'REJEITADA';
+  cancellationReason?: string | null;
+  cancelledAt?: string | null;
+  rejectionReason?: string | null;
 }
 
 interface DigitalSignatureProps {
@@ -69,6 +81,10 @@ export default function DigitalSignature({
 
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case 'SOLICITADA':
+        return <Badge variant="outline">Aguardando aprovação</Badge>;
+      case 'REJEITADA':
+        return <Badge variant="destructive">Rejeitada</Badge>;
       case 'PENDENTE':
         return <Badge variant="secondary">Pendente</Badge>;
       case 'ASSINADA':
@@ -88,57 +104,71 @@ export default function DigitalSignature({
           Assinatura Digital da Requisição
         </CardTitle>
         <CardDescription>
-          Confirme os dados e assine digitalmente para autorizar a retirada do material
+          Confirme os dados e assine digitalmente para autorizar a retirada dos materiais
         </CardDescription>
       </CardHeader>
       <CardContent className="space-y-4">
         {/* Informações da Requisição */}
-        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-          <div className="space-y-3">
-            <div className="flex items-center gap-2">
-              <User className="h-4 w-4 text-muted-foreground" />
-              <div>
-                <Label className="text-sm text-muted-foreground">Funcionário</Label>
-                <p className="font-medium" data-testid="text-employee-name">
-                  {requisition.employeeName}
-                </p>
-              </div>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div className="flex items-center gap-2">
+            <ClipboardList className="h-4 w-4 text-muted-foreground" />
+            <div>
+              <Label className="text-sm text-muted-foreground">Número</Label>
+              <p className="font-mono font-medium" data-testid="text-requisition-number">
+                {requisition.number}
+              </p>
             </div>
+          </div>
 
-            <div className="flex items-center gap-2">
-              <Package className="h-4 w-4 text-muted-foreground" />
-              <div>
-                <Label className="text-sm text-muted-foreground">Material</Label>
-                <p className="font-medium" data-testid="text-material-name">
-                  {requisition.materialName}
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  Código: {requisition.materialCode}
-                </p>
-              </div>
+          <div className="flex items-center gap-2">
+            <User className="h-4 w-4 text-muted-foreground" />
+            <div>
+              <Label className="text-sm text-muted-foreground">Funcionário</Label>
+              <p className="font-medium" data-testid="text-employee-name">
+                {requisition.employeeName}
+              </p>
             </div>
           </div>
 
-          <div className="space-y-3">
-            <div className="flex items-center gap-2">
-              <Hash className="h-4 w-4 text-muted-foreground" />
-              <div>
-                <Label className="text-sm text-muted-foreground">Quantidade</Label>
-                <p className="font-medium text-lg" data-testid="text-quantity">
-                  {requisition.quantity} {requisition.unit}
-                </p>
-              </div>
+          <div className="flex items-center gap-2">
+            <Clock className="h-4 w-4 text-muted-foreground" />
+            <div>
+              <Label className="text-sm text-muted-foreground">Data da Requisição</Label>
+              <p className="font-medium">
+                {formatDate(requisition.createdAt)}
+              </p>
             </div>
+          </div>
+        </div>
 
-            <div className="flex items-center gap-2">
-              <Clock className="h-4 w-4 text-muted-foreground" />
-              <div>
-                <Label className="text-sm text-muted-foreground">Data da Requisição</Label>
-                <p className="font-medium">
-                  {formatDate(requisition.createdAt)}
-                </p>
+        {/* Itens */}
+        <div className="space-y-2">
+          <div className="flex items-center gap-2">
+            <Package className="h-4 w-4 text-muted-foreground" />
+            <Label className="text-sm text-muted-foreground">
+              Materiais ({requisition.items.length})
+            </Label>
+          </div>
+          <div className="divide-y rounded-md border" data-testid="list-requisition-items">
+            {requisition.items.map((item) => (
+              <div key={item.id} className="flex items-center justify-between p-3">
+                <div>
+                  <p className="font-medium">{item.materialName}</p>
+                  <p className="text-sm text-muted-foreground">Código: {item.materialCode}</p>
+                </div>
+                <div className="text-right">
+                  <div className="flex items-center gap-1 font-medium">
+                    <Hash className="h-4 w-4 text-muted-foreground" />
+                    {item.quantity} {item.unit}
+                  </div>
+                  {item.requestedQuantity != null && (
+                    <p className="text-xs text-muted-foreground">
+                      Solicitado: {item.requestedQuantity} {item.unit}
+                    </p>
+                  )}
+                </div>
               </div>
-            </div>
+            ))}
           </div>
         </div>
 
@@ -161,6 +191,9 @@ export default function DigitalSignature({
             <Label>Status da Requisição:</Label>
             {getStatusBadge(requisition.status)}
           </div>
+          {requisition.status === 'ASSINADA' && (
+            <SignatureVerificationBadge requisitionId={requisition.id} />
+          )}
         </div>
 
         {/* Botão de Assinatura */}
@@ -183,9 +216,9 @@ export default function DigitalSignature({
                   <AlertDialogDescription>
                     Ao assinar esta requisição, você confirma que:
                     <ul className="list-disc list-inside mt-2 space-y-1">
-                      <li>Recebeu o material especificado</li>
-                      <li>A quantidade está correta</li>
-                      <li>O material está em boas condições</li>
+                      <li>Recebeu todos os materiais listados</li>
+                      <li>As quantidades estão corretas</li>
+                      <li>Os materiais estão em boas condições</li>
                       <li>Esta assinatura tem validade legal</li>
                     </ul>
                   </AlertDialogDescription>
@@ -232,6 +265,37 @@ export default function DigitalSignature({
           </div>
         )}
 
+        {requisition.status === 'CANCELADA' && (
+          <div className="bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-red-700 dark:text-red-300">
+              <Shield className="h-4 w-4" />
+              <span className="font-medium">Requisição Cancelada</span>
+              {requisition.cancelledAt && (
+                <span className="text-sm">em {formatDate(requisition.cancelledAt)}</span>
+              )}
+            </div>
+            {requisition.cancellationReason && (
+              <p className="text-sm text-red-600 dark:text-red-400 mt-1" data-testid="text-cancellation-reason">
+                Motivo: {requisition.cancellationReason}
+              </p>
+            )}
+          </div>
+        )}
+
+        {requisition.status === 'REJEITADA' && (
+          <div className="bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-lg p-4">
+            <div className="flex items-center gap-2 text-red-700 dark:text-red-300">
+              <Shield className="h-4 w-4" />
+              <span className="font-medium">Solicitação Rejeitada</span>
+            </div>
+            {requisition.rejectionReason && (
+              <p className="text-sm text-red-600 dark:text-red-400 mt-1" data-testid="text-rejection-reason">
+                Motivo: {requisition.rejectionReason}
+              </p>
+            )}
+          </div>
+        )}
+
         {requisition.status === 'ASSINADA' && (
           <div className="bg-green-50 dark:bg-green-950 border border-green-200 dark:border-green-800 rounded-lg p-4">
             <div className="flex items-center gap-2 text-green-700 dark:text-green-300">
@@ -239,7 +303,7 @@ export default function DigitalSignature({
               <span className="font-medium">Requisição Assinada Digitalmente</span>
             </div>
             <p className="text-sm text-green-600 dark:text-green-400 mt-1">
-              Material liberado para retirada. A assinatura foi registrada com data, hora e dispositivo.
+              Materiais liberados para retirada. A assinatura foi registrada com data, hora, dispositivo e selo criptográfico.
             </p>
           </div>
         )}
@@ -6,6 +6,7 @@ import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
 import { Package, Plus } from "lucide-react";
@@ -16,11 +17,28 @@ const materialSchema = z.object({
   unit: z.string().min(1, "Unidade é obrigatória"),
   unitPrice: z.string().optional(),
   minimumStock: z.string().min(1, "Estoque mínimo é obrigatório"),
+  supplierId: z.string(),
+  leadTimeDays: z.string().refine(
+    (value) => value === "" || (Number.isInteger(Number(value)) && Number(value) >= 0),
+    "Informe um número inteiro de dias",
+  ),
 });
 
 type MaterialFormData = z.infer<typeof materialSchema>;
 
+interface Supplier {
+  id: string;
+  name: string;
+  leadTimeDays: number;
+  isActive: boolean;
+}
+
+// Keeps the Select controlled when the material has no preferred supplier
+const NO_SUPPLIER = "none";
+
 interface MaterialFormProps {
+  // Preferred supplier options; the reorder fields are hidden without them
+  suppliers?: Supplier[];
   onSubmit: (data: any) => void;
   onCancel?: () => void;
   isLoading?: boolean;
@@ -28,6 +46,7 @@ interface MaterialFormProps {
 }
 
 export default function MaterialForm({ 
+  suppliers,
   onSubmit, 
   onCancel, 
   isLoading = false, 
@@ -41,14 +60,21 @@ export default function MaterialForm({
       unit: initialData?.unit || "",
       unitPrice: initialData?.unitPrice?.toString() || "",
       minimumStock: initialData?.minimumStock?.toString() || "0",
+      supplierId: initialData?.supplierId || NO_SUPPLIER,
+      leadTimeDays: initialData?.leadTimeDays?.toString() ?? "",
     },
   });
 
   const handleSubmit = (data: MaterialFormData) => {
+    const { supplierId, leadTimeDays, ...rest } = data;
     const formattedData = {
-      ...data,
+      ...rest,
       unitPrice: data.unitPrice ? parseFloat(data.unitPrice) : undefined,
       minimumStock: parseInt(data.minimumStock),
+      ...(suppliers ? {
+        supplierId: supplierId === NO_SUPPLIER ? null : supplierId,
+        leadTimeDays: leadTimeDays === "" ? null : parseInt(leadTimeDays),
+      } : {}),
     };
     onSubmit(formattedData);
     console.log('Material form submitted:', formattedData);
@@ -168,6 +194,59 @@ export default function MaterialForm({
               />
             </div>
 
+            {suppliers && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <FormField
+                  control={form.control}
+                  name="supplierId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Fornecedor Preferencial</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-material-supplier">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={NO_SUPPLIER}>Nenhum</SelectItem>
+                          {suppliers.filter(s => s.isActive || s.id === field.value).map((supplier) => (
+                            <SelectItem key={supplier.id} value={supplier.id}>
+                              {supplier.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="leadTimeDays"
+                  render={({ field }) => {
+                    const supplier = suppliers.find(s => s.id === form.watch("supplierId"));
+                    return (
+                      <FormItem>
+                        <FormLabel>Prazo de Entrega (dias)</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="number"
+                            min={0}
+                            placeholder={supplier ? `${supplier.leadTimeDays} (padrão do fornecedor)` : "Padrão do fornecedor"}
+                            data-testid="input-material-lead-time"
+                            {...field} 
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    );
+                  }}
+                />
+              </div>
+            )}
+
             <div className="flex justify-end gap-2">
               {onCancel && (
                 <Button 
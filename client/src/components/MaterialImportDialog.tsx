@@ -0,0 +1,259 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { toast } from "@/hooks/use-toast";
+import { apiUpload, extractErrorMessage } from "@/lib/queryClient";
+import { Loader2, Upload } from "lucide-react";
+
+type Location = {
+  id: string;
+  name: string;
+};
+
+type ImportRow = {
+  line: number;
+  code: string;
+  name: string;
+  openingStock: number | null;
+  action: "create" | "update" | null;
+  errors: string[];
+  warnings: string[];
+};
+
+type ImportResponse = {
+  imported: boolean;
+  rows: ImportRow[];
+  created?: number;
+  updated?: number;
+  movements?: number;
+};
+
+interface MaterialImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  locations: Location[];
+  onImported: () => void;
+}
+
+const DEFAULT_LOCATION = "default";
+
+export default function MaterialImportDialog({ open, onOpenChange, locations, onImported }: MaterialImportDialogProps) {
+  const [file, setFile] = useState<File | null>(null);
+  const [openingBalance, setOpeningBalance] = useState(false);
+  const [locationId, setLocationId] = useState(DEFAULT_LOCATION);
+  const [preview, setPreview] = useState<ImportRow[] | null>(null);
+
+  const importUrl = (dryRun: boolean, withOpeningBalance = openingBalance) => {
+    const params = new URLSearchParams({ dryRun: String(dryRun), openingBalance: String(withOpeningBalance) });
+    if (withOpeningBalance && locationId !== DEFAULT_LOCATION) params.set("locationId", locationId);
+    return `/api/materials/import?${params.toString()}`;
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async ({ file, openingBalance }: { file: File; openingBalance: boolean }) => {
+      const response = await apiUpload(importUrl(true, openingBalance), file);
+      return (await response.json()) as ImportResponse;
+    },
+    onSuccess: (result) => setPreview(result.rows),
+    onError: (error: Error) => {
+      setPreview(null);
+      toast({
+        variant: "destructive",
+        title: "Não foi possível ler a planilha",
+        description: extractErrorMessage(error),
+      });
+    },
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const response = await apiUpload(importUrl(false), file);
+      return (await response.json()) as ImportResponse;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Materiais importados",
+        description: `${result.created ?? 0} cadastrados e ${result.updated ?? 0} atualizados` +
+          (result.movements ? `, com ${result.movements} entradas de saldo inicial.` : "."),
+      });
+      handleOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível importar os materiais",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: onImported,
+  });
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setFile(null);
+      setPreview(null);
+      setOpeningBalance(false);
+      setLocationId(DEFAULT_LOCATION);
+    }
+    onOpenChange(next);
+  };
+
+  const handleFileChange = (selected: File | null) => {
+    setFile(selected);
+    setPreview(null);
+    if (selected) previewMutation.mutate({ file: selected, openingBalance });
+  };
+
+  // Warnings about opening stock depend on this option, so validate again
+  const handleOpeningBalanceChange = (checked: boolean) => {
+    setOpeningBalance(checked);
+    if (file) previewMutation.mutate({ file, openingBalance: checked });
+  };
+
+  const rows = preview ?? [];
+  const invalidCount = rows.filter((row) => row.errors.length > 0).length;
+  const createCount = rows.filter((row) => row.action === "create").length;
+  const updateCount = rows.filter((row) => row.action === "update").length;
+  const canImport = Boolean(file) && rows.length > 0 && invalidCount === 0
+    && !previewMutation.isPending && !importMutation.isPending;
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Importar materiais</DialogTitle>
+          <DialogDescription>
+            Envie uma planilha .xlsx ou .csv com as colunas Código, Nome e Unidade e, opcionalmente,
+            Preço unitário, Estoque mínimo, Prazo de entrega e Estoque atual. Códigos já cadastrados
+            são atualizados; células vazias mantêm o valor atual.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="material-import-file">Planilha</Label>
+            <Input
+              id="material-import-file"
+              type="file"
+              accept=".xlsx,.csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet,text/csv"
+              onChange={(e) => handleFileChange(e.target.files?.[0] ?? null)}
+              data-testid="input-material-import-file"
+            />
+          </div>
+
+          <div className="flex flex-col gap-4 md:flex-row md:items-end">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="material-import-opening-balance"
+                checked={openingBalance}
+                onCheckedChange={handleOpeningBalanceChange}
+                data-testid="switch-material-import-opening-balance"
+              />
+              <Label htmlFor="material-import-opening-balance">
+                Lançar o estoque atual dos novos materiais como entrada de saldo inicial
+              </Label>
+            </div>
+            {openingBalance && (
+              <div className="space-y-2 md:w-64">
+                <Label>Local</Label>
+                <Select value={locationId} onValueChange={setLocationId}>
+                  <SelectTrigger data-testid="select-material-import-location">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={DEFAULT_LOCATION}>Local padrão</SelectItem>
+                    {locations.map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          {previewMutation.isPending && (
+            <div className="flex items-center gap-2 py-6 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <span>Validando planilha...</span>
+            </div>
+          )}
+
+          {preview && !previewMutation.isPending && (
+            <div className="space-y-2">
+              <div className="flex flex-wrap gap-2 text-sm" data-testid="text-material-import-summary">
+                <Badge variant="secondary">{createCount} novos</Badge>
+                <Badge variant="secondary">{updateCount} atualizados</Badge>
+                {invalidCount > 0 && <Badge variant="destructive">{invalidCount} com erro</Badge>}
+              </div>
+              {invalidCount > 0 && (
+                <p className="text-sm text-destructive">
+                  Corrija as linhas com erro na planilha e selecione o arquivo novamente.
+                </p>
+              )}
+              <div className="max-h-80 overflow-y-auto rounded-md border">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead className="w-16">Linha</TableHead>
+                      <TableHead>Código</TableHead>
+                      <TableHead>Nome</TableHead>
+                      <TableHead className="text-right">Estoque atual</TableHead>
+                      <TableHead>Situação</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow key={row.line} data-testid={`row-material-import-${row.line}`}>
+                        <TableCell>{row.line}</TableCell>
+                        <TableCell className="font-mono">{row.code}</TableCell>
+                        <TableCell>{row.name}</TableCell>
+                        <TableCell className="text-right">{row.openingStock ?? ""}</TableCell>
+                        <TableCell>
+                          {row.action === "create" && <Badge variant="outline">Novo</Badge>}
+                          {row.action === "update" && <Badge variant="outline">Atualizar</Badge>}
+                          {row.errors.map((error) => (
+                            <p key={error} className="text-sm text-destructive">{error}</p>
+                          ))}
+                          {row.warnings.map((warning) => (
+                            <p key={warning} className="text-sm text-amber-600">{warning}</p>
+                          ))}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancelar
+          </Button>
+          <Button
+            onClick={() => file && importMutation.mutate(file)}
+            disabled={!canImport}
+            data-testid="button-confirm-material-import"
+          >
+            {importMutation.isPending ? (
+              <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Upload className="h-4 w-4 mr-2" />
+            )}
+            Importar {createCount + updateCount} materiais
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
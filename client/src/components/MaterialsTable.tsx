@@ -4,6 +4,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Edit, Trash2, Search, AlertTriangle, CheckCircle, Package } from "lucide-react";
 
 interface Material {
@@ -12,12 +13,29 @@ interface Material {
   code: string;
   unit: string;
   unitPrice?: number;
+  averageCost?: number;
   minimumStock: number;
   currentStock: number;
+  supplierId?: string | null;
+  leadTimeDays?: number | null;
+}
+
+interface Location {
+  id: string;
+  name: string;
 }
 
 interface MaterialsTableProps {
   materials: Material[];
+  // When given, a location filter is shown; "all" means every location
+  locations?: Location[];
+  locationId?: string;
+  onLocationChange?: (locationId: string) => void;
+  // Controlled by the page when it needs them too (e.g. for exports)
+  searchTerm?: string;
+  onSearchChange?: (searchTerm: string) => void;
+  lowStockOnly?: boolean;
+  onLowStockOnlyChange?: (lowStockOnly: boolean) => void;
   onEdit?: (material: Material) => void;
   onDelete?: (materialId: string) => void;
   isLoading?: boolean;
@@ -25,16 +43,30 @@ interface MaterialsTableProps {
 
 export default function MaterialsTable({ 
   materials = [], 
+  locations,
+  locationId = "all",
+  onLocationChange,
+  searchTerm: controlledSearchTerm,
+  onSearchChange,
+  lowStockOnly: controlledLowStockOnly,
+  onLowStockOnlyChange,
   onEdit, 
   onDelete, 
   isLoading = false 
 }: MaterialsTableProps) {
-  const [searchTerm, setSearchTerm] = useState("");
+  const [localSearchTerm, setLocalSearchTerm] = useState("");
+  const [localLowStockOnly, setLocalLowStockOnly] = useState(false);
+  const searchTerm = controlledSearchTerm ?? localSearchTerm;
+  const setSearchTerm = onSearchChange ?? setLocalSearchTerm;
+  const lowStockOnly = controlledLowStockOnly ?? localLowStockOnly;
+  const setLowStockOnly = onLowStockOnlyChange ?? setLocalLowStockOnly;
 
-  const filteredMaterials = materials.filter(material =>
-    material.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-    material.code.toLowerCase().includes(searchTerm.toLowerCase())
-  );
+  const filteredMaterials = materials
+    .filter(material =>
+      material.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      material.code.toLowerCase().includes(searchTerm.toLowerCase())
+    )
+    .filter(material => !lowStockOnly || material.currentStock <= material.minimumStock);
 
   const getStockStatus = (current: number, minimum: number) => {
     if (current === 0) {
@@ -94,24 +126,53 @@ export default function MaterialsTable({
         <CardDescription>
           Gerencie o cadastro de materiais e monitore os níveis de estoque
         </CardDescription>
-        <div className="relative">
-          <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
-          <Input
-            placeholder="Buscar por nome ou código..."
-            value={searchTerm}
-            onChange={(e) => {
-              setSearchTerm(e.target.value);
-              console.log('Searching materials:', e.target.value);
-            }}
-            className="pl-10"
-            data-testid="input-search-materials"
-          />
+        <div className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+            <Input
+              placeholder="Buscar por nome ou código..."
+              value={searchTerm}
+              onChange={(e) => {
+                setSearchTerm(e.target.value);
+                console.log('Searching materials:', e.target.value);
+              }}
+              className="pl-10"
+              data-testid="input-search-materials"
+            />
+          </div>
+          <Select
+            value={lowStockOnly ? "low" : "all"}
+            onValueChange={(value) => setLowStockOnly(value === "low")}
+          >
+            <SelectTrigger className="w-full sm:w-48" data-testid="select-materials-stock-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">Todos os status</SelectItem>
+              <SelectItem value="low">Estoque baixo</SelectItem>
+            </SelectContent>
+          </Select>
+          {locations && onLocationChange && (
+            <Select value={locationId} onValueChange={onLocationChange}>
+              <SelectTrigger className="w-full sm:w-56" data-testid="select-materials-location">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os locais</SelectItem>
+                {locations.map((location) => (
+                  <SelectItem key={location.id} value={location.id}>
+                    {location.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
         </div>
       </CardHeader>
       <CardContent>
         {filteredMaterials.length === 0 ? (
           <div className="text-center py-8 text-muted-foreground" data-testid="text-no-materials">
-            {searchTerm ? 'Nenhum material encontrado' : 'Nenhum material cadastrado'}
+            {searchTerm || lowStockOnly ? 'Nenhum material encontrado' : 'Nenhum material cadastrado'}
           </div>
         ) : (
           <div className="overflow-x-auto">
@@ -122,7 +183,8 @@ export default function MaterialsTable({
                   <TableHead>Código</TableHead>
                   <TableHead>Unidade</TableHead>
                   <TableHead>Preço Unit.</TableHead>
-                  <TableHead>Estoque Atual</TableHead>
+                  <TableHead>Custo Médio</TableHead>
+                  <TableHead>{locationId === "all" ? "Estoque Atual" : "Estoque no Local"}</TableHead>
                   <TableHead>Estoque Mín.</TableHead>
                   <TableHead>Status</TableHead>
                   <TableHead>Ações</TableHead>
@@ -149,6 +211,7 @@ export default function MaterialsTable({
                       </TableCell>
                       <TableCell>{material.unit}</TableCell>
                       <TableCell>{formatPrice(material.unitPrice)}</TableCell>
+                      <TableCell>{formatPrice(material.averageCost)}</TableCell>
                       <TableCell className="font-bold">
                         <span data-testid={`text-current-stock-${material.id}`}>
                           {material.currentStock}
@@ -0,0 +1,355 @@
+import { useForm, useFieldArray } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Plus, Save, Trash2 } from "lucide-react";
+
+interface Supplier {
+  id: string;
+  name: string;
+  isActive: boolean;
+}
+
+interface Material {
+  id: string;
+  name: string;
+  code: string;
+  unit: string;
+  averageCost?: string;
+}
+
+interface Location {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+export interface PurchaseOrderFormValues {
+  supplierId: string;
+  locationId: string;
+  items: { materialId: string; quantity: string; unitPrice: string }[];
+  observation?: string;
+}
+
+interface PurchaseOrderFormProps {
+  suppliers: Supplier[];
+  materials: Material[];
+  locations: Location[];
+  // Filled in when editing a draft
+  defaultValues?: PurchaseOrderFormValues;
+  submitLabel?: string;
+  onSubmit: (data: any) => void;
+  onCancel?: () => void;
+  isLoading?: boolean;
+}
+
+const purchaseOrderSchema = z.object({
+  supplierId: z.string().min(1, "Fornecedor é obrigatório"),
+  locationId: z.string(),
+  items: z.array(z.object({
+    materialId: z.string().min(1, "Material é obrigatório"),
+    quantity: z.string().min(1, "Quantidade é obrigatória"),
+    unitPrice: z.string().min(1, "Preço é obrigatório"),
+  })).min(1, "Adicione ao menos um material"),
+  observation: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const seen = new Set<string>();
+  data.items.forEach((item, index) => {
+    if (item.materialId && seen.has(item.materialId)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["items", index, "materialId"],
+        message: "Material já adicionado em outra linha",
+      });
+    }
+    seen.add(item.materialId);
+
+    const quantity = Number(item.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["items", index, "quantity"],
+        message: "Informe uma quantidade inteira maior que zero",
+      });
+    }
+    if (item.unitPrice && !/^\d+(\.\d{1,2})?$/.test(item.unitPrice)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ["items", index, "unitPrice"],
+        message: "Informe um preço válido",
+      });
+    }
+  });
+});
+
+const emptyItem = { materialId: "", quantity: "", unitPrice: "" };
+
+function formatCurrency(value: number) {
+  return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+export default function PurchaseOrderForm({
+  suppliers,
+  materials = [],
+  locations,
+  defaultValues,
+  submitLabel = "Salvar Rascunho",
+  onSubmit,
+  onCancel,
+  isLoading = false
+}: PurchaseOrderFormProps) {
+  const form = useForm<PurchaseOrderFormValues>({
+    resolver: zodResolver(purchaseOrderSchema),
+    defaultValues: defaultValues ?? {
+      supplierId: "",
+      locationId: locations.find(l => l.isDefault)?.id ?? "",
+      items: [emptyItem],
+      observation: "",
+    },
+  });
+
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "items",
+  });
+
+  const watchedItems = form.watch("items");
+  const total = watchedItems.reduce(
+    (sum, item) => sum + (Number(item.quantity) || 0) * (Number(item.unitPrice) || 0),
+    0,
+  );
+
+  const handleSubmit = (data: PurchaseOrderFormValues) => {
+    onSubmit({
+      supplierId: data.supplierId,
+      ...(data.locationId ? { locationId: data.locationId } : {}),
+      observation: data.observation?.trim() || null,
+      items: data.items.map(item => ({
+        materialId: item.materialId,
+        quantity: parseInt(item.quantity),
+        unitPrice: item.unitPrice,
+      })),
+    });
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4" data-testid="form-purchase-order">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="supplierId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Fornecedor</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-purchase-order-supplier">
+                      <SelectValue placeholder="Selecione o fornecedor" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {suppliers.filter(s => s.isActive || s.id === field.value).map((supplier) => (
+                      <SelectItem key={supplier.id} value={supplier.id}>
+                        {supplier.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          <FormField
+            control={form.control}
+            name="locationId"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Local de entrega</FormLabel>
+                <Select onValueChange={field.onChange} value={field.value}>
+                  <FormControl>
+                    <SelectTrigger data-testid="select-purchase-order-location">
+                      <SelectValue placeholder="Selecione o local" />
+                    </SelectTrigger>
+                  </FormControl>
+                  <SelectContent>
+                    {locations.filter(l => l.isActive).map((location) => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        </div>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <FormLabel>Itens</FormLabel>
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => append(emptyItem)}
+              data-testid="button-add-purchase-order-item"
+            >
+              <Plus className="h-4 w-4 mr-2" />
+              Adicionar material
+            </Button>
+          </div>
+
+          {fields.map((field, index) => {
+            const selectedMaterial = materials.find(m => m.id === watchedItems[index]?.materialId);
+
+            return (
+              <div
+                key={field.id}
+                className="grid grid-cols-[1fr_7rem_8rem_auto] items-start gap-2 rounded-md border p-3"
+                data-testid={`row-purchase-order-item-${index}`}
+              >
+                <FormField
+                  control={form.control}
+                  name={`items.${index}.materialId`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid={`select-purchase-order-material-${index}`}>
+                            <SelectValue placeholder="Selecione o material" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {materials.map((material) => (
+                            <SelectItem key={material.id} value={material.id}>
+                              {material.code} - {material.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {selectedMaterial?.averageCost && (
+                        <div className="text-xs text-muted-foreground">
+                          Custo médio atual: {formatCurrency(Number(selectedMaterial.averageCost))}
+                        </div>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name={`items.${index}.quantity`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          min={1}
+                          placeholder={selectedMaterial ? `Qtd (${selectedMaterial.unit})` : "Qtd"}
+                          data-testid={`input-purchase-order-quantity-${index}`}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name={`items.${index}.unitPrice`}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min={0}
+                          placeholder="R$ unit."
+                          data-testid={`input-purchase-order-price-${index}`}
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <Button
+                  type="button"
+                  size="icon"
+                  variant="ghost"
+                  onClick={() => remove(index)}
+                  disabled={fields.length === 1}
+                  data-testid={`button-remove-purchase-order-item-${index}`}
+                >
+                  <Trash2 className="h-4 w-4 text-destructive" />
+                </Button>
+              </div>
+            );
+          })}
+          {form.formState.errors.items?.root?.message && (
+            <p className="text-sm font-medium text-destructive">
+              {form.formState.errors.items.root.message}
+            </p>
+          )}
+          <div className="text-right text-sm">
+            Total do pedido: <span className="font-semibold">{formatCurrency(total)}</span>
+          </div>
+        </div>
+
+        <FormField
+          control={form.control}
+          name="observation"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Observação (opcional)</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder="Condições de pagamento, prazo de entrega..."
+                  data-testid="textarea-purchase-order-observation"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              data-testid="button-cancel-purchase-order-form"
+            >
+              Cancelar
+            </Button>
+          )}
+          <Button
+            type="submit"
+            disabled={isLoading}
+            data-testid="button-save-purchase-order"
+          >
+            {isLoading ? "Salvando..." : (
+              <>
+                <Save className="h-4 w-4 mr-2" />
+                {submitLabel}
+              </>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -1,24 +1,13 @@
-import { useState } from "react";
-import { useForm } from "react-hook-form";
+import { useForm, useFieldArray } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { z } from "zod";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
-import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { ClipboardList, Send } from "lucide-react";
-
-const requisitionSchema = z.object({
-  employeeId: z.string().min(1, "Funcionário é obrigatório"),
-  materialId: z.string().min(1, "Material é obrigatório"),
-  quantity: z.string().min(1, "Quantidade é obrigatória"),
-  observation: z.string().optional(),
-});
-
-type RequisitionFormData = z.infer<typeof requisitionSchema>;
+import { ClipboardList, Send, Plus, Trash2 } from "lucide-react";
 
 interface Employee {
   id: string;
@@ -34,70 +23,164 @@ interface Material {
   unit: string;
 }
 
+interface Location {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+interface CostCenter {
+  id: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+}
+
 interface RequisitionFormProps {
-  employees: Employee[];
+  // Omitted when an employee requests materials for themselves
+  employees?: Employee[];
   materials: Material[];
+  // Where the materials are withdrawn from; the default location when omitted
+  locations?: Location[];
+  // Offered when given; the requisition is charged to the chosen cost center
+  costCenters?: CostCenter[];
+  title?: string;
+  description?: string;
+  submitLabel?: string;
   onSubmit: (data: any) => void;
   onCancel?: () => void;
   isLoading?: boolean;
 }
 
-export default function RequisitionForm({ 
-  employees = [], 
-  materials = [], 
-  onSubmit, 
-  onCancel, 
-  isLoading = false 
-}: RequisitionFormProps) {
-  const [selectedMaterial, setSelectedMaterial] = useState<Material | null>(null);
+const itemSchema = z.object({
+  materialId: z.string().min(1, "Material é obrigatório"),
+  quantity: z.string().min(1, "Quantidade é obrigatória"),
+});
 
+// Stock checks depend on the material list, so the schema is built per render
+function buildRequisitionSchema(materials: Material[], requireEmployee: boolean) {
+  return z.object({
+    employeeId: requireEmployee ? z.string().min(1, "Funcionário é obrigatório") : z.string(),
+    locationId: z.string(),
+    costCenterId: z.string(),
+    items: z.array(itemSchema).min(1, "Adicione ao menos um material"),
+    observation: z.string().optional(),
+  }).superRefine((data, ctx) => {
+    const seen = new Set<string>();
+    data.items.forEach((item, index) => {
+      if (item.materialId && seen.has(item.materialId)) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["items", index, "materialId"],
+          message: "Material já adicionado em outra linha",
+        });
+      }
+      seen.add(item.materialId);
+
+      const quantity = Number(item.quantity);
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["items", index, "quantity"],
+          message: "Informe uma quantidade inteira maior que zero",
+        });
+        return;
+      }
+
+      const material = materials.find(m => m.id === item.materialId);
+      if (material && quantity > material.currentStock) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: ["items", index, "quantity"],
+          message: `Estoque insuficiente: disponível ${material.currentStock} ${material.unit}`,
+        });
+      }
+    });
+  });
+}
+
+type RequisitionFormData = {
+  employeeId: string;
+  locationId: string;
+  costCenterId: string;
+  items: { materialId: string; quantity: string }[];
+  observation?: string;
+};
+
+const emptyItem = { materialId: "", quantity: "" };
+
+// Select items cannot have an empty value
+const NO_COST_CENTER = "none";
+
+export default function RequisitionForm({
+  employees,
+  materials = [],
+  locations,
+  costCenters,
+  title = "Nova Requisição",
+  description = "Crie uma nova requisição de materiais para um funcionário. Todos os itens são assinados de uma vez.",
+  submitLabel = "Criar Requisição",
+  onSubmit,
+  onCancel,
+  isLoading = false
+}: RequisitionFormProps) {
   const form = useForm<RequisitionFormData>({
-    resolver: zodResolver(requisitionSchema),
+    resolver: zodResolver(buildRequisitionSchema(materials, Boolean(employees))),
     defaultValues: {
       employeeId: "",
-      materialId: "",
-      quantity: "",
+      locationId: locations?.find(l => l.isDefault)?.id ?? "",
+      costCenterId: NO_COST_CENTER,
+      items: [emptyItem],
       observation: "",
     },
   });
 
+  const { fields, append, remove } = useFieldArray({
+    control: form.control,
+    name: "items",
+  });
+
+  const watchedItems = form.watch("items");
+
   const handleSubmit = (data: RequisitionFormData) => {
+    const { employeeId, locationId, costCenterId, ...rest } = data;
     const formattedData = {
-      ...data,
-      quantity: parseInt(data.quantity),
+      ...(employees ? { employeeId } : {}),
+      ...(locations && locationId ? { locationId } : {}),
+      ...(costCenters && costCenterId !== NO_COST_CENTER ? { costCenterId } : {}),
+      ...rest,
+      items: data.items.map(item => ({
+        materialId: item.materialId,
+        quantity: parseInt(item.quantity),
+      })),
     };
     onSubmit(formattedData);
     console.log('Requisition form submitted:', formattedData);
   };
 
-  const handleMaterialChange = (materialId: string) => {
-    const material = materials.find(m => m.id === materialId);
-    setSelectedMaterial(material || null);
-    form.setValue('materialId', materialId);
-  };
-
   return (
     <Card className="w-full max-w-2xl mx-auto" data-testid="card-requisition-form">
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <ClipboardList className="h-5 w-5" />
-          Nova Requisição
+          {title}
         </CardTitle>
         <CardDescription>
-          Crie uma nova requisição de material para um funcionário
+          {description}
         </CardDescription>
       </CardHeader>
       <CardContent>
         <Form {...form}>
           <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4">
-            <FormField
+            {employees && <FormField
               control={form.control}
               name="employeeId"
               render={({ field }) => (
                 <FormItem>
                   <FormLabel>Funcionário</FormLabel>
-                  <Select 
-                    onValueChange={field.onChange} 
+                  <Select
+                    onValueChange={field.onChange}
                     defaultValue={field.value}
                     data-testid="select-employee"
                   >
@@ -108,8 +191,8 @@ export default function RequisitionForm({
                     </FormControl>
                     <SelectContent>
                       {employees.map((employee) => (
-                        <SelectItem 
-                          key={employee.id} 
+                        <SelectItem
+                          key={employee.id}
                           value={employee.id}
                           data-testid={`option-employee-${employee.id}`}
                         >
@@ -126,37 +209,24 @@ export default function RequisitionForm({
                   <FormMessage />
                 </FormItem>
               )}
-            />
+            />}
 
-            <FormField
+            {locations && <FormField
               control={form.control}
-              name="materialId"
+              name="locationId"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>Material</FormLabel>
-                  <Select 
-                    onValueChange={handleMaterialChange} 
-                    defaultValue={field.value}
-                    data-testid="select-material"
-                  >
+                  <FormLabel>Local de retirada</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
                     <FormControl>
-                      <SelectTrigger>
-                        <SelectValue placeholder="Selecione o material" />
+                      <SelectTrigger data-testid="select-requisition-location">
+                        <SelectValue placeholder="Selecione o local" />
                       </SelectTrigger>
                     </FormControl>
                     <SelectContent>
-                      {materials.map((material) => (
-                        <SelectItem 
-                          key={material.id} 
-                          value={material.id}
-                          data-testid={`option-material-${material.id}`}
-                        >
-                          <div>
-                            <div>{material.name}</div>
-                            <div className="text-sm text-muted-foreground">
-                              {material.code} - Estoque: {material.currentStock} {material.unit}
-                            </div>
-                          </div>
+                      {locations.filter(l => l.isActive).map((location) => (
+                        <SelectItem key={location.id} value={location.id}>
+                          {location.name}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -164,40 +234,138 @@ export default function RequisitionForm({
                   <FormMessage />
                 </FormItem>
               )}
-            />
+            />}
 
-            {selectedMaterial && (
-              <div className="p-3 bg-muted rounded-md">
-                <div className="text-sm">
-                  <strong>Material selecionado:</strong> {selectedMaterial.name}
-                </div>
-                <div className="text-sm text-muted-foreground">
-                  Estoque atual: {selectedMaterial.currentStock} {selectedMaterial.unit}
-                </div>
-              </div>
-            )}
-
-            <FormField
+            {costCenters && <FormField
               control={form.control}
-              name="quantity"
+              name="costCenterId"
               render={({ field }) => (
                 <FormItem>
-                  <FormLabel>
-                    Quantidade
-                    {selectedMaterial && ` (${selectedMaterial.unit})`}
-                  </FormLabel>
-                  <FormControl>
-                    <Input 
-                      type="number"
-                      placeholder="Ex: 10"
-                      data-testid="input-quantity"
-                      {...field} 
-                    />
-                  </FormControl>
+                  <FormLabel>Centro de custo</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger data-testid="select-requisition-cost-center">
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value={NO_COST_CENTER}>Nenhum</SelectItem>
+                      {costCenters.filter(c => c.isActive).map((costCenter) => (
+                        <SelectItem key={costCenter.id} value={costCenter.id}>
+                          {costCenter.code} - {costCenter.name}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
                   <FormMessage />
                 </FormItem>
               )}
-            />
+            />}
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <FormLabel>Materiais</FormLabel>
+                <Button
+                  type="button"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => append(emptyItem)}
+                  data-testid="button-add-requisition-item"
+                >
+                  <Plus className="h-4 w-4 mr-2" />
+                  Adicionar material
+                </Button>
+              </div>
+
+              {fields.map((field, index) => {
+                const selectedMaterial = materials.find(m => m.id === watchedItems[index]?.materialId);
+
+                return (
+                  <div
+                    key={field.id}
+                    className="grid grid-cols-[1fr_8rem_auto] items-start gap-2 rounded-md border p-3"
+                    data-testid={`row-requisition-item-${index}`}
+                  >
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.materialId`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <Select
+                            onValueChange={field.onChange}
+                            defaultValue={field.value}
+                            data-testid={`select-material-${index}`}
+                          >
+                            <FormControl>
+                              <SelectTrigger>
+                                <SelectValue placeholder="Selecione o material" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {materials.map((material) => (
+                                <SelectItem
+                                  key={material.id}
+                                  value={material.id}
+                                  data-testid={`option-material-${material.id}`}
+                                >
+                                  <div>
+                                    <div>{material.name}</div>
+                                    <div className="text-sm text-muted-foreground">
+                                      {material.code} - Estoque: {material.currentStock} {material.unit}
+                                    </div>
+                                  </div>
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          {selectedMaterial && (
+                            <div className="text-xs text-muted-foreground">
+                              Estoque atual: {selectedMaterial.currentStock} {selectedMaterial.unit}
+                            </div>
+                          )}
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name={`items.${index}.quantity`}
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min={1}
+                              placeholder={selectedMaterial ? `Qtd (${selectedMaterial.unit})` : "Qtd"}
+                              data-testid={`input-quantity-${index}`}
+                              {...field}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <Button
+                      type="button"
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => remove(index)}
+                      disabled={fields.length === 1}
+                      data-testid={`button-remove-requisition-item-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4 text-destructive" />
+                    </Button>
+                  </div>
+                );
+              })}
+              {form.formState.errors.items?.root?.message && (
+                <p className="text-sm font-medium text-destructive">
+                  {form.formState.errors.items.root.message}
+                </p>
+              )}
+            </div>
 
             <FormField
               control={form.control}
@@ -206,10 +374,10 @@ export default function RequisitionForm({
                 <FormItem>
                   <FormLabel>Observação (opcional)</FormLabel>
                   <FormControl>
-                    <Textarea 
+                    <Textarea
                       placeholder="Informações adicionais sobre a requisição..."
                       data-testid="textarea-observation"
-                      {...field} 
+                      {...field}
                     />
                   </FormControl>
                   <FormMessage />
@@ -219,24 +387,24 @@ export default function RequisitionForm({
 
             <div className="flex justify-end gap-2">
               {onCancel && (
-                <Button 
-                  type="button" 
-                  variant="outline" 
+                <Button
+                  type="button"
+                  variant="outline"
                   onClick={onCancel}
                   data-testid="button-cancel-requisition"
                 >
                   Cancelar
                 </Button>
               )}
-              <Button 
-                type="submit" 
+              <Button
+                type="submit"
                 disabled={isLoading}
                 data-testid="button-create-requisition"
               >
-                {isLoading ? "Criando..." : (
+                {isLoading ? "Enviando..." : (
                   <>
                     <Send className="h-4 w-4 mr-2" />
-                    Criar Requisição
+                    {submitLabel}
                   </>
                 )}
               </Button>
@@ -246,4 +414,4 @@ export default function RequisitionForm({
       </CardContent>
     </Card>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,64 @@
+import { useQuery } from "@tanstack/react-query";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { ShieldCheck, ShieldAlert, ShieldQuestion, Loader2 } from "lucide-react";
+
+type SignatureVerification = {
+  requisitionId: string;
+  status: "VALID" | "INVALID" | "UNSIGNED";
+  payloadMatches: boolean;
+  hashMatches: boolean;
+  hmacMatches: boolean;
+  signedAt: string | null;
+  signatureHash: string | null;
+};
+
+interface SignatureVerificationBadgeProps {
+  requisitionId: string;
+}
+
+export default function SignatureVerificationBadge({ requisitionId }: SignatureVerificationBadgeProps) {
+  const { data, isLoading, isError } = useQuery<SignatureVerification>({
+    queryKey: ["/api/requisitions", requisitionId, "verify"],
+  });
+
+  if (isLoading) {
+    return (
+      <Badge variant="outline" className="gap-1" data-testid="badge-signature-loading">
+        <Loader2 className="h-3 w-3 animate-spin" />
+        Verificando
+      </Badge>
+    );
+  }
+
+  if (isError || !data || data.status === "UNSIGNED") {
+    return (
+      <Badge variant="outline" className="gap-1" data-testid="badge-signature-unverified">
+        <ShieldQuestion className="h-3 w-3" />
+        Não verificada
+      </Badge>
+    );
+  }
+
+  const isValid = data.status === "VALID";
+
+  return (
+    <Tooltip>
+      <TooltipTrigger asChild>
+        <Badge
+          variant={isValid ? "default" : "destructive"}
+          className="gap-1"
+          data-testid={`badge-signature-${isValid ? "valid" : "invalid"}`}
+        >
+          {isValid ? <ShieldCheck className="h-3 w-3" /> : <ShieldAlert className="h-3 w-3" />}
+          {isValid ? "Assinatura íntegra" : "Assinatura violada"}
+        </Badge>
+      </TooltipTrigger>
+      <TooltipContent>
+        <p className="font-mono text-xs break-all max-w-xs">
+          {data.signatureHash}
+        </p>
+      </TooltipContent>
+    </Tooltip>
+  );
+}
@@ -0,0 +1,381 @@
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { z } from "zod";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
+import { Check } from "lucide-react";
+
+export type StockMovementType = 'ENTRADA' | 'SAIDA' | 'AJUSTE' | 'TRANSFERENCIA';
+
+const movementSchema = z.object({
+  type: z.enum(['ENTRADA', 'SAIDA', 'AJUSTE', 'TRANSFERENCIA']),
+  materialId: z.string().min(1, "Material é obrigatório"),
+  quantity: z.string().min(1, "Quantidade é obrigatória"),
+  sourceLocationId: z.string().optional(),
+  destinationLocationId: z.string().optional(),
+  invoiceNumber: z.string().optional(),
+  lotNumber: z.string().optional(),
+  expiresAt: z.string().optional(),
+  unitPrice: z.string().optional(),
+  observation: z.string().optional(),
+}).superRefine((data, ctx) => {
+  const quantity = Number(data.quantity);
+  if (!Number.isInteger(quantity) || quantity < 0 || (data.type !== 'AJUSTE' && quantity === 0)) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["quantity"], message: "Informe uma quantidade inteira válida" });
+  }
+  if (data.type === 'ENTRADA') {
+    if (!data.invoiceNumber?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["invoiceNumber"], message: "Número da nota fiscal é obrigatório" });
+    }
+    if (!data.unitPrice || Number(data.unitPrice) < 0) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["unitPrice"], message: "Custo unitário é obrigatório" });
+    }
+    if (data.expiresAt && !data.lotNumber?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lotNumber"], message: "Informe o lote da data de validade" });
+    }
+  }
+  if (data.type === 'AJUSTE' && !data.observation?.trim()) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["observation"], message: "Justificativa é obrigatória" });
+  }
+  if (data.type === 'TRANSFERENCIA') {
+    if (!data.sourceLocationId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sourceLocationId"], message: "Local de origem é obrigatório" });
+    }
+    if (!data.destinationLocationId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["destinationLocationId"], message: "Local de destino é obrigatório" });
+    } else if (data.destinationLocationId === data.sourceLocationId) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["destinationLocationId"], message: "Escolha um local diferente da origem" });
+    }
+  }
+});
+
+type MovementFormData = z.infer<typeof movementSchema>;
+
+interface Material {
+  id: string;
+  name: string;
+  code: string;
+  currentStock: number;
+  unit: string;
+}
+
+interface Location {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  isActive: boolean;
+}
+
+interface StockBalance {
+  locationId: string;
+  quantity: number;
+}
+
+interface StockMovementFormProps {
+  type: StockMovementType;
+  materials: Material[];
+  // Without locations the server books the movement at the default location
+  locations?: Location[];
+  // Per-location balances of the selected material, shown next to the location
+  balances?: StockBalance[];
+  onMaterialChange?: (materialId: string) => void;
+  onSubmit: (data: any) => void;
+  onCancel?: () => void;
+  isLoading?: boolean;
+}
+
+// SAIDA takes from the source; ENTRADA and AJUSTE act on the destination
+function usesSource(type: StockMovementType) {
+  return type === 'SAIDA' || type === 'TRANSFERENCIA';
+}
+
+function usesDestination(type: StockMovementType) {
+  return type !== 'SAIDA';
+}
+
+export default function StockMovementForm({
+  type,
+  materials = [],
+  locations,
+  balances = [],
+  onMaterialChange,
+  onSubmit,
+  onCancel,
+  isLoading = false
+}: StockMovementFormProps) {
+  const defaultLocationId = locations?.find(l => l.isDefault)?.id ?? "";
+  const form = useForm<MovementFormData>({
+    resolver: zodResolver(movementSchema),
+    defaultValues: {
+      type,
+      materialId: "",
+      quantity: "",
+      sourceLocationId: defaultLocationId,
+      destinationLocationId: type === 'TRANSFERENCIA' ? "" : defaultLocationId,
+      invoiceNumber: "",
+      lotNumber: "",
+      expiresAt: "",
+      unitPrice: "",
+      observation: "",
+    },
+  });
+
+  const selectedMaterial = materials.find(m => m.id === form.watch("materialId"));
+  const balanceAt = (locationId: string) =>
+    balances.find(b => b.locationId === locationId)?.quantity ?? 0;
+
+  const handleSubmit = (data: MovementFormData) => {
+    const formattedData = {
+      type: data.type,
+      materialId: data.materialId,
+      quantity: parseInt(data.quantity),
+      sourceLocationId: usesSource(data.type) ? data.sourceLocationId || undefined : undefined,
+      destinationLocationId: usesDestination(data.type) ? data.destinationLocationId || undefined : undefined,
+      invoiceNumber: data.type === 'ENTRADA' ? data.invoiceNumber?.trim() : undefined,
+      unitPrice: data.type === 'ENTRADA' ? data.unitPrice : undefined,
+      lotNumber: data.type === 'ENTRADA' ? data.lotNumber?.trim() || undefined : undefined,
+      expiresAt: data.type === 'ENTRADA' ? data.expiresAt || undefined : undefined,
+      observation: data.observation?.trim() || undefined,
+    };
+    onSubmit(formattedData);
+  };
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit(handleSubmit)} className="space-y-4" data-testid={`form-movement-${type.toLowerCase()}`}>
+        <FormField
+          control={form.control}
+          name="materialId"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Material</FormLabel>
+              <Select
+                onValueChange={(value) => {
+                  field.onChange(value);
+                  onMaterialChange?.(value);
+                }}
+                value={field.value}
+              >
+                <FormControl>
+                  <SelectTrigger data-testid="select-movement-material">
+                    <SelectValue placeholder="Selecione o material" />
+                  </SelectTrigger>
+                </FormControl>
+                <SelectContent>
+                  {materials.map((material) => (
+                    <SelectItem key={material.id} value={material.id}>
+                      {material.code} - {material.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {selectedMaterial && (
+                <FormDescription>
+                  Estoque atual: {selectedMaterial.currentStock} {selectedMaterial.unit}
+                </FormDescription>
+              )}
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        {locations && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            {(['sourceLocationId', 'destinationLocationId'] as const)
+              .filter(name => name === 'sourceLocationId' ? usesSource(type) : usesDestination(type))
+              .map(name => (
+                <FormField
+                  key={name}
+                  control={form.control}
+                  name={name}
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>{name === 'sourceLocationId' ? 'Local de origem' : 'Local de destino'}</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger data-testid={`select-movement-${name === 'sourceLocationId' ? 'source' : 'destination'}`}>
+                            <SelectValue placeholder="Selecione o local" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {locations
+                            // Inactive locations can still be emptied, but not receive stock
+                            .filter(location => location.isActive || name === 'sourceLocationId')
+                            .map((location) => (
+                              <SelectItem key={location.id} value={location.id}>
+                                {location.name}
+                              </SelectItem>
+                            ))}
+                        </SelectContent>
+                      </Select>
+                      {selectedMaterial && field.value && (
+                        <FormDescription>
+                          Saldo no local: {balanceAt(field.value)} {selectedMaterial.unit}
+                        </FormDescription>
+                      )}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              ))}
+          </div>
+        )}
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <FormField
+            control={form.control}
+            name="quantity"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>{type === 'AJUSTE' ? 'Quantidade contada' : 'Quantidade'}</FormLabel>
+                <FormControl>
+                  <Input
+                    type="number"
+                    min={type === 'AJUSTE' ? 0 : 1}
+                    placeholder="0"
+                    data-testid="input-movement-quantity"
+                    {...field}
+                  />
+                </FormControl>
+                {type === 'AJUSTE' && (
+                  <FormDescription>
+                    {locations ? 'O saldo do material no local passa a ser esta quantidade' : 'O saldo do material passa a ser esta quantidade'}
+                  </FormDescription>
+                )}
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {type === 'ENTRADA' && (
+            <FormField
+              control={form.control}
+              name="unitPrice"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Custo Unitário (R$)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="number"
+                      step="0.01"
+                      min={0}
+                      placeholder="0.00"
+                      data-testid="input-movement-unit-price"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          )}
+        </div>
+
+        {type === 'ENTRADA' && (
+          <FormField
+            control={form.control}
+            name="invoiceNumber"
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Nota Fiscal do Fornecedor</FormLabel>
+                <FormControl>
+                  <Input
+                    placeholder="Ex: 000123456"
+                    data-testid="input-movement-invoice"
+                    {...field}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+        )}
+
+        {type === 'ENTRADA' && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <FormField
+              control={form.control}
+              name="lotNumber"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Lote (opcional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      placeholder="Ex: L2024-031"
+                      data-testid="input-movement-lot"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="expiresAt"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Validade (opcional)</FormLabel>
+                  <FormControl>
+                    <Input
+                      type="date"
+                      data-testid="input-movement-expires-at"
+                      {...field}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+          </div>
+        )}
+
+        <FormField
+          control={form.control}
+          name="observation"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>{type === 'AJUSTE' ? 'Justificativa' : 'Observação (opcional)'}</FormLabel>
+              <FormControl>
+                <Textarea
+                  placeholder={type === 'AJUSTE' ? 'Explique o motivo do ajuste de estoque' : 'Informações adicionais'}
+                  data-testid="input-movement-observation"
+                  {...field}
+                />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+
+        <div className="flex justify-end gap-2">
+          {onCancel && (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              data-testid="button-cancel-movement"
+            >
+              Cancelar
+            </Button>
+          )}
+          <Button
+            type="submit"
+            disabled={isLoading}
+            data-testid="button-save-movement"
+          >
+            {isLoading ? "Registrando..." : (
+              <>
+                <Check className="h-4 w-4 mr-2" />
+                Registrar
+              </>
+            )}
+          </Button>
+        </div>
+      </form>
+    </Form>
+  );
+}
@@ -7,9 +7,16 @@ import {
   Shield,
   AlertTriangle,
   LayoutDashboard,
+  Warehouse,
+  ClipboardCheck,
+  ShoppingCart,
+  Factory,
+  PackagePlus,
 } from "lucide-react";
 import type { LucideIcon } from "lucide-react";
 import { Link, useLocation } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 import {
   Sidebar,
@@ -31,89 +38,94 @@ type MenuItem = {
   title: string;
   url: string;
   icon: LucideIcon;
-  badge?: number;
+  permission: Permission;
 };
 
-// Menu items for different roles
-const adminMenuItems: MenuItem[] = [
+// Each entry is shown to every role holding its permission
+const menuItems: MenuItem[] = [
   {
     title: "Dashboard",
     url: "/dashboard",
     icon: LayoutDashboard,
+    permission: "dashboard:view",
   },
   {
     title: "Requisições",
     url: "/requisicoes",
     icon: ClipboardList,
-    badge: 5, // todo: get real count from backend
+    permission: "requisitions:manage",
+  },
+  {
+    title: "Requisições",
+    url: "/my-requisitions",
+    icon: ClipboardList,
+    permission: "requisitions:view-own",
   },
   {
     title: "Materiais",
     url: "/materiais",
     icon: Package,
+    permission: "materials:view",
   },
   {
-    title: "Relatórios",
-    url: "/reports",
-    icon: BarChart3,
-  },
-  {
-    title: "Usuários",
-    url: "/users",
-    icon: Users,
+    title: "Locais",
+    url: "/locations",
+    icon: Warehouse,
+    permission: "materials:view",
   },
   {
-    title: "Auditoria",
-    url: "/audit",
-    icon: Shield,
+    title: "Movimentações",
+    url: "/movements",
+    icon: BarChart3,
+    permission: "movements:view",
   },
-];
-
-const stockMenuItems: MenuItem[] = [
   {
-    title: "Dashboard",
-    url: "/dashboard",
-    icon: LayoutDashboard,
+    title: "Inventário",
+    url: "/inventory",
+    icon: ClipboardCheck,
+    permission: "inventory:manage",
   },
   {
-    title: "Requisições",
-    url: "/requisicoes",
-    icon: ClipboardList,
-    badge: 5,
+    title: "Pedidos de Compra",
+    url: "/purchase-orders",
+    icon: ShoppingCart,
+    permission: "purchasing:manage",
   },
   {
-    title: "Materiais",
-    url: "/materiais",
-    icon: Package,
+    title: "Reposição",
+    url: "/replenishment",
+    icon: PackagePlus,
+    permission: "purchasing:manage",
   },
   {
-    title: "Movimentações",
-    url: "/movements",
-    icon: BarChart3,
+    title: "Fornecedores",
+    url: "/suppliers",
+    icon: Factory,
+    permission: "purchasing:manage",
   },
   {
     title: "Alertas",
     url: "/alerts",
     icon: AlertTriangle,
-    badge: 3, // todo: get real count from backend
+    permission: "alerts:view",
   },
-];
-
-const employeeMenuItems: MenuItem[] = [
   {
-    title: "Dashboard",
-    url: "/dashboard",
-    icon: LayoutDashboard,
+    title: "Relatórios",
+    url: "/reports",
+    icon: BarChart3,
+    permission: "reports:view",
   },
   {
-    title: "Requisições",
-    url: "/my-requisitions",
-    icon: ClipboardList,
+    title: "Usuários",
+    url: "/users",
+    icon: Users,
+    permission: "users:manage",
   },
   {
-    title: "Materiais",
-    url: "/materiais",
-    icon: Package,
+    title: "Auditoria",
+    url: "/audit",
+    icon: Shield,
+    permission: "audit:view",
   },
 ];
 
@@ -139,19 +151,6 @@ export function AppSidebar({
       .replace(/[\u0300-\u036f]/g, "")
       .replace(/\s+/g, "-");
 
-  const getMenuItems = () => {
-    switch (userRole) {
-      case "ADMIN":
-        return adminMenuItems;
-      case "ESTOQUE":
-        return stockMenuItems;
-      case "FUNCIONARIO":
-        return employeeMenuItems;
-      default:
-        return adminMenuItems;
-    }
-  };
-
   const getRoleLabel = () => {
     switch (userRole) {
       case "ADMIN":
@@ -165,7 +164,26 @@ export function AppSidebar({
     }
   };
 
-  const menuItems = getMenuItems();
+  const visibleMenuItems = menuItems.filter((item) => hasPermission(userRole, item.permission));
+
+  // Kept current by the realtime alert feed
+  const alertsQuery = useQuery<{ status: string }[]>({
+    queryKey: ["/api/alerts"],
+    enabled: hasPermission(userRole, "alerts:view"),
+  });
+  const openAlertCount = alertsQuery.data?.filter((alert) => alert.status === "ABERTO").length ?? 0;
+
+  // Requests awaiting approval plus requisitions awaiting signature. Shares
+  // the Requisitions page cache, so it updates whenever that list does.
+  const requisitionsQuery = useQuery<{ status: string }[]>({
+    queryKey: ["/api/requisitions"],
+    enabled: hasPermission(userRole, "requisitions:manage"),
+  });
+  const pendingRequisitionCount = requisitionsQuery.data
+    ?.filter((requisition) => requisition.status === "SOLICITADA" || requisition.status === "PENDENTE").length ?? 0;
+
+  const badgeOf = (item: MenuItem) =>
+    item.url === "/alerts" ? openAlertCount : item.url === "/requisicoes" ? pendingRequisitionCount : 0;
 
   return (
     <Sidebar data-testid="sidebar-main">
@@ -185,8 +203,8 @@ export function AppSidebar({
           <SidebarGroupLabel className="text-xs px-2">Menu</SidebarGroupLabel>
           <SidebarGroupContent>
             <SidebarMenu>
-              {menuItems.map((item) => (
-                <SidebarMenuItem key={item.title}>
+              {visibleMenuItems.map((item) => (
+                <SidebarMenuItem key={item.url}>
                   <SidebarMenuButton
                     asChild
                     isActive={location === item.url}
@@ -195,13 +213,13 @@ export function AppSidebar({
                     <Link href={item.url}>
                       <item.icon className="h-3.5 w-3.5" />
                       <span className="text-sm">{item.title}</span>
-                      {item.badge && (
+                      {Boolean(badgeOf(item)) && (
                         <Badge
                           variant="secondary"
-                          className="ml-auto h-4 w-4 rounded-full p-0 text-xs flex items-center justify-center"
+                          className="ml-auto h-4 min-w-4 rounded-full px-1 py-0 text-xs flex items-center justify-center"
                           data-testid={`badge-${formatTestId(item.title)}`}
                         >
-                          {item.badge}
+                          {badgeOf(item)}
                         </Badge>
                       )}
                     </Link>
@@ -212,7 +230,8 @@ export function AppSidebar({
           </SidebarGroupContent>
         </SidebarGroup>
 
-        {userRole === "ADMIN" && (
+        {/* Everyone picks their own emails there; the mail setup is admin-only */}
+        {hasPermission(userRole, "notifications:manage") && (
           <SidebarGroup>
             <SidebarGroupLabel className="text-xs px-2">Config</SidebarGroupLabel>
             <SidebarGroupContent>
@@ -0,0 +1,27 @@
+import AuditChangesDiff from '../AuditChangesDiff';
+
+// todo: remove mock data when connecting to real backend
+const mockUpdate = {
+  before: { name: 'Parafuso Phillips M6', minimumStock: 50, unitPrice: '0.80' },
+  after: { name: 'Parafuso Phillips M6 x 50mm', minimumStock: 100, unitPrice: '0.85' },
+};
+
+const mockCreate = {
+  after: { code: 'TIN-PRI-001', name: 'Tinta Primer Branca', unit: 'l' },
+};
+
+export default function AuditChangesDiffExample() {
+  return (
+    <div className="p-4 space-y-8">
+      <div>
+        <h3 className="text-lg font-semibold mb-4">Alteração</h3>
+        <AuditChangesDiff changes={mockUpdate} />
+      </div>
+
+      <div>
+        <h3 className="text-lg font-semibold mb-4">Criação</h3>
+        <AuditChangesDiff changes={mockCreate} />
+      </div>
+    </div>
+  );
+}
@@ -3,11 +3,12 @@ import DigitalSignature from '../DigitalSignature';
 // todo: remove mock data when connecting to real backend
 const mockRequisition = {
   id: '1',
+  number: 'REQ-2026-000001',
   employeeName: 'João Silva',
-  materialName: 'Parafuso Phillips M6 x 50mm',
-  materialCode: 'PAR-M6-001',
-  quantity: 50,
-  unit: 'un',
+  items: [
+    { id: '1', materialName: 'Parafuso Phillips M6 x 50mm', materialCode: 'PAR-M6-001', quantity: 50, unit: 'un' },
+    { id: '2', materialName: 'Tinta Primer Branca', materialCode: 'TIN-PRI-001', quantity: 2, unit: 'l' },
+  ],
   observation: 'Material necessário para montagem do equipamento de produção linha 3',
   createdAt: new Date().toISOString(),
   status: 'PENDENTE' as const,
@@ -16,6 +17,7 @@ const mockRequisition = {
 const mockSignedRequisition = {
   ...mockRequisition,
   id: '2',
+  number: 'REQ-2026-000002',
   status: 'ASSINADA' as const,
 };
 
@@ -0,0 +1,31 @@
+import StockMovementForm from '../StockMovementForm';
+
+// todo: remove mock data when connecting to real backend
+const mockMaterials = [
+  { id: '1', name: 'Parafuso Phillips M6 x 50mm', code: 'PAR-M6-001', currentStock: 45, unit: 'un' },
+  { id: '2', name: 'Chapa de Aço Inox 304', code: 'CHA-INOX-001', currentStock: 0, unit: 'm²' },
+  { id: '3', name: 'Tinta Primer Branca', code: 'TIN-PRI-001', currentStock: 25, unit: 'l' },
+];
+
+export default function StockMovementFormExample() {
+  const handleSubmit = (data: any) => {
+    console.log('Stock movement submitted with data:', data);
+    alert('Movimentação registrada com sucesso!');
+  };
+
+  const handleCancel = () => {
+    console.log('Stock movement form cancelled');
+  };
+
+  return (
+    <div className="p-4 max-w-xl">
+      <StockMovementForm 
+        type="ENTRADA"
+        materials={mockMaterials}
+        onSubmit={handleSubmit}
+        onCancel={handleCancel}
+        isLoading={false}
+      />
+    </div>
+  );
+}
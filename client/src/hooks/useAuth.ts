@@ -1,6 +1,8 @@
 import { useQuery } from "@tanstack/react-query";
+import { hasPermission, type Permission } from "@shared/permissions";
 
 interface AuthUser {
+  id?: string;
   role?: string;
   firstName?: string;
   lastName?: string;
@@ -18,5 +20,6 @@ export function useAuth() {
     user: user ?? null,
     isLoading,
     isAuthenticated: Boolean(user),
+    can: (permission: Permission) => hasPermission(user?.role, permission),
   };
 }
@@ -0,0 +1,82 @@
+import { useEffect } from "react";
+import { useQueryClient } from "@tanstack/react-query";
+import { toast } from "@/hooks/use-toast";
+
+type AlertEvent = {
+  type: "alerts";
+  raised: { id: string; message: string }[];
+  updated: { id: string }[];
+};
+
+const MAX_RECONNECT_DELAY_MS = 60 * 1000;
+
+// The alert event in a frame, or null for anything malformed or unknown
+function parseAlertEvent(data: unknown): AlertEvent | null {
+  let event: Partial<AlertEvent> | null;
+  try {
+    event = typeof data === "string" ? JSON.parse(data) : null;
+  } catch {
+    return null;
+  }
+  if (event?.type !== "alerts" || !Array.isArray(event.raised) || !Array.isArray(event.updated)) {
+    return null;
+  }
+  return event as AlertEvent;
+}
+
+// Keeps a WebSocket to the server while `enabled`, refreshing the alert
+// lists and announcing new alerts as they are raised. Reconnects with a
+// growing delay when the connection drops.
+export function useRealtimeAlerts(enabled: boolean) {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    let socket: WebSocket | null = null;
+    let reconnectTimer: ReturnType<typeof setTimeout> | undefined;
+    let reconnectDelay = 1000;
+    let stopped = false;
+
+    const connect = () => {
+      const protocol = window.location.protocol === "https:" ? "wss:" : "ws:";
+      socket = new WebSocket(`${protocol}//${window.location.host}/ws`);
+
+      socket.onopen = () => {
+        reconnectDelay = 1000;
+        // Catch up on whatever changed while disconnected
+        queryClient.invalidateQueries({
+          predicate: (query) => String(query.queryKey[0]).startsWith("/api/alerts"),
+        });
+      };
+
+      socket.onmessage = (message) => {
+        const event = parseAlertEvent(message.data);
+        if (!event) return;
+
+        queryClient.invalidateQueries({
+          predicate: (query) => String(query.queryKey[0]).startsWith("/api/alerts"),
+        });
+        if (event.raised.length === 1) {
+          toast({ title: "Novo alerta", description: event.raised[0].message });
+        } else if (event.raised.length > 1) {
+          toast({ title: `${event.raised.length} novos alertas`, description: "Confira a página de alertas." });
+        }
+      };
+
+      socket.onclose = () => {
+        if (stopped) return;
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY_MS);
+      };
+    };
+
+    connect();
+
+    return () => {
+      stopped = true;
+      clearTimeout(reconnectTimer);
+      socket?.close();
+    };
+  }, [enabled, queryClient]);
+}
@@ -7,6 +7,16 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Turns the "<status>: <body>" errors thrown above into the server's message.
+export function extractErrorMessage(error: Error) {
+  const cleaned = error.message.replace(/^\d{3}:\s*/, "");
+  try {
+    return JSON.parse(cleaned).message ?? cleaned;
+  } catch {
+    return cleaned || "Ocorreu um erro inesperado.";
+  }
+}
+
 export async function apiRequest(
   method: string,
   url: string,
@@ -23,6 +33,19 @@ export async function apiRequest(
   return res;
 }
 
+// Sends a file as the raw request body, for spreadsheet imports
+export async function apiUpload(url: string, file: File): Promise<Response> {
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "Content-Type": file.type || "application/octet-stream" },
+    body: file,
+    credentials: "include",
+  });
+
+  await throwIfResNotOk(res);
+  return res;
+}
+
 type UnauthorizedBehavior = "returnNull" | "throw";
 export const getQueryFn: <T>(options: {
   on401: UnauthorizedBehavior;
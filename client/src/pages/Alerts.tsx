@@ -0,0 +1,267 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
+import { AlertTriangle, Loader2, Eye, CheckCircle2 } from "lucide-react";
+
+type AlertType = "ESTOQUE_BAIXO" | "ESTOQUE_ZERADO" | "REQUISICAO_PENDENTE" | "LOTE_VENCENDO";
+type AlertStatus = "ABERTO" | "RECONHECIDO" | "RESOLVIDO";
+
+type Person = {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+};
+
+type AlertItem = {
+  id: string;
+  type: AlertType;
+  status: AlertStatus;
+  entityType: string;
+  entityId: string;
+  message: string;
+  conditionActive: boolean;
+  acknowledgedAt: string | null;
+  resolvedAt: string | null;
+  createdAt: string;
+  acknowledgedBy: Person | null;
+  resolvedBy: Person | null;
+};
+
+type AlertAction = "acknowledge" | "resolve";
+
+const ALL_TYPES = "all";
+
+const typeLabels: Record<AlertType, string> = {
+  ESTOQUE_BAIXO: "Estoque baixo",
+  ESTOQUE_ZERADO: "Estoque zerado",
+  REQUISICAO_PENDENTE: "Assinatura pendente",
+  LOTE_VENCENDO: "Lote vencendo",
+};
+
+const typeVariants: Record<AlertType, "default" | "secondary" | "outline" | "destructive"> = {
+  ESTOQUE_BAIXO: "secondary",
+  ESTOQUE_ZERADO: "destructive",
+  REQUISICAO_PENDENTE: "outline",
+  LOTE_VENCENDO: "secondary",
+};
+
+const statusLabels: Record<AlertStatus, string> = {
+  ABERTO: "Aberto",
+  RECONHECIDO: "Reconhecido",
+  RESOLVIDO: "Resolvido",
+};
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function personName(person: Person | null) {
+  if (!person) return null;
+  return [person.firstName, person.lastName].filter(Boolean).join(" ") || person.email || "Usuário";
+}
+
+export default function Alerts() {
+  const queryClient = useQueryClient();
+  const [view, setView] = useState<"active" | "resolved">("active");
+  const [type, setType] = useState(ALL_TYPES);
+
+  const params = new URLSearchParams();
+  if (view === "resolved") params.set("resolved", "true");
+  if (type !== ALL_TYPES) params.set("type", type);
+  const query = params.toString();
+
+  // The unfiltered list shares its key with the sidebar badge
+  const alertsQuery = useQuery<AlertItem[]>({
+    queryKey: [query ? `/api/alerts?${query}` : "/api/alerts"],
+  });
+
+  const actionMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: AlertAction }) => {
+      const response = await apiRequest("POST", `/api/alerts/${id}/${action}`);
+      return (await response.json()) as AlertItem;
+    },
+    onSuccess: (_alert, { action }) => {
+      toast({
+        title: action === "acknowledge" ? "Alerta reconhecido" : "Alerta resolvido",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível atualizar o alerta",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: () =>
+      queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/alerts"),
+      }),
+  });
+
+  const alerts = alertsQuery.data ?? [];
+  const openCount = alerts.filter((alert) => alert.status === "ABERTO").length;
+
+  return (
+    <div className="space-y-6" data-testid="page-alerts">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <AlertTriangle className="h-8 w-8" />
+            Alertas
+          </h1>
+          <p className="text-muted-foreground">
+            Estoque abaixo do mínimo, assinaturas pendentes e lotes vencendo, atualizados em tempo real
+          </p>
+        </div>
+      </div>
+
+      {/* Filters */}
+      <div className="flex flex-col md:flex-row gap-4">
+        <Select value={view} onValueChange={(value) => setView(value as "active" | "resolved")}>
+          <SelectTrigger className="md:w-56" data-testid="select-alert-view">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Ativos</SelectItem>
+            <SelectItem value="resolved">Resolvidos</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={type} onValueChange={setType}>
+          <SelectTrigger className="md:w-56" data-testid="select-alert-type">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={ALL_TYPES}>Todos os tipos</SelectItem>
+            {(Object.keys(typeLabels) as AlertType[]).map((value) => (
+              <SelectItem key={value} value={value}>
+                {typeLabels[value]}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {/* Alerts Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            {view === "active" ? "Alertas ativos" : "Alertas resolvidos"}
+            <Badge variant="secondary" className="ml-2">
+              {alerts.length}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            {view === "active"
+              ? `${openCount} aguardando reconhecimento. Alertas são resolvidos automaticamente quando a condição deixa de existir.`
+              : "Últimos alertas encerrados, manualmente ou pelo sistema"}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {alertsQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Carregando alertas...</span>
+            </div>
+          ) : alertsQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar os alertas. Atualize a página para tentar novamente.
+            </div>
+          ) : alerts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-alerts">
+              {view === "active" ? "Nenhum alerta ativo" : "Nenhum alerta resolvido"}
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Alerta</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>Criado em</TableHead>
+                    <TableHead>{view === "active" ? "Reconhecido por" : "Resolvido por"}</TableHead>
+                    {view === "active" && <TableHead className="text-right">Ações</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {alerts.map((alert) => {
+                    const isUpdating = actionMutation.isPending && actionMutation.variables?.id === alert.id;
+                    const handledBy = view === "active"
+                      ? alert.acknowledgedBy && alert.acknowledgedAt
+                        ? `${personName(alert.acknowledgedBy)} · ${formatDate(alert.acknowledgedAt)}`
+                        : null
+                      : alert.resolvedAt
+                        ? `${personName(alert.resolvedBy) ?? "Sistema"} · ${formatDate(alert.resolvedAt)}`
+                        : null;
+
+                    return (
+                      <TableRow key={alert.id} data-testid={`row-alert-${alert.id}`}>
+                        <TableCell>
+                          <Badge variant={typeVariants[alert.type]}>{typeLabels[alert.type]}</Badge>
+                        </TableCell>
+                        <TableCell className="max-w-md">{alert.message}</TableCell>
+                        <TableCell>
+                          <Badge variant={alert.status === "ABERTO" ? "default" : "outline"}>
+                            {statusLabels[alert.status]}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="whitespace-nowrap text-sm">{formatDate(alert.createdAt)}</TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{handledBy ?? "—"}</TableCell>
+                        {view === "active" && (
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              {alert.status === "ABERTO" && (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  disabled={isUpdating}
+                                  onClick={() => actionMutation.mutate({ id: alert.id, action: "acknowledge" })}
+                                  data-testid={`button-acknowledge-alert-${alert.id}`}
+                                >
+                                  <Eye className="h-4 w-4 mr-1" />
+                                  Reconhecer
+                                </Button>
+                              )}
+                              <Button
+                                size="sm"
+                                variant="outline"
+                                disabled={isUpdating}
+                                onClick={() => actionMutation.mutate({ id: alert.id, action: "resolve" })}
+                                data-testid={`button-resolve-alert-${alert.id}`}
+                              >
+                                {isUpdating ? (
+                                  <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                                ) : (
+                                  <CheckCircle2 className="h-4 w-4 mr-1" />
+                                )}
+                                Resolver
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,365 @@
+import { useState } from "react";
+import { useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import AuditChangesDiff from "@/components/AuditChangesDiff";
+import { apiRequest } from "@/lib/queryClient";
+import { Shield, Filter, Download, Eye, Loader2 } from "lucide-react";
+
+type AuditLogEntry = {
+  id: string;
+  userId: string;
+  action: string;
+  entityType: string;
+  entityId: string;
+  changes: unknown;
+  ipAddress: string | null;
+  userAgent: string | null;
+  createdAt: string;
+  user: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+  } | null;
+};
+
+type AuditLogPage = {
+  items: AuditLogEntry[];
+  nextCursor: string | null;
+};
+
+type UserOption = {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+};
+
+const actionLabels: Record<string, string> = {
+  CREATE: "Criação",
+  UPDATE: "Alteração",
+  DELETE: "Exclusão",
+  SIGN: "Assinatura",
+  CANCEL: "Cancelamento",
+  APPROVE: "Aprovação",
+  REJECT: "Rejeição",
+  SEND: "Envio",
+  RECEIVE: "Recebimento",
+  ACKNOWLEDGE: "Reconhecimento",
+  RESOLVE: "Resolução",
+};
+
+const entityLabels: Record<string, string> = {
+  MATERIAL: "Material",
+  STOCK_MOVEMENT: "Movimentação",
+  LOCATION: "Local",
+  COST_CENTER: "Centro de custo",
+  INVENTORY_COUNT: "Inventário",
+  SUPPLIER: "Fornecedor",
+  PURCHASE_ORDER: "Pedido de compra",
+  ALERT: "Alerta",
+  REQUISITION: "Requisição",
+  USER: "Usuário",
+};
+
+const ALL = "all";
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  });
+}
+
+function getUserName(user: UserOption | null) {
+  if (!user) return "—";
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+}
+
+export default function Audit() {
+  const [userId, setUserId] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [entityType, setEntityType] = useState(ALL);
+  const [entityId, setEntityId] = useState("");
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [selectedLog, setSelectedLog] = useState<AuditLogEntry | null>(null);
+
+  const params = new URLSearchParams();
+  if (userId !== ALL) params.set("userId", userId);
+  if (action !== ALL) params.set("action", action);
+  if (entityType !== ALL) params.set("entityType", entityType);
+  if (entityId.trim()) params.set("entityId", entityId.trim());
+  // Date inputs are local calendar days; send the whole day as an instant range
+  if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+  if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+  const filterString = params.toString();
+
+  const usersQuery = useQuery<UserOption[]>({
+    queryKey: ["/api/users"],
+  });
+
+  const logsQuery = useInfiniteQuery({
+    queryKey: ["/api/audit-logs", filterString],
+    initialPageParam: null as string | null,
+    queryFn: async ({ pageParam }) => {
+      const pageParams = new URLSearchParams(filterString);
+      if (pageParam) pageParams.set("cursor", pageParam);
+      const response = await apiRequest("GET", `/api/audit-logs?${pageParams.toString()}`);
+      return (await response.json()) as AuditLogPage;
+    },
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+
+  const logs = logsQuery.data?.pages.flatMap((page) => page.items) ?? [];
+
+  const handleExport = () => {
+    window.location.href = `/api/audit-logs/export${filterString ? `?${filterString}` : ""}`;
+  };
+
+  const handleClearFilters = () => {
+    setUserId(ALL);
+    setAction(ALL);
+    setEntityType(ALL);
+    setEntityId("");
+    setFromDate("");
+    setToDate("");
+  };
+
+  return (
+    <div className="space-y-6" data-testid="page-audit">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Shield className="h-8 w-8" />
+            Auditoria
+          </h1>
+          <p className="text-muted-foreground">
+            Histórico de todas as operações realizadas no sistema
+          </p>
+        </div>
+        <Button variant="outline" onClick={handleExport} data-testid="button-export-audit">
+          <Download className="h-4 w-4 mr-2" />
+          Exportar CSV
+        </Button>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            Filtros
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Usuário</Label>
+              <Select value={userId} onValueChange={setUserId}>
+                <SelectTrigger data-testid="select-audit-user">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  {usersQuery.data?.map((user) => (
+                    <SelectItem key={user.id} value={user.id}>
+                      {getUserName(user)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Ação</Label>
+              <Select value={action} onValueChange={setAction}>
+                <SelectTrigger data-testid="select-audit-action">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todas</SelectItem>
+                  {Object.entries(actionLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Entidade</Label>
+              <Select value={entityType} onValueChange={setEntityType}>
+                <SelectTrigger data-testid="select-audit-entity-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todas</SelectItem>
+                  {Object.entries(entityLabels).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>
+                      {label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-entity-id">ID da entidade</Label>
+              <Input
+                id="audit-entity-id"
+                value={entityId}
+                onChange={(e) => setEntityId(e.target.value)}
+                placeholder="Ex.: identificador do material"
+                data-testid="input-audit-entity-id"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">De</Label>
+              <Input
+                id="audit-from"
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                data-testid="input-audit-from"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">Até</Label>
+              <Input
+                id="audit-to"
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                data-testid="input-audit-to"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end pt-4">
+            <Button variant="ghost" size="sm" onClick={handleClearFilters} data-testid="button-clear-audit-filters">
+              Limpar filtros
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Logs Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Registros
+            <Badge variant="secondary" className="ml-2">
+              {logs.length}{logsQuery.hasNextPage ? "+" : ""}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            Ordenados do mais recente para o mais antigo
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {logsQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Carregando registros...</span>
+            </div>
+          ) : logsQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar os registros de auditoria.
+            </div>
+          ) : logs.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-audit-logs">
+              Nenhum registro encontrado com os filtros aplicados
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Data</TableHead>
+                      <TableHead>Usuário</TableHead>
+                      <TableHead>Ação</TableHead>
+                      <TableHead>Entidade</TableHead>
+                      <TableHead>IP</TableHead>
+                      <TableHead>Detalhes</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {logs.map((log) => (
+                      <TableRow key={log.id} data-testid={`row-audit-${log.id}`}>
+                        <TableCell className="whitespace-nowrap">{formatDate(log.createdAt)}</TableCell>
+                        <TableCell>{getUserName(log.user)}</TableCell>
+                        <TableCell>
+                          <Badge variant="outline">{actionLabels[log.action] ?? log.action}</Badge>
+                        </TableCell>
+                        <TableCell>
+                          <div>{entityLabels[log.entityType] ?? log.entityType}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{log.entityId}</div>
+                        </TableCell>
+                        <TableCell className="text-sm text-muted-foreground">{log.ipAddress ?? "—"}</TableCell>
+                        <TableCell>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            onClick={() => setSelectedLog(log)}
+                            data-testid={`button-view-audit-${log.id}`}
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+              {logsQuery.hasNextPage && (
+                <div className="flex justify-center">
+                  <Button
+                    variant="outline"
+                    onClick={() => logsQuery.fetchNextPage()}
+                    disabled={logsQuery.isFetchingNextPage}
+                    data-testid="button-load-more-audit"
+                  >
+                    {logsQuery.isFetchingNextPage && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                    Carregar mais
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={Boolean(selectedLog)} onOpenChange={(open) => !open && setSelectedLog(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>
+              {selectedLog &&
+                `${actionLabels[selectedLog.action] ?? selectedLog.action} • ${entityLabels[selectedLog.entityType] ?? selectedLog.entityType}`}
+            </DialogTitle>
+          </DialogHeader>
+          {selectedLog && (
+            <div className="space-y-4">
+              <div className="text-sm text-muted-foreground space-y-1">
+                <p>{formatDate(selectedLog.createdAt)} • {getUserName(selectedLog.user)}</p>
+                <p className="font-mono text-xs">{selectedLog.entityId}</p>
+                {selectedLog.userAgent && <p className="text-xs">{selectedLog.userAgent}</p>}
+              </div>
+              <AuditChangesDiff changes={selectedLog.changes} />
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,9 +1,12 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
 import DashboardCard from "@/components/DashboardCard";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
+import { toast } from "@/hooks/use-toast";
+import { extractErrorMessage } from "@/lib/queryClient";
 import { 
   Package, 
   AlertTriangle, 
@@ -12,51 +15,153 @@ import {
   Calendar,
   RefreshCw,
   FileText,
-  ShoppingCart
+  ShoppingCart,
+  CalendarClock
 } from "lucide-react";
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, ResponsiveContainer, PieChart, Pie, Cell } from "recharts";
 
-// todo: remove mock data when connecting to real backend
-const mockStats = {
-  totalMaterials: 156,
-  lowStockItems: 8,
-  criticalStockItems: 2,
-  todayRequisitions: 24,
-  activeUsers: 32,
-  totalValue: 125000.50,
+type TimeFilter = "day" | "week" | "month" | "year";
+
+type DashboardStats = {
+  totalMaterials: number;
+  lowStockMaterials: number;
+  zeroStockMaterials: number;
+  pendingRequisitions: number;
+  requisitionsToday: number;
+  totalMovements: number;
+  totalStockValue: number;
+  movementsByPeriod: { period: string; entradas: number; saidas: number }[];
+  topMaterials: { materialId: string; name: string; code: string; quantity: number }[];
+};
+
+type LowStockMaterial = {
+  id: string;
+  name: string;
+  code: string;
+  currentStock: number;
+  minimumStock: number;
+};
+
+type Location = {
+  id: string;
+  name: string;
+};
+
+type ExpiringLot = {
+  id: string;
+  lotNumber: string;
+  expiresAt: string;
+  quantity: number;
+  material: { id: string; name: string; code: string; unit: string } | null;
+  location: { id: string; name: string } | null;
 };
 
-const mockChartData = [
-  { name: 'Jan', entradas: 400, saidas: 240 },
-  { name: 'Fev', entradas: 300, saidas: 139 },
-  { name: 'Mar', entradas: 200, saidas: 980 },
-  { name: 'Abr', entradas: 278, saidas: 390 },
-  { name: 'Mai', entradas: 189, saidas: 480 },
-  { name: 'Jun', entradas: 239, saidas: 380 },
-];
-
-const mockPieData = [
-  { name: 'Parafusos', value: 30, color: '#0088FE' },
-  { name: 'Chapas', value: 25, color: '#00C49F' },
-  { name: 'Tintas', value: 20, color: '#FFBB28' },
-  { name: 'Cabos', value: 15, color: '#FF8042' },
-  { name: 'Outros', value: 10, color: '#8884d8' },
-];
-
-const mockCriticalItems = [
-  { name: 'Chapa de Aço Inox 304', code: 'CHA-INOX-001', stock: 0, minimum: 5 },
-  { name: 'Tinta Primer Vermelha', code: 'TIN-PRI-002', stock: 0, minimum: 10 },
-  { name: 'Parafuso Phillips M6', code: 'PAR-M6-001', stock: 2, minimum: 50 },
-];
+const EXPIRY_WINDOWS = ["15", "30", "60", "90"];
+
+const ALL_LOCATIONS = "all";
+
+const PIE_COLORS = ['#0088FE', '#00C49F', '#FFBB28', '#FF8042', '#8884d8'];
+
+function getDateRange(filter: TimeFilter) {
+  const endDate = new Date();
+  const startDate = new Date();
+  startDate.setHours(0, 0, 0, 0);
+  switch (filter) {
+    case "week":
+      startDate.setDate(startDate.getDate() - startDate.getDay());
+      break;
+    case "month":
+      startDate.setDate(1);
+      break;
+    case "year":
+      startDate.setMonth(0, 1);
+      break;
+  }
+  return { startDate, endDate };
+}
+
+// Periods come as YYYY-MM-DD (daily buckets) or YYYY-MM (monthly buckets)
+// Whole days from today until the expiry date; negative once expired
+function daysUntil(date: string) {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return Math.round((new Date(`${date}T00:00:00`).getTime() - today.getTime()) / 86_400_000);
+}
+
+function formatPeriod(period: string) {
+  const [year, month, day] = period.split("-").map(Number);
+  if (day) {
+    return new Date(year, month - 1, day).toLocaleDateString('pt-BR', { day: '2-digit', month: '2-digit' });
+  }
+  const label = new Date(year, month - 1, 1).toLocaleDateString('pt-BR', { month: 'short' });
+  return label.charAt(0).toUpperCase() + label.slice(1).replace('.', '');
+}
 
 export default function Dashboard() {
-  const [timeFilter, setTimeFilter] = useState("month");
-  
-  const handleRefresh = () => {
-    console.log('Refreshing dashboard data');
-    // todo: refresh data from backend
+  const queryClient = useQueryClient();
+  const [timeFilter, setTimeFilter] = useState<TimeFilter>("month");
+  const [locationId, setLocationId] = useState(ALL_LOCATIONS);
+  const locationParam = locationId === ALL_LOCATIONS ? "" : `locationId=${locationId}`;
+
+  // Recomputed on filter change only, so the query key stays stable between renders
+  const statsUrl = useMemo(() => {
+    const { startDate, endDate } = getDateRange(timeFilter);
+    const params = new URLSearchParams({
+      startDate: startDate.toISOString(),
+      endDate: endDate.toISOString(),
+    });
+    if (locationId !== ALL_LOCATIONS) params.set("locationId", locationId);
+    return `/api/dashboard/stats?${params.toString()}`;
+  }, [timeFilter, locationId]);
+
+  const statsQuery = useQuery<DashboardStats>({
+    queryKey: [statsUrl],
+  });
+
+  const lowStockQuery = useQuery<LowStockMaterial[]>({
+    queryKey: [locationParam ? `/api/dashboard/low-stock?${locationParam}` : "/api/dashboard/low-stock"],
+  });
+
+  const locationsQuery = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const [expiryWindow, setExpiryWindow] = useState("30");
+  const expiringQuery = useQuery<ExpiringLot[]>({
+    queryKey: [`/api/dashboard/expiring?days=${expiryWindow}${locationParam ? `&${locationParam}` : ""}`],
+  });
+
+  const stats = statsQuery.data;
+  const chartData = (stats?.movementsByPeriod ?? []).map((entry) => ({
+    ...entry,
+    name: formatPeriod(entry.period),
+  }));
+  const consumedTotal = (stats?.topMaterials ?? []).reduce((sum, item) => sum + item.quantity, 0);
+  const pieData = (stats?.topMaterials ?? []).map((item, index) => ({
+    name: item.name,
+    value: item.quantity,
+    percent: consumedTotal ? Math.round((item.quantity / consumedTotal) * 100) : 0,
+    color: PIE_COLORS[index % PIE_COLORS.length],
+  }));
+  const criticalItems = lowStockQuery.data ?? [];
+  const expiringLots = expiringQuery.data ?? [];
+
+  const handleRefresh = async () => {
+    await queryClient.invalidateQueries({
+      predicate: (query) => String(query.queryKey[0]).startsWith("/api/dashboard"),
+    });
   };
 
+  useEffect(() => {
+    if (statsQuery.isError || lowStockQuery.isError) {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível carregar o dashboard",
+        description: extractErrorMessage((statsQuery.error ?? lowStockQuery.error) as Error),
+      });
+    }
+  }, [statsQuery.isError, lowStockQuery.isError]);
+
   const handleGeneratePurchaseOrder = (itemCode: string) => {
     console.log('Generate purchase order for:', itemCode);
     alert(`Pedido de compra gerado para ${itemCode}`);
@@ -80,7 +185,20 @@ export default function Dashboard() {
           </p>
         </div>
         <div className="flex items-center gap-2">
-          <Select value={timeFilter} onValueChange={setTimeFilter}>
+          <Select value={locationId} onValueChange={setLocationId}>
+            <SelectTrigger className="w-48" data-testid="select-dashboard-location">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_LOCATIONS}>Todos os locais</SelectItem>
+              {locationsQuery.data?.map((location) => (
+                <SelectItem key={location.id} value={location.id}>
+                  {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={timeFilter} onValueChange={(value) => setTimeFilter(value as TimeFilter)}>
             <SelectTrigger className="w-40" data-testid="select-time-filter">
               <SelectValue />
             </SelectTrigger>
@@ -106,27 +224,26 @@ export default function Dashboard() {
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         <DashboardCard
           title="Total de Materiais"
-          value={mockStats.totalMaterials}
+          value={stats?.totalMaterials ?? "—"}
           description="Materiais cadastrados"
           icon={Package}
         />
         <DashboardCard
           title="Estoque Baixo"
-          value={mockStats.lowStockItems}
-          description="Itens com estoque mínimo"
+          value={stats?.lowStockMaterials ?? "—"}
+          description={stats ? `${stats.zeroStockMaterials} com estoque zerado` : "Itens com estoque mínimo"}
           icon={AlertTriangle}
           variant="warning"
         />
         <DashboardCard
           title="Requisições Hoje"
-          value={mockStats.todayRequisitions}
-          description="Requisições criadas"
+          value={stats?.requisitionsToday ?? "—"}
+          description={stats ? `${stats.pendingRequisitions} aguardando assinatura` : "Requisições criadas"}
           icon={TrendingUp}
-          trend={{ value: 12, label: "vs ontem" }}
         />
         <DashboardCard
           title="Valor Total"
-          value={formatCurrency(mockStats.totalValue)}
+          value={stats ? formatCurrency(stats.totalStockValue) : "—"}
           description="Valor do estoque"
           icon={Users}
         />
@@ -148,7 +265,7 @@ export default function Dashboard() {
           <CardContent>
             <div className="h-80">
               <ResponsiveContainer width="100%" height="100%">
-                <BarChart data={mockChartData}>
+                <BarChart data={chartData}>
                   <CartesianGrid strokeDasharray="3 3" />
                   <XAxis dataKey="name" />
                   <YAxis />
@@ -168,37 +285,43 @@ export default function Dashboard() {
               Materiais Mais Utilizados
             </CardTitle>
             <CardDescription>
-              Distribuição por categoria
+              Saídas por material no período
             </CardDescription>
           </CardHeader>
           <CardContent>
             <div className="h-80">
-              <ResponsiveContainer width="100%" height="100%">
-                <PieChart>
-                  <Pie
-                    data={mockPieData}
-                    cx="50%"
-                    cy="50%"
-                    innerRadius={60}
-                    outerRadius={120}
-                    paddingAngle={5}
-                    dataKey="value"
-                  >
-                    {mockPieData.map((entry, index) => (
-                      <Cell key={`cell-${index}`} fill={entry.color} />
-                    ))}
-                  </Pie>
-                </PieChart>
-              </ResponsiveContainer>
+              {pieData.length === 0 ? (
+                <div className="flex h-full items-center justify-center text-muted-foreground">
+                  Nenhuma saída registrada no período
+                </div>
+              ) : (
+                <ResponsiveContainer width="100%" height="100%">
+                  <PieChart>
+                    <Pie
+                      data={pieData}
+                      cx="50%"
+                      cy="50%"
+                      innerRadius={60}
+                      outerRadius={120}
+                      paddingAngle={5}
+                      dataKey="value"
+                    >
+                      {pieData.map((entry, index) => (
+                        <Cell key={`cell-${index}`} fill={entry.color} />
+                      ))}
+                    </Pie>
+                  </PieChart>
+                </ResponsiveContainer>
+              )}
             </div>
             <div className="flex flex-wrap justify-center gap-4 mt-4">
-              {mockPieData.map((entry, index) => (
+              {pieData.map((entry, index) => (
                 <div key={index} className="flex items-center gap-2">
                   <div 
                     className="w-3 h-3 rounded-full" 
                     style={{ backgroundColor: entry.color }}
                   ></div>
-                  <span className="text-sm">{entry.name} ({entry.value}%)</span>
+                  <span className="text-sm">{entry.name} ({entry.percent}%)</span>
                 </div>
               ))}
             </div>
@@ -212,7 +335,7 @@ export default function Dashboard() {
           <CardTitle className="flex items-center gap-2 text-destructive">
             <AlertTriangle className="h-5 w-5" />
             Itens Críticos
-            <Badge variant="destructive">{mockCriticalItems.length}</Badge>
+            <Badge variant="destructive">{criticalItems.length}</Badge>
           </CardTitle>
           <CardDescription>
             Materiais com estoque zero ou crítico que precisam de reposição urgente
@@ -220,20 +343,25 @@ export default function Dashboard() {
         </CardHeader>
         <CardContent>
           <div className="space-y-3">
-            {mockCriticalItems.map((item, index) => (
+            {criticalItems.length === 0 && (
+              <div className="text-center py-4 text-muted-foreground" data-testid="text-no-critical-items">
+                Nenhum material abaixo do estoque mínimo
+              </div>
+            )}
+            {criticalItems.map((item, index) => (
               <div 
-                key={index} 
+                key={item.id} 
                 className="flex items-center justify-between p-3 bg-background rounded-lg border"
                 data-testid={`critical-item-${index}`}
               >
                 <div className="flex-1">
                   <div className="font-medium">{item.name}</div>
                   <div className="text-sm text-muted-foreground">
-                    Código: {item.code} • Estoque: {item.stock} • Mínimo: {item.minimum}
+                    Código: {item.code} • Estoque: {item.currentStock} • Mínimo: {item.minimumStock}
                   </div>
                 </div>
                 <div className="flex items-center gap-2">
-                  {item.stock === 0 && (
+                  {item.currentStock === 0 && (
                     <Badge variant="destructive">CRÍTICO</Badge>
                   )}
                   <Button 
@@ -250,6 +378,73 @@ export default function Dashboard() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Expiring Lots */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle className="flex items-center gap-2">
+              <CalendarClock className="h-5 w-5" />
+              Lotes a Vencer
+              <Badge variant="secondary">{expiringLots.length}</Badge>
+            </CardTitle>
+            <CardDescription>
+              Lotes vencidos ou com validade nos próximos {expiryWindow} dias
+            </CardDescription>
+          </div>
+          <Select value={expiryWindow} onValueChange={setExpiryWindow}>
+            <SelectTrigger className="w-32" data-testid="select-expiry-window">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EXPIRY_WINDOWS.map((days) => (
+                <SelectItem key={days} value={days}>
+                  {days} dias
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-3">
+            {expiringLots.length === 0 && (
+              <div className="text-center py-4 text-muted-foreground" data-testid="text-no-expiring-lots">
+                Nenhum lote vencendo neste período
+              </div>
+            )}
+            {expiringLots.map((lot, index) => {
+              const days = daysUntil(lot.expiresAt);
+
+              return (
+                <div
+                  key={lot.id}
+                  className="flex items-center justify-between p-3 rounded-lg border"
+                  data-testid={`expiring-lot-${index}`}
+                >
+                  <div className="flex-1">
+                    <div className="font-medium">{lot.material?.name ?? "Material removido"}</div>
+                    <div className="text-sm text-muted-foreground">
+                      Lote {lot.lotNumber} • {lot.quantity} {lot.material?.unit} • {lot.location?.name}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">
+                      {new Date(`${lot.expiresAt}T00:00:00`).toLocaleDateString("pt-BR")}
+                    </span>
+                    {days < 0 ? (
+                      <Badge variant="destructive">VENCIDO</Badge>
+                    ) : (
+                      <Badge variant={days <= 7 ? "destructive" : "outline"}>
+                        {days === 0 ? "Vence hoje" : `${days} dias`}
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
     </div>
   );
 }
\ No newline at end of file
@@ -19,9 +19,19 @@ import {
   TableRow,
 } from "@/components/ui/table";
 import { Badge } from "@/components/ui/badge";
-import { Loader2, CheckCircle, LogOut } from "lucide-react";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, CheckCircle, LogOut, Plus, FileDown } from "lucide-react";
+import RequisitionForm from "@/components/RequisitionForm";
 import { toast } from "@/hooks/use-toast";
-import { apiRequest, getQueryFn } from "@/lib/queryClient";
+import { apiRequest, extractErrorMessage, getQueryFn } from "@/lib/queryClient";
 
 interface EmployeeProfile {
   id: string;
@@ -31,20 +41,28 @@ interface EmployeeProfile {
   role: "FUNCIONARIO";
 }
 
-interface EmployeeRequisition {
+interface EmployeeRequisitionItem {
   id: string;
   materialId: string;
   quantity: number;
-  observation: string | null;
-  status: "PENDENTE" | "ASSINADA" | "CANCELADA";
-  createdAt: string;
-  signedAt: string | null;
+  requestedQuantity: number | null;
   material: {
     id: string;
     name: string;
     code: string;
     unit: string;
-  };
+  } | null;
+}
+
+interface EmployeeRequisition {
+  id: string;
+  number: string;
+  items: EmployeeRequisitionItem[];
+  observation: string | null;
+  status: "SOLICITADA" | "PENDENTE" | "ASSINADA" | "CANCELADA" | "REJEITADA";
+  createdAt: string;
+  signedAt: string | null;
+  rejectionReason: string | null;
   createdBy: {
     id: string;
     firstName: string | null;
@@ -53,19 +71,36 @@ interface EmployeeRequisition {
   } | null;
 }
 
+interface RequestableMaterial {
+  id: string;
+  code: string;
+  name: string;
+  unit: string;
+  currentStock: number;
+}
+
+interface MaterialRequest {
+  items: { materialId: string; quantity: number }[];
+  observation?: string;
+}
+
 const statusLabels: Record<EmployeeRequisition["status"], string> = {
+  SOLICITADA: "Aguardando aprovação",
   PENDENTE: "Pendente",
   ASSINADA: "Assinada",
   CANCELADA: "Cancelada",
+  REJEITADA: "Rejeitada",
 };
 
 const statusBadgeVariant: Record<
   EmployeeRequisition["status"],
-  "default" | "secondary" | "destructive"
+  "default" | "secondary" | "destructive" | "outline"
 > = {
+  SOLICITADA: "outline",
   PENDENTE: "secondary",
   ASSINADA: "default",
   CANCELADA: "destructive",
+  REJEITADA: "destructive",
 };
 
 function formatDate(date: string) {
@@ -86,11 +121,6 @@ function getDisplayName(profile: EmployeeProfile) {
   return name || profile.email || "Funcionário";
 }
 
-function extractErrorMessage(error: Error) {
-  const cleaned = error.message.replace(/^\d{3}:\s*/, "");
-  return cleaned || "Ocorreu um erro inesperado.";
-}
-
 export default function EmployeeAccess() {
   const queryClient = useQueryClient();
   const [registerData, setRegisterData] = useState({
@@ -103,6 +133,9 @@ export default function EmployeeAccess() {
     password: "",
   });
   const [signingId, setSigningId] = useState<string | null>(null);
+  const [signatureTarget, setSignatureTarget] = useState<EmployeeRequisition | null>(null);
+  const [signaturePassword, setSignaturePassword] = useState("");
+  const [isRequestOpen, setIsRequestOpen] = useState(false);
 
   const employeeQuery = useQuery<EmployeeProfile | null>({
     queryKey: ["/api/employee/me"],
@@ -114,6 +147,33 @@ export default function EmployeeAccess() {
     enabled: Boolean(employeeQuery.data),
   });
 
+  const materialsQuery = useQuery<RequestableMaterial[]>({
+    queryKey: ["/api/employee/materials"],
+    enabled: Boolean(employeeQuery.data) && isRequestOpen,
+  });
+
+  const preferencesQuery = useQuery<{ requisitionCreated: boolean }>({
+    queryKey: ["/api/employee/notification-preferences"],
+    enabled: Boolean(employeeQuery.data),
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: async (requisitionCreated: boolean) => {
+      const response = await apiRequest("PUT", "/api/employee/notification-preferences", { requisitionCreated });
+      return (await response.json()) as { requisitionCreated: boolean };
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(["/api/employee/notification-preferences"], preferences);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível salvar sua preferência",
+        description: extractErrorMessage(error),
+      });
+    },
+  });
+
   const registerMutation = useMutation({
     mutationFn: async (data: typeof registerData) => {
       const response = await apiRequest("POST", "/api/employee/register", data);
@@ -170,6 +230,7 @@ export default function EmployeeAccess() {
       });
       await queryClient.invalidateQueries({ queryKey: ["/api/employee/me"] });
       queryClient.removeQueries({ queryKey: ["/api/employee/requisitions"] });
+      queryClient.removeQueries({ queryKey: ["/api/employee/materials"] });
     },
     onError: (error: Error) => {
       toast({
@@ -181,10 +242,11 @@ export default function EmployeeAccess() {
   });
 
   const signMutation = useMutation({
-    mutationFn: async (requisitionId: string) => {
+    mutationFn: async ({ requisitionId, password }: { requisitionId: string; password: string }) => {
       const response = await apiRequest(
         "POST",
         `/api/employee/requisitions/${requisitionId}/sign`,
+        { password },
       );
       return await response.json();
     },
@@ -193,6 +255,7 @@ export default function EmployeeAccess() {
         title: "Requisição assinada",
         description: "A administração será notificada sobre a retirada.",
       });
+      setSignatureTarget(null);
       await queryClient.invalidateQueries({ queryKey: ["/api/employee/requisitions"] });
     },
     onError: (error: Error) => {
@@ -204,6 +267,29 @@ export default function EmployeeAccess() {
     },
     onSettled: () => {
       setSigningId(null);
+      setSignaturePassword("");
+    },
+  });
+
+  const requestMutation = useMutation({
+    mutationFn: async (data: MaterialRequest) => {
+      const response = await apiRequest("POST", "/api/employee/requisitions", data);
+      return (await response.json()) as Pick<EmployeeRequisition, "id" | "number">;
+    },
+    onSuccess: async (requisition) => {
+      toast({
+        title: `Solicitação ${requisition.number} enviada`,
+        description: "O estoque vai analisar o pedido antes de liberar a retirada.",
+      });
+      setIsRequestOpen(false);
+      await queryClient.invalidateQueries({ queryKey: ["/api/employee/requisitions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível enviar a solicitação",
+        description: extractErrorMessage(error),
+      });
     },
   });
 
@@ -221,9 +307,12 @@ export default function EmployeeAccess() {
     logoutMutation.mutate();
   };
 
-  const handleSign = (id: string) => {
-    setSigningId(id);
-    signMutation.mutate(id);
+  const handleSign = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    if (!signatureTarget) return;
+
+    setSigningId(signatureTarget.id);
+    signMutation.mutate({ requisitionId: signatureTarget.id, password: signaturePassword });
   };
 
   if (employeeQuery.isLoading) {
@@ -388,7 +477,7 @@ export default function EmployeeAccess() {
             <CardHeader>
               <CardTitle>Requisições destinadas a você</CardTitle>
               <CardDescription>
-                Confirme a retirada das requisições pendentes para liberar os materiais.
+                Solicite materiais e confirme a retirada das requisições aprovadas pelo estoque.
               </CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
@@ -400,18 +489,37 @@ export default function EmployeeAccess() {
                     e mantém o histórico atualizado.
                   </p>
                 </div>
-                <Button
-                  variant="outline"
-                  onClick={handleLogout}
-                  disabled={logoutMutation.isPending}
-                >
-                  {logoutMutation.isPending ? (
-                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                  ) : (
-                    <LogOut className="mr-2 h-4 w-4" />
-                  )}
-                  Sair do portal
-                </Button>
+                <div className="flex flex-col gap-2 sm:flex-row">
+                  <Button onClick={() => setIsRequestOpen(true)} data-testid="button-new-material-request">
+                    <Plus className="mr-2 h-4 w-4" />
+                    Solicitar materiais
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={handleLogout}
+                    disabled={logoutMutation.isPending}
+                  >
+                    {logoutMutation.isPending ? (
+                      <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                    ) : (
+                      <LogOut className="mr-2 h-4 w-4" />
+                    )}
+                    Sair do portal
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                <Label htmlFor="employee-notify-requisitions" className="font-normal">
+                  Receber e-mail quando uma requisição for criada para mim
+                </Label>
+                <Switch
+                  id="employee-notify-requisitions"
+                  checked={preferencesQuery.data?.requisitionCreated ?? false}
+                  disabled={!preferencesQuery.data || preferencesMutation.isPending}
+                  onCheckedChange={(checked) => preferencesMutation.mutate(checked)}
+                  data-testid="switch-employee-notify-requisitions"
+                />
               </div>
 
               {requisitionsQuery.isLoading ? (
@@ -429,8 +537,8 @@ export default function EmployeeAccess() {
                   <Table>
                     <TableHeader>
                       <TableRow>
-                        <TableHead>Material</TableHead>
-                        <TableHead>Quantidade</TableHead>
+                        <TableHead>Número</TableHead>
+                        <TableHead>Materiais</TableHead>
                         <TableHead>Status</TableHead>
                         <TableHead>Data</TableHead>
                         <TableHead>Observação</TableHead>
@@ -442,11 +550,27 @@ export default function EmployeeAccess() {
                         const isSigning = signingId === requisition.id && signMutation.isPending;
                         return (
                           <TableRow key={requisition.id}>
+                            <TableCell className="font-mono text-sm whitespace-nowrap">
+                              {requisition.number}
+                            </TableCell>
                             <TableCell>
-                              <div className="font-medium">{requisition.material.name}</div>
-                              <div className="text-xs text-muted-foreground">
-                                Código: {requisition.material.code}
-                              </div>
+                              <ul className="space-y-1">
+                                {requisition.items.map((item) => (
+                                  <li key={item.id}>
+                                    <span className="font-medium">
+                                      {item.quantity} {item.material?.unit} • {item.material?.name}
+                                    </span>
+                                    <span className="ml-2 text-xs text-muted-foreground">
+                                      {item.material?.code}
+                                    </span>
+                                    {item.requestedQuantity != null && (
+                                      <span className="ml-2 text-xs text-muted-foreground">
+                                        (solicitado {item.requestedQuantity})
+                                      </span>
+                                    )}
+                                  </li>
+                                ))}
+                              </ul>
                               {requisition.createdBy && (
                                 <div className="text-xs text-muted-foreground">
                                   Criada por: {[requisition.createdBy.firstName, requisition.createdBy.lastName]
@@ -455,13 +579,15 @@ export default function EmployeeAccess() {
                                 </div>
                               )}
                             </TableCell>
-                            <TableCell>
-                              {requisition.quantity} {requisition.material.unit}
-                            </TableCell>
                             <TableCell>
                               <Badge variant={statusBadgeVariant[requisition.status]}>
                                 {statusLabels[requisition.status]}
                               </Badge>
+                              {requisition.status === "REJEITADA" && requisition.rejectionReason && (
+                                <p className="mt-1 max-w-xs text-xs text-destructive">
+                                  Motivo: {requisition.rejectionReason}
+                                </p>
+                              )}
                             </TableCell>
                             <TableCell>{formatDate(requisition.createdAt)}</TableCell>
                             <TableCell className="max-w-xs">
@@ -476,22 +602,36 @@ export default function EmployeeAccess() {
                               )}
                             </TableCell>
                             <TableCell className="text-right">
-                              <Button
-                                size="sm"
-                                onClick={() => handleSign(requisition.id)}
-                                disabled={
-                                  requisition.status !== "PENDENTE" ||
-                                  signMutation.isPending ||
-                                  signingId === requisition.id
-                                }
-                              >
-                                {isSigning ? (
-                                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
-                                ) : (
-                                  <CheckCircle className="mr-2 h-4 w-4" />
-                                )}
-                                Assinar retirada
-                              </Button>
+                              {requisition.signedAt ? (
+                                <Button
+                                  size="sm"
+                                  variant="outline"
+                                  onClick={() => {
+                                    window.location.href = `/api/employee/requisitions/${requisition.id}/receipt.pdf`;
+                                  }}
+                                  data-testid={`button-employee-receipt-${requisition.id}`}
+                                >
+                                  <FileDown className="mr-2 h-4 w-4" />
+                                  Comprovante
+                                </Button>
+                              ) : (
+                                <Button
+                                  size="sm"
+                                  onClick={() => setSignatureTarget(requisition)}
+                                  disabled={
+                                    requisition.status !== "PENDENTE" ||
+                                    signMutation.isPending ||
+                                    signingId === requisition.id
+                                  }
+                                >
+                                  {isSigning ? (
+                                    <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                                  ) : (
+                                    <CheckCircle className="mr-2 h-4 w-4" />
+                                  )}
+                                  Assinar retirada
+                                </Button>
+                              )}
                             </TableCell>
                           </TableRow>
                         );
@@ -512,6 +652,68 @@ export default function EmployeeAccess() {
             </CardContent>
           </Card>
         )}
+
+        <Dialog open={isRequestOpen} onOpenChange={setIsRequestOpen}>
+          <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+            <DialogHeader>
+              <DialogTitle>Solicitar materiais</DialogTitle>
+            </DialogHeader>
+            <RequisitionForm
+              materials={materialsQuery.data ?? []}
+              title="Nova solicitação"
+              description="Informe os materiais de que precisa. O estoque pode aprovar quantidades menores ou rejeitar o pedido."
+              submitLabel="Enviar solicitação"
+              onSubmit={(data: MaterialRequest) => requestMutation.mutate(data)}
+              onCancel={() => setIsRequestOpen(false)}
+              isLoading={requestMutation.isPending}
+            />
+          </DialogContent>
+        </Dialog>
+
+        <Dialog
+          open={Boolean(signatureTarget)}
+          onOpenChange={(open) => {
+            if (!open && !signMutation.isPending) {
+              setSignatureTarget(null);
+              setSignaturePassword("");
+            }
+          }}
+        >
+          <DialogContent>
+            <DialogHeader>
+              <DialogTitle>
+                Confirmar retirada{signatureTarget ? ` ${signatureTarget.number}` : ""}
+              </DialogTitle>
+              <DialogDescription>
+                {signatureTarget &&
+                  `${signatureTarget.items
+                    .map((item) => `${item.quantity} ${item.material?.unit ?? ""} de ${item.material?.name ?? ""}`)
+                    .join("; ")}. `}
+                Digite sua senha para assinar digitalmente a retirada de todos os itens.
+              </DialogDescription>
+            </DialogHeader>
+            <form className="space-y-4" onSubmit={handleSign}>
+              <div className="space-y-2">
+                <Label htmlFor="signature-password">Senha</Label>
+                <Input
+                  id="signature-password"
+                  type="password"
+                  value={signaturePassword}
+                  onChange={(event) => setSignaturePassword(event.target.value)}
+                  placeholder="Digite sua senha para assinar"
+                  autoFocus
+                  required
+                />
+              </div>
+              <DialogFooter>
+                <Button type="submit" disabled={signMutation.isPending || !signaturePassword}>
+                  {signMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Confirmar assinatura
+                </Button>
+              </DialogFooter>
+            </form>
+          </DialogContent>
+        </Dialog>
       </div>
     </div>
   );
@@ -0,0 +1,567 @@
+import { useState, FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
+import { ClipboardCheck, Plus, Loader2, Save, CheckCircle, XCircle } from "lucide-react";
+
+type InventoryCountStatus = "ABERTA" | "APROVADA" | "CANCELADA";
+
+type UserSummary = {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+};
+
+type InventoryCountSummary = {
+  id: string;
+  status: InventoryCountStatus;
+  observation: string | null;
+  createdAt: string;
+  approvedAt: string | null;
+  location: { id: string; name: string } | null;
+  openedBy: UserSummary | null;
+  itemCount: number;
+  countedCount: number;
+};
+
+type InventoryCountItem = {
+  id: string;
+  materialId: string;
+  expectedQuantity: number;
+  countedQuantity: number | null;
+  passes: number;
+  currentQuantity: number;
+  variance: number | null;
+  material: { id: string; name: string; code: string; unit: string } | null;
+};
+
+type InventoryCountDetails = Omit<InventoryCountSummary, "itemCount" | "countedCount"> & {
+  approvedBy: UserSummary | null;
+  items: InventoryCountItem[];
+};
+
+type MaterialOption = {
+  id: string;
+  name: string;
+  code: string;
+};
+
+type LocationOption = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+};
+
+const COUNTS_KEY = "/api/inventory-counts";
+
+const statusLabels: Record<InventoryCountStatus, string> = {
+  ABERTA: "Aberto",
+  APROVADA: "Aprovado",
+  CANCELADA: "Cancelado",
+};
+
+const statusVariants: Record<InventoryCountStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  ABERTA: "secondary",
+  APROVADA: "default",
+  CANCELADA: "destructive",
+};
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function getUserName(user: UserSummary | null) {
+  if (!user) return "—";
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+}
+
+function formatVariance(variance: number | null) {
+  if (variance === null) return "—";
+  return variance > 0 ? `+${variance}` : String(variance);
+}
+
+export default function Inventory() {
+  const queryClient = useQueryClient();
+  const [isOpenFormVisible, setIsOpenFormVisible] = useState(false);
+  const [locationId, setLocationId] = useState("");
+  const [allMaterials, setAllMaterials] = useState(true);
+  const [selectedMaterialIds, setSelectedMaterialIds] = useState<string[]>([]);
+  const [observation, setObservation] = useState("");
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  // Quantities typed in the current pass, keyed by count item id
+  const [entries, setEntries] = useState<Record<string, string>>({});
+
+  const countsQuery = useQuery<InventoryCountSummary[]>({
+    queryKey: [COUNTS_KEY],
+  });
+
+  const detailsQuery = useQuery<InventoryCountDetails>({
+    queryKey: [`${COUNTS_KEY}/${viewingId}`],
+    enabled: Boolean(viewingId),
+  });
+
+  const materialsQuery = useQuery<MaterialOption[]>({
+    queryKey: ["/api/materials"],
+    enabled: isOpenFormVisible,
+  });
+
+  const locationsQuery = useQuery<LocationOption[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  // Approval adjusts stock, so balances and movements go stale as well
+  const invalidateCounts = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0]);
+        return [COUNTS_KEY, "/api/materials", "/api/stock-movements", "/api/stock-balances", "/api/dashboard"]
+          .some((prefix) => key.startsWith(prefix));
+      },
+    });
+
+  const closeOpenForm = () => {
+    setIsOpenFormVisible(false);
+    setLocationId("");
+    setAllMaterials(true);
+    setSelectedMaterialIds([]);
+    setObservation("");
+  };
+
+  const closeDetails = () => {
+    setViewingId(null);
+    setEntries({});
+  };
+
+  const openMutation = useMutation({
+    mutationFn: async (data: { locationId?: string; materialIds?: string[]; observation?: string }) => {
+      const response = await apiRequest("POST", COUNTS_KEY, data);
+      return (await response.json()) as { id: string; items: unknown[] };
+    },
+    onSuccess: (count) => {
+      closeOpenForm();
+      setViewingId(count.id);
+      toast({
+        title: "Inventário aberto",
+        description: `${count.items.length} materiais para contar.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível abrir o inventário",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateCounts,
+  });
+
+  const recordMutation = useMutation({
+    mutationFn: async ({ id, items }: { id: string; items: { id: string; countedQuantity: number }[] }) => {
+      const response = await apiRequest("POST", `${COUNTS_KEY}/${id}/counts`, { items });
+      return await response.json();
+    },
+    onSuccess: (_items, { items }) => {
+      setEntries({});
+      toast({
+        title: "Contagem registrada",
+        description: `${items.length} ${items.length === 1 ? "item contado" : "itens contados"}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível registrar a contagem",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateCounts,
+  });
+
+  const approveMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `${COUNTS_KEY}/${id}/approve`);
+      return (await response.json()) as { movements: unknown[] };
+    },
+    onSuccess: (result) => {
+      closeDetails();
+      toast({
+        title: "Inventário aprovado",
+        description: result.movements.length === 0
+          ? "Nenhuma diferença encontrada, o estoque não foi alterado."
+          : `${result.movements.length} ${result.movements.length === 1 ? "ajuste gerado" : "ajustes gerados"}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível aprovar o inventário",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateCounts,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async (id: string) => {
+      const response = await apiRequest("POST", `${COUNTS_KEY}/${id}/cancel`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      closeDetails();
+      toast({ title: "Inventário cancelado" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível cancelar o inventário",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateCounts,
+  });
+
+  const handleOpenSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    openMutation.mutate({
+      locationId: locationId || undefined,
+      materialIds: allMaterials ? undefined : selectedMaterialIds,
+      observation: observation.trim() || undefined,
+    });
+  };
+
+  const toggleMaterial = (materialId: string, checked: boolean) => {
+    setSelectedMaterialIds((current) =>
+      checked ? [...current, materialId] : current.filter((id) => id !== materialId),
+    );
+  };
+
+  const details = detailsQuery.data;
+  const counts = countsQuery.data ?? [];
+  const materials = materialsQuery.data ?? [];
+  const locations = locationsQuery.data ?? [];
+  const pendingEntries = Object.entries(entries)
+    .filter(([, value]) => value.trim() !== "")
+    .map(([id, value]) => ({ id, countedQuantity: Number(value) }));
+  const hasInvalidEntry = pendingEntries.some(
+    (entry) => !Number.isInteger(entry.countedQuantity) || entry.countedQuantity < 0,
+  );
+  const uncountedItems = details?.items.filter((item) => item.countedQuantity === null).length ?? 0;
+  const varianceItems = details?.items.filter((item) => item.variance !== null && item.variance !== 0).length ?? 0;
+  const isOpen = details?.status === "ABERTA";
+  const isBusy = recordMutation.isPending || approveMutation.isPending || cancelMutation.isPending;
+
+  return (
+    <div className="space-y-6" data-testid="page-inventory">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <ClipboardCheck className="h-8 w-8" />
+            Inventário
+          </h1>
+          <p className="text-muted-foreground">
+            Contagens físicas de estoque com revisão das diferenças antes do ajuste
+          </p>
+        </div>
+        <Button onClick={() => setIsOpenFormVisible(true)} data-testid="button-new-inventory">
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Inventário
+        </Button>
+      </div>
+
+      {/* Counts Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Inventários
+            <Badge variant="secondary" className="ml-2">
+              {counts.length}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            {counts.filter((count) => count.status === "ABERTA").length} em andamento
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {countsQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Carregando inventários...</span>
+            </div>
+          ) : countsQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar os inventários. Atualize a página para tentar novamente.
+            </div>
+          ) : counts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-inventory-counts">
+              Nenhum inventário realizado
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Aberto em</TableHead>
+                    <TableHead>Local</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Contados</TableHead>
+                    <TableHead>Aberto por</TableHead>
+                    <TableHead>Observação</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {counts.map((count) => (
+                    <TableRow
+                      key={count.id}
+                      className="cursor-pointer"
+                      onClick={() => setViewingId(count.id)}
+                      data-testid={`row-inventory-${count.id}`}
+                    >
+                      <TableCell className="whitespace-nowrap">{formatDate(count.createdAt)}</TableCell>
+                      <TableCell>{count.location?.name ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[count.status]}>{statusLabels[count.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {count.countedCount}/{count.itemCount}
+                      </TableCell>
+                      <TableCell>{getUserName(count.openedBy)}</TableCell>
+                      <TableCell className="max-w-xs truncate text-muted-foreground">
+                        {count.observation ?? "—"}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Open Count Dialog */}
+      <Dialog open={isOpenFormVisible} onOpenChange={(open) => !open && closeOpenForm()}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>Novo Inventário</DialogTitle>
+            <DialogDescription>
+              O saldo de cada material no local é registrado na abertura para comparação
+            </DialogDescription>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleOpenSubmit}>
+            <div className="space-y-2">
+              <Label>Local</Label>
+              <Select
+                value={locationId || locations.find((location) => location.isDefault)?.id || ""}
+                onValueChange={setLocationId}
+              >
+                <SelectTrigger data-testid="select-inventory-location">
+                  <SelectValue placeholder="Selecione o local" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <Checkbox
+                  id="inventory-all-materials"
+                  checked={allMaterials}
+                  onCheckedChange={(checked) => setAllMaterials(checked === true)}
+                  data-testid="checkbox-inventory-all-materials"
+                />
+                <Label htmlFor="inventory-all-materials">Todos os materiais</Label>
+              </div>
+              {!allMaterials && (
+                <div className="max-h-64 space-y-2 overflow-y-auto rounded-md border p-3">
+                  {materials.map((material) => (
+                    <div key={material.id} className="flex items-center gap-2">
+                      <Checkbox
+                        id={`inventory-material-${material.id}`}
+                        checked={selectedMaterialIds.includes(material.id)}
+                        onCheckedChange={(checked) => toggleMaterial(material.id, checked === true)}
+                      />
+                      <Label htmlFor={`inventory-material-${material.id}`} className="font-normal">
+                        {material.code} - {material.name}
+                      </Label>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="inventory-observation">Observação (opcional)</Label>
+              <Textarea
+                id="inventory-observation"
+                value={observation}
+                onChange={(e) => setObservation(e.target.value)}
+                placeholder="Ex: Inventário trimestral do almoxarifado"
+                data-testid="input-inventory-observation"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeOpenForm}>
+                Cancelar
+              </Button>
+              <Button
+                type="submit"
+                disabled={openMutation.isPending || (!allMaterials && selectedMaterialIds.length === 0)}
+                data-testid="button-open-inventory"
+              >
+                {openMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Abrir Inventário
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      {/* Count Details Dialog */}
+      <Dialog open={viewingId !== null} onOpenChange={(open) => !open && closeDetails()}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              Inventário {details?.location?.name}
+              {details && <Badge variant={statusVariants[details.status]}>{statusLabels[details.status]}</Badge>}
+            </DialogTitle>
+            <DialogDescription>
+              {details
+                ? `Aberto em ${formatDate(details.createdAt)} por ${getUserName(details.openedBy)}`
+                  + (details.approvedAt ? ` • aprovado em ${formatDate(details.approvedAt)} por ${getUserName(details.approvedBy)}` : "")
+                : "Carregando..."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {detailsQuery.isLoading || !details ? (
+            <div className="flex justify-center py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {isOpen && (
+                <p className="text-sm text-muted-foreground">
+                  Digite as quantidades contadas e salve; itens podem ser recontados em novas passadas.
+                  {uncountedItems > 0 ? ` Faltam ${uncountedItems} itens.` : " Todos os itens foram contados."}
+                  {varianceItems > 0 && ` ${varianceItems} com diferença.`}
+                </p>
+              )}
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Material</TableHead>
+                      <TableHead className="text-right">Na abertura</TableHead>
+                      <TableHead className="text-right">Sistema</TableHead>
+                      <TableHead className="text-right">Contado</TableHead>
+                      <TableHead className="text-right">Diferença</TableHead>
+                      <TableHead className="text-right">Passadas</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {details.items.map((item) => (
+                      <TableRow key={item.id} data-testid={`row-inventory-item-${item.id}`}>
+                        <TableCell>
+                          <div className="font-medium">{item.material?.name ?? item.materialId}</div>
+                          {item.material && (
+                            <div className="text-sm text-muted-foreground">{item.material.code}</div>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{item.expectedQuantity}</TableCell>
+                        <TableCell className="text-right">{item.currentQuantity}</TableCell>
+                        <TableCell className="text-right">
+                          {isOpen ? (
+                            <Input
+                              type="number"
+                              min={0}
+                              className="ml-auto w-24 text-right"
+                              placeholder={item.countedQuantity?.toString() ?? "—"}
+                              value={entries[item.id] ?? ""}
+                              onChange={(e) => setEntries((current) => ({ ...current, [item.id]: e.target.value }))}
+                              data-testid={`input-inventory-count-${item.id}`}
+                            />
+                          ) : (
+                            item.countedQuantity ?? "—"
+                          )}
+                        </TableCell>
+                        <TableCell
+                          className={
+                            item.variance === null || item.variance === 0
+                              ? "text-right"
+                              : item.variance > 0 ? "text-right text-green-600" : "text-right text-destructive"
+                          }
+                        >
+                          {formatVariance(item.variance)}
+                        </TableCell>
+                        <TableCell className="text-right">{item.passes}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {isOpen && (
+                <DialogFooter className="gap-2">
+                  <Button
+                    variant="outline"
+                    onClick={() => cancelMutation.mutate(details.id)}
+                    disabled={isBusy}
+                    data-testid="button-cancel-inventory"
+                  >
+                    <XCircle className="h-4 w-4 mr-2" />
+                    Cancelar Inventário
+                  </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => recordMutation.mutate({ id: details.id, items: pendingEntries })}
+                    disabled={isBusy || pendingEntries.length === 0 || hasInvalidEntry}
+                    data-testid="button-save-inventory-counts"
+                  >
+                    {recordMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="h-4 w-4 mr-2" />
+                    )}
+                    Salvar Contagem
+                  </Button>
+                  <Button
+                    onClick={() => approveMutation.mutate(details.id)}
+                    disabled={isBusy || uncountedItems > 0 || pendingEntries.length > 0}
+                    data-testid="button-approve-inventory"
+                  >
+                    {approveMutation.isPending ? (
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                    ) : (
+                      <CheckCircle className="h-4 w-4 mr-2" />
+                    )}
+                    Aprovar Ajustes
+                  </Button>
+                </DialogFooter>
+              )}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
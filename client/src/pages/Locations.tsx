@@ -0,0 +1,277 @@
+import { useState, FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
+import { Warehouse, Plus, Edit, Loader2, Power } from "lucide-react";
+
+type Location = {
+  id: string;
+  name: string;
+  description: string | null;
+  isDefault: boolean;
+  isActive: boolean;
+};
+
+type LocationChanges = {
+  name?: string;
+  description?: string | null;
+  isActive?: boolean;
+};
+
+const LOCATIONS_KEY = ["/api/locations"];
+
+export default function Locations() {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canManage = can('materials:manage');
+  const [editing, setEditing] = useState<Location | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const locationsQuery = useQuery<Location[]>({
+    queryKey: LOCATIONS_KEY,
+  });
+
+  // Location names show up on materials, movements and the dashboard too
+  const invalidateLocations = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0]);
+        return ["/api/locations", "/api/stock-balances", "/api/stock-movements"]
+          .some((prefix) => key.startsWith(prefix));
+      },
+    });
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+    setName("");
+    setDescription("");
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id?: string; changes: LocationChanges }) => {
+      const response = id
+        ? await apiRequest("PUT", `/api/locations/${id}`, changes)
+        : await apiRequest("POST", "/api/locations", changes);
+      return (await response.json()) as Location;
+    },
+    onSuccess: (location, { id, changes }) => {
+      if (changes.isActive !== undefined && changes.name === undefined) {
+        toast({
+          title: "Local atualizado",
+          description: `${location.name} foi ${location.isActive ? "reativado" : "desativado"}.`,
+        });
+        return;
+      }
+      closeForm();
+      toast({
+        title: id ? "Local atualizado" : "Local cadastrado",
+        description: location.name,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível salvar o local",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateLocations,
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setName("");
+    setDescription("");
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (location: Location) => {
+    setEditing(location);
+    setName(location.name);
+    setDescription(location.description ?? "");
+    setIsFormOpen(true);
+  };
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    saveMutation.mutate({
+      id: editing?.id,
+      changes: { name: name.trim(), description: description.trim() || null },
+    });
+  };
+
+  const locations = locationsQuery.data ?? [];
+  const activeCount = locations.filter((l) => l.isActive).length;
+
+  return (
+    <div className="space-y-6" data-testid="page-locations">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Warehouse className="h-8 w-8" />
+            Locais de Estoque
+          </h1>
+          <p className="text-muted-foreground">
+            Almoxarifado central e contêineres das obras
+          </p>
+        </div>
+        {canManage && (
+          <Button onClick={openCreate} data-testid="button-new-location">
+            <Plus className="h-4 w-4 mr-2" />
+            Novo Local
+          </Button>
+        )}
+      </div>
+
+      {/* Locations Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Locais
+            <Badge variant="secondary" className="ml-2">
+              {locations.length}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            {activeCount} ativos para receber materiais
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {locationsQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Carregando locais...</span>
+            </div>
+          ) : locationsQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar os locais. Atualize a página para tentar novamente.
+            </div>
+          ) : locations.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-locations">
+              Nenhum local cadastrado
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>Descrição</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead className="text-right">Ações</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {locations.map((location) => {
+                    const isUpdating = saveMutation.isPending && saveMutation.variables?.id === location.id;
+
+                    return (
+                      <TableRow key={location.id} data-testid={`row-location-${location.id}`}>
+                        <TableCell className="font-medium">
+                          {location.name}
+                          {location.isDefault && (
+                            <Badge variant="outline" className="ml-2">Padrão</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-muted-foreground">
+                          {location.description ?? "—"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={location.isActive ? "default" : "destructive"}>
+                            {location.isActive ? "Ativo" : "Desativado"}
+                          </Badge>
+                        </TableCell>
+                        {canManage && (
+                          <TableCell className="text-right">
+                            <div className="flex justify-end gap-1">
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                onClick={() => openEdit(location)}
+                                data-testid={`button-edit-location-${location.id}`}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                size="icon"
+                                variant="ghost"
+                                disabled={location.isDefault || isUpdating}
+                                onClick={() =>
+                                  saveMutation.mutate({ id: location.id, changes: { isActive: !location.isActive } })
+                                }
+                                data-testid={`button-toggle-location-${location.id}`}
+                              >
+                                {isUpdating ? (
+                                  <Loader2 className="h-4 w-4 animate-spin" />
+                                ) : (
+                                  <Power className={location.isActive ? "h-4 w-4 text-destructive" : "h-4 w-4 text-green-600"} />
+                                )}
+                              </Button>
+                            </div>
+                          </TableCell>
+                        )}
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar Local" : "Novo Local"}</DialogTitle>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <Label htmlFor="location-name">Nome</Label>
+              <Input
+                id="location-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Ex: Contêiner Obra Norte"
+                required
+                data-testid="input-location-name"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="location-description">Descrição (opcional)</Label>
+              <Textarea
+                id="location-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+                placeholder="Endereço ou referência do local"
+                data-testid="input-location-description"
+              />
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeForm}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending || !name.trim()} data-testid="button-save-location">
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,9 +1,15 @@
 import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
 import MaterialsTable from "@/components/MaterialsTable";
 import MaterialForm from "@/components/MaterialForm";
+import MaterialImportDialog from "@/components/MaterialImportDialog";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
 import { Plus, Package, Upload, Download } from "lucide-react";
 
 type Material = {
@@ -12,8 +18,11 @@ type Material = {
   code: string;
   unit: string;
   unitPrice?: number;
+  averageCost?: number;
   minimumStock: number;
   currentStock: number;
+  supplierId?: string | null;
+  leadTimeDays?: number | null;
 };
 
 type MaterialFormValues = {
@@ -22,123 +31,190 @@ type MaterialFormValues = {
   unit: string;
   unitPrice?: number;
   minimumStock: number;
+  supplierId?: string | null;
+  leadTimeDays?: number | null;
 };
 
-// todo: remove mock data when connecting to real backend
-const mockMaterials: Material[] = [
-  {
-    id: '1',
-    name: 'Parafuso Phillips M6 x 50mm',
-    code: 'PAR-M6-001',
-    unit: 'un',
-    unitPrice: 0.85,
-    minimumStock: 100,
-    currentStock: 45
-  },
-  {
-    id: '2',
-    name: 'Chapa de Aço Inox 304',
-    code: 'CHA-INOX-001',
-    unit: 'm²',
-    unitPrice: 120.50,
-    minimumStock: 5,
-    currentStock: 0
-  },
-  {
-    id: '3',
-    name: 'Tinta Primer Branca',
-    code: 'TIN-PRI-001',
-    unit: 'l',
-    unitPrice: 25.90,
-    minimumStock: 10,
-    currentStock: 25
-  },
-  {
-    id: '4',
-    name: 'Solda Eletrodo 2,5mm',
-    code: 'SOL-ELE-001',
-    unit: 'kg',
-    unitPrice: 15.75,
-    minimumStock: 20,
-    currentStock: 30
-  },
-  {
-    id: '5',
-    name: 'Cabo Flexível 2,5mm²',
-    code: 'CAB-FLE-001',
-    unit: 'm',
-    unitPrice: 4.20,
-    minimumStock: 50,
-    currentStock: 8
-  }
-];
+type ApiMaterial = Omit<Material, "unitPrice" | "averageCost"> & {
+  unitPrice: string | null;
+  averageCost: string;
+};
+
+type Location = {
+  id: string;
+  name: string;
+};
+
+type Supplier = {
+  id: string;
+  name: string;
+  leadTimeDays: number;
+  isActive: boolean;
+};
+
+const ALL_LOCATIONS = "all";
+
+function toMaterial(material: ApiMaterial): Material {
+  return {
+    ...material,
+    unitPrice: material.unitPrice !== null ? Number(material.unitPrice) : undefined,
+    averageCost: Number(material.averageCost),
+  };
+}
+
+// The API stores prices as decimals, which travel as strings
+function toPayload(data: MaterialFormValues) {
+  return {
+    ...data,
+    unitPrice: data.unitPrice !== undefined && !Number.isNaN(data.unitPrice)
+      ? data.unitPrice.toFixed(2)
+      : null,
+  };
+}
 
 export default function Materials() {
-  const [materials, setMaterials] = useState<Material[]>(mockMaterials);
+  const queryClient = useQueryClient();
   const [isFormOpen, setIsFormOpen] = useState(false);
+  const [isImportOpen, setIsImportOpen] = useState(false);
   const [editingMaterial, setEditingMaterial] = useState<Material | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [locationId, setLocationId] = useState(ALL_LOCATIONS);
+  const [searchTerm, setSearchTerm] = useState("");
+  const [lowStockOnly, setLowStockOnly] = useState(false);
+  const { can } = useAuth();
+  const canManage = can('materials:manage');
 
-  const handleCreateMaterial = async (data: MaterialFormValues) => {
-    setIsLoading(true);
-    console.log('Creating material:', data);
+  // Stock shown is the balance at the selected location
+  const materialsKey = [
+    locationId === ALL_LOCATIONS ? "/api/materials" : `/api/materials?locationId=${locationId}`,
+  ];
+  const materialsQuery = useQuery<ApiMaterial[]>({
+    queryKey: materialsKey,
+  });
+  const locationsQuery = useQuery<Location[]>({
+    queryKey: ["/api/locations"],
+  });
+  // Preferred supplier and lead time feed the reorder suggestions
+  const canPurchase = can('purchasing:manage');
+  const suppliersQuery = useQuery<Supplier[]>({
+    queryKey: ["/api/suppliers"],
+    enabled: canPurchase,
+  });
+  const materials = (materialsQuery.data ?? []).map(toMaterial);
 
-    // todo: replace with actual API call
-    setTimeout(() => {
-      const newMaterial = {
-        id: String(materials.length + 1),
-        ...data,
-        currentStock: 0
-      };
-      setMaterials([...materials, newMaterial]);
-      setIsLoading(false);
-      setIsFormOpen(false);
-      alert('Material cadastrado com sucesso!');
-    }, 1000);
-  };
-
-  const handleUpdateMaterial = async (data: MaterialFormValues) => {
-    if (!editingMaterial) return;
+  const invalidateMaterials = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0]);
+        return key.startsWith("/api/materials") || key.startsWith("/api/dashboard");
+      },
+    });
 
-    setIsLoading(true);
-    console.log('Updating material:', editingMaterial.id, data);
+  const createMutation = useMutation({
+    mutationFn: async (data: MaterialFormValues) => {
+      const response = await apiRequest("POST", "/api/materials", toPayload(data));
+      return (await response.json()) as ApiMaterial;
+    },
+    onSuccess: (material) => {
+      setIsFormOpen(false);
+      toast({
+        title: "Material cadastrado",
+        description: `${material.name} foi cadastrado com sucesso.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível cadastrar o material",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateMaterials,
+  });
 
-    // todo: replace with actual API call
-    setTimeout(() => {
-      setMaterials(materials.map((material) =>
-        material.id === editingMaterial.id ? { ...material, ...data } : material
-      ));
-      setIsLoading(false);
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: MaterialFormValues }) => {
+      const response = await apiRequest("PUT", `/api/materials/${id}`, toPayload(data));
+      return (await response.json()) as ApiMaterial;
+    },
+    onMutate: async ({ id, data }) => {
+      await queryClient.cancelQueries({ queryKey: materialsKey });
+      const previous = queryClient.getQueryData<ApiMaterial[]>(materialsKey);
+      const payload = toPayload(data);
+      queryClient.setQueryData<ApiMaterial[]>(materialsKey, (current) =>
+        current?.map((material) => (material.id === id ? { ...material, ...payload } : material)),
+      );
       setIsFormOpen(false);
       setEditingMaterial(null);
-      alert('Material atualizado com sucesso!');
-    }, 1000);
+      return { previous };
+    },
+    onSuccess: (material) => {
+      toast({
+        title: "Material atualizado",
+        description: `${material.name} foi atualizado com sucesso.`,
+      });
+    },
+    onError: (error: Error, _variables, context) => {
+      queryClient.setQueryData(materialsKey, context?.previous);
+      toast({
+        variant: "destructive",
+        title: "Não foi possível atualizar o material",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateMaterials,
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (materialId: string) => {
+      await apiRequest("DELETE", `/api/materials/${materialId}`);
+    },
+    onMutate: async (materialId) => {
+      await queryClient.cancelQueries({ queryKey: materialsKey });
+      const previous = queryClient.getQueryData<ApiMaterial[]>(materialsKey);
+      queryClient.setQueryData<ApiMaterial[]>(materialsKey, (current) =>
+        current?.filter((material) => material.id !== materialId),
+      );
+      return { previous };
+    },
+    onSuccess: () => {
+      toast({ title: "Material excluído" });
+    },
+    onError: (error: Error, _materialId, context) => {
+      queryClient.setQueryData(materialsKey, context?.previous);
+      toast({
+        variant: "destructive",
+        title: "Não foi possível excluir o material",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateMaterials,
+  });
+
+  const handleCreateMaterial = (data: MaterialFormValues) => {
+    createMutation.mutate(data);
+  };
+
+  const handleUpdateMaterial = (data: MaterialFormValues) => {
+    if (!editingMaterial) return;
+    updateMutation.mutate({ id: editingMaterial.id, data });
   };
 
   const handleEditMaterial = (material: Material) => {
     setEditingMaterial(material);
     setIsFormOpen(true);
-    console.log('Editing material:', material.id);
   };
 
-  const handleDeleteMaterial = async (materialId: string) => {
-    console.log('Deleting material:', materialId);
-    
-    // todo: replace with actual API call
-    setMaterials(materials.filter(m => m.id !== materialId));
-    alert('Material excluído com sucesso!');
+  const handleDeleteMaterial = (materialId: string) => {
+    deleteMutation.mutate(materialId);
   };
 
-  const handleExportData = () => {
-    console.log('Exporting materials data');
-    // todo: implement actual export functionality
-    alert('Dados exportados com sucesso!');
-  };
-
-  const handleImportData = () => {
-    console.log('Importing materials data');
-    // todo: implement actual import functionality
-    alert('Funcionalidade de importação será implementada');
+  // Exports what the table shows: same search, status filter and location
+  const handleExportData = (format: "csv" | "xlsx") => {
+    const params = new URLSearchParams({ format });
+    if (searchTerm.trim()) params.set("search", searchTerm.trim());
+    if (lowStockOnly) params.set("lowStock", "true");
+    if (locationId !== ALL_LOCATIONS) params.set("locationId", locationId);
+    window.location.href = `/api/materials/export?${params.toString()}`;
   };
 
   const handleFormCancel = () => {
@@ -147,7 +223,7 @@ export default function Materials() {
   };
 
   const lowStockCount = materials.filter(m => m.currentStock <= m.minimumStock).length;
-  const totalValue = materials.reduce((sum, m) => sum + (m.currentStock * (m.unitPrice || 0)), 0);
+  const totalValue = materials.reduce((sum, m) => sum + (m.currentStock * (m.averageCost || 0)), 0);
 
   return (
     <div className="space-y-6" data-testid="page-materials">
@@ -163,43 +239,68 @@ export default function Materials() {
           </p>
         </div>
         <div className="flex items-center gap-2">
-          <Button 
-            variant="outline"
-            onClick={handleImportData}
-            data-testid="button-import-materials"
-          >
-            <Upload className="h-4 w-4 mr-2" />
-            Importar
-          </Button>
-          <Button 
-            variant="outline"
-            onClick={handleExportData}
-            data-testid="button-export-materials"
-          >
-            <Download className="h-4 w-4 mr-2" />
-            Exportar
-          </Button>
-          <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
-            <DialogTrigger asChild>
-              <Button data-testid="button-new-material">
-                <Plus className="h-4 w-4 mr-2" />
-                Novo Material
+          {canManage && (
+            <Button 
+              variant="outline"
+              onClick={() => setIsImportOpen(true)}
+              data-testid="button-import-materials"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              Importar
+            </Button>
+          )}
+          {/* Anyone who can see the list can export it */}
+          <DropdownMenu>
+            <DropdownMenuTrigger asChild>
+              <Button 
+                variant="outline"
+                data-testid="button-export-materials"
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Exportar
               </Button>
-            </DialogTrigger>
-            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-              <DialogHeader>
-                <DialogTitle>
-                  {editingMaterial ? 'Editar Material' : 'Novo Material'}
-                </DialogTitle>
-              </DialogHeader>
-              <MaterialForm 
-                initialData={editingMaterial}
-                onSubmit={editingMaterial ? handleUpdateMaterial : handleCreateMaterial}
-                onCancel={handleFormCancel}
-                isLoading={isLoading}
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end">
+              <DropdownMenuItem onClick={() => handleExportData("xlsx")} data-testid="menu-export-materials-xlsx">
+                Excel (.xlsx)
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => handleExportData("csv")} data-testid="menu-export-materials-csv">
+                CSV
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
+          {canManage && (
+            <>
+              <MaterialImportDialog
+                open={isImportOpen}
+                onOpenChange={setIsImportOpen}
+                locations={locationsQuery.data ?? []}
+                onImported={invalidateMaterials}
               />
-            </DialogContent>
-          </Dialog>
+              <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+                <DialogTrigger asChild>
+                  <Button data-testid="button-new-material">
+                    <Plus className="h-4 w-4 mr-2" />
+                    Novo Material
+                  </Button>
+                </DialogTrigger>
+                <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+                  <DialogHeader>
+                    <DialogTitle>
+                      {editingMaterial ? 'Editar Material' : 'Novo Material'}
+                    </DialogTitle>
+                  </DialogHeader>
+                  <MaterialForm 
+                    suppliers={canPurchase ? suppliersQuery.data ?? [] : undefined}
+                    initialData={editingMaterial}
+                    onSubmit={editingMaterial ? handleUpdateMaterial : handleCreateMaterial}
+                    onCancel={handleFormCancel}
+                    isLoading={createMutation.isPending || updateMutation.isPending}
+                  />
+                </DialogContent>
+              </Dialog>
+            </>
+          )}
         </div>
       </div>
 
@@ -251,18 +352,30 @@ export default function Materials() {
               }).format(totalValue)}
             </div>
             <p className="text-xs text-muted-foreground">
-              Valor do estoque atual
+              Estoque atual pelo custo médio
             </p>
           </CardContent>
         </Card>
       </div>
 
       {/* Materials Table */}
+      {materialsQuery.isError && (
+        <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+          Não foi possível carregar os materiais. Atualize a página para tentar novamente.
+        </div>
+      )}
       <MaterialsTable 
         materials={materials}
-        onEdit={handleEditMaterial}
-        onDelete={handleDeleteMaterial}
-        isLoading={false}
+        locations={locationsQuery.data ?? []}
+        locationId={locationId}
+        onLocationChange={setLocationId}
+        searchTerm={searchTerm}
+        onSearchChange={setSearchTerm}
+        lowStockOnly={lowStockOnly}
+        onLowStockOnlyChange={setLowStockOnly}
+        onEdit={canManage ? handleEditMaterial : undefined}
+        onDelete={canManage ? handleDeleteMaterial : undefined}
+        isLoading={materialsQuery.isLoading}
       />
     </div>
   );
@@ -0,0 +1,455 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import StockMovementForm, { type StockMovementType } from "@/components/StockMovementForm";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
+import { ArrowLeftRight, ArrowDownToLine, ArrowUpFromLine, SlidersHorizontal, Filter, Loader2, Truck } from "lucide-react";
+
+type MaterialOption = {
+  id: string;
+  name: string;
+  code: string;
+  unit: string;
+  currentStock: number;
+};
+
+type LocationOption = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  isActive: boolean;
+};
+
+type StockBalanceEntry = {
+  materialId: string;
+  locationId: string;
+  quantity: number;
+};
+
+type StockMovementEntry = {
+  id: string;
+  materialId: string;
+  type: StockMovementType;
+  quantity: number;
+  unitPrice: string | null;
+  observation: string | null;
+  invoiceNumber: string | null;
+  lotNumber: string | null;
+  expiresAt: string | null;
+  requisitionId: string | null;
+  balanceAfter: number | null;
+  createdAt: string;
+  material: Pick<MaterialOption, "id" | "name" | "code" | "unit"> | null;
+  user: {
+    id: string;
+    firstName: string | null;
+    lastName: string | null;
+    email: string | null;
+  } | null;
+  requisition: { id: string; number: string; status: string } | null;
+  sourceLocation: { id: string; name: string } | null;
+  destinationLocation: { id: string; name: string } | null;
+};
+
+const typeLabels: Record<StockMovementType, string> = {
+  ENTRADA: "Entrada",
+  SAIDA: "Saída",
+  AJUSTE: "Ajuste",
+  TRANSFERENCIA: "Transferência",
+};
+
+const dialogDescriptions: Record<StockMovementType, string> = {
+  ENTRADA: "Registre o recebimento de material com a nota fiscal, o custo unitário e, quando houver, o lote e a validade",
+  SAIDA: "Registre uma saída de material sem requisição vinculada",
+  AJUSTE: "Corrija o saldo do material informando a quantidade contada e a justificativa",
+  TRANSFERENCIA: "Mova material entre o almoxarifado e os contêineres das obras",
+};
+
+const ALL = "all";
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatCurrency(value: string | null) {
+  if (value === null) return "—";
+  return new Intl.NumberFormat("pt-BR", { style: "currency", currency: "BRL" }).format(Number(value));
+}
+
+function formatExpiry(date: string) {
+  return new Date(`${date}T00:00:00`).toLocaleDateString("pt-BR");
+}
+
+function getUserName(user: StockMovementEntry["user"]) {
+  if (!user) return "—";
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+}
+
+function getTypeBadge(type: StockMovementType) {
+  switch (type) {
+    case "ENTRADA":
+      return <Badge variant="default">{typeLabels[type]}</Badge>;
+    case "SAIDA":
+      return <Badge variant="secondary">{typeLabels[type]}</Badge>;
+    case "AJUSTE":
+    case "TRANSFERENCIA":
+      return <Badge variant="outline">{typeLabels[type]}</Badge>;
+  }
+}
+
+function getQuantitySign(type: StockMovementType) {
+  switch (type) {
+    case "ENTRADA":
+      return "+";
+    case "SAIDA":
+      return "-";
+    case "AJUSTE":
+      return "=";
+    case "TRANSFERENCIA":
+      return "";
+  }
+}
+
+function getLocationLabel(movement: StockMovementEntry) {
+  const source = movement.sourceLocation?.name;
+  const destination = movement.destinationLocation?.name;
+  if (source && destination) return `${source} → ${destination}`;
+  return source ?? destination ?? "—";
+}
+
+export default function Movements() {
+  const queryClient = useQueryClient();
+  const { can } = useAuth();
+  const canCreate = can("movements:create");
+  const [materialFilter, setMaterialFilter] = useState(ALL);
+  const [locationFilter, setLocationFilter] = useState(ALL);
+  const [typeFilter, setTypeFilter] = useState<typeof ALL | StockMovementType>(ALL);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [dialogType, setDialogType] = useState<StockMovementType | null>(null);
+  const [formMaterialId, setFormMaterialId] = useState("");
+
+  const params = new URLSearchParams();
+  if (materialFilter !== ALL) params.set("materialId", materialFilter);
+  if (locationFilter !== ALL) params.set("locationId", locationFilter);
+  if (typeFilter !== ALL) params.set("type", typeFilter);
+  if (fromDate) params.set("from", new Date(`${fromDate}T00:00:00`).toISOString());
+  if (toDate) params.set("to", new Date(`${toDate}T23:59:59.999`).toISOString());
+  const queryString = params.toString();
+
+  const materialsQuery = useQuery<MaterialOption[]>({
+    queryKey: ["/api/materials"],
+  });
+
+  const locationsQuery = useQuery<LocationOption[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const balancesQuery = useQuery<StockBalanceEntry[]>({
+    queryKey: [`/api/stock-balances?materialId=${formMaterialId}`],
+    enabled: Boolean(formMaterialId),
+  });
+
+  const movementsQuery = useQuery<StockMovementEntry[]>({
+    queryKey: [queryString ? `/api/stock-movements?${queryString}` : "/api/stock-movements"],
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: unknown) => {
+      const response = await apiRequest("POST", "/api/stock-movements", data);
+      return await response.json();
+    },
+    onSuccess: async (_movement, data: any) => {
+      toast({
+        title: "Movimentação registrada",
+        description: `${typeLabels[data.type as StockMovementType]} registrada com sucesso.`,
+      });
+      closeDialog();
+      await queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = String(query.queryKey[0]);
+          return ["/api/stock-movements", "/api/stock-balances", "/api/materials"]
+            .some((prefix) => key.startsWith(prefix));
+        },
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível registrar a movimentação",
+        description: extractErrorMessage(error),
+      });
+    },
+  });
+
+  const materials = materialsQuery.data ?? [];
+  const locations = locationsQuery.data ?? [];
+  const movements = movementsQuery.data ?? [];
+
+  function closeDialog() {
+    setDialogType(null);
+    setFormMaterialId("");
+  }
+
+  const handleClearFilters = () => {
+    setMaterialFilter(ALL);
+    setLocationFilter(ALL);
+    setTypeFilter(ALL);
+    setFromDate("");
+    setToDate("");
+  };
+
+  return (
+    <div className="space-y-6" data-testid="page-movements">
+      {/* Header */}
+      <div className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <ArrowLeftRight className="h-8 w-8" />
+            Movimentações
+          </h1>
+          <p className="text-muted-foreground">
+            Histórico de entradas, saídas, ajustes e transferências de estoque
+          </p>
+        </div>
+        {canCreate && (
+          <div className="flex flex-wrap gap-2">
+            <Button onClick={() => setDialogType("ENTRADA")} data-testid="button-new-entrada">
+              <ArrowDownToLine className="h-4 w-4 mr-2" />
+              Entrada
+            </Button>
+            <Button variant="outline" onClick={() => setDialogType("SAIDA")} data-testid="button-new-saida">
+              <ArrowUpFromLine className="h-4 w-4 mr-2" />
+              Saída
+            </Button>
+            <Button variant="outline" onClick={() => setDialogType("AJUSTE")} data-testid="button-new-ajuste">
+              <SlidersHorizontal className="h-4 w-4 mr-2" />
+              Ajuste
+            </Button>
+            <Button variant="outline" onClick={() => setDialogType("TRANSFERENCIA")} data-testid="button-new-transferencia">
+              <Truck className="h-4 w-4 mr-2" />
+              Transferência
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Filter className="h-5 w-5" />
+            Filtros
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-1 md:grid-cols-5 gap-4">
+            <div className="space-y-2">
+              <Label>Material</Label>
+              <Select value={materialFilter} onValueChange={setMaterialFilter}>
+                <SelectTrigger data-testid="select-movement-material-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  {materials.map((material) => (
+                    <SelectItem key={material.id} value={material.id}>
+                      {material.code} - {material.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Local</Label>
+              <Select value={locationFilter} onValueChange={setLocationFilter}>
+                <SelectTrigger data-testid="select-movement-location-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  {locations.map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={typeFilter} onValueChange={(value) => setTypeFilter(value as typeof typeFilter)}>
+                <SelectTrigger data-testid="select-movement-type-filter">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL}>Todos</SelectItem>
+                  {(Object.keys(typeLabels) as StockMovementType[]).map((type) => (
+                    <SelectItem key={type} value={type}>
+                      {typeLabels[type]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movements-from">De</Label>
+              <Input
+                id="movements-from"
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+                data-testid="input-movements-from"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="movements-to">Até</Label>
+              <Input
+                id="movements-to"
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+                data-testid="input-movements-to"
+              />
+            </div>
+          </div>
+          <div className="flex justify-end pt-4">
+            <Button variant="ghost" size="sm" onClick={handleClearFilters} data-testid="button-clear-movement-filters">
+              Limpar filtros
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Movements Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Movimentações
+            <Badge variant="secondary" className="ml-2">
+              {movements.length}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            Ordenadas da mais recente para a mais antiga
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {movementsQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Carregando movimentações...</span>
+            </div>
+          ) : movementsQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar as movimentações. Atualize a página para tentar novamente.
+            </div>
+          ) : movements.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-movements">
+              Nenhuma movimentação encontrada
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Data</TableHead>
+                    <TableHead>Material</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead>Local</TableHead>
+                    <TableHead className="text-right">Quantidade</TableHead>
+                    <TableHead className="text-right">Saldo</TableHead>
+                    <TableHead className="text-right">Valor Unitário</TableHead>
+                    <TableHead>Usuário</TableHead>
+                    <TableHead>Requisição</TableHead>
+                    <TableHead>Detalhes</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {movements.map((movement) => (
+                    <TableRow key={movement.id} data-testid={`row-movement-${movement.id}`}>
+                      <TableCell className="whitespace-nowrap">{formatDate(movement.createdAt)}</TableCell>
+                      <TableCell>
+                        <div className="font-medium">{movement.material?.name ?? movement.materialId}</div>
+                        {movement.material && (
+                          <div className="text-sm text-muted-foreground">{movement.material.code}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{getTypeBadge(movement.type)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{getLocationLabel(movement)}</TableCell>
+                      <TableCell className="text-right font-medium">
+                        {getQuantitySign(movement.type)}
+                        {movement.quantity} {movement.material?.unit}
+                      </TableCell>
+                      <TableCell className="text-right">{movement.balanceAfter ?? "—"}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(movement.unitPrice)}</TableCell>
+                      <TableCell>{getUserName(movement.user)}</TableCell>
+                      <TableCell>
+                        {movement.requisition ? (
+                          <span className="font-mono text-xs whitespace-nowrap">
+                            {movement.requisition.number}
+                          </span>
+                        ) : (
+                          "—"
+                        )}
+                      </TableCell>
+                      <TableCell className="max-w-xs text-sm text-muted-foreground">
+                        {movement.invoiceNumber && <div>NF {movement.invoiceNumber}</div>}
+                        {movement.lotNumber && (
+                          <div>
+                            Lote {movement.lotNumber}
+                            {movement.expiresAt && ` · val. ${formatExpiry(movement.expiresAt)}`}
+                          </div>
+                        )}
+                        {movement.observation && <div className="truncate" title={movement.observation}>{movement.observation}</div>}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={dialogType !== null} onOpenChange={(open) => !open && closeDialog()}>
+        <DialogContent className="max-w-xl">
+          {dialogType && (
+            <>
+              <DialogHeader>
+                <DialogTitle>Registrar {typeLabels[dialogType]}</DialogTitle>
+                <DialogDescription>{dialogDescriptions[dialogType]}</DialogDescription>
+              </DialogHeader>
+              <StockMovementForm
+                key={dialogType}
+                type={dialogType}
+                materials={materials}
+                locations={locations}
+                balances={formMaterialId ? balancesQuery.data : undefined}
+                onMaterialChange={setFormMaterialId}
+                onSubmit={(data) => createMutation.mutate(data)}
+                onCancel={closeDialog}
+                isLoading={createMutation.isPending}
+              />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,619 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
+import PurchaseOrderForm, { type PurchaseOrderFormValues } from "@/components/PurchaseOrderForm";
+import { ShoppingCart, Plus, Loader2, Edit, Send, XCircle, PackageCheck } from "lucide-react";
+
+type PurchaseOrderStatus = "RASCUNHO" | "ENVIADO" | "PARCIALMENTE_RECEBIDO" | "RECEBIDO" | "CANCELADO";
+
+type PurchaseOrderSummary = {
+  id: string;
+  supplierId: string;
+  status: PurchaseOrderStatus;
+  locationId: string | null;
+  observation: string | null;
+  createdAt: string;
+  sentAt: string | null;
+  receivedAt: string | null;
+  supplier: { id: string; name: string } | null;
+  location: { id: string; name: string } | null;
+  itemCount: number;
+  totalValue: number;
+};
+
+type PurchaseOrderItem = {
+  id: string;
+  materialId: string;
+  quantity: number;
+  unitPrice: string;
+  receivedQuantity: number;
+  material: { id: string; name: string; code: string; unit: string } | null;
+};
+
+type PurchaseOrderDetails = Omit<PurchaseOrderSummary, "itemCount" | "totalValue"> & {
+  createdBy: { id: string; firstName: string | null; lastName: string | null; email: string | null } | null;
+  items: PurchaseOrderItem[];
+};
+
+type SupplierOption = {
+  id: string;
+  name: string;
+  isActive: boolean;
+};
+
+type MaterialOption = {
+  id: string;
+  name: string;
+  code: string;
+  unit: string;
+  averageCost: string;
+};
+
+type LocationOption = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  isActive: boolean;
+};
+
+// What is being received now for one order line
+type ReceiptEntry = { quantity: string; lotNumber: string; expiresAt: string };
+
+const ORDERS_KEY = "/api/purchase-orders";
+const ALL_STATUSES = "all";
+
+const statusLabels: Record<PurchaseOrderStatus, string> = {
+  RASCUNHO: "Rascunho",
+  ENVIADO: "Enviado",
+  PARCIALMENTE_RECEBIDO: "Parcialmente recebido",
+  RECEBIDO: "Recebido",
+  CANCELADO: "Cancelado",
+};
+
+const statusVariants: Record<PurchaseOrderStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  RASCUNHO: "outline",
+  ENVIADO: "secondary",
+  PARCIALMENTE_RECEBIDO: "secondary",
+  RECEBIDO: "default",
+  CANCELADO: "destructive",
+};
+
+function formatDate(dateString: string) {
+  return new Date(dateString).toLocaleString("pt-BR", {
+    day: "2-digit",
+    month: "2-digit",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+  });
+}
+
+function formatCurrency(value: number) {
+  return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function pendingOf(item: PurchaseOrderItem) {
+  return item.quantity - item.receivedQuantity;
+}
+
+function toFormValues(order: PurchaseOrderDetails): PurchaseOrderFormValues {
+  return {
+    supplierId: order.supplierId,
+    locationId: order.locationId ?? "",
+    observation: order.observation ?? "",
+    items: order.items.map((item) => ({
+      materialId: item.materialId,
+      quantity: String(item.quantity),
+      unitPrice: item.unitPrice,
+    })),
+  };
+}
+
+export default function PurchaseOrders() {
+  const queryClient = useQueryClient();
+  const [statusFilter, setStatusFilter] = useState<string>(ALL_STATUSES);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [editing, setEditing] = useState<PurchaseOrderDetails | null>(null);
+  const [viewingId, setViewingId] = useState<string | null>(null);
+  const [isReceiving, setIsReceiving] = useState(false);
+  const [invoiceNumber, setInvoiceNumber] = useState("");
+  const [receiptObservation, setReceiptObservation] = useState("");
+  const [entries, setEntries] = useState<Record<string, ReceiptEntry>>({});
+
+  const ordersUrl = statusFilter === ALL_STATUSES ? ORDERS_KEY : `${ORDERS_KEY}?status=${statusFilter}`;
+  const ordersQuery = useQuery<PurchaseOrderSummary[]>({
+    queryKey: [ordersUrl],
+  });
+
+  const detailsQuery = useQuery<PurchaseOrderDetails>({
+    queryKey: [`${ORDERS_KEY}/${viewingId}`],
+    enabled: Boolean(viewingId),
+  });
+
+  const suppliersQuery = useQuery<SupplierOption[]>({
+    queryKey: ["/api/suppliers"],
+  });
+
+  const materialsQuery = useQuery<MaterialOption[]>({
+    queryKey: ["/api/materials"],
+    enabled: isFormOpen,
+  });
+
+  const locationsQuery = useQuery<LocationOption[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  // Receiving books ENTRADA movements, so stock and cost go stale as well
+  const invalidateOrders = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0]);
+        return [ORDERS_KEY, "/api/materials", "/api/stock-movements", "/api/stock-balances", "/api/dashboard"]
+          .some((prefix) => key.startsWith(prefix));
+      },
+    });
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+  };
+
+  const closeReceipt = () => {
+    setIsReceiving(false);
+    setInvoiceNumber("");
+    setReceiptObservation("");
+    setEntries({});
+  };
+
+  const closeDetails = () => {
+    setViewingId(null);
+    closeReceipt();
+  };
+
+  const startReceipt = (order: PurchaseOrderDetails) => {
+    setEntries(Object.fromEntries(
+      order.items
+        .filter((item) => pendingOf(item) > 0)
+        .map((item) => [item.id, { quantity: String(pendingOf(item)), lotNumber: "", expiresAt: "" }]),
+    ));
+    setIsReceiving(true);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: unknown }) => {
+      const response = id
+        ? await apiRequest("PUT", `${ORDERS_KEY}/${id}`, data)
+        : await apiRequest("POST", ORDERS_KEY, data);
+      return (await response.json()) as { id: string };
+    },
+    onSuccess: (order, { id }) => {
+      closeForm();
+      setViewingId(order.id);
+      toast({
+        title: id ? "Pedido atualizado" : "Pedido criado",
+        description: "O pedido está em rascunho até ser enviado ao fornecedor.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível salvar o pedido",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateOrders,
+  });
+
+  const statusMutation = useMutation({
+    mutationFn: async ({ id, action }: { id: string; action: "send" | "cancel" }) => {
+      const response = await apiRequest("POST", `${ORDERS_KEY}/${id}/${action}`);
+      return await response.json();
+    },
+    onSuccess: (_order, { action }) => {
+      if (action === "cancel") closeDetails();
+      toast({ title: action === "send" ? "Pedido enviado" : "Pedido cancelado" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível atualizar o pedido",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateOrders,
+  });
+
+  const receiveMutation = useMutation({
+    mutationFn: async ({ id, data }: { id: string; data: unknown }) => {
+      const response = await apiRequest("POST", `${ORDERS_KEY}/${id}/receive`, data);
+      return (await response.json()) as { status: PurchaseOrderStatus; movements: unknown[] };
+    },
+    onSuccess: (result) => {
+      closeReceipt();
+      toast({
+        title: "Recebimento registrado",
+        description: `${result.movements.length} ${result.movements.length === 1 ? "entrada gerada" : "entradas geradas"}. Pedido ${statusLabels[result.status].toLowerCase()}.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível registrar o recebimento",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateOrders,
+  });
+
+  const details = detailsQuery.data;
+  const orders = ordersQuery.data ?? [];
+  const suppliers = suppliersQuery.data ?? [];
+  const materials = materialsQuery.data ?? [];
+  const locations = locationsQuery.data ?? [];
+  const isBusy = statusMutation.isPending || receiveMutation.isPending;
+
+  const receiptItems = Object.entries(entries)
+    .filter(([, entry]) => entry.quantity.trim() !== "" && Number(entry.quantity) > 0)
+    .map(([id, entry]) => ({
+      id,
+      quantity: Number(entry.quantity),
+      lotNumber: entry.lotNumber.trim() || undefined,
+      expiresAt: entry.expiresAt || undefined,
+    }));
+  const hasInvalidEntry = receiptItems.some((entry) => {
+    const item = details?.items.find((i) => i.id === entry.id);
+    return !Number.isInteger(entry.quantity) || !item || entry.quantity > pendingOf(item)
+      || (entry.expiresAt !== undefined && !entry.lotNumber);
+  });
+
+  const setEntry = (id: string, changes: Partial<ReceiptEntry>) =>
+    setEntries((current) => ({ ...current, [id]: { ...current[id], ...changes } }));
+
+  const handleReceive = () => {
+    if (!details) return;
+    receiveMutation.mutate({
+      id: details.id,
+      data: {
+        invoiceNumber: invoiceNumber.trim(),
+        observation: receiptObservation.trim() || undefined,
+        items: receiptItems,
+      },
+    });
+  };
+
+  return (
+    <div className="space-y-6" data-testid="page-purchase-orders">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <ShoppingCart className="h-8 w-8" />
+            Pedidos de Compra
+          </h1>
+          <p className="text-muted-foreground">
+            Compras junto aos fornecedores e recebimento das entregas no estoque
+          </p>
+        </div>
+        <Button onClick={() => setIsFormOpen(true)} data-testid="button-new-purchase-order">
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Pedido
+        </Button>
+      </div>
+
+      {/* Orders Table */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>
+              Pedidos
+              <Badge variant="secondary" className="ml-2">
+                {orders.length}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              {orders.filter((o) => o.status === "ENVIADO" || o.status === "PARCIALMENTE_RECEBIDO").length} aguardando entrega
+            </CardDescription>
+          </div>
+          <Select value={statusFilter} onValueChange={setStatusFilter}>
+            <SelectTrigger className="w-56" data-testid="select-purchase-order-status">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ALL_STATUSES}>Todos os status</SelectItem>
+              {Object.entries(statusLabels).map(([value, label]) => (
+                <SelectItem key={value} value={value}>
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          {ordersQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Carregando pedidos...</span>
+            </div>
+          ) : ordersQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar os pedidos. Atualize a página para tentar novamente.
+            </div>
+          ) : orders.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-purchase-orders">
+              Nenhum pedido de compra encontrado
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Pedido</TableHead>
+                    <TableHead>Criado em</TableHead>
+                    <TableHead>Fornecedor</TableHead>
+                    <TableHead>Entrega</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Itens</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {orders.map((order) => (
+                    <TableRow
+                      key={order.id}
+                      className="cursor-pointer"
+                      onClick={() => setViewingId(order.id)}
+                      data-testid={`row-purchase-order-${order.id}`}
+                    >
+                      <TableCell className="font-mono text-xs">{order.id.slice(0, 8)}</TableCell>
+                      <TableCell className="whitespace-nowrap">{formatDate(order.createdAt)}</TableCell>
+                      <TableCell className="font-medium">{order.supplier?.name ?? "—"}</TableCell>
+                      <TableCell>{order.location?.name ?? "—"}</TableCell>
+                      <TableCell>
+                        <Badge variant={statusVariants[order.status]}>{statusLabels[order.status]}</Badge>
+                      </TableCell>
+                      <TableCell className="text-right">{order.itemCount}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(order.totalValue)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create / Edit Dialog */}
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar Pedido de Compra" : "Novo Pedido de Compra"}</DialogTitle>
+            <DialogDescription>
+              Os preços informados serão usados como custo das entradas no recebimento
+            </DialogDescription>
+          </DialogHeader>
+          {materialsQuery.isLoading || locationsQuery.isLoading ? (
+            <div className="flex justify-center py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <PurchaseOrderForm
+              suppliers={suppliers}
+              materials={materials}
+              locations={locations}
+              defaultValues={editing ? toFormValues(editing) : undefined}
+              onSubmit={(data) => saveMutation.mutate({ id: editing?.id, data })}
+              onCancel={closeForm}
+              isLoading={saveMutation.isPending}
+            />
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Order Details Dialog */}
+      <Dialog open={viewingId !== null && !isFormOpen} onOpenChange={(open) => !open && closeDetails()}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              Pedido {viewingId?.slice(0, 8)}
+              {details && <Badge variant={statusVariants[details.status]}>{statusLabels[details.status]}</Badge>}
+            </DialogTitle>
+            <DialogDescription>
+              {details
+                ? `${details.supplier?.name ?? "—"} • entrega em ${details.location?.name ?? "—"}`
+                  + (details.sentAt ? ` • enviado em ${formatDate(details.sentAt)}` : "")
+                : "Carregando..."}
+            </DialogDescription>
+          </DialogHeader>
+
+          {detailsQuery.isLoading || !details ? (
+            <div className="flex justify-center py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              {details.observation && (
+                <p className="text-sm text-muted-foreground">{details.observation}</p>
+              )}
+
+              {isReceiving && (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="receipt-invoice">Nota Fiscal do Fornecedor</Label>
+                    <Input
+                      id="receipt-invoice"
+                      value={invoiceNumber}
+                      onChange={(e) => setInvoiceNumber(e.target.value)}
+                      placeholder="Ex: 000123456"
+                      data-testid="input-receipt-invoice"
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="receipt-observation">Observação (opcional)</Label>
+                    <Textarea
+                      id="receipt-observation"
+                      value={receiptObservation}
+                      onChange={(e) => setReceiptObservation(e.target.value)}
+                      className="min-h-10"
+                      data-testid="input-receipt-observation"
+                    />
+                  </div>
+                </div>
+              )}
+
+              <div className="overflow-x-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Material</TableHead>
+                      <TableHead className="text-right">Pedido</TableHead>
+                      <TableHead className="text-right">Recebido</TableHead>
+                      <TableHead className="text-right">Preço Unit.</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      {isReceiving && <TableHead>Receber agora</TableHead>}
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {details.items.map((item) => {
+                      const entry = entries[item.id];
+                      return (
+                        <TableRow key={item.id} data-testid={`row-purchase-order-item-${item.id}`}>
+                          <TableCell>
+                            <div className="font-medium">{item.material?.name ?? item.materialId}</div>
+                            {item.material && (
+                              <div className="text-sm text-muted-foreground">{item.material.code}</div>
+                            )}
+                          </TableCell>
+                          <TableCell className="text-right">
+                            {item.quantity} {item.material?.unit}
+                          </TableCell>
+                          <TableCell className="text-right">{item.receivedQuantity}</TableCell>
+                          <TableCell className="text-right">{formatCurrency(Number(item.unitPrice))}</TableCell>
+                          <TableCell className="text-right">
+                            {formatCurrency(item.quantity * Number(item.unitPrice))}
+                          </TableCell>
+                          {isReceiving && (
+                            <TableCell>
+                              {entry ? (
+                                <div className="flex gap-2">
+                                  <Input
+                                    type="number"
+                                    min={0}
+                                    max={pendingOf(item)}
+                                    className="w-20"
+                                    value={entry.quantity}
+                                    onChange={(e) => setEntry(item.id, { quantity: e.target.value })}
+                                    data-testid={`input-receipt-quantity-${item.id}`}
+                                  />
+                                  <Input
+                                    className="w-28"
+                                    placeholder="Lote"
+                                    value={entry.lotNumber}
+                                    onChange={(e) => setEntry(item.id, { lotNumber: e.target.value })}
+                                    data-testid={`input-receipt-lot-${item.id}`}
+                                  />
+                                  <Input
+                                    type="date"
+                                    className="w-36"
+                                    value={entry.expiresAt}
+                                    onChange={(e) => setEntry(item.id, { expiresAt: e.target.value })}
+                                    data-testid={`input-receipt-expires-at-${item.id}`}
+                                  />
+                                </div>
+                              ) : (
+                                <span className="text-sm text-muted-foreground">Recebido</span>
+                              )}
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <DialogFooter className="gap-2">
+                {isReceiving ? (
+                  <>
+                    <Button variant="outline" onClick={closeReceipt} disabled={isBusy}>
+                      Voltar
+                    </Button>
+                    <Button
+                      onClick={handleReceive}
+                      disabled={isBusy || !invoiceNumber.trim() || receiptItems.length === 0 || hasInvalidEntry}
+                      data-testid="button-confirm-receipt"
+                    >
+                      {receiveMutation.isPending ? (
+                        <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      ) : (
+                        <PackageCheck className="h-4 w-4 mr-2" />
+                      )}
+                      Registrar Recebimento
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    {(details.status === "RASCUNHO" || details.status === "ENVIADO") && (
+                      <Button
+                        variant="outline"
+                        onClick={() => statusMutation.mutate({ id: details.id, action: "cancel" })}
+                        disabled={isBusy}
+                        data-testid="button-cancel-purchase-order"
+                      >
+                        <XCircle className="h-4 w-4 mr-2" />
+                        Cancelar Pedido
+                      </Button>
+                    )}
+                    {details.status === "RASCUNHO" && (
+                      <>
+                        <Button
+                          variant="outline"
+                          onClick={() => {
+                            setEditing(details);
+                            setIsFormOpen(true);
+                          }}
+                          disabled={isBusy}
+                          data-testid="button-edit-purchase-order"
+                        >
+                          <Edit className="h-4 w-4 mr-2" />
+                          Editar
+                        </Button>
+                        <Button
+                          onClick={() => statusMutation.mutate({ id: details.id, action: "send" })}
+                          disabled={isBusy}
+                          data-testid="button-send-purchase-order"
+                        >
+                          <Send className="h-4 w-4 mr-2" />
+                          Enviar ao Fornecedor
+                        </Button>
+                      </>
+                    )}
+                    {(details.status === "ENVIADO" || details.status === "PARCIALMENTE_RECEBIDO") && (
+                      <Button
+                        onClick={() => startReceipt(details)}
+                        disabled={isBusy}
+                        data-testid="button-receive-purchase-order"
+                      >
+                        <PackageCheck className="h-4 w-4 mr-2" />
+                        Receber
+                      </Button>
+                    )}
+                  </>
+                )}
+              </DialogFooter>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
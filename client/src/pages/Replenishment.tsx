@@ -0,0 +1,367 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
+import { PackagePlus, Loader2, ShoppingCart } from "lucide-react";
+
+type ReplenishmentSuggestion = {
+  material: { id: string; name: string; code: string; unit: string };
+  supplier: { id: string; name: string } | null;
+  currentStock: number;
+  minimumStock: number;
+  onOrder: number;
+  averageDailyConsumption: number;
+  leadTimeDays: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+  daysOfCover: number | null;
+  estimatedUnitPrice: number;
+  estimatedCost: number;
+};
+
+type ReplenishmentReport = {
+  days: number;
+  coverageDays: number;
+  generatedAt: string;
+  suggestions: ReplenishmentSuggestion[];
+};
+
+type SupplierOption = {
+  id: string;
+  name: string;
+  isActive: boolean;
+};
+
+type LocationOption = {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  isActive: boolean;
+};
+
+// What will be ordered for one suggested material, keyed by material id
+type OrderLine = { selected: boolean; quantity: string; supplierId: string };
+
+const historyOptions = [30, 60, 90, 180, 365];
+const coverageOptions = [15, 30, 60, 90];
+
+function formatCurrency(value: number) {
+  return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function formatNumber(value: number) {
+  return value.toLocaleString("pt-BR", { maximumFractionDigits: 2 });
+}
+
+function isValidQuantity(value: string) {
+  const quantity = Number(value);
+  return Number.isInteger(quantity) && quantity > 0;
+}
+
+export default function Replenishment() {
+  const queryClient = useQueryClient();
+  const [days, setDays] = useState("90");
+  const [coverageDays, setCoverageDays] = useState("30");
+  const [locationId, setLocationId] = useState("");
+  const [lines, setLines] = useState<Record<string, OrderLine>>({});
+
+  const suggestionsKey = `/api/replenishment/suggestions?days=${days}&coverageDays=${coverageDays}`;
+  const suggestionsQuery = useQuery<ReplenishmentReport>({
+    queryKey: [suggestionsKey],
+  });
+  const suppliersQuery = useQuery<SupplierOption[]>({
+    queryKey: ["/api/suppliers"],
+  });
+  const locationsQuery = useQuery<LocationOption[]>({
+    queryKey: ["/api/locations"],
+  });
+
+  const suggestions = suggestionsQuery.data?.suggestions ?? [];
+  const suppliers = suppliersQuery.data ?? [];
+  const locations = locationsQuery.data ?? [];
+
+  // Start every line from the suggestion; materials with a preferred supplier come pre-selected
+  useEffect(() => {
+    setLines(Object.fromEntries(suggestionsQuery.data?.suggestions.map((suggestion) => [
+      suggestion.material.id,
+      {
+        selected: suggestion.supplier !== null,
+        quantity: String(suggestion.suggestedQuantity),
+        supplierId: suggestion.supplier?.id ?? "",
+      },
+    ]) ?? []));
+  }, [suggestionsQuery.data]);
+
+  useEffect(() => {
+    if (!locationId && locations.length > 0) {
+      setLocationId(locations.find((l) => l.isDefault)?.id ?? "");
+    }
+  }, [locations, locationId]);
+
+  const setLine = (materialId: string, changes: Partial<OrderLine>) =>
+    setLines((current) => ({ ...current, [materialId]: { ...current[materialId], ...changes } }));
+
+  const selected = suggestions.filter((s) => lines[s.material.id]?.selected);
+  const canCreate = selected.length > 0 && selected.every((s) => {
+    const line = lines[s.material.id];
+    return line.supplierId !== "" && isValidQuantity(line.quantity);
+  });
+  const selectedTotal = selected.reduce(
+    (sum, s) => sum + (Number(lines[s.material.id].quantity) || 0) * s.estimatedUnitPrice,
+    0,
+  );
+
+  const createOrdersMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/replenishment/purchase-orders", {
+        ...(locationId ? { locationId } : {}),
+        items: selected.map((s) => ({
+          materialId: s.material.id,
+          supplierId: lines[s.material.id].supplierId,
+          quantity: parseInt(lines[s.material.id].quantity),
+          unitPrice: s.estimatedUnitPrice.toFixed(2),
+        })),
+      });
+      return (await response.json()) as { id: string }[];
+    },
+    onSuccess: (orders) => {
+      toast({
+        title: orders.length === 1 ? "Pedido em rascunho criado" : `${orders.length} pedidos em rascunho criados`,
+        description: "Revise e envie os pedidos em Pedidos de Compra.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível criar os pedidos",
+        description: extractErrorMessage(error),
+      });
+    },
+    // New drafts count as on order, so the suggestions change with them
+    onSettled: () =>
+      queryClient.invalidateQueries({
+        predicate: (query) => {
+          const key = String(query.queryKey[0]);
+          return ["/api/purchase-orders", "/api/replenishment"].some((prefix) => key.startsWith(prefix));
+        },
+      }),
+  });
+
+  return (
+    <div className="space-y-6" data-testid="page-replenishment">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <PackagePlus className="h-8 w-8" />
+            Reposição
+          </h1>
+          <p className="text-muted-foreground">
+            Sugestões de compra pelo consumo médio e prazo de entrega de cada material
+          </p>
+        </div>
+        <Button variant="outline" asChild data-testid="link-purchase-orders">
+          <Link href="/purchase-orders">
+            <ShoppingCart className="h-4 w-4 mr-2" />
+            Pedidos de Compra
+          </Link>
+        </Button>
+      </div>
+
+      {/* Parameters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Histórico de consumo</Label>
+              <Select value={days} onValueChange={setDays}>
+                <SelectTrigger data-testid="select-replenishment-days">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {historyOptions.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      Últimos {option} dias
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Cobertura após o recebimento</Label>
+              <Select value={coverageDays} onValueChange={setCoverageDays}>
+                <SelectTrigger data-testid="select-replenishment-coverage">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {coverageOptions.map((option) => (
+                    <SelectItem key={option} value={String(option)}>
+                      {option} dias
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Local de entrega</Label>
+              <Select value={locationId} onValueChange={setLocationId}>
+                <SelectTrigger data-testid="select-replenishment-location">
+                  <SelectValue placeholder="Selecione o local" />
+                </SelectTrigger>
+                <SelectContent>
+                  {locations.filter((l) => l.isActive).map((location) => (
+                    <SelectItem key={location.id} value={location.id}>
+                      {location.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Suggestions Table */}
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>
+              Sugestões
+              <Badge variant="secondary" className="ml-2">
+                {suggestions.length}
+              </Badge>
+            </CardTitle>
+            <CardDescription>
+              {selected.length} selecionadas · Total estimado {formatCurrency(selectedTotal)}
+            </CardDescription>
+          </div>
+          <Button
+            onClick={() => createOrdersMutation.mutate()}
+            disabled={!canCreate || createOrdersMutation.isPending}
+            data-testid="button-create-replenishment-orders"
+          >
+            {createOrdersMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Criar pedidos em rascunho
+          </Button>
+        </CardHeader>
+        <CardContent>
+          {suggestionsQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Calculando sugestões...</span>
+            </div>
+          ) : suggestionsQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível calcular as sugestões. Atualize a página para tentar novamente.
+            </div>
+          ) : suggestions.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-suggestions">
+              Nenhum material precisa de reposição no momento
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-10" />
+                    <TableHead>Material</TableHead>
+                    <TableHead className="text-right">Estoque</TableHead>
+                    <TableHead className="text-right">Em pedido</TableHead>
+                    <TableHead className="text-right">Consumo/dia</TableHead>
+                    <TableHead className="text-right">Cobertura</TableHead>
+                    <TableHead className="text-right">Ponto de pedido</TableHead>
+                    <TableHead>Fornecedor</TableHead>
+                    <TableHead className="w-28">Quantidade</TableHead>
+                    <TableHead className="text-right">Custo estimado</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suggestions.map((suggestion) => {
+                    const { material } = suggestion;
+                    const line = lines[material.id];
+                    if (!line) return null;
+
+                    return (
+                      <TableRow key={material.id} data-testid={`row-suggestion-${material.id}`}>
+                        <TableCell>
+                          <Checkbox
+                            checked={line.selected}
+                            onCheckedChange={(checked) => setLine(material.id, { selected: checked === true })}
+                            data-testid={`checkbox-suggestion-${material.id}`}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <div className="font-medium">{material.name}</div>
+                          <div className="text-xs text-muted-foreground font-mono">{material.code}</div>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {suggestion.currentStock} {material.unit}
+                          <div className="text-xs text-muted-foreground">mín. {suggestion.minimumStock}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{suggestion.onOrder}</TableCell>
+                        <TableCell className="text-right">{formatNumber(suggestion.averageDailyConsumption)}</TableCell>
+                        <TableCell className="text-right">
+                          {suggestion.daysOfCover === null ? "—" : (
+                            <Badge variant={suggestion.daysOfCover <= suggestion.leadTimeDays ? "destructive" : "secondary"}>
+                              {suggestion.daysOfCover} dias
+                            </Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {suggestion.reorderPoint}
+                          <div className="text-xs text-muted-foreground">prazo {suggestion.leadTimeDays} dias</div>
+                        </TableCell>
+                        <TableCell>
+                          <Select
+                            value={line.supplierId}
+                            onValueChange={(supplierId) => setLine(material.id, { supplierId })}
+                          >
+                            <SelectTrigger className="w-48" data-testid={`select-suggestion-supplier-${material.id}`}>
+                              <SelectValue placeholder="Selecione" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {suppliers.filter((s) => s.isActive || s.id === line.supplierId).map((supplier) => (
+                                <SelectItem key={supplier.id} value={supplier.id}>
+                                  {supplier.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min={1}
+                            value={line.quantity}
+                            onChange={(e) => setLine(material.id, { quantity: e.target.value })}
+                            className={isValidQuantity(line.quantity) ? undefined : "border-destructive"}
+                            data-testid={`input-suggestion-quantity-${material.id}`}
+                          />
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {formatCurrency((Number(line.quantity) || 0) * suggestion.estimatedUnitPrice)}
+                          <div className="text-xs text-muted-foreground">
+                            {formatCurrency(suggestion.estimatedUnitPrice)}/{material.unit}
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { BarChart3, Loader2, FileSpreadsheet, FileText } from "lucide-react";
+
+type GroupBy = "material" | "employee" | "costCenter" | "period";
+type Interval = "day" | "month";
+
+type ConsumptionRow = {
+  key: string | null;
+  label: string;
+  unit: string | null;
+  quantity: number | null;
+  value: number;
+  requisitions: number;
+};
+
+type ConsumptionReport = {
+  groupBy: GroupBy;
+  interval: Interval;
+  from: string;
+  to: string;
+  rows: ConsumptionRow[];
+  totalValue: number;
+};
+
+const groupByLabels: Record<GroupBy, string> = {
+  material: "Material",
+  employee: "Funcionário",
+  costCenter: "Centro de custo",
+  period: "Período",
+};
+
+function formatCurrency(value: number) {
+  return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+// yyyy-mm-dd in local time, as date inputs expect
+function toDateInput(date: Date) {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}
+
+export default function Reports() {
+  const [groupBy, setGroupBy] = useState<GroupBy>("material");
+  const [interval, setPeriodInterval] = useState<Interval>("month");
+  const [from, setFrom] = useState(() => toDateInput(new Date(Date.now() - 30 * 86_400_000)));
+  const [to, setTo] = useState(() => toDateInput(new Date()));
+
+  const params = new URLSearchParams({ groupBy, from, to });
+  if (groupBy === "period") params.set("interval", interval);
+  const reportUrl = `/api/reports/consumption?${params.toString()}`;
+  const validRange = Boolean(from && to && from <= to);
+
+  const reportQuery = useQuery<ConsumptionReport>({
+    queryKey: [reportUrl],
+    enabled: validRange,
+  });
+
+  const handleDownload = (format: "xlsx" | "pdf") => {
+    window.location.href = `${reportUrl}&format=${format}`;
+  };
+
+  const rows = reportQuery.data?.rows ?? [];
+  const showQuantity = reportQuery.data?.groupBy === "material";
+
+  return (
+    <div className="space-y-6" data-testid="page-reports">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <BarChart3 className="h-8 w-8" />
+            Relatórios
+          </h1>
+          <p className="text-muted-foreground">
+            Consumo de materiais por material, funcionário, centro de custo ou período
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button
+            variant="outline"
+            onClick={() => handleDownload("xlsx")}
+            disabled={!validRange}
+            data-testid="button-export-report-xlsx"
+          >
+            <FileSpreadsheet className="h-4 w-4 mr-2" />
+            Excel
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => handleDownload("pdf")}
+            disabled={!validRange}
+            data-testid="button-export-report-pdf"
+          >
+            <FileText className="h-4 w-4 mr-2" />
+            PDF
+          </Button>
+        </div>
+      </div>
+
+      {/* Parameters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <div className="space-y-2">
+              <Label>Agrupar por</Label>
+              <Select value={groupBy} onValueChange={(value) => setGroupBy(value as GroupBy)}>
+                <SelectTrigger data-testid="select-report-group-by">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(Object.keys(groupByLabels) as GroupBy[]).map((option) => (
+                    <SelectItem key={option} value={option}>
+                      {groupByLabels[option]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {groupBy === "period" && (
+              <div className="space-y-2">
+                <Label>Intervalo</Label>
+                <Select value={interval} onValueChange={(value) => setPeriodInterval(value as Interval)}>
+                  <SelectTrigger data-testid="select-report-interval">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="day">Diário</SelectItem>
+                    <SelectItem value="month">Mensal</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="report-from">De</Label>
+              <Input
+                id="report-from"
+                type="date"
+                value={from}
+                onChange={(e) => setFrom(e.target.value)}
+                data-testid="input-report-from"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-to">Até</Label>
+              <Input
+                id="report-to"
+                type="date"
+                value={to}
+                onChange={(e) => setTo(e.target.value)}
+                data-testid="input-report-to"
+              />
+            </div>
+          </div>
+          {!validRange && (
+            <p className="mt-2 text-sm text-destructive">A data inicial deve ser anterior à final.</p>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Report Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Consumo por {groupByLabels[groupBy].toLowerCase()}
+            <Badge variant="secondary" className="ml-2">
+              {rows.length}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            Saídas de estoque, descontados os estornos de requisições canceladas, ao custo de cada movimentação
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {reportQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Carregando relatório...</span>
+            </div>
+          ) : reportQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar o relatório. Atualize a página para tentar novamente.
+            </div>
+          ) : rows.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-consumption">
+              Nenhum consumo no período selecionado
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{groupByLabels[groupBy]}</TableHead>
+                    {showQuantity && <TableHead className="text-right">Quantidade</TableHead>}
+                    <TableHead className="text-right">Requisições</TableHead>
+                    <TableHead className="text-right">Valor</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {rows.map((row) => (
+                    <TableRow key={row.key ?? "none"} data-testid={`row-consumption-${row.key ?? "none"}`}>
+                      <TableCell className={row.key === null ? "italic text-muted-foreground" : "font-medium"}>
+                        {row.label}
+                      </TableCell>
+                      {showQuantity && (
+                        <TableCell className="text-right">
+                          {row.quantity?.toLocaleString("pt-BR")} {row.unit}
+                        </TableCell>
+                      )}
+                      <TableCell className="text-right">{row.requisitions}</TableCell>
+                      <TableCell className="text-right">{formatCurrency(row.value)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={showQuantity ? 3 : 2}>Total</TableCell>
+                    <TableCell className="text-right" data-testid="text-consumption-total">
+                      {formatCurrency(reportQuery.data?.totalValue ?? 0)}
+                    </TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -1,39 +1,96 @@
 import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
 import RequisitionForm from "@/components/RequisitionForm";
 import DigitalSignature from "@/components/DigitalSignature";
-import { Plus, ClipboardList, Search, Filter, Eye, PenTool } from "lucide-react";
+import SignatureVerificationBadge from "@/components/SignatureVerificationBadge";
+import { Plus, ClipboardList, ClipboardCheck, Search, Filter, Eye, PenTool, XCircle, FileDown } from "lucide-react";
 
-type RequisitionStatus = "PENDENTE" | "ASSINADA" | "CANCELADA";
+type RequisitionStatus = "SOLICITADA" | "PENDENTE" | "ASSINADA" | "CANCELADA" | "REJEITADA";
 
-type Requisition = {
+type RequisitionItem = {
   id: string;
-  employeeName: string;
   materialName: string;
   materialCode: string;
   quantity: number;
+  requestedQuantity?: number;
   unit: string;
+};
+
+type Requisition = {
+  id: string;
+  number: string;
+  employeeName: string;
+  costCenterName?: string;
+  items: RequisitionItem[];
   observation: string;
   status: RequisitionStatus;
   createdAt: string;
+  signedAt?: string;
+  cancellationReason?: string;
+  cancelledAt?: string;
+  rejectionReason?: string;
 };
 
 type RequisitionFormValues = {
   employeeId: string;
-  materialId: string;
-  quantity: number;
+  locationId?: string;
+  costCenterId?: string;
+  items: { materialId: string; quantity: number }[];
   observation?: string;
 };
 
-type Employee = {
+type LocationOption = {
   id: string;
   name: string;
-  email?: string;
+  isDefault: boolean;
+  isActive: boolean;
+};
+
+type CostCenterOption = {
+  id: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+};
+
+type UserSummary = {
+  id: string;
+  firstName: string | null;
+  lastName: string | null;
+  email: string | null;
+};
+
+type ApiRequisition = {
+  id: string;
+  number: string;
+  employeeId: string;
+  observation: string | null;
+  status: RequisitionStatus;
+  createdAt: string;
+  signedAt: string | null;
+  cancellationReason: string | null;
+  cancelledAt: string | null;
+  rejectionReason: string | null;
+  items: {
+    id: string;
+    materialId: string;
+    quantity: number;
+    requestedQuantity: number | null;
+    material: { id: string; name: string; code: string; unit: string } | null;
+  }[];
+  employee: UserSummary | null;
+  costCenter: { id: string; code: string; name: string } | null;
 };
 
 type Material = {
@@ -44,81 +101,233 @@ type Material = {
   unit: string;
 };
 
-// todo: remove mock data when connecting to real backend
-const mockEmployees: Employee[] = [
-  { id: '1', name: 'João Silva', email: 'joao@empresa.com' },
-  { id: '2', name: 'Maria Santos', email: 'maria@empresa.com' },
-  { id: '3', name: 'Carlos Oliveira', email: 'carlos@empresa.com' },
-  { id: '4', name: 'Ana Costa', email: 'ana@empresa.com' },
-];
-
-const mockMaterials: Material[] = [
-  { id: '1', name: 'Parafuso Phillips M6 x 50mm', code: 'PAR-M6-001', currentStock: 45, unit: 'un' },
-  { id: '2', name: 'Chapa de Aço Inox 304', code: 'CHA-INOX-001', currentStock: 0, unit: 'm²' },
-  { id: '3', name: 'Tinta Primer Branca', code: 'TIN-PRI-001', currentStock: 25, unit: 'l' },
-  { id: '4', name: 'Cabo Flexível 2,5mm²', code: 'CAB-FLE-001', currentStock: 8, unit: 'm' },
-];
-
-const mockRequisitions: Requisition[] = [
-  {
-    id: '1',
-    employeeName: 'João Silva',
-    materialName: 'Parafuso Phillips M6 x 50mm',
-    materialCode: 'PAR-M6-001',
-    quantity: 50,
-    unit: 'un',
-    observation: 'Material necessário para montagem do equipamento linha 3',
-    status: 'PENDENTE' as const,
-    createdAt: new Date().toISOString(),
-  },
-  {
-    id: '2',
-    employeeName: 'Maria Santos',
-    materialName: 'Tinta Primer Branca',
-    materialCode: 'TIN-PRI-001',
-    quantity: 2,
-    unit: 'l',
-    observation: 'Repintura da área de recepção',
-    status: 'ASSINADA' as const,
-    createdAt: new Date(Date.now() - 86400000).toISOString(), // 1 day ago
-  },
-  {
-    id: '3',
-    employeeName: 'Carlos Oliveira',
-    materialName: 'Cabo Flexível 2,5mm²',
-    materialCode: 'CAB-FLE-001',
-    quantity: 10,
-    unit: 'm',
-    observation: 'Instalação elétrica setor B',
-    status: 'PENDENTE' as const,
-    createdAt: new Date(Date.now() - 3600000).toISOString(), // 1 hour ago
-  },
-  {
-    id: '4',
-    employeeName: 'Ana Costa',
-    materialName: 'Chapa de Aço Inox 304',
-    materialCode: 'CHA-INOX-001',
-    quantity: 1,
-    unit: 'm²',
-    observation: 'Reparação urgente equipamento principal',
-    status: 'CANCELADA' as const,
-    createdAt: new Date(Date.now() - 7200000).toISOString(), // 2 hours ago
-  }
-];
+const REQUISITIONS_KEY = ["/api/requisitions"];
+
+function getUserName(user: UserSummary | null) {
+  if (!user) return "—";
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || user.id;
+}
+
+function toRequisition(requisition: ApiRequisition): Requisition {
+  return {
+    id: requisition.id,
+    number: requisition.number,
+    employeeName: getUserName(requisition.employee),
+    costCenterName: requisition.costCenter
+      ? `${requisition.costCenter.code} - ${requisition.costCenter.name}`
+      : undefined,
+    items: requisition.items.map((item) => ({
+      id: item.id,
+      materialName: item.material?.name ?? "",
+      materialCode: item.material?.code ?? "",
+      quantity: item.quantity,
+      requestedQuantity: item.requestedQuantity ?? undefined,
+      unit: item.material?.unit ?? "",
+    })),
+    observation: requisition.observation ?? "",
+    status: requisition.status,
+    createdAt: requisition.createdAt,
+    signedAt: requisition.signedAt ?? undefined,
+    cancellationReason: requisition.cancellationReason ?? undefined,
+    cancelledAt: requisition.cancelledAt ?? undefined,
+    rejectionReason: requisition.rejectionReason ?? undefined,
+  };
+}
 
 export default function Requisitions() {
-  const [requisitions, setRequisitions] = useState<Requisition[]>(mockRequisitions);
+  const queryClient = useQueryClient();
   const [searchTerm, setSearchTerm] = useState("");
   const [statusFilter, setStatusFilter] = useState<"all" | RequisitionStatus>("all");
   const [isFormOpen, setIsFormOpen] = useState(false);
   const [viewingRequisition, setViewingRequisition] = useState<Requisition | null>(null);
   const [signingRequisition, setSigningRequisition] = useState<Requisition | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
+  const [cancellingRequisition, setCancellingRequisition] = useState<Requisition | null>(null);
+  const [cancelReason, setCancelReason] = useState("");
+  const [reviewingRequisition, setReviewingRequisition] = useState<Requisition | null>(null);
+  // Approved quantity per item id, as typed in the review dialog
+  const [approvedQuantities, setApprovedQuantities] = useState<Record<string, string>>({});
+  const [rejectReason, setRejectReason] = useState("");
+  const { can } = useAuth();
+  const canManage = can('requisitions:manage');
+
+  const requisitionsQuery = useQuery<ApiRequisition[]>({
+    queryKey: REQUISITIONS_KEY,
+  });
+
+  const materialsQuery = useQuery<Material[]>({
+    queryKey: ["/api/materials"],
+    enabled: canManage,
+  });
+
+  const employeesQuery = useQuery<UserSummary[]>({
+    queryKey: ["/api/employees"],
+    enabled: canManage,
+  });
+
+  const locationsQuery = useQuery<LocationOption[]>({
+    queryKey: ["/api/locations"],
+    enabled: canManage,
+  });
+
+  const costCentersQuery = useQuery<CostCenterOption[]>({
+    queryKey: ["/api/cost-centers"],
+    enabled: canManage,
+  });
+
+  const requisitions = (requisitionsQuery.data ?? []).map(toRequisition);
+  const employees = (employeesQuery.data ?? []).map((employee) => ({
+    id: employee.id,
+    name: getUserName(employee),
+    email: employee.email ?? undefined,
+  }));
+
+  // Signing and cancelling move stock, so materials and dashboard go stale too
+  const invalidateAfterChange = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0]);
+        return ["/api/requisitions", "/api/materials", "/api/stock-movements", "/api/stock-balances", "/api/dashboard"]
+          .some((prefix) => key.startsWith(prefix));
+      },
+    });
+
+  const createMutation = useMutation({
+    mutationFn: async (data: RequisitionFormValues) => {
+      const response = await apiRequest("POST", "/api/requisitions", data);
+      return await response.json();
+    },
+    onSuccess: () => {
+      setIsFormOpen(false);
+      toast({
+        title: "Requisição criada",
+        description: "A requisição aguarda a assinatura do funcionário.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível criar a requisição",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateAfterChange,
+  });
+
+  const signMutation = useMutation({
+    mutationFn: async ({ id, password }: { id: string; password: string }) => {
+      const response = await apiRequest("POST", `/api/requisitions/${id}/sign`, { password });
+      return await response.json();
+    },
+    onSuccess: () => {
+      setSigningRequisition(null);
+      setViewingRequisition(null);
+      toast({
+        title: "Requisição assinada",
+        description: "Material liberado para retirada.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível assinar a requisição",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateAfterChange,
+  });
+
+  const cancelMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      const response = await apiRequest("POST", `/api/requisitions/${id}/cancel`, { reason });
+      return await response.json();
+    },
+    onMutate: async ({ id, reason }) => {
+      await queryClient.cancelQueries({ queryKey: REQUISITIONS_KEY });
+      const previous = queryClient.getQueryData<ApiRequisition[]>(REQUISITIONS_KEY);
+      queryClient.setQueryData<ApiRequisition[]>(REQUISITIONS_KEY, (current) =>
+        current?.map((requisition) =>
+          requisition.id === id
+            ? {
+                ...requisition,
+                status: 'CANCELADA' as const,
+                cancellationReason: reason,
+                cancelledAt: new Date().toISOString(),
+              }
+            : requisition,
+        ),
+      );
+      setCancellingRequisition(null);
+      setCancelReason("");
+      return { previous };
+    },
+    onSuccess: () => {
+      toast({ title: "Requisição cancelada" });
+    },
+    onError: (error: Error, _variables, context) => {
+      queryClient.setQueryData(REQUISITIONS_KEY, context?.previous);
+      toast({
+        variant: "destructive",
+        title: "Não foi possível cancelar a requisição",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateAfterChange,
+  });
+
+  const closeReview = () => {
+    setReviewingRequisition(null);
+    setApprovedQuantities({});
+    setRejectReason("");
+  };
+
+  const approveMutation = useMutation({
+    mutationFn: async ({ id, items }: { id: string; items: { id: string; quantity: number }[] }) => {
+      const response = await apiRequest("POST", `/api/requisitions/${id}/approve`, { items });
+      return await response.json();
+    },
+    onSuccess: () => {
+      closeReview();
+      toast({
+        title: "Solicitação aprovada",
+        description: "A requisição aguarda a assinatura do funcionário.",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível aprovar a solicitação",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateAfterChange,
+  });
+
+  const rejectMutation = useMutation({
+    mutationFn: async ({ id, reason }: { id: string; reason: string }) => {
+      const response = await apiRequest("POST", `/api/requisitions/${id}/reject`, { reason });
+      return await response.json();
+    },
+    onSuccess: () => {
+      closeReview();
+      toast({ title: "Solicitação rejeitada" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível rejeitar a solicitação",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateAfterChange,
+  });
 
   const filteredRequisitions = requisitions.filter((req) => {
-    const matchesSearch = req.employeeName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         req.materialName.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                         req.materialCode.toLowerCase().includes(searchTerm.toLowerCase());
+    const term = searchTerm.toLowerCase();
+    const matchesSearch = req.number.toLowerCase().includes(term) ||
+                         req.employeeName.toLowerCase().includes(term) ||
+                         req.items.some((item) =>
+                           item.materialName.toLowerCase().includes(term) ||
+                           item.materialCode.toLowerCase().includes(term));
 
     const matchesStatus = statusFilter === "all" || req.status === statusFilter;
 
@@ -126,54 +335,59 @@ export default function Requisitions() {
   });
 
   const handleCreateRequisition = (data: RequisitionFormValues) => {
-    setIsLoading(true);
-    console.log('Creating requisition:', data);
-
-    // todo: replace with actual API call
-    setTimeout(() => {
-      const employee = mockEmployees.find(e => e.id === data.employeeId);
-      const material = mockMaterials.find(m => m.id === data.materialId);
-      
-      const newRequisition: Requisition = {
-        id: String(requisitions.length + 1),
-        employeeName: employee?.name || '',
-        materialName: material?.name || '',
-        materialCode: material?.code || '',
-        quantity: data.quantity,
-        unit: material?.unit || '',
-        observation: data.observation || '',
-        status: 'PENDENTE' as const,
-        createdAt: new Date().toISOString(),
-      };
-
-      setRequisitions([newRequisition, ...requisitions]);
-      setIsLoading(false);
-      setIsFormOpen(false);
-      alert('Requisição criada com sucesso!');
-    }, 1000);
+    createMutation.mutate(data);
   };
 
-  const handleSignRequisition = (password: string) => {
-    if (!signingRequisition) return;
-
-    setIsLoading(true);
-    console.log('Signing requisition:', signingRequisition.id, 'with password verification');
-    
-    // todo: replace with actual API call
-    setTimeout(() => {
-      setRequisitions(requisitions.map((req) =>
-        req.id === signingRequisition.id
-          ? { ...req, status: 'ASSINADA' as const }
-          : req
-      ));
-      setIsLoading(false);
-      setSigningRequisition(null);
-      alert('Requisição assinada com sucesso! Material liberado para retirada.');
-    }, 1500);
+  const handleSignRequisition = (requisition: Requisition | null, password: string) => {
+    if (!requisition) return;
+    signMutation.mutate({ id: requisition.id, password });
+  };
+
+  const handleDownloadReceipt = (requisition: Requisition) => {
+    window.location.href = `/api/requisitions/${requisition.id}/receipt.pdf`;
+  };
+
+  const handleCancelRequisition = () => {
+    if (!cancellingRequisition || !cancelReason.trim()) return;
+    cancelMutation.mutate({ id: cancellingRequisition.id, reason: cancelReason.trim() });
+  };
+
+  const openReview = (requisition: Requisition) => {
+    setReviewingRequisition(requisition);
+    setApprovedQuantities(
+      Object.fromEntries(requisition.items.map((item) => [item.id, String(item.quantity)])),
+    );
+    setRejectReason("");
+  };
+
+  const reviewItems = reviewingRequisition?.items.map((item) => ({
+    id: item.id,
+    quantity: Number(approvedQuantities[item.id]),
+    max: item.quantity,
+  })) ?? [];
+  const isApprovalValid = reviewItems.length > 0 &&
+    reviewItems.every((item) => Number.isInteger(item.quantity) && item.quantity >= 0 && item.quantity <= item.max) &&
+    reviewItems.some((item) => item.quantity > 0);
+
+  const handleApproveRequisition = () => {
+    if (!reviewingRequisition || !isApprovalValid) return;
+    approveMutation.mutate({
+      id: reviewingRequisition.id,
+      items: reviewItems.map(({ id, quantity }) => ({ id, quantity })),
+    });
+  };
+
+  const handleRejectRequisition = () => {
+    if (!reviewingRequisition || !rejectReason.trim()) return;
+    rejectMutation.mutate({ id: reviewingRequisition.id, reason: rejectReason.trim() });
   };
 
   const getStatusBadge = (status: RequisitionStatus) => {
     switch (status) {
+      case 'SOLICITADA':
+        return <Badge variant="outline">Aguardando aprovação</Badge>;
+      case 'REJEITADA':
+        return <Badge variant="destructive">Rejeitada</Badge>;
       case 'PENDENTE':
         return <Badge variant="secondary">Pendente</Badge>;
       case 'ASSINADA':
@@ -195,6 +409,7 @@ export default function Requisitions() {
     });
   };
 
+  const requestedCount = requisitions.filter(r => r.status === 'SOLICITADA').length;
   const pendingCount = requisitions.filter(r => r.status === 'PENDENTE').length;
   const signedCount = requisitions.filter(r => r.status === 'ASSINADA').length;
   const todayCount = requisitions.filter(r => {
@@ -216,30 +431,50 @@ export default function Requisitions() {
             Gerencie requisições de materiais e assinaturas digitais
           </p>
         </div>
-        <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
-          <DialogTrigger asChild>
-            <Button data-testid="button-new-requisition">
-              <Plus className="h-4 w-4 mr-2" />
-              Nova Requisição
-            </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Nova Requisição</DialogTitle>
-            </DialogHeader>
-            <RequisitionForm 
-              employees={mockEmployees}
-              materials={mockMaterials}
-              onSubmit={handleCreateRequisition}
-              onCancel={() => setIsFormOpen(false)}
-              isLoading={isLoading}
-            />
-          </DialogContent>
-        </Dialog>
+        {canManage && (
+          <Dialog open={isFormOpen} onOpenChange={setIsFormOpen}>
+            <DialogTrigger asChild>
+              <Button data-testid="button-new-requisition">
+                <Plus className="h-4 w-4 mr-2" />
+                Nova Requisição
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Nova Requisição</DialogTitle>
+              </DialogHeader>
+              <RequisitionForm 
+                employees={employees}
+                materials={materialsQuery.data ?? []}
+                locations={locationsQuery.data}
+                costCenters={costCentersQuery.data}
+                onSubmit={handleCreateRequisition}
+                onCancel={() => setIsFormOpen(false)}
+                isLoading={createMutation.isPending}
+              />
+            </DialogContent>
+          </Dialog>
+        )}
       </div>
 
       {/* Summary Cards */}
-      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Solicitações
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-blue-600" data-testid="text-requested-count">
+              {requestedCount}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              Aguardando aprovação do estoque
+            </p>
+          </CardContent>
+        </Card>
+
         <Card>
           <CardHeader className="pb-2">
             <CardTitle className="text-sm font-medium text-muted-foreground">
@@ -302,15 +537,15 @@ export default function Requisitions() {
             <div className="relative flex-1">
               <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
               <Input
-                placeholder="Buscar por funcionário, material ou código..."
+                placeholder="Buscar por número, funcionário, material ou código..."
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="pl-10"
                 data-testid="input-search-requisitions"
               />
             </div>
-            <div className="flex gap-2">
-              {(['all', 'PENDENTE', 'ASSINADA', 'CANCELADA'] as const).map((status) => (
+            <div className="flex flex-wrap gap-2">
+              {(['all', 'SOLICITADA', 'PENDENTE', 'ASSINADA', 'CANCELADA', 'REJEITADA'] as const).map((status) => (
                 <Button
                   key={status}
                   variant={statusFilter === status ? "default" : "outline"}
@@ -340,7 +575,15 @@ export default function Requisitions() {
           </CardDescription>
         </CardHeader>
         <CardContent>
-          {filteredRequisitions.length === 0 ? (
+          {requisitionsQuery.isLoading ? (
+            <div className="text-center py-8 text-muted-foreground">
+              Carregando requisições...
+            </div>
+          ) : requisitionsQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar as requisições. Atualize a página para tentar novamente.
+            </div>
+          ) : filteredRequisitions.length === 0 ? (
             <div className="text-center py-8 text-muted-foreground" data-testid="text-no-requisitions">
               {searchTerm || statusFilter !== "all" 
                 ? 'Nenhuma requisição encontrada com os filtros aplicados' 
@@ -352,9 +595,9 @@ export default function Requisitions() {
               <Table>
                 <TableHeader>
                   <TableRow>
+                    <TableHead>Número</TableHead>
                     <TableHead>Funcionário</TableHead>
-                    <TableHead>Material</TableHead>
-                    <TableHead>Quantidade</TableHead>
+                    <TableHead>Materiais</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Data</TableHead>
                     <TableHead>Ações</TableHead>
@@ -363,24 +606,40 @@ export default function Requisitions() {
                 <TableBody>
                   {filteredRequisitions.map((requisition) => (
                     <TableRow key={requisition.id} data-testid={`row-requisition-${requisition.id}`}>
+                      <TableCell className="font-mono text-sm whitespace-nowrap" data-testid={`text-requisition-number-${requisition.id}`}>
+                        {requisition.number}
+                      </TableCell>
                       <TableCell className="font-medium">
                         {requisition.employeeName}
-                      </TableCell>
-                      <TableCell>
-                        <div>
-                          <div className="font-medium">{requisition.materialName}</div>
-                          <div className="text-sm text-muted-foreground">
-                            {requisition.materialCode}
+                        {requisition.costCenterName && (
+                          <div className="text-xs font-normal text-muted-foreground">
+                            {requisition.costCenterName}
                           </div>
-                        </div>
+                        )}
                       </TableCell>
                       <TableCell>
-                        <span className="font-bold">
-                          {requisition.quantity} {requisition.unit}
-                        </span>
+                        <div className="space-y-1">
+                          {requisition.items.map((item) => (
+                            <div key={item.id}>
+                              <span className="font-bold">{item.quantity} {item.unit}</span>{' '}
+                              <span className="font-medium">{item.materialName}</span>
+                              <span className="ml-2 text-sm text-muted-foreground">{item.materialCode}</span>
+                              {item.requestedQuantity != null && (
+                                <span className="ml-2 text-xs text-muted-foreground">
+                                  (solicitado {item.requestedQuantity})
+                                </span>
+                              )}
+                            </div>
+                          ))}
+                        </div>
                       </TableCell>
                       <TableCell>
-                        {getStatusBadge(requisition.status)}
+                        <div className="flex flex-wrap items-center gap-1">
+                          {getStatusBadge(requisition.status)}
+                          {requisition.status === 'ASSINADA' && (
+                            <SignatureVerificationBadge requisitionId={requisition.id} />
+                          )}
+                        </div>
                       </TableCell>
                       <TableCell>
                         {formatDate(requisition.createdAt)}
@@ -405,14 +664,26 @@ export default function Requisitions() {
                               {viewingRequisition && (
                                 <DigitalSignature
                                   requisition={viewingRequisition}
-                                  onSign={handleSignRequisition}
-                                  isLoading={isLoading}
+                                  onSign={(password) => handleSignRequisition(viewingRequisition, password)}
+                                  isLoading={signMutation.isPending}
                                 />
                               )}
                             </DialogContent>
                           </Dialog>
                           
-                          {requisition.status === 'PENDENTE' && (
+                          {requisition.signedAt && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              title="Baixar comprovante"
+                              onClick={() => handleDownloadReceipt(requisition)}
+                              data-testid={`button-receipt-requisition-${requisition.id}`}
+                            >
+                              <FileDown className="h-4 w-4" />
+                            </Button>
+                          )}
+
+                          {canManage && requisition.status === 'PENDENTE' && (
                             <Dialog>
                               <DialogTrigger asChild>
                                 <Button
@@ -431,13 +702,35 @@ export default function Requisitions() {
                                 {signingRequisition && (
                                   <DigitalSignature
                                     requisition={signingRequisition}
-                                    onSign={handleSignRequisition}
-                                    isLoading={isLoading}
+                                    onSign={(password) => handleSignRequisition(signingRequisition, password)}
+                                    isLoading={signMutation.isPending}
                                   />
                                 )}
                               </DialogContent>
                             </Dialog>
                           )}
+
+                          {canManage && requisition.status === 'SOLICITADA' && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => openReview(requisition)}
+                              data-testid={`button-review-requisition-${requisition.id}`}
+                            >
+                              <ClipboardCheck className="h-4 w-4 text-primary" />
+                            </Button>
+                          )}
+
+                          {canManage && (requisition.status === 'PENDENTE' || requisition.status === 'ASSINADA') && (
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => setCancellingRequisition(requisition)}
+                              data-testid={`button-cancel-requisition-${requisition.id}`}
+                            >
+                              <XCircle className="h-4 w-4 text-destructive" />
+                            </Button>
+                          )}
                         </div>
                       </TableCell>
                     </TableRow>
@@ -448,6 +741,147 @@ export default function Requisitions() {
           )}
         </CardContent>
       </Card>
+
+      {/* Review Dialog */}
+      <Dialog
+        open={Boolean(reviewingRequisition)}
+        onOpenChange={(open) => {
+          if (!open) closeReview();
+        }}
+      >
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Analisar Solicitação</DialogTitle>
+          </DialogHeader>
+          {reviewingRequisition && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {reviewingRequisition.number} • {reviewingRequisition.employeeName} • {formatDate(reviewingRequisition.createdAt)}
+              </p>
+              {reviewingRequisition.observation && (
+                <p className="text-sm">{reviewingRequisition.observation}</p>
+              )}
+              <div className="divide-y rounded-md border">
+                {reviewingRequisition.items.map((item) => (
+                  <div key={item.id} className="flex items-center justify-between gap-4 p-3">
+                    <div>
+                      <p className="font-medium">{item.materialName}</p>
+                      <p className="text-sm text-muted-foreground">
+                        {item.materialCode} • Solicitado: {item.quantity} {item.unit}
+                      </p>
+                    </div>
+                    <div className="w-28">
+                      <Label htmlFor={`approve-quantity-${item.id}`} className="sr-only">
+                        Quantidade aprovada
+                      </Label>
+                      <Input
+                        id={`approve-quantity-${item.id}`}
+                        type="number"
+                        min={0}
+                        max={item.quantity}
+                        value={approvedQuantities[item.id] ?? ""}
+                        onChange={(e) =>
+                          setApprovedQuantities((prev) => ({ ...prev, [item.id]: e.target.value }))
+                        }
+                        data-testid={`input-approve-quantity-${item.id}`}
+                      />
+                    </div>
+                  </div>
+                ))}
+              </div>
+              <p className="text-xs text-muted-foreground">
+                Reduza a quantidade para aprovar parcialmente. Itens com quantidade zero são removidos.
+              </p>
+              <div className="space-y-2">
+                <Label htmlFor="reject-reason">Motivo da rejeição</Label>
+                <Textarea
+                  id="reject-reason"
+                  value={rejectReason}
+                  onChange={(e) => setRejectReason(e.target.value)}
+                  placeholder="Obrigatório apenas para rejeitar a solicitação"
+                  data-testid="input-reject-reason"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="destructive"
+                  onClick={handleRejectRequisition}
+                  disabled={rejectMutation.isPending || approveMutation.isPending || !rejectReason.trim()}
+                  data-testid="button-reject-requisition"
+                >
+                  {rejectMutation.isPending ? 'Rejeitando...' : 'Rejeitar'}
+                </Button>
+                <Button
+                  onClick={handleApproveRequisition}
+                  disabled={approveMutation.isPending || rejectMutation.isPending || !isApprovalValid}
+                  data-testid="button-approve-requisition"
+                >
+                  {approveMutation.isPending ? 'Aprovando...' : 'Aprovar'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      {/* Cancel Dialog */}
+      <Dialog
+        open={Boolean(cancellingRequisition)}
+        onOpenChange={(open) => {
+          if (!open) {
+            setCancellingRequisition(null);
+            setCancelReason("");
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Cancelar Requisição</DialogTitle>
+          </DialogHeader>
+          {cancellingRequisition && (
+            <div className="space-y-4">
+              <p className="text-sm text-muted-foreground">
+                {cancellingRequisition.number} • {cancellingRequisition.employeeName} •{' '}
+                {cancellingRequisition.items
+                  .map((item) => `${item.quantity} ${item.unit} ${item.materialName}`)
+                  .join(', ')}
+              </p>
+              {cancellingRequisition.status === 'ASSINADA' && (
+                <p className="text-sm text-amber-600">
+                  Esta requisição já foi assinada. Os materiais retirados serão estornados ao estoque.
+                </p>
+              )}
+              <div className="space-y-2">
+                <Label htmlFor="cancel-reason">Motivo do cancelamento</Label>
+                <Textarea
+                  id="cancel-reason"
+                  value={cancelReason}
+                  onChange={(e) => setCancelReason(e.target.value)}
+                  placeholder="Descreva o motivo do cancelamento"
+                  data-testid="input-cancel-reason"
+                />
+              </div>
+              <div className="flex justify-end gap-2">
+                <Button
+                  variant="outline"
+                  onClick={() => setCancellingRequisition(null)}
+                  data-testid="button-cancel-cancel-requisition"
+                >
+                  Voltar
+                </Button>
+                <Button
+                  variant="destructive"
+                  onClick={handleCancelRequisition}
+                  disabled={cancelMutation.isPending || !cancelReason.trim()}
+                  data-testid="button-confirm-cancel-requisition"
+                >
+                  {cancelMutation.isPending ? 'Cancelando...' : 'Confirmar Cancelamento'}
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,319 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/useAuth";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
+import type { Permission } from "@shared/permissions";
+import { Settings as SettingsIcon, Loader2, Send, Plus } from "lucide-react";
+
+type NotificationPreferences = {
+  requisitionCreated: boolean;
+  lowStock: boolean;
+  dailyDigest: boolean;
+};
+
+type CostCenter = {
+  id: string;
+  code: string;
+  name: string;
+  isActive: boolean;
+};
+
+type PreferenceOption = {
+  key: keyof NotificationPreferences;
+  label: string;
+  description: string;
+  // Only offered to roles that receive this email at all
+  permission: Permission;
+};
+
+const PREFERENCES_KEY = ["/api/notification-preferences"];
+const COST_CENTERS_KEY = ["/api/cost-centers"];
+
+const preferenceOptions: PreferenceOption[] = [
+  {
+    key: "requisitionCreated",
+    label: "Requisição criada para mim",
+    description: "Avisa quando o estoque cria uma requisição que você precisa assinar.",
+    permission: "requisitions:view-own",
+  },
+  {
+    key: "lowStock",
+    label: "Estoque abaixo do mínimo",
+    description: "Avisa quando um material chega ao estoque mínimo ou zera.",
+    permission: "alerts:view",
+  },
+  {
+    key: "dailyDigest",
+    label: "Resumo diário",
+    description: "Todas as manhãs, os alertas ativos e as requisições pendentes.",
+    permission: "alerts:view",
+  },
+];
+
+export default function Settings() {
+  const queryClient = useQueryClient();
+  const { user, can } = useAuth();
+  const canManageSettings = can("settings:manage");
+  const [newCostCenter, setNewCostCenter] = useState({ code: "", name: "" });
+
+  const preferencesQuery = useQuery<NotificationPreferences>({
+    queryKey: PREFERENCES_KEY,
+  });
+  const transportQuery = useQuery<{ name: string }>({
+    queryKey: ["/api/notifications/transport"],
+    enabled: canManageSettings,
+  });
+  const costCentersQuery = useQuery<CostCenter[]>({
+    queryKey: COST_CENTERS_KEY,
+    enabled: canManageSettings,
+  });
+
+  const preferencesMutation = useMutation({
+    mutationFn: async (changes: Partial<NotificationPreferences>) => {
+      const response = await apiRequest("PUT", "/api/notification-preferences", changes);
+      return (await response.json()) as NotificationPreferences;
+    },
+    onSuccess: (preferences) => {
+      queryClient.setQueryData(PREFERENCES_KEY, preferences);
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível salvar suas preferências",
+        description: extractErrorMessage(error),
+      });
+    },
+  });
+
+  const testMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/notifications/test");
+      return (await response.json()) as { transport: string; to: string };
+    },
+    onSuccess: ({ to }) => {
+      toast({ title: "E-mail de teste enviado", description: `Verifique a caixa de entrada de ${to}.` });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Falha no envio do e-mail de teste",
+        description: extractErrorMessage(error),
+      });
+    },
+  });
+
+  const createCostCenterMutation = useMutation({
+    mutationFn: async (costCenter: { code: string; name: string }) => {
+      const response = await apiRequest("POST", "/api/cost-centers", costCenter);
+      return (await response.json()) as CostCenter;
+    },
+    onSuccess: () => {
+      setNewCostCenter({ code: "", name: "" });
+      toast({ title: "Centro de custo cadastrado" });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível cadastrar o centro de custo",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: COST_CENTERS_KEY }),
+  });
+
+  const toggleCostCenterMutation = useMutation({
+    mutationFn: async ({ id, isActive }: { id: string; isActive: boolean }) => {
+      await apiRequest("PUT", `/api/cost-centers/${id}`, { isActive });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível atualizar o centro de custo",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: COST_CENTERS_KEY }),
+  });
+
+  const options = preferenceOptions.filter((option) => can(option.permission));
+  const preferences = preferencesQuery.data;
+
+  return (
+    <div className="space-y-6" data-testid="page-settings">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <SettingsIcon className="h-8 w-8" />
+          Configurações
+        </h1>
+        <p className="text-muted-foreground">
+          {canManageSettings
+            ? "Notificações por e-mail e cadastros gerais do sistema"
+            : "Escolha quais e-mails você deseja receber"}
+        </p>
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Notificações por e-mail</CardTitle>
+          <CardDescription>
+            {user?.email
+              ? `Enviadas para ${user.email}`
+              : "Seu usuário não tem e-mail cadastrado, então nenhuma notificação será enviada."}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {preferencesQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-8 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Carregando preferências...</span>
+            </div>
+          ) : preferencesQuery.isError || !preferences ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar suas preferências. Atualize a página para tentar novamente.
+            </div>
+          ) : (
+            options.map((option) => (
+              <div key={option.key} className="flex items-center justify-between gap-4 rounded-lg border p-4">
+                <div className="space-y-1">
+                  <Label htmlFor={`preference-${option.key}`}>{option.label}</Label>
+                  <p className="text-sm text-muted-foreground">{option.description}</p>
+                </div>
+                <Switch
+                  id={`preference-${option.key}`}
+                  checked={preferences[option.key]}
+                  disabled={preferencesMutation.isPending}
+                  onCheckedChange={(checked) => preferencesMutation.mutate({ [option.key]: checked })}
+                  data-testid={`switch-preference-${option.key}`}
+                />
+              </div>
+            ))
+          )}
+        </CardContent>
+      </Card>
+
+      {canManageSettings && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Envio de e-mails</CardTitle>
+            <CardDescription>
+              O transporte é definido pela variável MAIL_TRANSPORT do servidor (sendgrid, smtp, file ou console).
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex flex-col gap-4 md:flex-row md:items-center md:justify-between">
+            <div className="flex items-center gap-2 text-sm">
+              Transporte em uso:
+              {transportQuery.data ? (
+                <Badge variant="secondary" data-testid="text-mail-transport">{transportQuery.data.name}</Badge>
+              ) : (
+                <Loader2 className="h-4 w-4 animate-spin" />
+              )}
+            </div>
+            <Button
+              variant="outline"
+              onClick={() => testMutation.mutate()}
+              disabled={testMutation.isPending || !user?.email}
+              data-testid="button-send-test-email"
+            >
+              {testMutation.isPending ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Send className="mr-2 h-4 w-4" />
+              )}
+              Enviar e-mail de teste
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
+      {canManageSettings && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Centros de custo</CardTitle>
+            <CardDescription>
+              Requisições podem ser atribuídas a um centro de custo para o relatório de consumo. Centros desativados
+              deixam de ser oferecidos em novas requisições.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form
+              className="flex flex-col gap-2 md:flex-row"
+              onSubmit={(e) => {
+                e.preventDefault();
+                createCostCenterMutation.mutate(newCostCenter);
+              }}
+            >
+              <Input
+                placeholder="Código"
+                value={newCostCenter.code}
+                onChange={(e) => setNewCostCenter((current) => ({ ...current, code: e.target.value }))}
+                className="md:w-40"
+                data-testid="input-cost-center-code"
+              />
+              <Input
+                placeholder="Nome"
+                value={newCostCenter.name}
+                onChange={(e) => setNewCostCenter((current) => ({ ...current, name: e.target.value }))}
+                data-testid="input-cost-center-name"
+              />
+              <Button
+                type="submit"
+                disabled={createCostCenterMutation.isPending || !newCostCenter.code.trim() || !newCostCenter.name.trim()}
+                data-testid="button-add-cost-center"
+              >
+                {createCostCenterMutation.isPending ? (
+                  <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                ) : (
+                  <Plus className="mr-2 h-4 w-4" />
+                )}
+                Adicionar
+              </Button>
+            </form>
+
+            {costCentersQuery.isLoading ? (
+              <div className="flex justify-center py-4 text-muted-foreground">
+                <Loader2 className="h-5 w-5 animate-spin" />
+              </div>
+            ) : (costCentersQuery.data ?? []).length === 0 ? (
+              <p className="text-sm text-muted-foreground" data-testid="text-no-cost-centers">
+                Nenhum centro de custo cadastrado
+              </p>
+            ) : (
+              (costCentersQuery.data ?? []).map((costCenter) => (
+                <div
+                  key={costCenter.id}
+                  className="flex items-center justify-between gap-4 rounded-lg border p-3"
+                  data-testid={`row-cost-center-${costCenter.id}`}
+                >
+                  <div>
+                    <span className="font-mono text-sm">{costCenter.code}</span>
+                    <span className="ml-2">{costCenter.name}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Label htmlFor={`cost-center-${costCenter.id}`} className="text-sm text-muted-foreground">
+                      {costCenter.isActive ? "Ativo" : "Inativo"}
+                    </Label>
+                    <Switch
+                      id={`cost-center-${costCenter.id}`}
+                      checked={costCenter.isActive}
+                      disabled={toggleCostCenterMutation.isPending}
+                      onCheckedChange={(isActive) => toggleCostCenterMutation.mutate({ id: costCenter.id, isActive })}
+                      data-testid={`switch-cost-center-${costCenter.id}`}
+                    />
+                  </div>
+                </div>
+              ))
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
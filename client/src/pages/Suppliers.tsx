@@ -0,0 +1,342 @@
+import { useState, FormEvent } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
+import { Factory, Plus, Edit, Loader2, Power } from "lucide-react";
+
+type Supplier = {
+  id: string;
+  name: string;
+  document: string | null;
+  email: string | null;
+  phone: string | null;
+  contactName: string | null;
+  leadTimeDays: number;
+  isActive: boolean;
+};
+
+type SupplierChanges = {
+  name?: string;
+  document?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  contactName?: string | null;
+  leadTimeDays?: number;
+  isActive?: boolean;
+};
+
+type SupplierFields = Record<"name" | "document" | "email" | "phone" | "contactName" | "leadTimeDays", string>;
+
+const SUPPLIERS_KEY = ["/api/suppliers"];
+
+const emptyFields: SupplierFields = { name: "", document: "", email: "", phone: "", contactName: "", leadTimeDays: "7" };
+
+export default function Suppliers() {
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<Supplier | null>(null);
+  const [isFormOpen, setIsFormOpen] = useState(false);
+  const [fields, setFields] = useState<SupplierFields>(emptyFields);
+
+  const suppliersQuery = useQuery<Supplier[]>({
+    queryKey: SUPPLIERS_KEY,
+  });
+
+  // Supplier names are shown on the purchase orders and lead times drive the reorder suggestions
+  const invalidateSuppliers = () =>
+    queryClient.invalidateQueries({
+      predicate: (query) => {
+        const key = String(query.queryKey[0]);
+        return ["/api/suppliers", "/api/purchase-orders", "/api/replenishment"].some((prefix) => key.startsWith(prefix));
+      },
+    });
+
+  const closeForm = () => {
+    setIsFormOpen(false);
+    setEditing(null);
+    setFields(emptyFields);
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id?: string; changes: SupplierChanges }) => {
+      const response = id
+        ? await apiRequest("PUT", `/api/suppliers/${id}`, changes)
+        : await apiRequest("POST", "/api/suppliers", changes);
+      return (await response.json()) as Supplier;
+    },
+    onSuccess: (supplier, { id, changes }) => {
+      if (changes.isActive !== undefined && changes.name === undefined) {
+        toast({
+          title: "Fornecedor atualizado",
+          description: `${supplier.name} foi ${supplier.isActive ? "reativado" : "desativado"}.`,
+        });
+        return;
+      }
+      closeForm();
+      toast({
+        title: id ? "Fornecedor atualizado" : "Fornecedor cadastrado",
+        description: supplier.name,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível salvar o fornecedor",
+        description: extractErrorMessage(error),
+      });
+    },
+    onSettled: invalidateSuppliers,
+  });
+
+  const openCreate = () => {
+    setEditing(null);
+    setFields(emptyFields);
+    setIsFormOpen(true);
+  };
+
+  const openEdit = (supplier: Supplier) => {
+    setEditing(supplier);
+    setFields({
+      name: supplier.name,
+      document: supplier.document ?? "",
+      email: supplier.email ?? "",
+      phone: supplier.phone ?? "",
+      contactName: supplier.contactName ?? "",
+      leadTimeDays: String(supplier.leadTimeDays),
+    });
+    setIsFormOpen(true);
+  };
+
+  const setField = (name: keyof SupplierFields, value: string) =>
+    setFields((current) => ({ ...current, [name]: value }));
+
+  const handleSubmit = (event: FormEvent<HTMLFormElement>) => {
+    event.preventDefault();
+    saveMutation.mutate({
+      id: editing?.id,
+      changes: {
+        name: fields.name.trim(),
+        document: fields.document.trim() || null,
+        email: fields.email.trim() || null,
+        phone: fields.phone.trim() || null,
+        contactName: fields.contactName.trim() || null,
+        leadTimeDays: parseInt(fields.leadTimeDays),
+      },
+    });
+  };
+
+  const suppliers = suppliersQuery.data ?? [];
+  const activeCount = suppliers.filter((s) => s.isActive).length;
+
+  return (
+    <div className="space-y-6" data-testid="page-suppliers">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold flex items-center gap-2">
+            <Factory className="h-8 w-8" />
+            Fornecedores
+          </h1>
+          <p className="text-muted-foreground">
+            Empresas de quem os materiais são comprados
+          </p>
+        </div>
+        <Button onClick={openCreate} data-testid="button-new-supplier">
+          <Plus className="h-4 w-4 mr-2" />
+          Novo Fornecedor
+        </Button>
+      </div>
+
+      {/* Suppliers Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Fornecedores
+            <Badge variant="secondary" className="ml-2">
+              {suppliers.length}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            {activeCount} ativos para novos pedidos de compra
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {suppliersQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Carregando fornecedores...</span>
+            </div>
+          ) : suppliersQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar os fornecedores. Atualize a página para tentar novamente.
+            </div>
+          ) : suppliers.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-suppliers">
+              Nenhum fornecedor cadastrado
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>CNPJ/CPF</TableHead>
+                    <TableHead>Contato</TableHead>
+                    <TableHead className="text-right">Prazo de Entrega</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {suppliers.map((supplier) => {
+                    const isUpdating = saveMutation.isPending && saveMutation.variables?.id === supplier.id;
+
+                    return (
+                      <TableRow key={supplier.id} data-testid={`row-supplier-${supplier.id}`}>
+                        <TableCell className="font-medium">{supplier.name}</TableCell>
+                        <TableCell className="font-mono text-sm">{supplier.document ?? "—"}</TableCell>
+                        <TableCell className="text-sm">
+                          {supplier.contactName && <div>{supplier.contactName}</div>}
+                          {supplier.email && <div className="text-muted-foreground">{supplier.email}</div>}
+                          {supplier.phone && <div className="text-muted-foreground">{supplier.phone}</div>}
+                          {!supplier.contactName && !supplier.email && !supplier.phone && "—"}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {supplier.leadTimeDays} {supplier.leadTimeDays === 1 ? "dia" : "dias"}
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={supplier.isActive ? "default" : "destructive"}>
+                            {supplier.isActive ? "Ativo" : "Desativado"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => openEdit(supplier)}
+                              data-testid={`button-edit-supplier-${supplier.id}`}
+                            >
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              disabled={isUpdating}
+                              onClick={() =>
+                                saveMutation.mutate({ id: supplier.id, changes: { isActive: !supplier.isActive } })
+                              }
+                              data-testid={`button-toggle-supplier-${supplier.id}`}
+                            >
+                              {isUpdating ? (
+                                <Loader2 className="h-4 w-4 animate-spin" />
+                              ) : (
+                                <Power className={supplier.isActive ? "h-4 w-4 text-destructive" : "h-4 w-4 text-green-600"} />
+                              )}
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isFormOpen} onOpenChange={(open) => !open && closeForm()}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editing ? "Editar Fornecedor" : "Novo Fornecedor"}</DialogTitle>
+          </DialogHeader>
+          <form className="space-y-4" onSubmit={handleSubmit}>
+            <div className="space-y-2">
+              <Label htmlFor="supplier-name">Nome</Label>
+              <Input
+                id="supplier-name"
+                value={fields.name}
+                onChange={(e) => setField("name", e.target.value)}
+                placeholder="Ex: Distribuidora Construforte Ltda"
+                required
+                data-testid="input-supplier-name"
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="supplier-document">CNPJ/CPF (opcional)</Label>
+                <Input
+                  id="supplier-document"
+                  value={fields.document}
+                  onChange={(e) => setField("document", e.target.value)}
+                  placeholder="00.000.000/0000-00"
+                  data-testid="input-supplier-document"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-contact">Contato (opcional)</Label>
+                <Input
+                  id="supplier-contact"
+                  value={fields.contactName}
+                  onChange={(e) => setField("contactName", e.target.value)}
+                  placeholder="Nome do vendedor"
+                  data-testid="input-supplier-contact"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-email">E-mail (opcional)</Label>
+                <Input
+                  id="supplier-email"
+                  type="email"
+                  value={fields.email}
+                  onChange={(e) => setField("email", e.target.value)}
+                  placeholder="compras@fornecedor.com.br"
+                  data-testid="input-supplier-email"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-phone">Telefone (opcional)</Label>
+                <Input
+                  id="supplier-phone"
+                  value={fields.phone}
+                  onChange={(e) => setField("phone", e.target.value)}
+                  placeholder="(00) 0000-0000"
+                  data-testid="input-supplier-phone"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="supplier-lead-time">Prazo de entrega (dias)</Label>
+                <Input
+                  id="supplier-lead-time"
+                  type="number"
+                  min={0}
+                  step={1}
+                  value={fields.leadTimeDays}
+                  onChange={(e) => setField("leadTimeDays", e.target.value)}
+                  required
+                  data-testid="input-supplier-lead-time"
+                />
+              </div>
+            </div>
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={closeForm}>
+                Cancelar
+              </Button>
+              <Button type="submit" disabled={saveMutation.isPending || !fields.name.trim()} data-testid="button-save-supplier">
+                {saveMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                Salvar
+              </Button>
+            </DialogFooter>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
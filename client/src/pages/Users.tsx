@@ -0,0 +1,237 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useAuth } from "@/hooks/useAuth";
+import { toast } from "@/hooks/use-toast";
+import { apiRequest, extractErrorMessage } from "@/lib/queryClient";
+import { Users as UsersIcon, Search, Loader2, UserX, UserCheck } from "lucide-react";
+
+type UserRole = "ADMIN" | "ESTOQUE" | "FUNCIONARIO";
+
+type ManagedUser = {
+  id: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  role: UserRole;
+  isActive: boolean;
+  createdAt: string | null;
+};
+
+type UserChanges = {
+  role?: UserRole;
+  isActive?: boolean;
+};
+
+const roleLabels: Record<UserRole, string> = {
+  ADMIN: "Administrador",
+  ESTOQUE: "Estoque",
+  FUNCIONARIO: "Funcionário",
+};
+
+function getDisplayName(user: ManagedUser) {
+  const name = [user.firstName, user.lastName].filter(Boolean).join(" ");
+  return name || user.email || "Usuário";
+}
+
+export default function Users() {
+  const queryClient = useQueryClient();
+  const { user: currentUser } = useAuth();
+  const [searchTerm, setSearchTerm] = useState("");
+  const [roleFilter, setRoleFilter] = useState<"all" | UserRole>("all");
+
+  const params = new URLSearchParams();
+  if (searchTerm.trim()) params.set("search", searchTerm.trim());
+  if (roleFilter !== "all") params.set("role", roleFilter);
+  const queryString = params.toString();
+
+  const usersQuery = useQuery<ManagedUser[]>({
+    queryKey: [queryString ? `/api/users?${queryString}` : "/api/users"],
+  });
+
+  const updateMutation = useMutation({
+    mutationFn: async ({ id, changes }: { id: string; changes: UserChanges }) => {
+      const response = await apiRequest("PATCH", `/api/users/${id}`, changes);
+      return (await response.json()) as ManagedUser;
+    },
+    onSuccess: async (user, { changes }) => {
+      toast({
+        title: "Usuário atualizado",
+        description:
+          changes.role !== undefined
+            ? `${getDisplayName(user)} agora tem o perfil ${roleLabels[user.role]}.`
+            : `${getDisplayName(user)} foi ${user.isActive ? "reativado" : "desativado"}.`,
+      });
+      await queryClient.invalidateQueries({
+        predicate: (query) => String(query.queryKey[0]).startsWith("/api/users"),
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        variant: "destructive",
+        title: "Não foi possível atualizar o usuário",
+        description: extractErrorMessage(error),
+      });
+    },
+  });
+
+  const users = usersQuery.data ?? [];
+  const activeCount = users.filter((u) => u.isActive).length;
+
+  return (
+    <div className="space-y-6" data-testid="page-users">
+      {/* Header */}
+      <div>
+        <h1 className="text-3xl font-bold flex items-center gap-2">
+          <UsersIcon className="h-8 w-8" />
+          Usuários
+        </h1>
+        <p className="text-muted-foreground">
+          Gerencie perfis de acesso e logins dos usuários do sistema
+        </p>
+      </div>
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-col sm:flex-row gap-4">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+              <Input
+                placeholder="Buscar por nome ou e-mail..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+                data-testid="input-search-users"
+              />
+            </div>
+            <Select value={roleFilter} onValueChange={(value) => setRoleFilter(value as typeof roleFilter)}>
+              <SelectTrigger className="w-48" data-testid="select-role-filter">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Todos os perfis</SelectItem>
+                {(Object.keys(roleLabels) as UserRole[]).map((role) => (
+                  <SelectItem key={role} value={role}>
+                    {roleLabels[role]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Users Table */}
+      <Card>
+        <CardHeader>
+          <CardTitle>
+            Usuários
+            <Badge variant="secondary" className="ml-2">
+              {users.length}
+            </Badge>
+          </CardTitle>
+          <CardDescription>
+            {activeCount} com acesso ativo
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {usersQuery.isLoading ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-muted-foreground">
+              <Loader2 className="h-6 w-6 animate-spin" />
+              <span>Carregando usuários...</span>
+            </div>
+          ) : usersQuery.isError ? (
+            <div className="rounded-md border border-destructive/40 bg-destructive/10 p-4 text-sm text-destructive">
+              Não foi possível carregar os usuários. Atualize a página para tentar novamente.
+            </div>
+          ) : users.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground" data-testid="text-no-users">
+              Nenhum usuário encontrado
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Nome</TableHead>
+                    <TableHead>E-mail</TableHead>
+                    <TableHead>Perfil</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead className="text-right">Ações</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {users.map((user) => {
+                    const isSelf = user.id === currentUser?.id;
+                    const isUpdating = updateMutation.isPending && updateMutation.variables?.id === user.id;
+
+                    return (
+                      <TableRow key={user.id} data-testid={`row-user-${user.id}`}>
+                        <TableCell className="font-medium">
+                          {getDisplayName(user)}
+                          {isSelf && <span className="ml-2 text-xs text-muted-foreground">(você)</span>}
+                        </TableCell>
+                        <TableCell>{user.email ?? "—"}</TableCell>
+                        <TableCell>
+                          <Select
+                            value={user.role}
+                            disabled={isSelf || isUpdating}
+                            onValueChange={(role) =>
+                              updateMutation.mutate({ id: user.id, changes: { role: role as UserRole } })
+                            }
+                          >
+                            <SelectTrigger className="w-40" data-testid={`select-role-${user.id}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(roleLabels) as UserRole[]).map((role) => (
+                                <SelectItem key={role} value={role}>
+                                  {roleLabels[role]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                        </TableCell>
+                        <TableCell>
+                          <Badge variant={user.isActive ? "default" : "destructive"}>
+                            {user.isActive ? "Ativo" : "Desativado"}
+                          </Badge>
+                        </TableCell>
+                        <TableCell className="text-right">
+                          <Button
+                            size="sm"
+                            variant={user.isActive ? "outline" : "default"}
+                            disabled={isSelf || isUpdating}
+                            onClick={() =>
+                              updateMutation.mutate({ id: user.id, changes: { isActive: !user.isActive } })
+                            }
+                            data-testid={`button-toggle-active-${user.id}`}
+                          >
+                            {isUpdating ? (
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+                            ) : user.isActive ? (
+                              <UserX className="mr-2 h-4 w-4" />
+                            ) : (
+                              <UserCheck className="mr-2 h-4 w-4" />
+                            )}
+                            {user.isActive ? "Desativar" : "Reativar"}
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
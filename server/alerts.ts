@@ -0,0 +1,145 @@
+import type { Alert } from "@shared/schema";
+import { storage } from "./storage";
+
+// How long a requisition may wait for the employee's signature and how far
+// ahead a lot counts as expiring; both can be tuned per deployment.
+const PENDING_SIGNATURE_HOURS = Number(process.env.ALERT_PENDING_HOURS) || 24;
+const EXPIRY_WARNING_DAYS = Number(process.env.ALERT_EXPIRY_DAYS) || 30;
+
+// Time-based conditions only change with the clock, so they are re-checked
+// periodically; stock and requisition changes schedule a check right away.
+const CHECK_INTERVAL_MS = 5 * 60 * 1000;
+const CHECK_DELAY_MS = 1000;
+
+type AlertCandidate = Parameters<typeof storage.syncAlerts>[0][number];
+
+export type AlertChange = {
+  raised: Alert[];
+  // Alerts acknowledged or resolved, by hand or by the monitor
+  updated: Alert[];
+};
+
+type AlertListener = (change: AlertChange) => void;
+
+const listeners = new Set<AlertListener>();
+
+export function onAlertChange(listener: AlertListener): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function notifyAlertChange(change: AlertChange) {
+  if (change.raised.length === 0 && change.updated.length === 0) return;
+  for (const listener of Array.from(listeners)) {
+    try {
+      listener(change);
+    } catch (error) {
+      console.error("Error notifying alert change:", error);
+    }
+  }
+}
+
+function personName(person: { firstName: string | null; lastName: string | null; email: string | null } | null) {
+  if (!person) return "funcionário removido";
+  return [person.firstName, person.lastName].filter(Boolean).join(" ") || person.email || "funcionário";
+}
+
+function formatDate(date: string) {
+  const [year, month, day] = date.split("-");
+  return `${day}/${month}/${year}`;
+}
+
+// Every condition that should currently have an alert
+async function collectAlertCandidates(now: Date): Promise<AlertCandidate[]> {
+  const [lowStock, requisitions, expiringLots] = await Promise.all([
+    storage.getMaterialsWithLowStock(),
+    storage.getRequisitions(),
+    storage.getExpiringLots({ days: EXPIRY_WARNING_DAYS }),
+  ]);
+  const candidates: AlertCandidate[] = [];
+
+  for (const material of lowStock) {
+    candidates.push(material.currentStock <= 0
+      ? {
+        type: "ESTOQUE_ZERADO",
+        entityType: "MATERIAL",
+        entityId: material.id,
+        message: `${material.code} - ${material.name} está sem estoque`,
+      }
+      : {
+        type: "ESTOQUE_BAIXO",
+        entityType: "MATERIAL",
+        entityId: material.id,
+        message: `${material.code} - ${material.name} abaixo do mínimo: ${material.currentStock} de ${material.minimumStock} ${material.unit}`,
+      });
+  }
+
+  const pendingCutoff = now.getTime() - PENDING_SIGNATURE_HOURS * 60 * 60 * 1000;
+  for (const requisition of requisitions) {
+    // Requests approved from SOLICITADA wait from the review, not the request
+    const pendingSince = requisition.reviewedAt ?? requisition.createdAt;
+    if (requisition.status !== "PENDENTE" || !pendingSince || pendingSince.getTime() > pendingCutoff) continue;
+    candidates.push({
+      type: "REQUISICAO_PENDENTE",
+      entityType: "REQUISITION",
+      entityId: requisition.id,
+      message: `Requisição ${requisition.number} de ${personName(requisition.employee)} aguarda assinatura há mais de ${PENDING_SIGNATURE_HOURS} h`,
+    });
+  }
+
+  const today = now.toISOString().slice(0, 10);
+  for (const lot of expiringLots) {
+    if (!lot.expiresAt) continue;
+    const material = lot.material ? `${lot.material.code} - ${lot.material.name}` : "material removido";
+    candidates.push({
+      type: "LOTE_VENCENDO",
+      entityType: "STOCK_LOT",
+      entityId: lot.id,
+      message: `Lote ${lot.lotNumber} de ${material} ${lot.expiresAt < today ? "venceu" : "vence"} em ${formatDate(lot.expiresAt)} (${lot.quantity} ${lot.material?.unit ?? ""} em ${lot.location?.name ?? "local removido"})`,
+    });
+  }
+
+  return candidates;
+}
+
+let running: Promise<void> | null = null;
+let rerun = false;
+let scheduled: NodeJS.Timeout | null = null;
+
+// Re-evaluates every condition. A call made while a check is running is
+// folded into one more pass once it finishes.
+export function checkAlerts(): Promise<void> {
+  if (running) {
+    rerun = true;
+    return running;
+  }
+
+  running = (async () => {
+    try {
+      do {
+        rerun = false;
+        const { created, resolved } = await storage.syncAlerts(await collectAlertCandidates(new Date()));
+        notifyAlertChange({ raised: created, updated: resolved });
+      } while (rerun);
+    } catch (error) {
+      console.error("Error checking alerts:", error);
+    } finally {
+      running = null;
+    }
+  })();
+  return running;
+}
+
+// Coalesces bursts of changes (e.g. a requisition with many items) into one check
+export function scheduleAlertCheck() {
+  if (scheduled) return;
+  scheduled = setTimeout(() => {
+    scheduled = null;
+    void checkAlerts();
+  }, CHECK_DELAY_MS);
+}
+
+export function startAlertMonitor() {
+  void checkAlerts();
+  setInterval(() => void checkAlerts(), CHECK_INTERVAL_MS).unref();
+}
@@ -0,0 +1,32 @@
+// Shape stored in audit_logs.changes so the viewer can render a before/after
+// diff. CREATE entries only carry `after`, DELETE entries only `before`.
+export type ChangeSet = {
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+};
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a instanceof Date || b instanceof Date) {
+    return new Date(a as Date).getTime() === new Date(b as Date).getTime();
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+// Keeps only the fields that actually changed between two versions of a
+// record, ignoring bookkeeping columns.
+export function diffChanges<T extends Record<string, any>>(
+  before: T,
+  after: T,
+  ignore: (keyof T)[] = ["updatedAt"],
+): ChangeSet {
+  const changedBefore: Record<string, unknown> = {};
+  const changedAfter: Record<string, unknown> = {};
+
+  for (const key of Object.keys(after)) {
+    if (ignore.includes(key) || isSameValue(before[key], after[key])) continue;
+    changedBefore[key] = before[key] ?? null;
+    changedAfter[key] = after[key] ?? null;
+  }
+
+  return { before: changedBefore, after: changedAfter };
+}
@@ -0,0 +1,93 @@
+import { once } from "events";
+import type { Writable } from "stream";
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Spreadsheets run text starting with these as a formula. Such text gets a
+// leading apostrophe on export, which parseCsv drops again on import.
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+function escapeCsvValue(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (typeof value === "string" && FORMULA_PREFIX.test(text)) text = `'${text}`;
+  return /[",;\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: CsvValue[]): string {
+  return values.map(escapeCsvValue).join(",") + "\r\n";
+}
+
+// Writes one row, waiting while `out` is backed up so long exports stream
+// instead of piling up in memory. Stops waiting if `out` closes, e.g. when
+// the client goes away; callers check `out.destroyed` to stop producing rows.
+export async function writeCsvRow(out: Writable, values: CsvValue[]): Promise<void> {
+  if (out.write(toCsvRow(values)) || out.destroyed) return;
+
+  const controller = new AbortController();
+  const { signal } = controller;
+  try {
+    await Promise.race([once(out, "drain", { signal }), once(out, "close", { signal })]);
+  } finally {
+    controller.abort();
+  }
+}
+
+// UTF-8 byte order mark so Excel opens accented Portuguese text correctly
+export const CSV_BOM = "\uFEFF";
+
+// Excel saves CSV with semicolons in locales (like pt-BR) whose decimal
+// separator is the comma, so the header line decides the delimiter.
+function detectDelimiter(headerLine: string): "," | ";" {
+  const count = (char: string) => headerLine.split(char).length - 1;
+  return count(";") > count(",") ? ";" : ",";
+}
+
+function unescapeCsvValue(cell: string): string {
+  return cell.startsWith("'") && FORMULA_PREFIX.test(cell.slice(1)) ? cell.slice(1) : cell;
+}
+
+// Parses CSV text into rows of raw cell strings. Quoted cells may contain
+// delimiters, doubled quotes and line breaks.
+export function parseCsv(text: string): string[][] {
+  const content = text.startsWith(CSV_BOM) ? text.slice(CSV_BOM.length) : text;
+  const delimiter = detectDelimiter(content.split(/\r?\n/, 1)[0]);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let quoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+    if (quoted) {
+      if (char !== '"') {
+        cell += char;
+      } else if (content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(unescapeCsvValue(cell));
+      cell = "";
+    } else if (char === "\r" || char === "\n") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      row.push(unescapeCsvValue(cell));
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length > 0) {
+    row.push(unescapeCsvValue(cell));
+    rows.push(row);
+  }
+  return rows;
+}
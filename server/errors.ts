@@ -0,0 +1,102 @@
+// Domain errors carrying the HTTP status the routes should answer with.
+export class HttpError extends Error {
+  readonly status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = new.target.name;
+    this.status = status;
+  }
+}
+
+export class ValidationError extends HttpError {
+  constructor(message: string) {
+    super(400, message);
+  }
+}
+
+export class ForbiddenError extends HttpError {
+  constructor(message: string) {
+    super(403, message);
+  }
+}
+
+export class NotFoundError extends HttpError {
+  constructor(message: string) {
+    super(404, message);
+  }
+}
+
+export class ConflictError extends HttpError {
+  constructor(message: string) {
+    super(409, message);
+  }
+}
+
+export class InsufficientStockError extends ConflictError {
+  readonly materialId: string;
+  readonly available: number;
+  readonly requested: number;
+
+  constructor(materialId: string, available: number, requested: number, materialCode?: string) {
+    super(
+      `Estoque insuficiente${materialCode ? ` para ${materialCode}` : ""}: disponível ${available}, solicitado ${requested}`,
+    );
+    this.materialId = materialId;
+    this.available = available;
+    this.requested = requested;
+  }
+}
+
+export class RequisitionStatusError extends ValidationError {
+  readonly currentStatus: string;
+
+  constructor(currentStatus: string, action: "assinada" | "cancelada" | "aprovada" | "rejeitada") {
+    super(
+      currentStatus === "ASSINADA" && action === "assinada"
+        ? "Requisição já foi assinada"
+        : currentStatus === "CANCELADA"
+          ? "Requisição já foi cancelada"
+          : currentStatus === "REJEITADA"
+            ? "Solicitação já foi rejeitada"
+            : `Requisição não pode ser ${action} no status ${currentStatus}`,
+    );
+    this.currentStatus = currentStatus;
+  }
+}
+
+const purchaseOrderStatusLabels: Record<string, string> = {
+  RASCUNHO: "rascunho",
+  ENVIADO: "enviado",
+  PARCIALMENTE_RECEBIDO: "parcialmente recebido",
+  RECEBIDO: "recebido",
+  CANCELADO: "cancelado",
+};
+
+export class PurchaseOrderStatusError extends ValidationError {
+  readonly currentStatus: string;
+
+  constructor(currentStatus: string, action: "editado" | "enviado" | "recebido" | "cancelado") {
+    super(
+      currentStatus === "CANCELADO"
+        ? "Pedido de compra foi cancelado"
+        : currentStatus === "RECEBIDO"
+          ? "Pedido de compra já foi totalmente recebido"
+          : `Pedido de compra não pode ser ${action} no status ${purchaseOrderStatusLabels[currentStatus] ?? currentStatus}`,
+    );
+    this.currentStatus = currentStatus;
+  }
+}
+
+export class AlertStatusError extends ValidationError {
+  readonly currentStatus: string;
+
+  constructor(currentStatus: string, action: "reconhecido" | "resolvido") {
+    super(
+      currentStatus === "RESOLVIDO"
+        ? "Alerta já foi resolvido"
+        : `Alerta não pode ser ${action}: já foi reconhecido`,
+    );
+    this.currentStatus = currentStatus;
+  }
+}
@@ -0,0 +1,127 @@
+import fs from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import sgMail from "@sendgrid/mail";
+import { sendSmtpMail } from "./smtp";
+
+export type MailMessage = {
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Delivers notification emails. Picked once at startup from MAIL_TRANSPORT
+// (sendgrid, smtp, file or console); see createMailTransport.
+export interface MailTransport {
+  readonly name: string;
+  send(message: MailMessage): Promise<void>;
+}
+
+const DEFAULT_FROM = "Almoxarifado <no-reply@localhost>";
+
+function addressOf(mailbox: string): string {
+  return mailbox.match(/<([^>]+)>/)?.[1] ?? mailbox.trim();
+}
+
+// Non-ASCII header text (accents in subjects) as an RFC 2047 encoded word
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value).toString("base64")}?=`;
+}
+
+// Plain-text UTF-8 message in RFC 5322 form, as sent over SMTP or saved as .eml
+export function formatMimeMessage(from: string, message: MailMessage): string {
+  const body = Buffer.from(message.text).toString("base64").replace(/.{76}/g, "$&\r\n");
+  return [
+    `From: ${from}`,
+    `To: ${message.to}`,
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${new Date().toUTCString()}`,
+    `Message-ID: <${randomUUID()}@${addressOf(from).split("@")[1] ?? "localhost"}>`,
+    "MIME-Version: 1.0",
+    "Content-Type: text/plain; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+    "",
+    body,
+  ].join("\r\n");
+}
+
+export class SendGridTransport implements MailTransport {
+  readonly name = "sendgrid";
+
+  constructor(apiKey: string, private readonly from: string) {
+    sgMail.setApiKey(apiKey);
+  }
+
+  async send(message: MailMessage) {
+    await sgMail.send({ ...message, from: this.from });
+  }
+}
+
+export class SmtpTransport implements MailTransport {
+  readonly name = "smtp";
+
+  constructor(
+    private readonly options: Parameters<typeof sendSmtpMail>[0],
+    private readonly from: string,
+  ) {}
+
+  async send(message: MailMessage) {
+    await sendSmtpMail(
+      this.options,
+      { from: addressOf(this.from), to: [addressOf(message.to)] },
+      formatMimeMessage(this.from, message),
+    );
+  }
+}
+
+// Writes each message as an .eml file, for checking emails locally
+export class FileTransport implements MailTransport {
+  readonly name = "file";
+
+  constructor(private readonly directory: string, private readonly from: string) {}
+
+  async send(message: MailMessage) {
+    await fs.promises.mkdir(this.directory, { recursive: true });
+    const fileName = `${new Date().toISOString().replace(/[:.]/g, "-")}-${randomUUID().slice(0, 8)}.eml`;
+    await fs.promises.writeFile(path.join(this.directory, fileName), formatMimeMessage(this.from, message));
+  }
+}
+
+export class ConsoleTransport implements MailTransport {
+  readonly name = "console";
+
+  async send(message: MailMessage) {
+    console.log(`[mail] To: ${message.to}\n[mail] Subject: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Without MAIL_TRANSPORT the first configured option wins: SendGrid, then
+// SMTP, falling back to the console so nothing is sent by accident.
+export function createMailTransport(env: NodeJS.ProcessEnv = process.env): MailTransport {
+  const from = env.MAIL_FROM || DEFAULT_FROM;
+  const kind = env.MAIL_TRANSPORT
+    || (env.SENDGRID_API_KEY ? "sendgrid" : env.SMTP_HOST ? "smtp" : "console");
+
+  switch (kind) {
+    case "sendgrid":
+      if (!env.SENDGRID_API_KEY) throw new Error("MAIL_TRANSPORT=sendgrid requires SENDGRID_API_KEY");
+      return new SendGridTransport(env.SENDGRID_API_KEY, from);
+    case "smtp": {
+      if (!env.SMTP_HOST) throw new Error("MAIL_TRANSPORT=smtp requires SMTP_HOST");
+      const port = Number(env.SMTP_PORT) || 587;
+      return new SmtpTransport({
+        host: env.SMTP_HOST,
+        port,
+        secure: env.SMTP_SECURE ? env.SMTP_SECURE === "true" : port === 465,
+        user: env.SMTP_USER,
+        pass: env.SMTP_PASS,
+      }, from);
+    }
+    case "file":
+      return new FileTransport(env.MAIL_DIR || path.resolve("mail"), from);
+    case "console":
+      return new ConsoleTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT "${kind}"`);
+  }
+}
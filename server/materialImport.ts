@@ -0,0 +1,198 @@
+import { insertMaterialSchema, type InsertMaterial } from "@shared/schema";
+import { ValidationError } from "./errors";
+import { parseCsv } from "./csv";
+import { readXlsx } from "./xlsx";
+
+type ImportField = "code" | "name" | "unit" | "unitPrice" | "minimumStock" | "leadTimeDays" | "openingStock";
+
+// Accepted headers, compared without accents, case or parenthesised notes.
+// The first of each list is how errors name the column; they match the
+// materials export, so an exported file can be edited and imported back.
+const FIELD_HEADERS: Record<ImportField, string[]> = {
+  code: ["Código", "codigo", "cod", "code"],
+  name: ["Nome", "descricao", "material", "name"],
+  unit: ["Unidade", "un", "unit"],
+  unitPrice: ["Preço unitário", "preco", "valor unitario", "unit price"],
+  minimumStock: ["Estoque mínimo", "minimo", "minimum stock"],
+  leadTimeDays: ["Prazo de entrega", "prazo", "lead time"],
+  openingStock: ["Estoque atual", "estoque inicial", "saldo inicial", "quantidade"],
+};
+
+const REQUIRED_FIELDS: ImportField[] = ["code", "name", "unit"];
+
+export type MaterialImportLine = {
+  // Spreadsheet row number; the header is row 1
+  line: number;
+  code: string;
+  name: string;
+  material: InsertMaterial | null;
+  openingStock: number | null;
+  errors: string[];
+};
+
+export type MaterialImportPreviewLine = Omit<MaterialImportLine, "material"> & {
+  action: "create" | "update" | null;
+  warnings: string[];
+};
+
+function normalizeHeader(header: string): string {
+  return header
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/\(.*?\)/g, "")
+    .trim()
+    .replace(/\s+/g, " ")
+    .toLowerCase();
+}
+
+// Upload bytes as text: UTF-8 when valid, otherwise Windows-1252, which is
+// how Excel saves CSV on Brazilian Windows installs.
+function decodeText(file: Buffer): string {
+  try {
+    return new TextDecoder("utf-8", { fatal: true }).decode(file);
+  } catch {
+    return new TextDecoder("windows-1252").decode(file);
+  }
+}
+
+// Accepts "12.5" as well as Brazilian "1.234,56" and "R$ 12,50"
+function parseDecimal(text: string): number | null {
+  let normalized = text.replace(/^R\$/, "").replace(/\s/g, "");
+  if (normalized.includes(",")) {
+    normalized = normalized.replace(/\./g, "").replace(",", ".");
+  }
+  return /^-?\d+(\.\d+)?$/.test(normalized) ? Number(normalized) : null;
+}
+
+function parseWholeNumber(text: string, label: string, errors: string[]): number | undefined {
+  const value = parseDecimal(text);
+  if (value === null || !Number.isInteger(value)) {
+    errors.push(`${label} deve ser um número inteiro`);
+    return undefined;
+  }
+  if (value < 0) {
+    errors.push(`${label} não pode ser negativo`);
+    return undefined;
+  }
+  return value;
+}
+
+// Reads an uploaded .xlsx (first sheet) or .csv into rows of cell text
+function readSheet(file: Buffer): string[][] {
+  const isZip = file.length >= 4 && file.readUInt32LE(0) === 0x04034b50;
+  try {
+    return isZip ? readXlsx(file) : parseCsv(decodeText(file));
+  } catch {
+    throw new ValidationError("Não foi possível ler o arquivo. Envie uma planilha .xlsx ou .csv");
+  }
+}
+
+// Maps the header row to fields, failing when a required column is missing
+function mapColumns(header: string[]): Map<ImportField, number> {
+  const columns = new Map<ImportField, number>();
+  header.forEach((cell, index) => {
+    const normalized = normalizeHeader(cell);
+    const field = (Object.keys(FIELD_HEADERS) as ImportField[])
+      .find((key) => FIELD_HEADERS[key].some((alias) => normalizeHeader(alias) === normalized));
+    if (field && !columns.has(field)) columns.set(field, index);
+  });
+
+  const missing = REQUIRED_FIELDS.filter((field) => !columns.has(field));
+  if (missing.length > 0) {
+    throw new ValidationError(
+      `Coluna obrigatória ausente: ${missing.map((field) => FIELD_HEADERS[field][0]).join(", ")}`,
+    );
+  }
+  return columns;
+}
+
+// Validates one row against the material schema. Empty optional cells are
+// left out, so updating an existing material keeps what it already has.
+function validateRow(line: number, cells: Map<ImportField, string>): MaterialImportLine {
+  const errors: string[] = [];
+  const cell = (field: ImportField) => cells.get(field) ?? "";
+  const candidate: Record<string, unknown> = {
+    code: cell("code"),
+    name: cell("name"),
+    unit: cell("unit"),
+  };
+
+  for (const field of REQUIRED_FIELDS) {
+    if (!cell(field)) errors.push(`Campo obrigatório não preenchido: ${FIELD_HEADERS[field][0]}`);
+  }
+
+  if (cell("unitPrice")) {
+    const price = parseDecimal(cell("unitPrice"));
+    if (price === null) errors.push("Preço unitário deve ser um número");
+    else if (price < 0) errors.push("Preço unitário não pode ser negativo");
+    else candidate.unitPrice = price.toFixed(2);
+  }
+  if (cell("minimumStock")) {
+    candidate.minimumStock = parseWholeNumber(cell("minimumStock"), "Estoque mínimo", errors);
+  }
+  if (cell("leadTimeDays")) {
+    candidate.leadTimeDays = parseWholeNumber(cell("leadTimeDays"), "Prazo de entrega", errors);
+  }
+  const openingStock = cell("openingStock")
+    ? parseWholeNumber(cell("openingStock"), "Estoque atual", errors) ?? null
+    : null;
+
+  let material: InsertMaterial | null = null;
+  if (errors.length === 0) {
+    const parsed = insertMaterialSchema.safeParse(candidate);
+    if (parsed.success) material = parsed.data;
+    else errors.push(...parsed.error.errors.map((issue) => `${issue.path.join(".")}: ${issue.message}`));
+  }
+
+  return { line, code: cell("code"), name: cell("name"), material, openingStock, errors };
+}
+
+// Parses an uploaded spreadsheet of materials, validating every row and
+// flagging codes that appear more than once. Blank rows are skipped.
+export function readMaterialImport(file: Buffer): MaterialImportLine[] {
+  const [header = [], ...body] = readSheet(file);
+  const columns = mapColumns(header);
+
+  const lines: MaterialImportLine[] = [];
+  const firstLineByCode = new Map<string, number>();
+  body.forEach((row, index) => {
+    const cells = new Map<ImportField, string>();
+    for (const [field, column] of Array.from(columns)) {
+      cells.set(field, (row[column] ?? "").trim());
+    }
+    if (Array.from(cells.values()).every((value) => !value)) return;
+
+    const line = validateRow(index + 2, cells);
+    const firstLine = line.code ? firstLineByCode.get(line.code) : undefined;
+    if (firstLine !== undefined) {
+      line.errors.push(`Código repetido: já aparece na linha ${firstLine}`);
+      line.material = null;
+    } else if (line.code) {
+      firstLineByCode.set(line.code, line.line);
+    }
+    lines.push(line);
+  });
+
+  if (lines.length === 0) {
+    throw new ValidationError("A planilha não tem materiais");
+  }
+  return lines;
+}
+
+// What importing would do with each row, given the codes already registered.
+// Opening balances only apply to new materials; existing stock is changed
+// through movements, not by import.
+export function previewMaterialImport(
+  lines: MaterialImportLine[],
+  existingCodes: Set<string>,
+  openingBalance: boolean,
+): MaterialImportPreviewLine[] {
+  return lines.map(({ material, ...line }) => {
+    const action = !material ? null : existingCodes.has(material.code) ? "update" : "create";
+    const warnings: string[] = [];
+    if (openingBalance && action === "update" && line.openingStock) {
+      warnings.push("Material já cadastrado: estoque atual não será lançado");
+    }
+    return { ...line, action, warnings };
+  });
+}
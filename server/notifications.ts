@@ -0,0 +1,162 @@
+import type { Requisition, User } from "@shared/schema";
+import { hasPermission } from "@shared/permissions";
+import { storage } from "./storage";
+import { createMailTransport, type MailMessage, type MailTransport } from "./mail";
+import { onAlertChange, type AlertChange } from "./alerts";
+
+// Local hour (0-23) at which the daily digest goes out
+const DIGEST_HOUR = Number(process.env.NOTIFICATION_DIGEST_HOUR ?? 7);
+
+let transport: MailTransport | undefined;
+
+export function getMailTransport(): MailTransport {
+  transport ??= createMailTransport();
+  return transport;
+}
+
+function displayName(user: Pick<User, "firstName" | "lastName" | "email">) {
+  return [user.firstName, user.lastName].filter(Boolean).join(" ") || user.email || "usuário";
+}
+
+// A failed email is logged and never fails the request that triggered it
+async function deliver(messages: MailMessage[]) {
+  const mail = getMailTransport();
+  for (const message of messages) {
+    try {
+      await mail.send(message);
+    } catch (error) {
+      console.error(`Error sending "${message.subject}" to ${message.to}:`, error);
+    }
+  }
+}
+
+// Stock alerts and the digest go to whoever can act on alerts
+async function staffRecipients(preference: "lowStock" | "dailyDigest"): Promise<User[]> {
+  const recipients = await storage.getNotificationRecipients(preference);
+  return recipients.filter((user) => hasPermission(user.role, "alerts:view"));
+}
+
+// Tells the employee a requisition awaits their signature. Requests the
+// employee made themselves are skipped.
+export async function notifyRequisitionCreated(requisition: Pick<Requisition, "id" | "number" | "employeeId" | "createdById" | "observation">) {
+  try {
+    if (requisition.createdById === requisition.employeeId) return;
+
+    const employee = await storage.getUser(requisition.employeeId);
+    if (!employee?.isActive || !employee.email) return;
+    const preferences = await storage.getNotificationPreferences(employee.id);
+    if (!preferences.requisitionCreated) return;
+
+    const items = await storage.getRequisitionItems(requisition.id);
+    const lines = items.map((item) =>
+      `- ${item.quantity} ${item.material?.unit ?? ""} ${item.material ? `${item.material.code} - ${item.material.name}` : "material removido"}`,
+    );
+
+    await deliver([{
+      to: employee.email,
+      subject: `Nova requisição de materiais para você: ${requisition.number}`,
+      text: [
+        `Olá, ${displayName(employee)}.`,
+        "",
+        `A requisição ${requisition.number} foi criada em seu nome com os materiais abaixo:`,
+        ...lines,
+        ...(requisition.observation ? ["", `Observação: ${requisition.observation}`] : []),
+        "",
+        "Acesse o portal do funcionário para conferir e assinar a retirada.",
+      ].join("\n"),
+    }]);
+  } catch (error) {
+    console.error("Error notifying requisition creation:", error);
+  }
+}
+
+// Only newly raised alerts are mailed, so a material is reported when it
+// crosses below its minimum and not again until it recovers.
+async function notifyLowStock({ raised }: AlertChange) {
+  const stockAlerts = raised.filter((alert) => alert.type === "ESTOQUE_BAIXO" || alert.type === "ESTOQUE_ZERADO");
+  if (stockAlerts.length === 0) return;
+
+  try {
+    const recipients = await staffRecipients("lowStock");
+    await deliver(recipients.map((user) => ({
+      to: user.email!,
+      subject: stockAlerts.length === 1
+        ? "Material abaixo do estoque mínimo"
+        : `${stockAlerts.length} materiais abaixo do estoque mínimo`,
+      text: [
+        `Olá, ${displayName(user)}.`,
+        "",
+        "Os materiais abaixo chegaram ao estoque mínimo:",
+        ...stockAlerts.map((alert) => `- ${alert.message}`),
+        "",
+        "Confira a página de alertas e as sugestões de reposição.",
+      ].join("\n"),
+    })));
+  } catch (error) {
+    console.error("Error notifying low stock:", error);
+  }
+}
+
+type DigestRequisition = Awaited<ReturnType<typeof storage.getRequisitions>>[number];
+
+// Numbered list for the digest, capped like the alert list
+function requisitionLines(requisitions: DigestRequisition[]): string[] {
+  return [
+    ...requisitions.slice(0, 20).map((requisition) =>
+      `- ${requisition.number}${requisition.employee ? ` - ${displayName(requisition.employee)}` : ""}`),
+    ...(requisitions.length > 20 ? [`- e mais ${requisitions.length - 20} requisições`] : []),
+  ];
+}
+
+export async function sendDailyDigest() {
+  const recipients = await staffRecipients("dailyDigest");
+  if (recipients.length === 0) return;
+
+  const [alerts, requisitions] = await Promise.all([storage.getAlerts(), storage.getRequisitions()]);
+  const awaitingApproval = requisitions.filter((requisition) => requisition.status === "SOLICITADA");
+  const awaitingSignature = requisitions.filter((requisition) => requisition.status === "PENDENTE");
+  const openAlerts = alerts.filter((alert) => alert.status === "ABERTO");
+
+  const sections = [
+    `Alertas ativos: ${alerts.length} (${openAlerts.length} sem reconhecimento)`,
+    ...alerts.slice(0, 20).map((alert) => `- ${alert.message}`),
+    ...(alerts.length > 20 ? [`- e mais ${alerts.length - 20} alertas`] : []),
+    "",
+    `Solicitações aguardando aprovação: ${awaitingApproval.length}`,
+    ...requisitionLines(awaitingApproval),
+    "",
+    `Requisições aguardando assinatura: ${awaitingSignature.length}`,
+    ...requisitionLines(awaitingSignature),
+  ];
+
+  await deliver(recipients.map((user) => ({
+    to: user.email!,
+    subject: `Resumo diário do almoxarifado - ${new Date().toLocaleDateString("pt-BR")}`,
+    text: [`Olá, ${displayName(user)}.`, "", ...sections].join("\n"),
+  })));
+}
+
+function msUntilNextDigest(now = new Date()): number {
+  const next = new Date(now);
+  next.setHours(DIGEST_HOUR, 0, 0, 0);
+  if (next <= now) next.setDate(next.getDate() + 1);
+  return next.getTime() - now.getTime();
+}
+
+function scheduleDailyDigest() {
+  setTimeout(async () => {
+    try {
+      await sendDailyDigest();
+    } catch (error) {
+      console.error("Error sending daily digest:", error);
+    }
+    scheduleDailyDigest();
+  }, msUntilNextDigest()).unref();
+}
+
+// Resolves the mail transport up front so a misconfiguration shows at startup
+export function startNotificationService() {
+  console.log(`Email notifications via ${getMailTransport().name} transport`);
+  onAlertChange((change) => void notifyLowStock(change));
+  scheduleDailyDigest();
+}
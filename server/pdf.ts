@@ -0,0 +1,314 @@
+import zlib from "zlib";
+
+export type PdfFont = "regular" | "bold";
+
+export type PdfTextOptions = {
+  font?: PdfFont;
+  size?: number;
+  align?: "left" | "right" | "center";
+  // Longer text is cut and ended with an ellipsis
+  maxWidth?: number;
+  // 0 (black) to 1 (white)
+  gray?: number;
+};
+
+// A4 in points
+const PAGE_WIDTH = 595.28;
+const PAGE_HEIGHT = 841.89;
+
+// Advance widths (1/1000 em) of the standard Helvetica fonts for ASCII 32-126,
+// from the Adobe font metrics. Accented letters use their base letter's width.
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// WinAnsiEncoding matches Latin-1 except for these code points in 0x80-0x9F
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  "€": 0x80, "‚": 0x82, "ƒ": 0x83, "„": 0x84, "…": 0x85, "†": 0x86, "‡": 0x87, "ˆ": 0x88,
+  "‰": 0x89, "Š": 0x8a, "‹": 0x8b, "Œ": 0x8c, "Ž": 0x8e, "‘": 0x91, "’": 0x92, "“": 0x93,
+  "”": 0x94, "•": 0x95, "–": 0x96, "—": 0x97, "˜": 0x98, "™": 0x99, "š": 0x9a, "›": 0x9b,
+  "œ": 0x9c, "ž": 0x9e, "Ÿ": 0x9f,
+};
+
+function encodeWinAnsi(text: string): Buffer {
+  const bytes: number[] = [];
+  for (const char of text) {
+    const code = char.codePointAt(0)!;
+    if ((code >= 0x20 && code < 0x7f) || (code >= 0xa0 && code <= 0xff)) bytes.push(code);
+    else bytes.push(WIN_ANSI_EXTRAS[char] ?? 0x3f);
+  }
+  return Buffer.from(bytes);
+}
+
+function charWidth(char: string, font: PdfFont): number {
+  const widths = font === "bold" ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const base = char.normalize("NFD").charCodeAt(0);
+  return base >= 32 && base <= 126 ? widths[base - 32] : 556;
+}
+
+function formatNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+// PDF date string, e.g. D:20261019143000
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `D:${date.getFullYear()}${pad(date.getMonth() + 1)}${pad(date.getDate())}${pad(date.getHours())}${pad(date.getMinutes())}${pad(date.getSeconds())}`;
+}
+
+// Minimal PDF writer: text in the standard Helvetica fonts, lines and filled
+// rectangles. Coordinates are in points from the top-left corner, and text y
+// is the baseline. Enough for reports and receipts without a PDF library.
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private pages: string[][] = [];
+  private current = -1;
+
+  constructor(private readonly options: { title?: string; landscape?: boolean } = {}) {
+    this.width = options.landscape ? PAGE_HEIGHT : PAGE_WIDTH;
+    this.height = options.landscape ? PAGE_WIDTH : PAGE_HEIGHT;
+    this.addPage();
+  }
+
+  get pageCount() {
+    return this.pages.length;
+  }
+
+  addPage() {
+    this.pages.push([]);
+    this.current = this.pages.length - 1;
+  }
+
+  // Draws on an earlier page, e.g. to add "page x of y" once all pages exist
+  goToPage(index: number) {
+    if (index < 0 || index >= this.pages.length) throw new RangeError(`No page ${index}`);
+    this.current = index;
+  }
+
+  measure(text: string, font: PdfFont = "regular", size = 10): number {
+    let width = 0;
+    for (const char of text) width += charWidth(char, font);
+    return (width * size) / 1000;
+  }
+
+  private fit(text: string, font: PdfFont, size: number, maxWidth: number): string {
+    if (this.measure(text, font, size) <= maxWidth) return text;
+    const chars = Array.from(text);
+    while (chars.length > 0 && this.measure(`${chars.join("")}…`, font, size) > maxWidth) {
+      chars.pop();
+    }
+    return `${chars.join("").trimEnd()}…`;
+  }
+
+  // Splits text into lines no wider than maxWidth, breaking at spaces
+  wrap(text: string, maxWidth: number, font: PdfFont = "regular", size = 10): string[] {
+    const lines: string[] = [];
+    for (const paragraph of text.split(/\r?\n/)) {
+      let line = "";
+      for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+        const candidate = line ? `${line} ${word}` : word;
+        if (line && this.measure(candidate, font, size) > maxWidth) {
+          lines.push(line);
+          line = word;
+        } else {
+          line = candidate;
+        }
+      }
+      lines.push(this.fit(line, font, size, maxWidth));
+    }
+    return lines;
+  }
+
+  text(value: string, x: number, y: number, options: PdfTextOptions = {}) {
+    const font = options.font ?? "regular";
+    const size = options.size ?? 10;
+    const text = options.maxWidth ? this.fit(value, font, size, options.maxWidth) : value;
+    const width = this.measure(text, font, size);
+    const left = options.align === "right" ? x - width : options.align === "center" ? x - width / 2 : x;
+
+    this.pages[this.current].push(
+      `BT ${formatNumber(options.gray ?? 0)} g /${font === "bold" ? "F2" : "F1"} ${size} Tf ` +
+      `${formatNumber(left)} ${formatNumber(this.height - y)} Td <${encodeWinAnsi(text).toString("hex")}> Tj ET`,
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; gray?: number } = {}) {
+    this.pages[this.current].push(
+      `${formatNumber(options.gray ?? 0)} G ${formatNumber(options.width ?? 0.5)} w ` +
+      `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`,
+    );
+  }
+
+  fillRect(x: number, y: number, width: number, height: number, gray = 0.93) {
+    this.pages[this.current].push(
+      `${formatNumber(gray)} g ${formatNumber(x)} ${formatNumber(this.height - y - height)} ${formatNumber(width)} ${formatNumber(height)} re f`,
+    );
+  }
+
+  toBuffer(): Buffer {
+    const objects: Buffer[] = [];
+    const add = (body: string | Buffer) => {
+      objects.push(typeof body === "string" ? Buffer.from(body, "latin1") : body);
+      return objects.length;
+    };
+    const hex = (text: string) => `<${encodeWinAnsi(text).toString("hex")}>`;
+
+    // Objects 1-5 are fixed; each page then adds its page and content objects
+    const firstPage = 6;
+    const kids = this.pages.map((_, index) => `${firstPage + index * 2} 0 R`).join(" ");
+    add("<< /Type /Catalog /Pages 2 0 R >>");
+    add(`<< /Type /Pages /Kids [${kids}] /Count ${this.pages.length} >>`);
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>");
+    add("<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>");
+    add(`<< ${this.options.title ? `/Title ${hex(this.options.title)} ` : ""}/Producer (Almoxarifado) /CreationDate (${pdfDate(new Date())}) >>`);
+
+    for (const [index, operations] of this.pages.entries()) {
+      const content = zlib.deflateSync(Buffer.from(operations.join("\n"), "latin1"));
+      add(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${firstPage + index * 2 + 1} 0 R >>`,
+      );
+      add(Buffer.concat([
+        Buffer.from(`<< /Length ${content.length} /Filter /FlateDecode >>\nstream\n`, "latin1"),
+        content,
+        Buffer.from("\nendstream", "latin1"),
+      ]));
+    }
+
+    const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+    let offset = chunks[0].length;
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(offset);
+      const chunk = Buffer.concat([
+        Buffer.from(`${index + 1} 0 obj\n`, "latin1"),
+        body,
+        Buffer.from("\nendobj\n", "latin1"),
+      ]);
+      chunks.push(chunk);
+      offset += chunk.length;
+    });
+
+    // Cross-reference entries are exactly 20 bytes each
+    const xref = [
+      "xref",
+      `0 ${objects.length + 1}`,
+      "0000000000 65535 f \n" + offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n \n`).join(""),
+    ].join("\n");
+    chunks.push(Buffer.from(
+      `${xref}trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${offset}\n%%EOF\n`,
+      "latin1",
+    ));
+
+    return Buffer.concat(chunks);
+  }
+}
+
+export type PdfTableColumn = {
+  header: string;
+  // Relative share of the page width
+  width: number;
+  align?: "left" | "right";
+};
+
+export type PdfTableReport = {
+  title: string;
+  subtitle?: string[];
+  columns: PdfTableColumn[];
+  rows: string[][];
+  // Bold line after the rows, e.g. totals
+  footer?: string[];
+  landscape?: boolean;
+};
+
+const MARGIN = 40;
+const ROW_HEIGHT = 16;
+const FONT_SIZE = 9;
+
+// Renders a titled table, repeating the header row on every page and
+// numbering pages at the bottom.
+export function renderTablePdf(report: PdfTableReport): Buffer {
+  const doc = new PdfDocument({ title: report.title, landscape: report.landscape });
+  const tableWidth = doc.width - MARGIN * 2;
+  const totalWeight = report.columns.reduce((sum, column) => sum + column.width, 0);
+  const widths = report.columns.map((column) => (column.width / totalWeight) * tableWidth);
+  const bottom = doc.height - MARGIN - ROW_HEIGHT;
+
+  let y = MARGIN;
+
+  const drawRow = (cells: string[], font: PdfFont) => {
+    let x = MARGIN;
+    report.columns.forEach((column, index) => {
+      const right = column.align === "right";
+      doc.text(cells[index] ?? "", right ? x + widths[index] - 4 : x + 4, y + 11, {
+        font,
+        size: FONT_SIZE,
+        align: right ? "right" : "left",
+        maxWidth: widths[index] - 8,
+      });
+      x += widths[index];
+    });
+    y += ROW_HEIGHT;
+  };
+
+  const drawHeader = () => {
+    doc.fillRect(MARGIN, y, tableWidth, ROW_HEIGHT);
+    drawRow(report.columns.map((column) => column.header), "bold");
+  };
+
+  doc.text(report.title, MARGIN, y + 14, { font: "bold", size: 16 });
+  y += 24;
+  for (const line of report.subtitle ?? []) {
+    doc.text(line, MARGIN, y + 10, { size: FONT_SIZE, gray: 0.35, maxWidth: tableWidth });
+    y += 13;
+  }
+  y += 8;
+  drawHeader();
+
+  for (const row of report.rows) {
+    if (y > bottom) {
+      doc.addPage();
+      y = MARGIN;
+      drawHeader();
+    }
+    drawRow(row, "regular");
+    doc.line(MARGIN, y, MARGIN + tableWidth, y, { width: 0.25, gray: 0.8 });
+  }
+
+  if (report.footer) {
+    if (y > bottom) {
+      doc.addPage();
+      y = MARGIN;
+      drawHeader();
+    }
+    doc.line(MARGIN, y, MARGIN + tableWidth, y, { width: 0.75 });
+    drawRow(report.footer, "bold");
+  }
+
+  const generatedAt = `Gerado em ${new Date().toLocaleString("pt-BR")}`;
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.goToPage(page);
+    doc.text(generatedAt, MARGIN, doc.height - MARGIN / 2, { size: 8, gray: 0.4 });
+    doc.text(`Página ${page + 1} de ${doc.pageCount}`, doc.width - MARGIN, doc.height - MARGIN / 2, {
+      size: 8,
+      gray: 0.4,
+      align: "right",
+    });
+  }
+
+  return doc.toBuffer();
+}
@@ -0,0 +1,93 @@
+import type { IncomingMessage, Server } from "http";
+import type { Duplex } from "stream";
+import type { Request, Response } from "express";
+import { WebSocketServer, WebSocket } from "ws";
+import { hasPermission, type Permission, type UserRole } from "@shared/permissions";
+import { getSession } from "./replitAuth";
+import { storage } from "./storage";
+
+export const REALTIME_PATH = "/ws";
+
+// Pings keep proxies from closing idle sockets and drop dead clients
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+
+type RealtimeClient = {
+  socket: WebSocket;
+  role: UserRole;
+  isAlive: boolean;
+};
+
+const clients = new Set<RealtimeClient>();
+
+// Reads the session the browser already has from the upgrade request. Only
+// active Replit-authenticated staff may connect; employees use their own pages.
+function authenticateUpgrade(req: IncomingMessage): Promise<UserRole | undefined> {
+  return new Promise((resolve) => {
+    getSession()(req as Request, {} as Response, async () => {
+      try {
+        const sessionUser = (req as Request).session?.passport?.user;
+        const userId = sessionUser?.claims?.sub;
+        const expired = !sessionUser?.expires_at || Math.floor(Date.now() / 1000) > sessionUser.expires_at;
+        if (!userId || expired) return resolve(undefined);
+
+        const user = await storage.getUser(userId);
+        resolve(user?.isActive ? user.role : undefined);
+      } catch (error) {
+        console.error("Error authenticating realtime connection:", error);
+        resolve(undefined);
+      }
+    });
+  });
+}
+
+function reject(socket: Duplex, status: string) {
+  socket.write(`HTTP/1.1 ${status}\r\n\r\n`);
+  socket.destroy();
+}
+
+// Attaches the WebSocket endpoint to the HTTP server. Other upgrade requests
+// (Vite's HMR in development) are left alone.
+export function setupRealtime(server: Server) {
+  const wss = new WebSocketServer({ noServer: true });
+
+  server.on("upgrade", async (req, socket, head) => {
+    if (new URL(req.url ?? "", "http://localhost").pathname !== REALTIME_PATH) return;
+
+    const role = await authenticateUpgrade(req);
+    if (!role) return reject(socket, "401 Unauthorized");
+
+    wss.handleUpgrade(req, socket, head, (ws) => {
+      const client: RealtimeClient = { socket: ws, role, isAlive: true };
+      clients.add(client);
+      ws.on("pong", () => {
+        client.isAlive = true;
+      });
+      ws.on("close", () => clients.delete(client));
+      ws.on("error", () => clients.delete(client));
+    });
+  });
+
+  const heartbeat = setInterval(() => {
+    for (const client of Array.from(clients)) {
+      if (!client.isAlive) {
+        clients.delete(client);
+        client.socket.terminate();
+        continue;
+      }
+      client.isAlive = false;
+      client.socket.ping();
+    }
+  }, HEARTBEAT_INTERVAL_MS);
+  heartbeat.unref();
+  wss.on("close", () => clearInterval(heartbeat));
+}
+
+// Sends an event to every connected client whose role holds `permission`
+export function broadcast(permission: Permission, event: { type: string } & Record<string, unknown>) {
+  const payload = JSON.stringify(event);
+  for (const client of Array.from(clients)) {
+    if (client.socket.readyState === WebSocket.OPEN && hasPermission(client.role, permission)) {
+      client.socket.send(payload);
+    }
+  }
+}
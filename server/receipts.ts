@@ -0,0 +1,183 @@
+import type { CostCenter, Location, Requisition, User } from "@shared/schema";
+import type { IStorage } from "./storage";
+import type { SignatureVerification } from "./signatures";
+import { PdfDocument, type PdfFont } from "./pdf";
+
+// Company shown at the top of every receipt; both are set per deployment
+const COMPANY_NAME = process.env.COMPANY_NAME || "Sistema de Gestão de Estoque";
+// Extra header line, e.g. CNPJ and address
+const COMPANY_DETAILS = process.env.COMPANY_DETAILS;
+
+const MARGIN = 50;
+const LABEL_WIDTH = 110;
+
+type RequisitionItemWithMaterial = Awaited<ReturnType<IStorage["getRequisitionItems"]>>[number];
+type Person = Pick<User, "firstName" | "lastName" | "email">;
+
+export type RequisitionReceipt = {
+  requisition: Requisition;
+  items: RequisitionItemWithMaterial[];
+  employee: Person | undefined;
+  createdBy: Person | undefined;
+  location: Pick<Location, "name"> | undefined;
+  costCenter: Pick<CostCenter, "code" | "name"> | undefined;
+  verification: SignatureVerification;
+};
+
+const STATUS_LABELS: Record<Requisition["status"], string> = {
+  SOLICITADA: "Solicitada",
+  PENDENTE: "Pendente",
+  ASSINADA: "Assinada",
+  CANCELADA: "Cancelada",
+  REJEITADA: "Rejeitada",
+};
+
+function personName(person: Person | undefined): string {
+  if (!person) return "—";
+  const name = [person.firstName, person.lastName].filter(Boolean).join(" ");
+  return name && person.email ? `${name} (${person.email})` : name || person.email || "—";
+}
+
+function formatDateTime(date: Date | null): string {
+  return date ? date.toLocaleString("pt-BR") : "—";
+}
+
+export function requisitionReceiptFileName(requisition: Requisition): string {
+  return `comprovante-${requisition.number}.pdf`;
+}
+
+// Receipt of a signed withdrawal: who took what, and the signature details
+// needed to check it later.
+export function renderRequisitionReceipt(receipt: RequisitionReceipt): Buffer {
+  const { requisition, verification } = receipt;
+  const doc = new PdfDocument({ title: "Comprovante de retirada de materiais" });
+  const contentWidth = doc.width - MARGIN * 2;
+  const bottom = doc.height - MARGIN - 20;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > bottom) {
+      doc.addPage();
+      y = MARGIN;
+    }
+  };
+
+  // Label on the left, value wrapped in the remaining width
+  const field = (label: string, value: string, options: { font?: PdfFont; size?: number } = {}) => {
+    const size = options.size ?? 10;
+    const lines = doc.wrap(value, contentWidth - LABEL_WIDTH, options.font, size);
+    ensureSpace(lines.length * 14);
+    doc.text(label, MARGIN, y + 10, { font: "bold", size: 10 });
+    for (const line of lines) {
+      doc.text(line, MARGIN + LABEL_WIDTH, y + 10, { font: options.font, size });
+      y += 14;
+    }
+  };
+
+  const section = (title: string) => {
+    ensureSpace(40);
+    y += 12;
+    doc.text(title, MARGIN, y + 12, { font: "bold", size: 12 });
+    y += 18;
+    doc.line(MARGIN, y, MARGIN + contentWidth, y, { width: 0.5, gray: 0.6 });
+    y += 6;
+  };
+
+  // Company header
+  doc.text(COMPANY_NAME, MARGIN, y + 14, { font: "bold", size: 14, maxWidth: contentWidth });
+  y += 20;
+  if (COMPANY_DETAILS) {
+    doc.text(COMPANY_DETAILS, MARGIN, y + 10, { size: 9, gray: 0.35, maxWidth: contentWidth });
+    y += 14;
+  }
+  doc.line(MARGIN, y + 4, MARGIN + contentWidth, y + 4, { width: 1 });
+  y += 24;
+  doc.text("Comprovante de retirada de materiais", MARGIN, y + 14, { font: "bold", size: 16 });
+  y += 30;
+
+  field("Requisição", requisition.number);
+  field("Situação", STATUS_LABELS[requisition.status]);
+  field("Funcionário", personName(receipt.employee));
+  field("Criada por", personName(receipt.createdBy));
+  field("Criada em", formatDateTime(requisition.createdAt));
+  field("Local de retirada", receipt.location?.name ?? "Local padrão");
+  if (receipt.costCenter) {
+    field("Centro de custo", `${receipt.costCenter.code} - ${receipt.costCenter.name}`);
+  }
+  if (requisition.observation) {
+    field("Observação", requisition.observation);
+  }
+
+  // Materials
+  section("Materiais retirados");
+  const columns = [
+    { header: "Código", x: MARGIN + 4 },
+    { header: "Material", x: MARGIN + 100 },
+    { header: "Quantidade", x: MARGIN + contentWidth - 60, align: "right" as const },
+    { header: "Unidade", x: MARGIN + contentWidth - 50 },
+  ];
+  const drawItemsHeader = () => {
+    doc.fillRect(MARGIN, y, contentWidth, 18);
+    for (const column of columns) {
+      doc.text(column.header, column.x, y + 12, { font: "bold", size: 9, align: column.align });
+    }
+    y += 18;
+  };
+  drawItemsHeader();
+  for (const item of receipt.items) {
+    if (y + 18 > bottom) {
+      doc.addPage();
+      y = MARGIN;
+      drawItemsHeader();
+    }
+    doc.text(item.material?.code ?? "—", columns[0].x, y + 12, { size: 9, maxWidth: 90 });
+    doc.text(item.material?.name ?? "Material removido", columns[1].x, y + 12, {
+      size: 9,
+      maxWidth: columns[2].x - columns[1].x - 70,
+    });
+    doc.text(item.quantity.toLocaleString("pt-BR"), columns[2].x, y + 12, { size: 9, align: "right" });
+    doc.text(item.material?.unit ?? "", columns[3].x, y + 12, { size: 9 });
+    y += 18;
+    doc.line(MARGIN, y, MARGIN + contentWidth, y, { width: 0.25, gray: 0.8 });
+  }
+
+  // Signature
+  section("Assinatura eletrônica");
+  field("Assinada em", formatDateTime(requisition.signedAt));
+  field("Dispositivo", requisition.signedByDevice || "—", { size: 9 });
+  field("Endereço IP", requisition.signedByIp || "—");
+  field("Hash SHA-256", requisition.signatureHash || "—", { size: 8 });
+  field(
+    "Verificação",
+    verification.status === "VALID"
+      ? "Íntegra: os dados da requisição conferem com a assinatura"
+      : "Divergente: os dados da requisição foram alterados após a assinatura",
+    { font: verification.status === "VALID" ? "regular" : "bold" },
+  );
+
+  ensureSpace(40);
+  y += 12;
+  for (const line of doc.wrap(
+    "O funcionário identificado acima confirmou com sua senha pessoal o recebimento dos materiais " +
+      "relacionados. O hash identifica o conteúdo assinado e permite conferir a autenticidade deste comprovante.",
+    contentWidth,
+    "regular",
+    9,
+  )) {
+    doc.text(line, MARGIN, y + 10, { size: 9, gray: 0.35 });
+    y += 12;
+  }
+
+  const generatedAt = `Gerado em ${new Date().toLocaleString("pt-BR")}`;
+  for (let page = 0; page < doc.pageCount; page++) {
+    doc.goToPage(page);
+    doc.text(generatedAt, MARGIN, doc.height - MARGIN / 2, { size: 8, gray: 0.4 });
+    doc.text(`Página ${page + 1} de ${doc.pageCount}`, doc.width - MARGIN, doc.height - MARGIN / 2, {
+      size: 8,
+      gray: 0.4,
+      align: "right",
+    });
+  }
+
+  return doc.toBuffer();
+}
@@ -25,7 +25,16 @@ const getOidcConfig = memoize(
   { maxAge: 3600 * 1000 }
 );
 
-export function getSession() {
+let sessionMiddleware: RequestHandler | undefined;
+
+// One instance shared by the HTTP routes and the WebSocket upgrade, so both
+// read sessions from the same store.
+export function getSession(): RequestHandler {
+  sessionMiddleware ??= createSession();
+  return sessionMiddleware;
+}
+
+function createSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const secureCookies = process.env.NODE_ENV === "production";
   const secret = process.env.SESSION_SECRET ?? "insecure-development-secret";
@@ -0,0 +1,177 @@
+import type { Writable } from "stream";
+import type { Material } from "@shared/schema";
+import type { IStorage } from "./storage";
+import { writeCsvRow, CSV_BOM } from "./csv";
+import { writeXlsx, type XlsxCell, type XlsxColumn } from "./xlsx";
+import { renderTablePdf, type PdfTableColumn } from "./pdf";
+
+type ConsumptionReport = Awaited<ReturnType<IStorage["getConsumptionReport"]>>;
+type ConsumptionRow = ConsumptionReport["rows"][number];
+
+const GROUP_LABELS: Record<ConsumptionReport["groupBy"], string> = {
+  material: "Material",
+  employee: "Funcionário",
+  costCenter: "Centro de custo",
+  period: "Período",
+};
+
+const GROUP_SLUGS: Record<ConsumptionReport["groupBy"], string> = {
+  material: "material",
+  employee: "funcionario",
+  costCenter: "centro-de-custo",
+  period: "periodo",
+};
+
+type ReportColumn = {
+  header: string;
+  xlsx: Omit<XlsxColumn, "header">;
+  pdf: Omit<PdfTableColumn, "header">;
+  value: (row: ConsumptionRow) => string | number | null;
+  // Printed form of `value`; plain text when omitted
+  format?: (value: number) => string;
+  // Shown on the closing "Total" line
+  total?: number;
+};
+
+function formatCurrency(value: number): string {
+  return value.toLocaleString("pt-BR", { style: "currency", currency: "BRL" });
+}
+
+function formatDate(date: Date): string {
+  return date.toLocaleDateString("pt-BR");
+}
+
+// Quantities only add up within one material, so only that grouping shows them
+function consumptionColumns(report: ConsumptionReport): ReportColumn[] {
+  return [
+    {
+      header: GROUP_LABELS[report.groupBy],
+      xlsx: { width: 40, format: "text" },
+      pdf: { width: 5 },
+      value: (row) => row.label,
+    },
+    ...(report.groupBy === "material" ? [
+      {
+        header: "Unidade",
+        xlsx: { width: 10, format: "text" as const },
+        pdf: { width: 1 },
+        value: (row: ConsumptionRow) => row.unit,
+      },
+      {
+        header: "Quantidade",
+        xlsx: { width: 14, format: "integer" as const },
+        pdf: { width: 1.5, align: "right" as const },
+        value: (row: ConsumptionRow) => row.quantity,
+        format: (value: number) => value.toLocaleString("pt-BR"),
+      },
+    ] : []),
+    {
+      header: "Requisições",
+      xlsx: { width: 14, format: "integer" },
+      pdf: { width: 1.5, align: "right" },
+      value: (row) => row.requisitions,
+    },
+    {
+      header: "Valor (R$)",
+      xlsx: { width: 16, format: "decimal" },
+      pdf: { width: 2, align: "right" },
+      value: (row) => row.value,
+      format: formatCurrency,
+      total: report.totalValue,
+    },
+  ];
+}
+
+export function consumptionReportFileName(report: ConsumptionReport, extension: "xlsx" | "pdf"): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  const day = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  return `consumo-por-${GROUP_SLUGS[report.groupBy]}-${day(report.from)}-a-${day(report.to)}.${extension}`;
+}
+
+export async function writeConsumptionXlsx(out: Writable, report: ConsumptionReport) {
+  const columns = consumptionColumns(report);
+  const rows: XlsxCell[][] = report.rows.map((row) => columns.map((column) => column.value(row)));
+  rows.push(columns.map((column, index) => index === 0 ? "Total" : column.total));
+
+  await writeXlsx(out, {
+    name: `Consumo por ${GROUP_LABELS[report.groupBy].toLowerCase()}`,
+    columns: columns.map((column) => ({ header: column.header, ...column.xlsx })),
+    rows,
+  });
+}
+
+export function renderConsumptionPdf(report: ConsumptionReport): Buffer {
+  const columns = consumptionColumns(report);
+  const cell = (column: ReportColumn, row: ConsumptionRow) => {
+    const value = column.value(row);
+    if (value === null) return "";
+    return typeof value === "number" && column.format ? column.format(value) : String(value);
+  };
+
+  return renderTablePdf({
+    title: `Consumo por ${GROUP_LABELS[report.groupBy].toLowerCase()}`,
+    subtitle: [
+      `Período: ${formatDate(report.from)} a ${formatDate(report.to)}`,
+      "Saídas de estoque, descontados os estornos de requisições canceladas, ao custo de cada movimentação.",
+    ],
+    columns: columns.map((column) => ({ header: column.header, ...column.pdf })),
+    rows: report.rows.map((row) => columns.map((column) => cell(column, row))),
+    footer: columns.map((column, index) =>
+      index === 0 ? "Total" : column.total !== undefined ? column.format?.(column.total) ?? String(column.total) : "",
+    ),
+  });
+}
+
+const MATERIAL_EXPORT_COLUMNS: XlsxColumn[] = [
+  { header: "Código", width: 16, format: "text" },
+  { header: "Nome", width: 40, format: "text" },
+  { header: "Unidade", width: 10, format: "text" },
+  { header: "Preço unitário", width: 16, format: "decimal" },
+  { header: "Estoque mínimo", width: 16, format: "integer" },
+  { header: "Estoque atual", width: 16, format: "integer" },
+  { header: "Valor em estoque", width: 18, format: "decimal" },
+  { header: "Status", width: 12, format: "text" },
+];
+
+// Same thresholds as the status badges on the Materials page
+function stockStatus(material: Material): string {
+  if (material.currentStock === 0) return "Crítico";
+  if (material.currentStock <= material.minimumStock) return "Baixo";
+  return "OK";
+}
+
+// Stock is valued at average cost, like the Materials page total
+function materialExportRow(material: Material): XlsxCell[] {
+  return [
+    material.code,
+    material.name,
+    material.unit,
+    material.unitPrice !== null ? Number(material.unitPrice) : null,
+    material.minimumStock,
+    material.currentStock,
+    Math.round(material.currentStock * Number(material.averageCost) * 100) / 100,
+    stockStatus(material),
+  ];
+}
+
+// Writes materials as they arrive, so the caller can page through the table.
+// The caller ends `out`.
+export async function writeMaterialsExport(out: Writable, format: "csv" | "xlsx", materials: AsyncIterable<Material>) {
+  if (format === "xlsx") {
+    await writeXlsx(out, {
+      name: "Materiais",
+      columns: MATERIAL_EXPORT_COLUMNS,
+      rows: (async function* () {
+        for await (const material of materials) yield materialExportRow(material);
+      })(),
+    });
+    return;
+  }
+
+  out.write(CSV_BOM);
+  await writeCsvRow(out, MATERIAL_EXPORT_COLUMNS.map((column) => column.header));
+  for await (const material of materials) {
+    if (out.destroyed) return;
+    await writeCsvRow(out, materialExportRow(material));
+  }
+}
@@ -1,36 +1,40 @@
-import type { Express, RequestHandler } from "express";
+import express, { type Express, type RequestHandler } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth, isAuthenticated } from "./replitAuth";
-import { insertMaterialSchema, insertStockMovementSchema, insertRequisitionSchema } from "@shared/schema";
+import { HttpError } from "./errors";
+import { hashPassword, verifyPassword } from "./passwords";
+import { verifySignatureReceipt } from "./signatures";
+import { diffChanges } from "./audit";
+import { writeCsvRow, CSV_BOM } from "./csv";
+import { scheduleAlertCheck, startAlertMonitor, onAlertChange, notifyAlertChange } from "./alerts";
+import { setupRealtime, broadcast } from "./realtime";
+import { notifyRequisitionCreated, startNotificationService, getMailTransport } from "./notifications";
+import { consumptionReportFileName, writeConsumptionXlsx, renderConsumptionPdf, writeMaterialsExport } from "./reports";
+import { readMaterialImport, previewMaterialImport } from "./materialImport";
+import { renderRequisitionReceipt, requisitionReceiptFileName } from "./receipts";
+import {
+  insertMaterialSchema,
+  insertLocationSchema,
+  insertCostCenterSchema,
+  insertStockMovementSchema,
+  createRequisitionSchema,
+  openInventoryCountSchema,
+  recordInventoryCountSchema,
+  insertSupplierSchema,
+  createPurchaseOrderSchema,
+  receivePurchaseOrderSchema,
+  purchaseOrderStatusEnum,
+  insertPurchaseOrderItemSchema,
+  alertTypeEnum,
+  updateNotificationPreferencesSchema,
+  updateUserSchema,
+  userRoleEnum,
+  movementTypeEnum,
+  type Requisition,
+} from "@shared/schema";
+import { permissions, hasPermission, type Permission, type UserRole } from "@shared/permissions";
 import { z } from "zod";
-import { randomBytes, scrypt as scryptCallback, timingSafeEqual } from "crypto";
-import { promisify } from "util";
-
-const scrypt = promisify(scryptCallback);
-
-async function hashPassword(password: string): Promise<string> {
-  const salt = randomBytes(16).toString("hex");
-  const derivedKey = (await scrypt(password, salt, 64)) as Buffer;
-  return `${salt}:${derivedKey.toString("hex")}`;
-}
-
-async function verifyPassword(password: string, storedHash: string): Promise<boolean> {
-  const [salt, key] = storedHash.split(":");
-
-  if (!salt || !key) {
-    return false;
-  }
-
-  const derivedKey = (await scrypt(password, salt, 64)) as Buffer;
-  const storedKey = Buffer.from(key, "hex");
-
-  if (storedKey.length !== derivedKey.length) {
-    return false;
-  }
-
-  return timingSafeEqual(storedKey, derivedKey);
-}
 
 const employeeRegistrationSchema = z.object({
   name: z.string().min(1, "Nome é obrigatório"),
@@ -43,6 +47,180 @@ const employeeLoginSchema = z.object({
   password: z.string().min(1, "Senha é obrigatória"),
 });
 
+const requisitionSignatureSchema = z.object({
+  password: z.string().min(1, "Senha é obrigatória para assinar"),
+});
+
+const requisitionCancellationSchema = z.object({
+  reason: z.string().trim().min(1, "Motivo do cancelamento é obrigatório"),
+});
+
+// Employees pick materials and quantities; who the request is for and who
+// created it both come from the session.
+const employeeRequestSchema = createRequisitionSchema.pick({ items: true, observation: true });
+
+const requisitionApprovalSchema = z.object({
+  items: z.array(z.object({
+    id: z.string(),
+    quantity: z.number().int().min(0, "Quantidade aprovada não pode ser negativa"),
+  })).optional(),
+});
+
+const requisitionRejectionSchema = z.object({
+  reason: z.string().trim().min(1, "Motivo da rejeição é obrigatório"),
+});
+
+// `number` matches any part of the requisition number, e.g. "000123"
+const requisitionQuerySchema = z.object({
+  number: z.string().trim().optional(),
+});
+
+// Manual movements registered by staff. Requisition withdrawals and reversals
+// are created by the storage layer and do not go through this schema.
+const manualStockMovementSchema = insertStockMovementSchema
+  .omit({ requisitionId: true, inventoryCountId: true, purchaseOrderId: true })
+  .superRefine((movement, ctx) => {
+    if (movement.type === "ENTRADA") {
+      if (!movement.invoiceNumber?.trim()) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["invoiceNumber"], message: "Número da nota fiscal é obrigatório para entradas" });
+      }
+      if (!movement.unitPrice) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["unitPrice"], message: "Custo unitário é obrigatório para entradas" });
+      }
+    }
+    if (movement.type === "AJUSTE" && !movement.observation?.trim()) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["observation"], message: "Justificativa é obrigatória para ajustes" });
+    }
+    if (movement.type !== "ENTRADA" && (movement.lotNumber || movement.expiresAt)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lotNumber"], message: "Lote e validade só podem ser informados em entradas" });
+    }
+    if (movement.expiresAt && !movement.lotNumber) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["lotNumber"], message: "Informe o lote da data de validade" });
+    }
+    if (movement.type === "TRANSFERENCIA") {
+      if (!movement.sourceLocationId) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["sourceLocationId"], message: "Local de origem é obrigatório para transferências" });
+      }
+      if (!movement.destinationLocationId) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, path: ["destinationLocationId"], message: "Local de destino é obrigatório para transferências" });
+      }
+    }
+  });
+
+// Drafts are edited as a whole; `items`, when sent, replaces every line.
+const purchaseOrderUpdateSchema = createPurchaseOrderSchema.omit({ createdById: true }).partial();
+
+const purchaseOrderQuerySchema = z.object({
+  status: z.enum(purchaseOrderStatusEnum.enumValues).optional(),
+  supplierId: z.string().optional(),
+});
+
+const replenishmentQuerySchema = z.object({
+  days: z.coerce.number().int().min(7).max(365).default(90),
+  coverageDays: z.coerce.number().int().min(1).max(365).default(30),
+});
+
+// Selected suggestions, turned into one draft purchase order per supplier
+const replenishmentOrderSchema = z.object({
+  locationId: z.string().min(1).optional(),
+  items: z
+    .array(insertPurchaseOrderItemSchema.extend({
+      supplierId: z.string().min(1, "Escolha o fornecedor de cada material"),
+    }))
+    .min(1, "Selecione ao menos uma sugestão")
+    .refine(
+      (items) => new Set(items.map((item) => item.materialId)).size === items.length,
+      "Cada material pode aparecer apenas uma vez",
+    ),
+});
+
+// Mirrors the search and low-stock filters of the Materials page
+const materialExportQuerySchema = z.object({
+  format: z.enum(["csv", "xlsx"]).default("csv"),
+  search: z.string().trim().optional(),
+  lowStock: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  locationId: z.string().optional(),
+});
+
+// The spreadsheet itself is the request body; without dryRun=false the
+// import only reports what it would do with each row.
+const materialImportQuerySchema = z.object({
+  dryRun: z.enum(["true", "false"]).transform((value) => value === "true").default("true"),
+  openingBalance: z.enum(["true", "false"]).transform((value) => value === "true").default("false"),
+  locationId: z.string().min(1).optional(),
+});
+
+// Uploaded spreadsheets are read whole into memory
+const MATERIAL_IMPORT_MAX_SIZE = "10mb";
+
+const expiringLotsQuerySchema = z.object({
+  days: z.coerce.number().int().min(0).max(365).default(30),
+  locationId: z.string().optional(),
+});
+
+const valuationQuerySchema = z.object({
+  // A bare date means the end of that day
+  at: z.preprocess(
+    (value) => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999` : value,
+    z.coerce.date().optional(),
+  ),
+});
+
+// Bare dates cover whole days; the last 30 days when omitted
+const consumptionReportQuerySchema = z.object({
+  groupBy: z.enum(["material", "employee", "costCenter", "period"]).default("material"),
+  interval: z.enum(["day", "month"]).default("month"),
+  from: z.preprocess(
+    (value) => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T00:00:00` : value,
+    z.coerce.date().optional(),
+  ),
+  to: z.preprocess(
+    (value) => typeof value === "string" && /^\d{4}-\d{2}-\d{2}$/.test(value) ? `${value}T23:59:59.999` : value,
+    z.coerce.date().optional(),
+  ),
+  format: z.enum(["json", "xlsx", "pdf"]).default("json"),
+}).transform(({ from, to, ...query }) => {
+  const end = to ?? new Date();
+  return { ...query, to: end, from: from ?? new Date(end.getTime() - 30 * 86_400_000) };
+}).refine((query) => query.from <= query.to, {
+  path: ["from"],
+  message: "Data inicial deve ser anterior à final",
+});
+
+const stockMovementQuerySchema = z.object({
+  materialId: z.string().optional(),
+  locationId: z.string().optional(),
+  type: z.enum(movementTypeEnum.enumValues).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+});
+
+const alertQuerySchema = z.object({
+  resolved: z.enum(["true", "false"]).transform((value) => value === "true").optional(),
+  type: z.enum(alertTypeEnum.enumValues).optional(),
+});
+
+const userListQuerySchema = z.object({
+  search: z.string().trim().optional(),
+  role: z.enum(userRoleEnum.enumValues).optional(),
+});
+
+const auditLogQuerySchema = z.object({
+  userId: z.string().optional(),
+  action: z.string().optional(),
+  entityType: z.string().optional(),
+  entityId: z.string().optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional(),
+  cursor: z.string().optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+});
+
+// Compact item list used in audit entries of requisition reviews.
+function auditItems(items: { materialId: string; quantity: number }[]) {
+  return items.map(({ materialId, quantity }) => ({ materialId, quantity }));
+}
+
 function sanitizeUser<T extends { passwordHash?: string | null }>(user: T): Omit<T, "passwordHash"> {
   const { passwordHash: _password, ...rest } = user;
   return rest;
@@ -57,7 +235,7 @@ const employeeOnly: RequestHandler = async (req, res, next) => {
     }
 
     const user = await storage.getUser(employeeId);
-    if (!user || user.role !== 'FUNCIONARIO') {
+    if (!user || user.role !== 'FUNCIONARIO' || !user.isActive) {
       delete req.session.employeeUserId;
       return res.status(403).json({ message: "Acesso restrito a funcionários" });
     }
@@ -70,10 +248,85 @@ const employeeOnly: RequestHandler = async (req, res, next) => {
   }
 };
 
+// Loads the Replit-authenticated user and rejects roles outside `roles`. Must
+// run after isAuthenticated; the user is exposed as res.locals.currentUser.
+function requireRole(...roles: readonly UserRole[]): RequestHandler {
+  return async (req: any, res, next) => {
+    try {
+      const userId = req.user?.claims?.sub;
+      if (!userId) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(401).json({ message: "Unauthorized" });
+      }
+
+      if (!user.isActive) {
+        return res.status(403).json({ message: "Account disabled" });
+      }
+
+      if (!roles.includes(user.role)) {
+        return res.status(403).json({ message: "Access denied" });
+      }
+
+      res.locals.currentUser = user;
+      next();
+    } catch (error) {
+      console.error("Error checking user role:", error);
+      res.status(500).json({ message: "Failed to check user permissions" });
+    }
+  };
+}
+
+function requirePermission(permission: Permission): RequestHandler {
+  return requireRole(...permissions[permission]);
+}
+
+const MATERIAL_EXPORT_PAGE_SIZE = 500;
+
+// Walks the filtered materials page by page so large exports stay streamed
+async function* materialsForExport(filters: Omit<z.infer<typeof materialExportQuerySchema>, "format">) {
+  let after: { name: string; id: string } | undefined;
+  do {
+    const page = await storage.getMaterials({ ...filters, after, limit: MATERIAL_EXPORT_PAGE_SIZE });
+    yield* page;
+    after = page.length === MATERIAL_EXPORT_PAGE_SIZE ? page[page.length - 1] : undefined;
+  } while (after);
+}
+
+// Renders the receipt of a signed requisition, checking its signature as the
+// verify route does so the PDF says whether the record still matches it.
+async function requisitionReceiptPdf(requisition: Requisition): Promise<Buffer> {
+  const items = await storage.getRequisitionItems(requisition.id);
+  const [employee, createdBy, location, costCenter] = await Promise.all([
+    storage.getUser(requisition.employeeId),
+    storage.getUser(requisition.createdById),
+    requisition.locationId ? storage.getLocation(requisition.locationId) : undefined,
+    requisition.costCenterId ? storage.getCostCenter(requisition.costCenterId) : undefined,
+  ]);
+  const verification = verifySignatureReceipt(
+    requisition,
+    items.map((item) => ({ materialCode: item.material?.code ?? "", quantity: item.quantity })),
+  );
+  return renderRequisitionReceipt({ requisition, items, employee, createdBy, location, costCenter, verification });
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
 
+  // Any successful change may raise or clear alerts (stock, requisitions, lots)
+  app.use('/api', (req, res, next) => {
+    if (req.method !== 'GET') {
+      res.on('finish', () => {
+        if (res.statusCode < 400) scheduleAlertCheck();
+      });
+    }
+    next();
+  });
+
   // Employee self-service routes
   app.post('/api/employee/register', async (req, res) => {
     try {
@@ -116,6 +369,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(401).json({ message: "Credenciais inválidas" });
       }
 
+      if (!user.isActive) {
+        return res.status(403).json({ message: "Acesso desativado. Procure o administrador." });
+      }
+
       req.session.employeeUserId = user.id;
       res.json(sanitizeUser(user));
     } catch (error) {
@@ -142,7 +399,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       const user = await storage.getUser(employeeId);
-      if (!user || user.role !== 'FUNCIONARIO') {
+      if (!user || user.role !== 'FUNCIONARIO' || !user.isActive) {
         delete req.session.employeeUserId;
         return res.status(403).json({ message: "Acesso restrito a funcionários" });
       }
@@ -154,6 +411,30 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.get('/api/employee/notification-preferences', employeeOnly, async (req, res) => {
+    try {
+      const preferences = await storage.getNotificationPreferences(req.session.employeeUserId!);
+      res.json(preferences);
+    } catch (error) {
+      console.error("Error fetching employee notification preferences:", error);
+      res.status(500).json({ message: "Falha ao carregar preferências de notificação" });
+    }
+  });
+
+  app.put('/api/employee/notification-preferences', employeeOnly, async (req, res) => {
+    try {
+      const changes = updateNotificationPreferencesSchema.parse(req.body);
+      const preferences = await storage.updateNotificationPreferences(req.session.employeeUserId!, changes);
+      res.json(preferences);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      console.error("Error updating employee notification preferences:", error);
+      res.status(500).json({ message: "Falha ao salvar preferências de notificação" });
+    }
+  });
+
   app.get('/api/employee/requisitions', employeeOnly, async (req, res) => {
     try {
       const employeeId = req.session.employeeUserId!;
@@ -165,22 +446,71 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/employee/requisitions/:id/sign', employeeOnly, async (req, res) => {
+  app.get('/api/employee/materials', employeeOnly, async (req, res) => {
+    try {
+      const materials = await storage.getMaterials();
+      res.json(materials.map(({ id, code, name, unit, currentStock }) => ({ id, code, name, unit, currentStock })));
+    } catch (error) {
+      console.error("Error fetching materials for employee:", error);
+      res.status(500).json({ message: "Falha ao carregar materiais" });
+    }
+  });
+
+  app.post('/api/employee/requisitions', employeeOnly, async (req, res) => {
     try {
       const employeeId = req.session.employeeUserId!;
-      const requisition = await storage.signRequisition(
-        req.params.id,
-        req.get('User-Agent'),
-        req.ip,
+      const { items, observation } = employeeRequestSchema.parse(req.body);
+      const requisitionData = {
         employeeId,
-      );
+        createdById: employeeId,
+        status: 'SOLICITADA' as const,
+        observation,
+      };
+      const requisition = await storage.createRequisition(requisitionData, items);
+
+      await storage.createAuditLog({
+        userId: employeeId,
+        action: 'CREATE',
+        entityType: 'REQUISITION',
+        entityId: requisition.id,
+        changes: { after: { ...requisitionData, items } },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(requisition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating employee request:", error);
+      res.status(500).json({ message: "Falha ao registrar solicitação" });
+    }
+  });
+
+  app.post('/api/employee/requisitions/:id/sign', employeeOnly, async (req, res) => {
+    try {
+      const employeeId = req.session.employeeUserId!;
+      const { password } = requisitionSignatureSchema.parse(req.body);
+      const requisition = await storage.signRequisition(req.params.id, {
+        signerId: employeeId,
+        password,
+        signedByDevice: req.get('User-Agent'),
+        signedByIp: req.ip,
+      });
 
       await storage.createAuditLog({
         userId: employeeId,
         action: 'SIGN',
         entityType: 'REQUISITION',
         entityId: req.params.id,
-        changes: { status: 'ASSINADA' },
+        changes: {
+          before: { status: 'PENDENTE' },
+          after: { status: 'ASSINADA', signatureHash: requisition.signatureHash },
+        },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
       });
@@ -191,20 +521,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Dados inválidos", errors: error.errors });
       }
 
-      if (error?.status === 400) {
-        return res.status(400).json({ message: "Requisição já foi assinada" });
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
       }
 
-      if (error?.status === 403) {
-        return res.status(403).json({ message: "Você não tem permissão para assinar esta requisição" });
-      }
+      console.error("Error signing requisition for employee:", error);
+      res.status(500).json({ message: "Falha ao assinar requisição" });
+    }
+  });
 
-      if (error?.status === 404) {
+  app.get('/api/employee/requisitions/:id/receipt.pdf', employeeOnly, async (req, res) => {
+    try {
+      const requisition = await storage.getRequisition(req.params.id);
+      if (!requisition || requisition.employeeId !== req.session.employeeUserId) {
         return res.status(404).json({ message: "Requisição não encontrada" });
       }
+      if (!requisition.signedAt) {
+        return res.status(400).json({ message: "Requisição ainda não foi assinada" });
+      }
 
-      console.error("Error signing requisition for employee:", error);
-      res.status(500).json({ message: "Falha ao assinar requisição" });
+      const pdf = await requisitionReceiptPdf(requisition);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${requisitionReceiptFileName(requisition)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating employee requisition receipt:", error);
+      res.status(500).json({ message: "Falha ao gerar comprovante" });
     }
   });
 
@@ -220,10 +562,82 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Employees who can be assigned requisitions
+  app.get('/api/employees', isAuthenticated, requirePermission('requisitions:manage'), async (req, res) => {
+    try {
+      const employees = await storage.getUsers({ role: 'FUNCIONARIO' });
+      res.json(
+        employees
+          .filter((employee) => employee.isActive)
+          .map(({ id, firstName, lastName, email }) => ({ id, firstName, lastName, email })),
+      );
+    } catch (error) {
+      console.error("Error fetching employees:", error);
+      res.status(500).json({ message: "Failed to fetch employees" });
+    }
+  });
+
+  // User management routes
+  app.get('/api/users', isAuthenticated, requirePermission('users:manage'), async (req, res) => {
+    try {
+      const filters = userListQuerySchema.parse(req.query);
+      const users = await storage.getUsers(filters);
+      res.json(users.map(sanitizeUser));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching users:", error);
+      res.status(500).json({ message: "Failed to fetch users" });
+    }
+  });
+
+  app.patch('/api/users/:id', isAuthenticated, requirePermission('users:manage'), async (req: any, res) => {
+    try {
+      const changes = updateUserSchema.parse(req.body);
+      const currentUser = res.locals.currentUser;
+
+      // Keeps at least the acting admin able to manage users
+      if (req.params.id === currentUser.id && (changes.role !== undefined || changes.isActive === false)) {
+        return res.status(400).json({ message: "Você não pode alterar o próprio perfil de acesso" });
+      }
+
+      const previous = await storage.getUser(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "User not found" });
+      }
+
+      const user = await storage.updateUser(req.params.id, changes);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: currentUser.id,
+        action: 'UPDATE',
+        entityType: 'USER',
+        entityId: req.params.id,
+        changes: diffChanges(sanitizeUser(previous), sanitizeUser(user)),
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(sanitizeUser(user));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating user:", error);
+      res.status(500).json({ message: "Failed to update user" });
+    }
+  });
+
   // Materials routes
-  app.get('/api/materials', isAuthenticated, async (req, res) => {
+  app.get('/api/materials', isAuthenticated, requirePermission('materials:view'), async (req, res) => {
     try {
-      const materials = await storage.getMaterials();
+      const locationId = (req.query.locationId as string) || undefined;
+      const materials = await storage.getMaterials({ locationId });
       res.json(materials);
     } catch (error) {
       console.error("Error fetching materials:", error);
@@ -231,7 +645,107 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/materials/:id', isAuthenticated, async (req, res) => {
+  app.get('/api/materials/export', isAuthenticated, requirePermission('materials:view'), async (req, res) => {
+    try {
+      const { format, ...filters } = materialExportQuerySchema.parse(req.query);
+
+      res.setHeader("Content-Type", format === "xlsx"
+        ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+        : "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="materiais-${new Date().toISOString().slice(0, 10)}.${format}"`);
+      await writeMaterialsExport(res, format, materialsForExport(filters));
+      res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        console.error("Error streaming materials export:", error);
+        return res.end();
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error exporting materials:", error);
+      res.status(500).json({ message: "Failed to export materials" });
+    }
+  });
+
+  app.post('/api/materials/import', isAuthenticated, requirePermission('materials:manage'), express.raw({ type: () => true, limit: MATERIAL_IMPORT_MAX_SIZE }), async (req: any, res) => {
+    try {
+      const { dryRun, openingBalance, locationId } = materialImportQuerySchema.parse(req.query);
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Spreadsheet file is required" });
+      }
+
+      const lines = readMaterialImport(req.body);
+      const existingCodes = new Set((await storage.getMaterials()).map((material) => material.code));
+      const rows = previewMaterialImport(lines, existingCodes, openingBalance);
+      if (dryRun) {
+        return res.json({ imported: false, rows });
+      }
+      if (rows.some((row) => row.errors.length > 0)) {
+        return res.status(400).json({ message: "Spreadsheet has rows with errors; nothing was imported", rows });
+      }
+
+      const userId = req.user.claims.sub;
+      const result = await storage.importMaterials(
+        lines.map((line) => ({ material: line.material!, openingStock: line.openingStock })),
+        { userId, openingBalance, locationId },
+      );
+
+      // Create audit log
+      for (const material of result.created) {
+        await storage.createAuditLog({
+          userId,
+          action: 'CREATE',
+          entityType: 'MATERIAL',
+          entityId: material.id,
+          changes: { after: material },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      }
+      for (const { before, after } of result.updated) {
+        await storage.createAuditLog({
+          userId,
+          action: 'UPDATE',
+          entityType: 'MATERIAL',
+          entityId: after.id,
+          changes: diffChanges(before, after),
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      }
+      for (const movement of result.movements) {
+        await storage.createAuditLog({
+          userId,
+          action: 'CREATE',
+          entityType: 'STOCK_MOVEMENT',
+          entityId: movement.id,
+          changes: { after: movement },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      }
+
+      res.json({
+        imported: true,
+        rows,
+        created: result.created.length,
+        updated: result.updated.length,
+        movements: result.movements.length,
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error importing materials:", error);
+      res.status(500).json({ message: "Failed to import materials" });
+    }
+  });
+
+  app.get('/api/materials/:id', isAuthenticated, requirePermission('materials:view'), async (req, res) => {
     try {
       const material = await storage.getMaterial(req.params.id);
       if (!material) {
@@ -244,7 +758,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.post('/api/materials', isAuthenticated, async (req: any, res) => {
+  app.post('/api/materials', isAuthenticated, requirePermission('materials:manage'), async (req: any, res) => {
     try {
       const materialData = insertMaterialSchema.parse(req.body);
       const material = await storage.createMaterial(materialData);
@@ -255,7 +769,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         action: 'CREATE',
         entityType: 'MATERIAL',
         entityId: material.id,
-        changes: materialData,
+        changes: { after: materialData },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
       });
@@ -270,9 +784,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.put('/api/materials/:id', isAuthenticated, async (req: any, res) => {
+  app.put('/api/materials/:id', isAuthenticated, requirePermission('materials:manage'), async (req: any, res) => {
     try {
       const materialData = insertMaterialSchema.partial().parse(req.body);
+      const previous = await storage.getMaterial(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "Material not found" });
+      }
+
       const material = await storage.updateMaterial(req.params.id, materialData);
       
       // Create audit log
@@ -281,7 +800,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         action: 'UPDATE',
         entityType: 'MATERIAL',
         entityId: req.params.id,
-        changes: materialData,
+        changes: diffChanges(previous, material),
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
       });
@@ -296,8 +815,13 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.delete('/api/materials/:id', isAuthenticated, async (req: any, res) => {
+  app.delete('/api/materials/:id', isAuthenticated, requirePermission('materials:manage'), async (req: any, res) => {
     try {
+      const previous = await storage.getMaterial(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "Material not found" });
+      }
+
       await storage.deleteMaterial(req.params.id);
       
       // Create audit log
@@ -306,7 +830,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         action: 'DELETE',
         entityType: 'MATERIAL',
         entityId: req.params.id,
-        changes: null,
+        changes: { before: previous },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
       });
@@ -318,96 +842,783 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Stock movements routes
-  app.get('/api/stock-movements', isAuthenticated, async (req, res) => {
+  // Locations routes
+  app.get('/api/locations', isAuthenticated, requirePermission('materials:view'), async (req, res) => {
     try {
-      const materialId = req.query.materialId as string | undefined;
-      const movements = await storage.getStockMovements(materialId);
-      res.json(movements);
+      const locations = await storage.getLocations();
+      res.json(locations);
     } catch (error) {
-      console.error("Error fetching stock movements:", error);
-      res.status(500).json({ message: "Failed to fetch stock movements" });
+      console.error("Error fetching locations:", error);
+      res.status(500).json({ message: "Failed to fetch locations" });
     }
   });
 
-  app.post('/api/stock-movements', isAuthenticated, async (req: any, res) => {
+  app.post('/api/locations', isAuthenticated, requirePermission('materials:manage'), async (req: any, res) => {
     try {
-      const movementData = insertStockMovementSchema.parse({
-        ...req.body,
-        userId: req.user.claims.sub,
-      });
-      const movement = await storage.createStockMovement(movementData);
-      
+      const locationData = insertLocationSchema.parse(req.body);
+      const location = await storage.createLocation(locationData);
+
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
         action: 'CREATE',
-        entityType: 'STOCK_MOVEMENT',
-        entityId: movement.id,
-        changes: movementData,
+        entityType: 'LOCATION',
+        entityId: location.id,
+        changes: { after: locationData },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
       });
-      
-      res.json(movement);
+
+      res.json(location);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      console.error("Error creating stock movement:", error);
-      res.status(500).json({ message: "Failed to create stock movement" });
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating location:", error);
+      res.status(500).json({ message: "Failed to create location" });
     }
   });
 
-  // Requisitions routes
-  app.get('/api/requisitions', isAuthenticated, async (req: any, res) => {
+  app.put('/api/locations/:id', isAuthenticated, requirePermission('materials:manage'), async (req: any, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      const employeeId = user?.role === 'FUNCIONARIO' ? req.user.claims.sub : undefined;
-      const requisitions = await storage.getRequisitions(employeeId);
-      res.json(requisitions);
-    } catch (error) {
-      console.error("Error fetching requisitions:", error);
-      res.status(500).json({ message: "Failed to fetch requisitions" });
-    }
-  });
+      const locationData = insertLocationSchema.partial().parse(req.body);
+      const previous = await storage.getLocation(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "Location not found" });
+      }
 
-  app.post('/api/requisitions', isAuthenticated, async (req: any, res) => {
-    try {
-      const requisitionData = insertRequisitionSchema.parse({
-        ...req.body,
-        createdById: req.user.claims.sub,
-      });
-      const requisition = await storage.createRequisition(requisitionData);
-      
+      const location = await storage.updateLocation(req.params.id, locationData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'UPDATE',
+        entityType: 'LOCATION',
+        entityId: req.params.id,
+        changes: diffChanges(previous, location),
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(location);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating location:", error);
+      res.status(500).json({ message: "Failed to update location" });
+    }
+  });
+
+  // Cost center routes
+  app.get('/api/cost-centers', isAuthenticated, requirePermission('requisitions:manage'), async (req, res) => {
+    try {
+      const costCenters = await storage.getCostCenters();
+      res.json(costCenters);
+    } catch (error) {
+      console.error("Error fetching cost centers:", error);
+      res.status(500).json({ message: "Failed to fetch cost centers" });
+    }
+  });
+
+  app.post('/api/cost-centers', isAuthenticated, requirePermission('settings:manage'), async (req: any, res) => {
+    try {
+      const costCenterData = insertCostCenterSchema.parse(req.body);
+      const costCenter = await storage.createCostCenter(costCenterData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'CREATE',
+        entityType: 'COST_CENTER',
+        entityId: costCenter.id,
+        changes: { after: costCenterData },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(costCenter);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating cost center:", error);
+      res.status(500).json({ message: "Failed to create cost center" });
+    }
+  });
+
+  app.put('/api/cost-centers/:id', isAuthenticated, requirePermission('settings:manage'), async (req: any, res) => {
+    try {
+      const costCenterData = insertCostCenterSchema.partial().parse(req.body);
+      const previous = await storage.getCostCenter(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "Cost center not found" });
+      }
+
+      const costCenter = await storage.updateCostCenter(req.params.id, costCenterData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'UPDATE',
+        entityType: 'COST_CENTER',
+        entityId: req.params.id,
+        changes: diffChanges(previous, costCenter),
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(costCenter);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating cost center:", error);
+      res.status(500).json({ message: "Failed to update cost center" });
+    }
+  });
+
+  app.get('/api/stock-balances', isAuthenticated, requirePermission('materials:view'), async (req, res) => {
+    try {
+      const materialId = (req.query.materialId as string) || undefined;
+      const balances = await storage.getStockBalances(materialId);
+      res.json(balances);
+    } catch (error) {
+      console.error("Error fetching stock balances:", error);
+      res.status(500).json({ message: "Failed to fetch stock balances" });
+    }
+  });
+
+  // Stock movements routes
+  app.get('/api/stock-movements', isAuthenticated, requirePermission('movements:view'), async (req, res) => {
+    try {
+      const filters = stockMovementQuerySchema.parse(req.query);
+      const movements = await storage.getStockMovements(filters);
+      res.json(movements);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching stock movements:", error);
+      res.status(500).json({ message: "Failed to fetch stock movements" });
+    }
+  });
+
+  app.post('/api/stock-movements', isAuthenticated, requirePermission('movements:create'), async (req: any, res) => {
+    try {
+      const movementData = manualStockMovementSchema.parse({
+        ...req.body,
+        userId: req.user.claims.sub,
+      });
+      const movement = await storage.createStockMovement(movementData);
+      
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'CREATE',
+        entityType: 'STOCK_MOVEMENT',
+        entityId: movement.id,
+        changes: { after: movement },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+      
+      res.json(movement);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating stock movement:", error);
+      res.status(500).json({ message: "Failed to create stock movement" });
+    }
+  });
+
+  // Inventory count routes
+  app.get('/api/inventory-counts', isAuthenticated, requirePermission('inventory:manage'), async (req, res) => {
+    try {
+      const counts = await storage.getInventoryCounts();
+      res.json(counts);
+    } catch (error) {
+      console.error("Error fetching inventory counts:", error);
+      res.status(500).json({ message: "Failed to fetch inventory counts" });
+    }
+  });
+
+  app.get('/api/inventory-counts/:id', isAuthenticated, requirePermission('inventory:manage'), async (req, res) => {
+    try {
+      const count = await storage.getInventoryCount(req.params.id);
+      if (!count) {
+        return res.status(404).json({ message: "Inventory count not found" });
+      }
+      res.json(count);
+    } catch (error) {
+      console.error("Error fetching inventory count:", error);
+      res.status(500).json({ message: "Failed to fetch inventory count" });
+    }
+  });
+
+  app.post('/api/inventory-counts', isAuthenticated, requirePermission('inventory:manage'), async (req: any, res) => {
+    try {
+      const countData = openInventoryCountSchema.parse(req.body);
+      const { items, ...count } = await storage.openInventoryCount({
+        ...countData,
+        openedById: req.user.claims.sub,
+      });
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'CREATE',
+        entityType: 'INVENTORY_COUNT',
+        entityId: count.id,
+        changes: {
+          after: {
+            ...count,
+            items: items.map(({ materialId, expectedQuantity }) => ({ materialId, expectedQuantity })),
+          },
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json({ ...count, items });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error opening inventory count:", error);
+      res.status(500).json({ message: "Failed to open inventory count" });
+    }
+  });
+
+  app.post('/api/inventory-counts/:id/counts', isAuthenticated, requirePermission('inventory:manage'), async (req: any, res) => {
+    try {
+      const { items: entries } = recordInventoryCountSchema.parse(req.body);
+      const previous = await storage.getInventoryCount(req.params.id);
+      const items = await storage.recordInventoryCount(req.params.id, {
+        items: entries,
+        countedById: req.user.claims.sub,
+      });
+
+      // Create audit log
+      const countedIds = new Set(items.map(item => item.id));
+      const auditCounts = (list: { id: string; materialId: string; countedQuantity: number | null }[]) =>
+        list
+          .filter(item => countedIds.has(item.id))
+          .map(({ materialId, countedQuantity }) => ({ materialId, countedQuantity }));
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'UPDATE',
+        entityType: 'INVENTORY_COUNT',
+        entityId: req.params.id,
+        changes: {
+          before: { items: auditCounts(previous?.items ?? []) },
+          after: { items: auditCounts(items) },
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(items);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error recording inventory count:", error);
+      res.status(500).json({ message: "Failed to record inventory count" });
+    }
+  });
+
+  app.post('/api/inventory-counts/:id/approve', isAuthenticated, requirePermission('inventory:manage'), async (req: any, res) => {
+    try {
+      const previous = await storage.getInventoryCount(req.params.id);
+      const { count, movements } = await storage.approveInventoryCount(req.params.id, req.user.claims.sub);
+
+      // Create audit logs: the approval, then each adjustment it generated
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'APPROVE',
+        entityType: 'INVENTORY_COUNT',
+        entityId: count.id,
+        changes: {
+          before: { status: previous?.status ?? null },
+          after: {
+            status: count.status,
+            adjustments: movements.map(({ id, materialId, quantity, observation }) => ({
+              movementId: id,
+              materialId,
+              quantity,
+              observation,
+            })),
+          },
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+      for (const movement of movements) {
+        await storage.createAuditLog({
+          userId: req.user.claims.sub,
+          action: 'CREATE',
+          entityType: 'STOCK_MOVEMENT',
+          entityId: movement.id,
+          changes: { after: movement },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      }
+
+      res.json({ ...count, movements });
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error approving inventory count:", error);
+      res.status(500).json({ message: "Failed to approve inventory count" });
+    }
+  });
+
+  app.post('/api/inventory-counts/:id/cancel', isAuthenticated, requirePermission('inventory:manage'), async (req: any, res) => {
+    try {
+      const previous = await storage.getInventoryCount(req.params.id);
+      const count = await storage.cancelInventoryCount(req.params.id, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'CANCEL',
+        entityType: 'INVENTORY_COUNT',
+        entityId: count.id,
+        changes: { before: { status: previous?.status ?? null }, after: { status: count.status } },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(count);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error cancelling inventory count:", error);
+      res.status(500).json({ message: "Failed to cancel inventory count" });
+    }
+  });
+
+  // Suppliers routes
+  app.get('/api/suppliers', isAuthenticated, requirePermission('purchasing:manage'), async (req, res) => {
+    try {
+      const suppliers = await storage.getSuppliers();
+      res.json(suppliers);
+    } catch (error) {
+      console.error("Error fetching suppliers:", error);
+      res.status(500).json({ message: "Failed to fetch suppliers" });
+    }
+  });
+
+  app.post('/api/suppliers', isAuthenticated, requirePermission('purchasing:manage'), async (req: any, res) => {
+    try {
+      const supplierData = insertSupplierSchema.parse(req.body);
+      const supplier = await storage.createSupplier(supplierData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'CREATE',
+        entityType: 'SUPPLIER',
+        entityId: supplier.id,
+        changes: { after: supplierData },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating supplier:", error);
+      res.status(500).json({ message: "Failed to create supplier" });
+    }
+  });
+
+  app.put('/api/suppliers/:id', isAuthenticated, requirePermission('purchasing:manage'), async (req: any, res) => {
+    try {
+      const supplierData = insertSupplierSchema.partial().parse(req.body);
+      const previous = await storage.getSupplier(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "Supplier not found" });
+      }
+
+      const supplier = await storage.updateSupplier(req.params.id, supplierData);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'UPDATE',
+        entityType: 'SUPPLIER',
+        entityId: req.params.id,
+        changes: diffChanges(previous, supplier),
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(supplier);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating supplier:", error);
+      res.status(500).json({ message: "Failed to update supplier" });
+    }
+  });
+
+  // Purchase order routes
+  app.get('/api/purchase-orders', isAuthenticated, requirePermission('purchasing:manage'), async (req, res) => {
+    try {
+      const filters = purchaseOrderQuerySchema.parse(req.query);
+      const orders = await storage.getPurchaseOrders(filters);
+      res.json(orders);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching purchase orders:", error);
+      res.status(500).json({ message: "Failed to fetch purchase orders" });
+    }
+  });
+
+  app.get('/api/purchase-orders/:id', isAuthenticated, requirePermission('purchasing:manage'), async (req, res) => {
+    try {
+      const order = await storage.getPurchaseOrder(req.params.id);
+      if (!order) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+      res.json(order);
+    } catch (error) {
+      console.error("Error fetching purchase order:", error);
+      res.status(500).json({ message: "Failed to fetch purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders', isAuthenticated, requirePermission('purchasing:manage'), async (req: any, res) => {
+    try {
+      const { items, ...orderData } = createPurchaseOrderSchema.parse({
+        ...req.body,
+        createdById: req.user.claims.sub,
+      });
+      const order = await storage.createPurchaseOrder(orderData, items);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'CREATE',
+        entityType: 'PURCHASE_ORDER',
+        entityId: order.id,
+        changes: { after: { ...orderData, items } },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating purchase order:", error);
+      res.status(500).json({ message: "Failed to create purchase order" });
+    }
+  });
+
+  app.put('/api/purchase-orders/:id', isAuthenticated, requirePermission('purchasing:manage'), async (req: any, res) => {
+    try {
+      const { items, ...orderData } = purchaseOrderUpdateSchema.parse(req.body);
+      const previous = await storage.getPurchaseOrder(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "Purchase order not found" });
+      }
+
+      const order = await storage.updatePurchaseOrder(req.params.id, orderData, items);
+
+      // Create audit log
+      const auditLines = (lines: { materialId: string; quantity: number; unitPrice: string }[]) =>
+        lines.map(({ materialId, quantity, unitPrice }) => ({ materialId, quantity, unitPrice }));
+      const { items: previousItems, supplier: _supplier, location: _location, createdBy: _createdBy, ...previousOrder } = previous;
+      const { items: savedItems, ...savedOrder } = order;
+      const changes = diffChanges(previousOrder, savedOrder);
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'UPDATE',
+        entityType: 'PURCHASE_ORDER',
+        entityId: req.params.id,
+        changes: items
+          ? {
+              before: { ...changes.before, items: auditLines(previousItems) },
+              after: { ...changes.after, items: auditLines(savedItems) },
+            }
+          : changes,
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(order);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error updating purchase order:", error);
+      res.status(500).json({ message: "Failed to update purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/send', isAuthenticated, requirePermission('purchasing:manage'), async (req: any, res) => {
+    try {
+      const previous = await storage.getPurchaseOrder(req.params.id);
+      const order = await storage.sendPurchaseOrder(req.params.id);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'SEND',
+        entityType: 'PURCHASE_ORDER',
+        entityId: order.id,
+        changes: { before: { status: previous?.status ?? null }, after: { status: order.status, sentAt: order.sentAt } },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(order);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error sending purchase order:", error);
+      res.status(500).json({ message: "Failed to send purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/cancel', isAuthenticated, requirePermission('purchasing:manage'), async (req: any, res) => {
+    try {
+      const previous = await storage.getPurchaseOrder(req.params.id);
+      const order = await storage.cancelPurchaseOrder(req.params.id, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'CANCEL',
+        entityType: 'PURCHASE_ORDER',
+        entityId: order.id,
+        changes: { before: { status: previous?.status ?? null }, after: { status: order.status } },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(order);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error cancelling purchase order:", error);
+      res.status(500).json({ message: "Failed to cancel purchase order" });
+    }
+  });
+
+  app.post('/api/purchase-orders/:id/receive', isAuthenticated, requirePermission('purchasing:manage'), async (req: any, res) => {
+    try {
+      const receiptData = receivePurchaseOrderSchema.parse(req.body);
+      const previous = await storage.getPurchaseOrder(req.params.id);
+      const { order, movements } = await storage.receivePurchaseOrder(req.params.id, {
+        ...receiptData,
+        receivedById: req.user.claims.sub,
+      });
+
+      // Create audit logs: the receipt, then each ENTRADA it generated
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'RECEIVE',
+        entityType: 'PURCHASE_ORDER',
+        entityId: order.id,
+        changes: {
+          before: { status: previous?.status ?? null },
+          after: {
+            status: order.status,
+            invoiceNumber: receiptData.invoiceNumber,
+            entries: movements.map(({ id, materialId, quantity, unitPrice, lotNumber }) => ({
+              movementId: id,
+              materialId,
+              quantity,
+              unitPrice,
+              lotNumber,
+            })),
+          },
+        },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+      for (const movement of movements) {
+        await storage.createAuditLog({
+          userId: req.user.claims.sub,
+          action: 'CREATE',
+          entityType: 'STOCK_MOVEMENT',
+          entityId: movement.id,
+          changes: { after: movement },
+          ipAddress: req.ip,
+          userAgent: req.get('User-Agent'),
+        });
+      }
+
+      res.json({ ...order, movements });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error receiving purchase order:", error);
+      res.status(500).json({ message: "Failed to receive purchase order" });
+    }
+  });
+
+  // Replenishment routes
+  app.get('/api/replenishment/suggestions', isAuthenticated, requirePermission('purchasing:manage'), async (req, res) => {
+    try {
+      const params = replenishmentQuerySchema.parse(req.query);
+      const report = await storage.getReplenishmentSuggestions(params);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error computing replenishment suggestions:", error);
+      res.status(500).json({ message: "Failed to compute replenishment suggestions" });
+    }
+  });
+
+  app.post('/api/replenishment/purchase-orders', isAuthenticated, requirePermission('purchasing:manage'), async (req: any, res) => {
+    try {
+      const { locationId, items } = replenishmentOrderSchema.parse(req.body);
+      const bySupplier = new Map<string, typeof items>();
+      for (const item of items) {
+        bySupplier.set(item.supplierId, [...(bySupplier.get(item.supplierId) ?? []), item]);
+      }
+
+      const orders = await storage.createPurchaseOrders(
+        Array.from(bySupplier, ([supplierId, supplierItems]) => ({
+          order: {
+            supplierId,
+            locationId,
+            observation: "Gerado a partir das sugestões de reposição",
+            createdById: req.user.claims.sub,
+          },
+          items: supplierItems.map(({ materialId, quantity, unitPrice }) => ({ materialId, quantity, unitPrice })),
+        })),
+        { userId: req.user.claims.sub, ipAddress: req.ip, userAgent: req.get('User-Agent') },
+      );
+
+      res.json(orders);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error creating replenishment purchase orders:", error);
+      res.status(500).json({ message: "Failed to create purchase orders" });
+    }
+  });
+
+  // Requisitions routes
+  app.get('/api/requisitions', isAuthenticated, requirePermission('requisitions:view'), async (req: any, res) => {
+    try {
+      const { number } = requisitionQuerySchema.parse(req.query);
+      const user = res.locals.currentUser;
+      const employeeId = hasPermission(user.role, 'requisitions:view-own') ? user.id : undefined;
+      const requisitions = await storage.getRequisitions({ employeeId, number: number || undefined });
+      res.json(requisitions);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching requisitions:", error);
+      res.status(500).json({ message: "Failed to fetch requisitions" });
+    }
+  });
+
+  app.post('/api/requisitions', isAuthenticated, requirePermission('requisitions:manage'), async (req: any, res) => {
+    try {
+      const { items, ...fields } = createRequisitionSchema.parse({
+        ...req.body,
+        createdById: req.user.claims.sub,
+      });
+      const requisitionData = { ...fields, status: 'PENDENTE' as const };
+      const requisition = await storage.createRequisition(requisitionData, items);
+      
       // Create audit log
       await storage.createAuditLog({
         userId: req.user.claims.sub,
         action: 'CREATE',
         entityType: 'REQUISITION',
         entityId: requisition.id,
-        changes: requisitionData,
+        changes: { after: { ...requisitionData, items } },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
       });
-      
+
+      void notifyRequisitionCreated(requisition);
       res.json(requisition);
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error creating requisition:", error);
       res.status(500).json({ message: "Failed to create requisition" });
     }
   });
 
-  app.post('/api/requisitions/:id/sign', isAuthenticated, async (req: any, res) => {
+  app.post('/api/requisitions/:id/sign', isAuthenticated, requirePermission('requisitions:manage'), async (req: any, res) => {
     try {
-      const requisition = await storage.signRequisition(
-        req.params.id,
-        req.get('User-Agent'),
-        req.ip
-      );
+      const { password } = requisitionSignatureSchema.parse(req.body);
+      const requisition = await storage.signRequisition(req.params.id, {
+        password,
+        signedByDevice: req.get('User-Agent'),
+        signedByIp: req.ip,
+      });
 
       // Create audit log
       await storage.createAuditLog({
@@ -415,13 +1626,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
         action: 'SIGN',
         entityType: 'REQUISITION',
         entityId: req.params.id,
-        changes: { status: 'ASSINADA' },
+        changes: {
+          before: { status: 'PENDENTE' },
+          after: { status: 'ASSINADA', signatureHash: requisition.signatureHash },
+        },
         ipAddress: req.ip,
         userAgent: req.get('User-Agent'),
       });
 
       res.json(requisition);
     } catch (error: any) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+
       if (error?.status) {
         return res.status(error.status).json({
           message: error.message || "Failed to sign requisition",
@@ -433,13 +1651,165 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  app.post('/api/requisitions/:id/cancel', isAuthenticated, requirePermission('requisitions:manage'), async (req: any, res) => {
+    try {
+      const { reason } = requisitionCancellationSchema.parse(req.body);
+      const previous = await storage.getRequisition(req.params.id);
+      const requisition = await storage.cancelRequisition(req.params.id, {
+        cancelledById: req.user.claims.sub,
+        reason,
+      });
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'CANCEL',
+        entityType: 'REQUISITION',
+        entityId: req.params.id,
+        changes: previous ? diffChanges(previous, requisition) : { after: requisition },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(requisition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error cancelling requisition:", error);
+      res.status(500).json({ message: "Failed to cancel requisition" });
+    }
+  });
+
+  app.post('/api/requisitions/:id/approve', isAuthenticated, requirePermission('requisitions:manage'), async (req: any, res) => {
+    try {
+      const { items } = requisitionApprovalSchema.parse(req.body);
+      const previous = await storage.getRequisition(req.params.id);
+      if (!previous) {
+        return res.status(404).json({ message: "Requisition not found" });
+      }
+
+      const previousItems = await storage.getRequisitionItems(req.params.id);
+      const requisition = await storage.approveRequisition(req.params.id, {
+        reviewedById: req.user.claims.sub,
+        quantities: items && Object.fromEntries(items.map(({ id, quantity }) => [id, quantity])),
+      });
+      const approvedItems = await storage.getRequisitionItems(req.params.id);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'APPROVE',
+        entityType: 'REQUISITION',
+        entityId: req.params.id,
+        changes: diffChanges(
+          { ...previous, items: auditItems(previousItems) },
+          { ...requisition, items: auditItems(approvedItems) },
+        ),
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(requisition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error approving requisition:", error);
+      res.status(500).json({ message: "Failed to approve requisition" });
+    }
+  });
+
+  app.post('/api/requisitions/:id/reject', isAuthenticated, requirePermission('requisitions:manage'), async (req: any, res) => {
+    try {
+      const { reason } = requisitionRejectionSchema.parse(req.body);
+      const previous = await storage.getRequisition(req.params.id);
+      const requisition = await storage.rejectRequisition(req.params.id, {
+        reviewedById: req.user.claims.sub,
+        reason,
+      });
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'REJECT',
+        entityType: 'REQUISITION',
+        entityId: req.params.id,
+        changes: previous ? diffChanges(previous, requisition) : { after: requisition },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      res.json(requisition);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error rejecting requisition:", error);
+      res.status(500).json({ message: "Failed to reject requisition" });
+    }
+  });
+
+  app.get('/api/requisitions/:id/verify', isAuthenticated, requirePermission('requisitions:view'), async (req, res) => {
+    try {
+      const user = res.locals.currentUser;
+      const requisition = await storage.getRequisition(req.params.id);
+      const isHidden = hasPermission(user.role, 'requisitions:view-own') && requisition?.employeeId !== user.id;
+      if (!requisition || isHidden) {
+        return res.status(404).json({ message: "Requisition not found" });
+      }
+
+      const items = await storage.getRequisitionItems(requisition.id);
+      const verification = verifySignatureReceipt(
+        requisition,
+        items.map((item) => ({ materialCode: item.material?.code ?? "", quantity: item.quantity })),
+      );
+      res.json({ requisitionId: requisition.id, ...verification });
+    } catch (error) {
+      console.error("Error verifying requisition signature:", error);
+      res.status(500).json({ message: "Failed to verify requisition signature" });
+    }
+  });
+
+  app.get('/api/requisitions/:id/receipt.pdf', isAuthenticated, requirePermission('requisitions:view'), async (req, res) => {
+    try {
+      const user = res.locals.currentUser;
+      const requisition = await storage.getRequisition(req.params.id);
+      const isHidden = hasPermission(user.role, 'requisitions:view-own') && requisition?.employeeId !== user.id;
+      if (!requisition || isHidden) {
+        return res.status(404).json({ message: "Requisition not found" });
+      }
+      if (!requisition.signedAt) {
+        return res.status(400).json({ message: "Requisition has not been signed" });
+      }
+
+      const pdf = await requisitionReceiptPdf(requisition);
+      res.setHeader("Content-Type", "application/pdf");
+      res.setHeader("Content-Disposition", `attachment; filename="${requisitionReceiptFileName(requisition)}"`);
+      res.send(pdf);
+    } catch (error) {
+      console.error("Error generating requisition receipt:", error);
+      res.status(500).json({ message: "Failed to generate requisition receipt" });
+    }
+  });
+
   // Dashboard routes
-  app.get('/api/dashboard/stats', isAuthenticated, async (req, res) => {
+  app.get('/api/dashboard/stats', isAuthenticated, requirePermission('dashboard:view'), async (req, res) => {
     try {
       const startDate = req.query.startDate ? new Date(req.query.startDate as string) : undefined;
       const endDate = req.query.endDate ? new Date(req.query.endDate as string) : undefined;
+      const locationId = (req.query.locationId as string) || undefined;
       
-      const stats = await storage.getDashboardStats(startDate, endDate);
+      const stats = await storage.getDashboardStats(startDate, endDate, locationId);
       res.json(stats);
     } catch (error) {
       console.error("Error fetching dashboard stats:", error);
@@ -447,9 +1817,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/dashboard/low-stock', isAuthenticated, async (req, res) => {
+  app.get('/api/dashboard/low-stock', isAuthenticated, requirePermission('dashboard:view'), async (req, res) => {
     try {
-      const materials = await storage.getMaterialsWithLowStock();
+      const locationId = (req.query.locationId as string) || undefined;
+      const materials = await storage.getMaterialsWithLowStock(locationId);
       res.json(materials);
     } catch (error) {
       console.error("Error fetching low stock materials:", error);
@@ -457,22 +1828,261 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Audit logs routes
-  app.get('/api/audit-logs', isAuthenticated, async (req: any, res) => {
+  app.get('/api/dashboard/expiring', isAuthenticated, requirePermission('dashboard:view'), async (req, res) => {
     try {
-      const user = await storage.getUser(req.user.claims.sub);
-      if (user?.role !== 'ADMIN') {
-        return res.status(403).json({ message: "Access denied" });
+      const filters = expiringLotsQuerySchema.parse(req.query);
+      const lots = await storage.getExpiringLots(filters);
+      res.json(lots);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
       }
-      
-      const logs = await storage.getAuditLogs();
-      res.json(logs);
+      console.error("Error fetching expiring lots:", error);
+      res.status(500).json({ message: "Failed to fetch expiring lots" });
+    }
+  });
+
+  // Alert routes
+  app.get('/api/alerts', isAuthenticated, requirePermission('alerts:view'), async (req, res) => {
+    try {
+      const filters = alertQuerySchema.parse(req.query);
+      const alerts = await storage.getAlerts(filters);
+      res.json(alerts);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching alerts:", error);
+      res.status(500).json({ message: "Failed to fetch alerts" });
+    }
+  });
+
+  app.post('/api/alerts/:id/acknowledge', isAuthenticated, requirePermission('alerts:view'), async (req: any, res) => {
+    try {
+      const alert = await storage.acknowledgeAlert(req.params.id, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'ACKNOWLEDGE',
+        entityType: 'ALERT',
+        entityId: alert.id,
+        changes: { before: { status: 'ABERTO' }, after: { status: alert.status } },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      notifyAlertChange({ raised: [], updated: [alert] });
+      res.json(alert);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error acknowledging alert:", error);
+      res.status(500).json({ message: "Failed to acknowledge alert" });
+    }
+  });
+
+  app.post('/api/alerts/:id/resolve', isAuthenticated, requirePermission('alerts:view'), async (req: any, res) => {
+    try {
+      const alert = await storage.resolveAlert(req.params.id, req.user.claims.sub);
+
+      // Create audit log
+      await storage.createAuditLog({
+        userId: req.user.claims.sub,
+        action: 'RESOLVE',
+        entityType: 'ALERT',
+        entityId: alert.id,
+        changes: { after: { status: alert.status } },
+        ipAddress: req.ip,
+        userAgent: req.get('User-Agent'),
+      });
+
+      notifyAlertChange({ raised: [], updated: [alert] });
+      res.json(alert);
+    } catch (error) {
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
+      console.error("Error resolving alert:", error);
+      res.status(500).json({ message: "Failed to resolve alert" });
+    }
+  });
+
+  // Notification routes
+  app.get('/api/notification-preferences', isAuthenticated, requirePermission('notifications:manage'), async (req: any, res) => {
+    try {
+      const preferences = await storage.getNotificationPreferences(req.user.claims.sub);
+      res.json(preferences);
+    } catch (error) {
+      console.error("Error fetching notification preferences:", error);
+      res.status(500).json({ message: "Failed to fetch notification preferences" });
+    }
+  });
+
+  app.put('/api/notification-preferences', isAuthenticated, requirePermission('notifications:manage'), async (req: any, res) => {
+    try {
+      const changes = updateNotificationPreferencesSchema.parse(req.body);
+      const preferences = await storage.updateNotificationPreferences(req.user.claims.sub, changes);
+      res.json(preferences);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error updating notification preferences:", error);
+      res.status(500).json({ message: "Failed to update notification preferences" });
+    }
+  });
+
+  app.get('/api/notifications/transport', isAuthenticated, requirePermission('settings:manage'), (_req, res) => {
+    res.json({ name: getMailTransport().name });
+  });
+
+  // Sends a test email to the signed-in administrator through the configured transport
+  app.post('/api/notifications/test', isAuthenticated, requirePermission('settings:manage'), async (_req, res) => {
+    const user = res.locals.currentUser;
+    if (!user.email) {
+      return res.status(400).json({ message: "Seu usuário não tem e-mail cadastrado" });
+    }
+
+    const transport = getMailTransport();
+    try {
+      await transport.send({
+        to: user.email,
+        subject: "E-mail de teste do almoxarifado",
+        text: `Este e-mail confirma que as notificações estão sendo enviadas pelo transporte "${transport.name}".`,
+      });
+      res.json({ transport: transport.name, to: user.email });
+    } catch (error) {
+      // Transport errors can carry SMTP replies and host names, so they stay in the log
+      console.error(
+        `Error sending test email through ${transport.name}:`,
+        error instanceof Error ? error.message : String(error),
+      );
+      res.status(500).json({ message: "Failed to send test email. Check the server log for details." });
+    }
+  });
+
+  // Report routes
+  app.get('/api/reports/valuation', isAuthenticated, requirePermission('reports:view'), async (req, res) => {
+    try {
+      const { at } = valuationQuerySchema.parse(req.query);
+      const valuation = await storage.getStockValuation(at ?? new Date());
+      res.json(valuation);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching stock valuation:", error);
+      res.status(500).json({ message: "Failed to fetch stock valuation" });
+    }
+  });
+
+  app.get('/api/reports/consumption', isAuthenticated, requirePermission('reports:view'), async (req, res) => {
+    try {
+      const { format, ...params } = consumptionReportQuerySchema.parse(req.query);
+      const report = await storage.getConsumptionReport(params);
+
+      if (format === "xlsx") {
+        res.setHeader("Content-Type", "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet");
+        res.setHeader("Content-Disposition", `attachment; filename="${consumptionReportFileName(report, "xlsx")}"`);
+        await writeConsumptionXlsx(res, report);
+        return res.end();
+      }
+      if (format === "pdf") {
+        res.setHeader("Content-Type", "application/pdf");
+        res.setHeader("Content-Disposition", `attachment; filename="${consumptionReportFileName(report, "pdf")}"`);
+        return res.send(renderConsumptionPdf(report));
+      }
+      res.json(report);
+    } catch (error) {
+      if (res.headersSent) {
+        console.error("Error streaming consumption report:", error);
+        return res.end();
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error fetching consumption report:", error);
+      res.status(500).json({ message: "Failed to fetch consumption report" });
+    }
+  });
+
+  // Audit logs routes
+  app.get('/api/audit-logs', isAuthenticated, requirePermission('audit:view'), async (req, res) => {
+    try {
+      const filters = auditLogQuerySchema.parse(req.query);
+      const page = await storage.getAuditLogs(filters);
+      res.json(page);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      if (error instanceof HttpError) {
+        return res.status(error.status).json({ message: error.message });
+      }
       console.error("Error fetching audit logs:", error);
       res.status(500).json({ message: "Failed to fetch audit logs" });
     }
   });
 
+  app.get('/api/audit-logs/export', isAuthenticated, requirePermission('audit:view'), async (req, res) => {
+    try {
+      const { cursor: _cursor, limit: _limit, ...filters } = auditLogQuerySchema.parse(req.query);
+
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="auditoria-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.write(CSV_BOM);
+      await writeCsvRow(res, ["Data", "Usuário", "E-mail", "Ação", "Entidade", "ID da entidade", "Antes", "Depois", "IP"]);
+
+      // Walk the filtered result page by page so large exports stay streamed,
+      // and stop once the client has gone
+      let cursor: string | undefined;
+      do {
+        const page = await storage.getAuditLogs({ ...filters, cursor, limit: 200 });
+        for (const log of page.items) {
+          if (res.destroyed) return;
+          // Entries written before change sets existed hold the bare patch
+          const changes = (log.changes ?? {}) as { before?: unknown; after?: unknown };
+          const isChangeSet = "before" in changes || "after" in changes;
+          await writeCsvRow(res, [
+            log.createdAt,
+            [log.user?.firstName, log.user?.lastName].filter(Boolean).join(" "),
+            log.user?.email,
+            log.action,
+            log.entityType,
+            log.entityId,
+            changes.before ? JSON.stringify(changes.before) : "",
+            isChangeSet
+              ? (changes.after ? JSON.stringify(changes.after) : "")
+              : (log.changes ? JSON.stringify(log.changes) : ""),
+            log.ipAddress,
+          ]);
+        }
+        cursor = page.nextCursor ?? undefined;
+      } while (cursor);
+
+      res.end();
+    } catch (error) {
+      if (res.headersSent) {
+        console.error("Error streaming audit log export:", error);
+        return res.end();
+      }
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid data", errors: error.errors });
+      }
+      console.error("Error exporting audit logs:", error);
+      res.status(500).json({ message: "Failed to export audit logs" });
+    }
+  });
+
   const httpServer = createServer(app);
+
+  // Alerts are pushed to the browsers of everyone allowed to see them
+  setupRealtime(httpServer);
+  onAlertChange((change) => broadcast('alerts:view', { type: 'alerts', ...change }));
+  startNotificationService();
+  startAlertMonitor();
+
   return httpServer;
 }
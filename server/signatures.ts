@@ -0,0 +1,158 @@
+import { createHash, createHmac, timingSafeEqual } from "crypto";
+import type { Requisition } from "@shared/schema";
+
+// v1 signed a single material; v2 signs every line item of the requisition.
+const SIGNATURE_PAYLOAD_VERSION = 2;
+
+// Resolved once at startup. Stored receipts are checked against this key, so
+// it is its own secret: rotating SESSION_SECRET must not invalidate them.
+const SIGNATURE_KEY = resolveSignatureKey();
+
+function resolveSignatureKey(): string {
+  const key = process.env.SIGNATURE_SECRET;
+  if (key) return key;
+
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("SIGNATURE_SECRET must be set in production to seal requisition signatures");
+  }
+  console.warn(
+    "SIGNATURE_SECRET is not set. Falling back to a development-only key. Signature receipts will not be trustworthy.",
+  );
+  return "insecure-development-signature-key";
+}
+
+export type SignedItem = {
+  materialCode: string;
+  quantity: number;
+};
+
+export type SignatureFields = {
+  requisitionId: string;
+  employeeId: string;
+  items: SignedItem[];
+  signedAt: Date;
+};
+
+export type SignatureReceipt = {
+  signaturePayload: string;
+  signatureHash: string;
+  signatureHmac: string;
+};
+
+export type SignatureVerification = {
+  status: "VALID" | "INVALID" | "UNSIGNED";
+  payloadMatches: boolean;
+  hashMatches: boolean;
+  hmacMatches: boolean;
+  signedAt: Date | null;
+  signatureHash: string | null;
+};
+
+// Fixed key order and item order so the same requisition always serializes
+// to the same bytes.
+export function buildSignaturePayload(
+  fields: SignatureFields,
+  version: number = SIGNATURE_PAYLOAD_VERSION,
+): string {
+  const base = {
+    v: version,
+    requisitionId: fields.requisitionId,
+    employeeId: fields.employeeId,
+  };
+
+  if (version === 1) {
+    const [item] = fields.items;
+    return JSON.stringify({
+      ...base,
+      materialCode: fields.items.length === 1 ? item.materialCode : "",
+      quantity: fields.items.length === 1 ? item.quantity : 0,
+      signedAt: fields.signedAt.toISOString(),
+    });
+  }
+
+  const items = [...fields.items]
+    .sort((a, b) => a.materialCode.localeCompare(b.materialCode) || a.quantity - b.quantity)
+    .map(({ materialCode, quantity }) => ({ materialCode, quantity }));
+
+  return JSON.stringify({
+    ...base,
+    items,
+    signedAt: fields.signedAt.toISOString(),
+  });
+}
+
+// Receipts keep the version they were sealed with, so older ones still verify.
+function payloadVersion(payload: string): number {
+  try {
+    const { v } = JSON.parse(payload);
+    return typeof v === "number" ? v : SIGNATURE_PAYLOAD_VERSION;
+  } catch {
+    return SIGNATURE_PAYLOAD_VERSION;
+  }
+}
+
+function hashPayload(payload: string): string {
+  return createHash("sha256").update(payload).digest("hex");
+}
+
+function hmacPayload(payload: string): string {
+  return createHmac("sha256", SIGNATURE_KEY).update(payload).digest("hex");
+}
+
+function safeEqualHex(a: string, b: string): boolean {
+  const left = Buffer.from(a, "hex");
+  const right = Buffer.from(b, "hex");
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+export function createSignatureReceipt(fields: SignatureFields): SignatureReceipt {
+  const signaturePayload = buildSignaturePayload(fields);
+  return {
+    signaturePayload,
+    signatureHash: hashPayload(signaturePayload),
+    signatureHmac: hmacPayload(signaturePayload),
+  };
+}
+
+// Rebuilds the payload from the current record and checks it against the
+// stored payload, hash and HMAC. Any edit to a signed field breaks the match.
+export function verifySignatureReceipt(
+  requisition: Requisition,
+  items: SignedItem[],
+): SignatureVerification {
+  const { signedAt, signaturePayload, signatureHash, signatureHmac } = requisition;
+
+  if (!signedAt || !signaturePayload || !signatureHash || !signatureHmac) {
+    return {
+      status: "UNSIGNED",
+      payloadMatches: false,
+      hashMatches: false,
+      hmacMatches: false,
+      signedAt,
+      signatureHash,
+    };
+  }
+
+  const expectedPayload = buildSignaturePayload(
+    {
+      requisitionId: requisition.id,
+      employeeId: requisition.employeeId,
+      items,
+      signedAt,
+    },
+    payloadVersion(signaturePayload),
+  );
+
+  const payloadMatches = expectedPayload === signaturePayload;
+  const hashMatches = safeEqualHex(hashPayload(signaturePayload), signatureHash);
+  const hmacMatches = safeEqualHex(hmacPayload(signaturePayload), signatureHmac);
+
+  return {
+    status: payloadMatches && hashMatches && hmacMatches ? "VALID" : "INVALID",
+    payloadMatches,
+    hashMatches,
+    hmacMatches,
+    signedAt,
+    signatureHash,
+  };
+}
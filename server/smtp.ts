@@ -0,0 +1,153 @@
+import net from "net";
+import tls from "tls";
+
+export type SmtpOptions = {
+  host: string;
+  port: number;
+  // Implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  secure: boolean;
+  user?: string;
+  pass?: string;
+};
+
+type SmtpReply = { code: number; text: string };
+
+const SOCKET_TIMEOUT_MS = 30 * 1000;
+
+// Just enough of RFC 5321 to hand one message to a relay: EHLO, STARTTLS,
+// AUTH PLAIN, MAIL/RCPT/DATA. One connection per message keeps it simple;
+// notification volume is low.
+class SmtpSession {
+  private socket: net.Socket;
+  private buffer = "";
+  private lines: string[] = [];
+  // Replies that arrived before anyone asked for them (e.g. the greeting)
+  private replies: SmtpReply[] = [];
+  private pending: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+
+  constructor(socket: net.Socket) {
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  private attach(socket: net.Socket) {
+    socket.setTimeout(SOCKET_TIMEOUT_MS, () => socket.destroy(new Error("SMTP connection timed out")));
+    socket.on("data", (chunk: Buffer) => this.onData(chunk.toString("latin1")));
+    socket.on("error", (error) => this.fail(error));
+    socket.on("close", () => this.fail(new Error("SMTP connection closed")));
+  }
+
+  private fail(error: Error) {
+    this.failure ??= error;
+    this.pending?.reject(error);
+    this.pending = null;
+  }
+
+  private onData(chunk: string) {
+    this.buffer += chunk;
+    let newline: number;
+    while ((newline = this.buffer.indexOf("\r\n")) >= 0) {
+      const line = this.buffer.slice(0, newline);
+      this.buffer = this.buffer.slice(newline + 2);
+      this.lines.push(line);
+      // "250-..." continues a reply, "250 ..." ends it
+      if (line.charAt(3) !== "-") {
+        const reply = { code: Number(line.slice(0, 3)), text: this.lines.map(l => l.slice(4)).join("\n") };
+        this.lines = [];
+        if (this.pending) {
+          this.pending.resolve(reply);
+          this.pending = null;
+        } else {
+          this.replies.push(reply);
+        }
+      }
+    }
+  }
+
+  read(): Promise<SmtpReply> {
+    const queued = this.replies.shift();
+    if (queued) return Promise.resolve(queued);
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.pending = { resolve, reject };
+    });
+  }
+
+  async command(line: string | null, expected: number[]): Promise<SmtpReply> {
+    const reply = this.read();
+    if (line !== null) this.socket.write(`${line}\r\n`);
+    const { code, text } = await reply;
+    if (!expected.includes(code)) {
+      throw new Error(`SMTP ${line?.split(" ")[0] ?? "greeting"} failed: ${code} ${text}`);
+    }
+    return { code, text };
+  }
+
+  async startTls(host: string) {
+    await this.command("STARTTLS", [220]);
+    this.socket.removeAllListeners("data");
+    this.socket.removeAllListeners("close");
+    this.socket = tls.connect({ socket: this.socket, servername: host });
+    this.attach(this.socket);
+    await new Promise<void>((resolve, reject) => {
+      this.socket.once("secureConnect", resolve);
+      this.socket.once("error", reject);
+    });
+  }
+
+  send(data: string) {
+    this.socket.write(data);
+  }
+
+  close() {
+    this.socket.end();
+  }
+}
+
+function connect({ host, port, secure }: SmtpOptions): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket = secure
+      ? tls.connect({ host, port, servername: host }, () => resolve(socket))
+      : net.connect({ host, port }, () => resolve(socket));
+    socket.once("error", reject);
+  });
+}
+
+// Delivers an already formatted message (headers and body, CRLF line endings)
+export async function sendSmtpMail(options: SmtpOptions, envelope: { from: string; to: string[] }, data: string) {
+  const session = new SmtpSession(await connect(options));
+  try {
+    await session.command(null, [220]);
+    const capabilities = await session.command("EHLO localhost", [250]);
+
+    // Capabilities must be asked for again over the encrypted channel
+    if (!options.secure && /^STARTTLS$/im.test(capabilities.text)) {
+      await session.startTls(options.host);
+      await session.command("EHLO localhost", [250]);
+    }
+
+    if (options.user) {
+      const credentials = Buffer.from(`\0${options.user}\0${options.pass ?? ""}`).toString("base64");
+      await session.command(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    await session.command(`MAIL FROM:<${envelope.from}>`, [250]);
+    for (const recipient of envelope.to) {
+      await session.command(`RCPT TO:<${recipient}>`, [250, 251]);
+    }
+    await session.command("DATA", [354]);
+
+    // Lines starting with a dot are doubled so they cannot end the data early
+    const reply = session.read();
+    session.send(`${data.replace(/^\./gm, "..")}\r\n.\r\n`);
+    const { code, text } = await reply;
+    if (code !== 250) {
+      throw new Error(`SMTP DATA failed: ${code} ${text}`);
+    }
+
+    await session.command("QUIT", [221]).catch(() => undefined);
+  } finally {
+    session.close();
+  }
+}
@@ -1,595 +1,4516 @@
 import {
   users,
   materials,
+  locations,
+  costCenters,
+  stockBalances,
+  stockLots,
+  stockMovementLots,
   stockMovements,
   requisitions,
+  requisitionSequences,
+  requisitionItems,
+  inventoryCounts,
+  inventoryCountItems,
+  suppliers,
+  purchaseOrders,
+  purchaseOrderItems,
+  alerts,
+  notificationPreferences,
   auditLogs,
   type User,
   type UpsertUser,
+  type UpdateUser,
   type Material,
   type InsertMaterial,
+  type Location,
+  type CostCenter,
+  type InsertCostCenter,
+  type InsertLocation,
+  type StockBalance,
+  type StockLot,
   type StockMovement,
   type InsertStockMovement,
   type Requisition,
   type InsertRequisition,
+  type RequisitionItem,
+  type InsertRequisitionItem,
+  type InventoryCount,
+  type InventoryCountItem,
+  type OpenInventoryCount,
+  type RecordInventoryCount,
+  type Supplier,
+  type InsertSupplier,
+  type PurchaseOrder,
+  type InsertPurchaseOrder,
+  type PurchaseOrderItem,
+  type InsertPurchaseOrderItem,
+  type ReceivePurchaseOrder,
+  type Alert,
+  type InsertAlert,
+  type NotificationPreferences,
+  type UpdateNotificationPreferences,
   type AuditLog,
   type InsertAuditLog,
 } from "@shared/schema";
 import { db as databaseClient } from "./db";
-import { eq, and, desc, gte, lte, sql, count } from "drizzle-orm";
+import {
+  ConflictError,
+  ForbiddenError,
+  NotFoundError,
+  ValidationError,
+  InsufficientStockError,
+  RequisitionStatusError,
+  PurchaseOrderStatusError,
+  AlertStatusError,
+} from "./errors";
+import { verifyPassword } from "./passwords";
+import { createSignatureReceipt } from "./signatures";
+import { eq, ne, and, or, desc, gt, gte, lte, lt, ilike, inArray, isNotNull, sql, count, getTableColumns, type SQL } from "drizzle-orm";
+import { alias } from "drizzle-orm/pg-core";
 import { randomUUID } from "crypto";
 
 type DatabaseClient = NonNullable<typeof databaseClient>;
+type DatabaseTransaction = Parameters<Parameters<DatabaseClient["transaction"]>[0]>[0];
 
 type UserSummary = Pick<User, "id" | "firstName" | "lastName" | "email">;
+type MaterialSummary = Pick<Material, "id" | "name" | "code" | "unit">;
+type RequisitionItemWithMaterial = RequisitionItem & { material: MaterialSummary | null };
+type RequisitionWithItems = Requisition & { items: RequisitionItem[] };
+// Staff create requisitions ready to sign; employee requests await approval
+type NewRequisition = InsertRequisition & { status: Extract<Requisition["status"], "PENDENTE" | "SOLICITADA"> };
+
 type EmployeeRequisitionDetails = Requisition & {
-  material: Pick<Material, "id" | "name" | "code" | "unit">;
+  items: RequisitionItemWithMaterial[];
   createdBy: UserSummary | null;
 };
 
-// Interface for storage operations
-export interface IStorage {
-  // User operations (mandatory for Replit Auth)
-  getUser(id: string): Promise<User | undefined>;
-  upsertUser(user: UpsertUser): Promise<User>;
-  getUserByEmail(email: string): Promise<User | undefined>;
-  createEmployeeUser(params: {
-    name: string;
-    email: string;
-    passwordHash: string;
-  }): Promise<User>;
+type CostCenterSummary = Pick<CostCenter, "id" | "code" | "name">;
 
-  // Material operations
-  getMaterials(): Promise<Material[]>;
-  getMaterial(id: string): Promise<Material | undefined>;
-  createMaterial(material: InsertMaterial): Promise<Material>;
-  updateMaterial(id: string, material: Partial<InsertMaterial>): Promise<Material>;
-  deleteMaterial(id: string): Promise<void>;
-  updateMaterialStock(materialId: string, newStock: number): Promise<void>;
+type RequisitionWithDetails = Requisition & {
+  items: RequisitionItemWithMaterial[];
+  employee: UserSummary | null;
+  createdBy: UserSummary | null;
+  costCenter: CostCenterSummary | null;
+};
 
-  // Stock movement operations
-  getStockMovements(materialId?: string): Promise<StockMovement[]>;
-  createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
+type RequisitionFilters = {
+  // Only this employee's requisitions
+  employeeId?: string;
+  // Part of the requisition number, case-insensitive
+  number?: string;
+};
 
-  // Requisition operations
-  getRequisitions(employeeId?: string): Promise<Requisition[]>;
-  getEmployeeRequisitionsWithDetails(employeeId: string): Promise<EmployeeRequisitionDetails[]>;
-  createRequisition(requisition: InsertRequisition): Promise<Requisition>;
-  updateRequisition(id: string, requisition: Partial<InsertRequisition>): Promise<Requisition>;
-  signRequisition(
-    id: string,
-    signedByDevice?: string,
-    signedByIp?: string,
-    signerId?: string,
-  ): Promise<Requisition>;
+type MaterialFilters = {
+  // Narrows currentStock to the balance held at this location
+  locationId?: string;
+  // Part of the name or code, case-insensitive
+  search?: string;
+  // Only materials at or below their minimum stock
+  lowStock?: boolean;
+  // Keyset paging in name order, for exports: materials after this one
+  after?: Pick<Material, "name" | "id">;
+  limit?: number;
+};
 
-  // Dashboard operations
-  getDashboardStats(startDate?: Date, endDate?: Date): Promise<any>;
-  getMaterialsWithLowStock(): Promise<Material[]>;
+// A validated spreadsheet row, matched to an existing material by code
+type MaterialImportRow = {
+  material: InsertMaterial;
+  openingStock: number | null;
+};
 
-  // Audit operations
-  createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
-  getAuditLogs(): Promise<AuditLog[]>;
-}
+type MaterialImportParams = {
+  userId: string;
+  // Books the opening stock of new materials as ENTRADA movements
+  openingBalance: boolean;
+  // Where opening stock goes; the default location when omitted
+  locationId?: string;
+};
 
-export class DatabaseStorage implements IStorage {
-  private readonly db: DatabaseClient;
+type MaterialImportResult = {
+  created: Material[];
+  updated: { before: Material; after: Material }[];
+  movements: StockMovement[];
+};
 
-  constructor() {
-    if (!databaseClient) {
-      throw new Error(
-        "Database connection is not configured. Set the DATABASE_URL environment variable to enable persistent storage.",
-      );
+const OPENING_BALANCE_NOTE = "Saldo inicial importado de planilha";
+
+type LocationSummary = Pick<Location, "id" | "name">;
+type StockBalanceWithLocation = StockBalance & { location: LocationSummary | null };
+type StockLotWithDetails = StockLot & { material: MaterialSummary | null; location: LocationSummary | null };
+
+type MaterialValuation = MaterialSummary & {
+  quantity: number;
+  averageCost: number;
+  value: number;
+  // Quantity replayed from movements that predate recorded balances
+  estimated: boolean;
+};
+
+type StockValuation = {
+  at: Date;
+  materials: MaterialValuation[];
+  totalValue: number;
+  // Explains estimated rows; null when every balance was recorded
+  note: string | null;
+};
+
+type LegacyMovement = Pick<StockMovement, "materialId" | "type" | "quantity">;
+
+const ESTIMATED_VALUATION_NOTE =
+  "Materiais marcados como estimados só têm movimentações anteriores ao registro de saldo; a quantidade " +
+  "foi recalculada somando entradas e saídas a partir do último ajuste e pode divergir do estoque real da época.";
+
+// Balance implied by movements recorded before balanceAfter existed, in
+// chronological order: entries add, exits subtract, an adjustment sets the
+// count and transfers leave the material total unchanged.
+function replayBalance(movements: LegacyMovement[]): number {
+  return movements.reduce((balance, movement) => {
+    switch (movement.type) {
+      case "ENTRADA":
+        return balance + movement.quantity;
+      case "SAIDA":
+        return balance - movement.quantity;
+      case "AJUSTE":
+        return movement.quantity;
+      case "TRANSFERENCIA":
+        return balance;
     }
-    this.db = databaseClient;
+  }, 0);
+}
+
+// Values each material at the balance and average cost left by its last
+// movement up to the given instant. Materials whose last movement has no
+// recorded balance are replayed from `legacy`, their movements up to then.
+function buildValuation(
+  at: Date,
+  allMaterials: Material[],
+  latest: Pick<StockMovement, "materialId" | "balanceAfter" | "averageCostAfter">[],
+  legacy: LegacyMovement[],
+): StockValuation {
+  const valued = latest.flatMap(movement => {
+    const material = allMaterials.find(m => m.id === movement.materialId);
+    if (!material) return [];
+    const estimated = movement.balanceAfter === null;
+    const quantity = movement.balanceAfter
+      ?? replayBalance(legacy.filter(legacyMovement => legacyMovement.materialId === material.id));
+    // Movements recorded before costing was introduced carry no average
+    const averageCost = Number(movement.averageCostAfter ?? material.averageCost);
+    return [{
+      id: material.id,
+      name: material.name,
+      code: material.code,
+      unit: material.unit,
+      quantity,
+      averageCost,
+      value: Math.round(quantity * averageCost * 100) / 100,
+      estimated,
+    }];
+  }).sort((a, b) => a.name.localeCompare(b.name));
+
+  return {
+    at,
+    materials: valued,
+    totalValue: Math.round(valued.reduce((sum, m) => sum + m.value, 0) * 100) / 100,
+    note: valued.some(m => m.estimated) ? ESTIMATED_VALUATION_NOTE : null,
+  };
+}
+
+type ExpiringLotFilters = {
+  // Lots expiring within this many days from today, already expired included
+  days: number;
+  locationId?: string;
+};
+
+// Created on first use so a fresh database can take movements right away.
+const DEFAULT_LOCATION_NAME = "Almoxarifado Central";
+
+// Material stock as a SQL expression: the total, or the balance at one location.
+function materialStock(locationId?: string): SQL<number> {
+  if (!locationId) return sql<number>`${materials.currentStock}`.mapWith(Number);
+  return sql<number>`coalesce((
+    select ${stockBalances.quantity} from ${stockBalances}
+    where ${stockBalances.materialId} = ${materials.id} and ${stockBalances.locationId} = ${locationId}
+  ), 0)`.mapWith(Number);
+}
+
+type DashboardStats = {
+  totalMaterials: number;
+  lowStockMaterials: number;
+  zeroStockMaterials: number;
+  pendingRequisitions: number;
+  requisitionsToday: number;
+  totalMovements: number;
+  totalStockValue: number;
+  movementsByPeriod: { period: string; entradas: number; saidas: number }[];
+  topMaterials: { materialId: string; name: string; code: string; quantity: number }[];
+};
+
+const DASHBOARD_TOP_MATERIALS = 5;
+
+// Daily buckets for ranges up to two months, monthly buckets otherwise.
+function dashboardBucket(startDate?: Date, endDate?: Date): "day" | "month" {
+  if (!startDate || !endDate) return "month";
+  const days = (endDate.getTime() - startDate.getTime()) / 86_400_000;
+  return days <= 62 ? "day" : "month";
+}
+
+function startOfToday(): Date {
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  return today;
+}
+
+type StockMovementFilters = {
+  materialId?: string;
+  type?: StockMovement["type"];
+  // Movements leaving or entering this location
+  locationId?: string;
+  from?: Date;
+  to?: Date;
+};
+
+type StockMovementWithDetails = StockMovement & {
+  material: Pick<Material, "id" | "name" | "code" | "unit"> | null;
+  user: UserSummary | null;
+  requisition: Pick<Requisition, "id" | "number" | "status"> | null;
+  sourceLocation: LocationSummary | null;
+  destinationLocation: LocationSummary | null;
+};
+
+type SignRequisitionParams = {
+  // When given, must be the requisition's employee (employee portal). Staff
+  // counters omit it and rely on the employee typing their password.
+  signerId?: string;
+  password: string;
+  signedByDevice?: string;
+  signedByIp?: string;
+};
+
+// Computes the balance resulting from a movement. ENTRADA and SAIDA carry a
+// positive delta; AJUSTE carries the counted (absolute) quantity.
+function computeBalanceAfter(
+  material: Pick<Material, "id" | "code">,
+  type: Exclude<StockMovement["type"], "TRANSFERENCIA">,
+  currentStock: number,
+  quantity: number,
+): number {
+  if (!Number.isInteger(quantity)) {
+    throw new ValidationError("Quantidade deve ser um número inteiro");
   }
 
-  // User operations (mandatory for Replit Auth)
-  async getUser(id: string): Promise<User | undefined> {
-    const [user] = await this.db.select().from(users).where(eq(users.id, id));
-    return user;
+  switch (type) {
+    case "ENTRADA":
+      if (quantity <= 0) {
+        throw new ValidationError("Quantidade de entrada deve ser maior que zero");
+      }
+      return currentStock + quantity;
+    case "SAIDA":
+      if (quantity <= 0) {
+        throw new ValidationError("Quantidade de saída deve ser maior que zero");
+      }
+      if (quantity > currentStock) {
+        throw new InsufficientStockError(material.id, currentStock, quantity, material.code);
+      }
+      return currentStock - quantity;
+    case "AJUSTE":
+      if (quantity < 0) {
+        throw new ValidationError("Quantidade ajustada não pode ser negativa");
+      }
+      return quantity;
   }
+}
 
-  async upsertUser(userData: UpsertUser): Promise<User> {
-    const insertPayload = {
-      ...userData,
-      id: userData.id ?? randomUUID(),
-    } satisfies UpsertUser;
+type MovementCost = { unitPrice: string | null; averageCost: string };
 
-    const [user] = await this.db
-      .insert(users)
-      .values(insertPayload)
-      .onConflictDoUpdate({
-        target: users.id,
-        set: {
-          ...userData,
-          updatedAt: new Date(),
-        },
-      })
-      .returning();
-    return user;
+// Moving weighted average cost. A priced ENTRADA blends its cost into the
+// average; every other movement is valued at the average as it stands.
+function computeMovementCost(
+  material: Pick<Material, "currentStock" | "averageCost">,
+  movement: Pick<InsertStockMovement, "type" | "quantity" | "unitPrice">,
+): MovementCost {
+  const average = Number(material.averageCost);
+  if (movement.type === "ENTRADA" && movement.unitPrice != null) {
+    const price = Number(movement.unitPrice);
+    const stock = Math.max(material.currentStock, 0);
+    const blended = stock === 0 ? price : (stock * average + movement.quantity * price) / (stock + movement.quantity);
+    return { unitPrice: movement.unitPrice, averageCost: blended.toFixed(4) };
   }
+  return { unitPrice: average.toFixed(2), averageCost: material.averageCost };
+}
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    const normalizedEmail = email.toLowerCase();
-    const [user] = await this.db
-      .select()
-      .from(users)
-      .where(eq(users.email, normalizedEmail));
-    return user;
+type MovementLocations = {
+  sourceLocationId: string | null;
+  destinationLocationId: string | null;
+};
+
+// Fills in the default location and clears the side a movement type does not use.
+function resolveMovementLocations(
+  movement: Pick<InsertStockMovement, "type" | "sourceLocationId" | "destinationLocationId">,
+  defaultLocationId: string,
+): MovementLocations {
+  switch (movement.type) {
+    case "ENTRADA":
+    case "AJUSTE":
+      return { sourceLocationId: null, destinationLocationId: movement.destinationLocationId ?? defaultLocationId };
+    case "SAIDA":
+      return { sourceLocationId: movement.sourceLocationId ?? defaultLocationId, destinationLocationId: null };
+    case "TRANSFERENCIA":
+      if (!movement.sourceLocationId || !movement.destinationLocationId) {
+        throw new ValidationError("Informe a origem e o destino da transferência");
+      }
+      if (movement.sourceLocationId === movement.destinationLocationId) {
+        throw new ValidationError("Origem e destino da transferência devem ser diferentes");
+      }
+      return {
+        sourceLocationId: movement.sourceLocationId,
+        destinationLocationId: movement.destinationLocationId,
+      };
   }
+}
 
-  async createEmployeeUser({
-    name,
-    email,
-    passwordHash,
-  }: {
-    name: string;
-    email: string;
-    passwordHash: string;
-  }): Promise<User> {
-    const normalizedEmail = email.toLowerCase();
-    const trimmedName = name.trim();
-    const [firstName, ...rest] = trimmedName.split(/\s+/);
-    const lastName = rest.length > 0 ? rest.join(" ") : null;
+// Stock may still leave a deactivated location, but nothing may enter it.
+function assertUsableLocations(
+  { sourceLocationId, destinationLocationId }: MovementLocations,
+  findLocation: (id: string) => Pick<Location, "isActive"> | undefined,
+): void {
+  for (const id of [sourceLocationId, destinationLocationId]) {
+    if (id && !findLocation(id)) {
+      throw new NotFoundError("Local não encontrado");
+    }
+  }
+  if (destinationLocationId && !findLocation(destinationLocationId)?.isActive) {
+    throw new ValidationError("Local de destino está desativado");
+  }
+}
 
-    const [user] = await this.db
-      .insert(users)
-      .values({
-        id: randomUUID(),
-        email: normalizedEmail,
-        firstName: firstName || trimmedName,
-        lastName: lastName || null,
-        passwordHash,
-        role: "FUNCIONARIO",
-      })
-      .returning();
+type LocationBalances = { source: number; destination: number };
 
-    return user;
+// Balances at the source and destination after a movement. The material total
+// moves by the same net amount, so a transfer leaves it unchanged.
+function computeLocationBalances(
+  material: Pick<Material, "id" | "code">,
+  type: StockMovement["type"],
+  quantity: number,
+  before: LocationBalances,
+): LocationBalances {
+  switch (type) {
+    case "ENTRADA":
+    case "AJUSTE":
+      return { ...before, destination: computeBalanceAfter(material, type, before.destination, quantity) };
+    case "SAIDA":
+      return { ...before, source: computeBalanceAfter(material, "SAIDA", before.source, quantity) };
+    case "TRANSFERENCIA":
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw new ValidationError("Quantidade transferida deve ser um inteiro maior que zero");
+      }
+      return {
+        source: computeBalanceAfter(material, "SAIDA", before.source, quantity),
+        destination: before.destination + quantity,
+      };
   }
+}
 
-  // Material operations
-  async getMaterials(): Promise<Material[]> {
-    return await this.db.select().from(materials).orderBy(materials.name);
+type LotAllocation = { lotId: string; quantity: number };
+
+type ReceivedLot = { lotNumber: string; expiresAt: string | null; quantity: number };
+
+type LotMovement = {
+  // Signed changes to lots that already exist
+  adjusted: LotAllocation[];
+  // Lots created or topped up at the destination
+  received: ReceivedLot[];
+};
+
+type LotSummary = Pick<StockLot, "id" | "lotNumber" | "expiresAt" | "quantity" | "createdAt">;
+
+// Draws `quantity` from the lots first-expired-first-out, lots without an
+// expiry date last. What the lots cannot cover comes from untracked stock.
+function pickLotsFefo(lots: LotSummary[], quantity: number): LotAllocation[] {
+  const ordered = lots
+    .filter(lot => lot.quantity > 0)
+    .sort((a, b) =>
+      (a.expiresAt ?? "9999-12-31").localeCompare(b.expiresAt ?? "9999-12-31")
+      || (a.createdAt?.getTime() ?? 0) - (b.createdAt?.getTime() ?? 0));
+
+  const allocations: LotAllocation[] = [];
+  let remaining = quantity;
+  for (const lot of ordered) {
+    if (remaining <= 0) break;
+    const taken = Math.min(lot.quantity, remaining);
+    allocations.push({ lotId: lot.id, quantity: -taken });
+    remaining -= taken;
   }
+  return allocations;
+}
 
-  async getMaterial(id: string): Promise<Material | undefined> {
-    const [material] = await this.db
-      .select()
-      .from(materials)
-      .where(eq(materials.id, id));
-    return material;
+// Works out which lots a movement touches. Runs after the balances were
+// checked, so the lots at the source always hold at most what is taken.
+function planLotMovement(
+  movement: Pick<InsertStockMovement, "type" | "quantity" | "lotNumber" | "expiresAt">,
+  sourceLots: LotSummary[],
+  destinationLots: LotSummary[],
+  destinationBalance: number,
+): LotMovement {
+  switch (movement.type) {
+    case "ENTRADA": {
+      if (!movement.lotNumber) return { adjusted: [], received: [] };
+      const existing = destinationLots.find(lot => lot.lotNumber === movement.lotNumber);
+      if (existing?.expiresAt && movement.expiresAt && existing.expiresAt !== movement.expiresAt) {
+        throw new ValidationError(`Lote ${movement.lotNumber} já cadastrado com validade ${existing.expiresAt}`);
+      }
+      return {
+        adjusted: [],
+        received: [{ lotNumber: movement.lotNumber, expiresAt: movement.expiresAt ?? null, quantity: movement.quantity }],
+      };
+    }
+    case "SAIDA":
+      return { adjusted: pickLotsFefo(sourceLots, movement.quantity), received: [] };
+    case "AJUSTE": {
+      // A recount below what the lots hold writes the difference off them
+      const excess = destinationLots.reduce((sum, lot) => sum + lot.quantity, 0) - destinationBalance;
+      return { adjusted: excess > 0 ? pickLotsFefo(destinationLots, excess) : [], received: [] };
+    }
+    case "TRANSFERENCIA": {
+      const adjusted = pickLotsFefo(sourceLots, movement.quantity);
+      const received = adjusted.map(({ lotId, quantity }) => {
+        const lot = sourceLots.find(l => l.id === lotId)!;
+        return { lotNumber: lot.lotNumber, expiresAt: lot.expiresAt, quantity: -quantity };
+      });
+      return { adjusted, received };
+    }
   }
+}
 
-  async createMaterial(material: InsertMaterial): Promise<Material> {
-    const [newMaterial] = await this.db
-      .insert(materials)
-      .values({ ...material, id: randomUUID() })
-      .returning();
-    return newMaterial;
+type LotAllocationWithTarget = LotAllocation & { materialId: string; locationId: string };
+
+// What a requisition drew from each lot of one material and location, so a
+// cancellation refills the same lots.
+function withdrawnLots(
+  allocations: LotAllocationWithTarget[],
+  { materialId, locationId }: { materialId: string; locationId: string | null },
+): LotAllocation[] {
+  const totals = new Map<string, number>();
+  for (const allocation of allocations) {
+    if (allocation.materialId !== materialId || allocation.locationId !== locationId) continue;
+    totals.set(allocation.lotId, (totals.get(allocation.lotId) ?? 0) - allocation.quantity);
   }
+  return Array.from(totals, ([lotId, quantity]) => ({ lotId, quantity }))
+    .filter(allocation => allocation.quantity > 0);
+}
 
-  async updateMaterial(id: string, material: Partial<InsertMaterial>): Promise<Material> {
-    const [updatedMaterial] = await this.db
-      .update(materials)
-      .set({ ...material, updatedAt: new Date() })
-      .where(eq(materials.id, id))
-      .returning();
-    return updatedMaterial;
+function expiryCutoff(days: number): string {
+  return new Date(Date.now() + days * 86_400_000).toISOString().slice(0, 10);
+}
+
+function assertSignableStatus(requisition: Requisition): void {
+  if (requisition.status !== "PENDENTE") {
+    throw new RequisitionStatusError(requisition.status, "assinada");
   }
+}
 
-  async deleteMaterial(id: string): Promise<void> {
-    await this.db.delete(materials).where(eq(materials.id, id));
+// Checks everything that can be decided before taking row locks: status,
+// signer identity and the employee's password.
+async function authorizeSignature(
+  requisition: Requisition | undefined,
+  employee: User | undefined,
+  { signerId, password }: SignRequisitionParams,
+): Promise<Requisition> {
+  if (!requisition) {
+    throw new NotFoundError("Requisição não encontrada");
   }
 
-  async updateMaterialStock(materialId: string, newStock: number): Promise<void> {
-    await this.db
-      .update(materials)
-      .set({ currentStock: newStock, updatedAt: new Date() })
-      .where(eq(materials.id, materialId));
+  assertSignableStatus(requisition);
+
+  if (signerId && signerId !== requisition.employeeId) {
+    throw new ForbiddenError("Você não tem permissão para assinar esta requisição");
   }
 
-  // Stock movement operations
-  async getStockMovements(materialId?: string): Promise<StockMovement[]> {
-    const query = this.db.select().from(stockMovements).orderBy(desc(stockMovements.createdAt));
-    
-    if (materialId) {
-      return await query.where(eq(stockMovements.materialId, materialId));
-    }
-    
-    return await query;
+  if (employee && !employee.isActive) {
+    throw new ForbiddenError("Funcionário desativado não pode assinar requisições");
   }
 
-  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
-    const [newMovement] = await this.db
-      .insert(stockMovements)
-      .values({ ...movement, id: randomUUID() })
-      .returning();
-    return newMovement;
+  if (!employee?.passwordHash) {
+    throw new ForbiddenError("Funcionário não possui senha cadastrada para assinatura");
   }
 
-  // Requisition operations
-  async getRequisitions(employeeId?: string): Promise<Requisition[]> {
-    const query = this.db.select().from(requisitions).orderBy(desc(requisitions.createdAt));
-    
-    if (employeeId) {
-      return await query.where(eq(requisitions.employeeId, employeeId));
-    }
-    
-    return await query;
+  if (!(await verifyPassword(password, employee.passwordHash))) {
+    throw new ForbiddenError("Senha inválida");
   }
 
-  async getEmployeeRequisitionsWithDetails(employeeId: string): Promise<EmployeeRequisitionDetails[]> {
-    return await this.db
-      .select({
-        id: requisitions.id,
-        employeeId: requisitions.employeeId,
-        materialId: requisitions.materialId,
-        quantity: requisitions.quantity,
-        observation: requisitions.observation,
-        status: requisitions.status,
-        createdById: requisitions.createdById,
-        signedAt: requisitions.signedAt,
-        signedByDevice: requisitions.signedByDevice,
-        signedByIp: requisitions.signedByIp,
-        createdAt: requisitions.createdAt,
-        updatedAt: requisitions.updatedAt,
-        material: {
-          id: materials.id,
-          name: materials.name,
-          code: materials.code,
-          unit: materials.unit,
-        },
-        createdBy: {
-          id: users.id,
-          firstName: users.firstName,
-          lastName: users.lastName,
-          email: users.email,
-        },
-      })
-      .from(requisitions)
-      .innerJoin(materials, eq(requisitions.materialId, materials.id))
-      .leftJoin(users, eq(requisitions.createdById, users.id))
-      .where(eq(requisitions.employeeId, employeeId))
-      .orderBy(desc(requisitions.createdAt));
+  return requisition;
+}
+
+type CancelRequisitionParams = {
+  cancelledById: string;
+  reason: string;
+};
+
+type WithdrawnQuantity = { materialId: string; locationId: string | null; quantity: number };
+
+// Net quantity a requisition has taken out of stock per material and
+// location, so cancelling it can put back exactly what left and where from.
+// Sorted to keep the lock order stable.
+function withdrawnQuantities(
+  movements: Pick<StockMovement, "materialId" | "type" | "quantity" | "sourceLocationId" | "destinationLocationId">[],
+): WithdrawnQuantity[] {
+  const totals = new Map<string, WithdrawnQuantity>();
+  for (const movement of movements) {
+    const [locationId, delta] = movement.type === "SAIDA" ? [movement.sourceLocationId, movement.quantity]
+      : movement.type === "ENTRADA" ? [movement.destinationLocationId, -movement.quantity]
+      : [null, 0];
+    if (delta === 0) continue;
+
+    const key = `${movement.materialId}|${locationId ?? ""}`;
+    const entry = totals.get(key) ?? { materialId: movement.materialId, locationId, quantity: 0 };
+    entry.quantity += delta;
+    totals.set(key, entry);
   }
+  return Array.from(totals.values())
+    .filter(entry => entry.quantity > 0)
+    .sort((a, b) => a.materialId.localeCompare(b.materialId) || (a.locationId ?? "").localeCompare(b.locationId ?? ""));
+}
 
-  async createRequisition(requisition: InsertRequisition): Promise<Requisition> {
-    const [newRequisition] = await this.db
-      .insert(requisitions)
-      .values({ ...requisition, id: randomUUID() })
-      .returning();
-    return newRequisition;
+function assertCancellableStatus(requisition: Requisition): void {
+  if (requisition.status === "CANCELADA" || requisition.status === "REJEITADA") {
+    throw new RequisitionStatusError(requisition.status, "cancelada");
   }
+}
 
-  async updateRequisition(id: string, requisition: Partial<InsertRequisition>): Promise<Requisition> {
-    const [updatedRequisition] = await this.db
-      .update(requisitions)
-      .set({ ...requisition, updatedAt: new Date() })
-      .where(eq(requisitions.id, id))
-      .returning();
-    return updatedRequisition;
+type ApproveRequisitionParams = {
+  reviewedById: string;
+  // Approved quantity per item id; items left out keep the requested quantity.
+  quantities?: Record<string, number>;
+};
+
+type RejectRequisitionParams = {
+  reviewedById: string;
+  reason: string;
+};
+
+function assertReviewableStatus(requisition: Requisition, action: "aprovada" | "rejeitada"): void {
+  if (requisition.status !== "SOLICITADA") {
+    throw new RequisitionStatusError(requisition.status, action);
   }
+}
 
-  async signRequisition(
-    id: string,
-    signedByDevice?: string,
-    signedByIp?: string,
-    signerId?: string,
-  ): Promise<Requisition> {
-    const [signedRequisition] = await this.db
-      .update(requisitions)
-      .set({
-        status: "ASSINADA",
-        signedAt: new Date(),
-        signedByDevice,
-        signedByIp,
-        updatedAt: new Date(),
-      })
-      .where(eq(requisitions.id, id))
-      .returning();
-    return signedRequisition;
+// Approval may only reduce what the employee asked for; zero drops the line.
+function resolveApprovedQuantities(
+  items: RequisitionItem[],
+  quantities: Record<string, number> = {},
+): { item: RequisitionItem; quantity: number }[] {
+  const itemIds = new Set(items.map(item => item.id));
+  for (const itemId of Object.keys(quantities)) {
+    if (!itemIds.has(itemId)) {
+      throw new ValidationError("Item não pertence a esta solicitação");
+    }
   }
 
-  // Dashboard operations
-  async getDashboardStats(startDate?: Date, endDate?: Date): Promise<any> {
-    let dateFilter = sql`true`;
-    if (startDate && endDate) {
-      dateFilter = and(
-        gte(stockMovements.createdAt, startDate),
-        lte(stockMovements.createdAt, endDate)
-      ) || sql`true`;
+  const approved = items.map(item => {
+    const quantity = quantities[item.id] ?? item.quantity;
+    if (!Number.isInteger(quantity) || quantity < 0 || quantity > item.quantity) {
+      throw new ValidationError(`Quantidade aprovada deve estar entre 0 e ${item.quantity}`);
     }
+    return { item, quantity };
+  });
 
-    const [totalMaterials] = await this.db
-      .select({ count: count() })
-      .from(materials);
+  if (approved.every(({ quantity }) => quantity === 0)) {
+    throw new ValidationError("Aprove ao menos um item ou rejeite a solicitação");
+  }
+  return approved;
+}
+
+type InventoryCountItemWithDetails = InventoryCountItem & {
+  material: MaterialSummary | null;
+  // Live balance at the count's location; approval adjusts it to the count
+  currentQuantity: number;
+  variance: number | null;
+};
+
+type InventoryCountWithDetails = InventoryCount & {
+  location: LocationSummary | null;
+  openedBy: UserSummary | null;
+  approvedBy: UserSummary | null;
+  items: InventoryCountItemWithDetails[];
+};
+
+type InventoryCountSummary = InventoryCount & {
+  location: LocationSummary | null;
+  openedBy: UserSummary | null;
+  itemCount: number;
+  countedCount: number;
+};
+
+type OpenInventoryCountParams = OpenInventoryCount & { openedById: string };
+type RecordInventoryCountParams = RecordInventoryCount & { countedById: string };
+type InventoryCountApproval = { count: InventoryCount; movements: StockMovement[] };
+
+function assertOpenCount(count: InventoryCount | undefined): InventoryCount {
+  if (!count) {
+    throw new NotFoundError("Inventário não encontrado");
+  }
+  if (count.status !== "ABERTA") {
+    throw new ValidationError(count.status === "APROVADA" ? "Inventário já foi aprovado" : "Inventário foi cancelado");
+  }
+  return count;
+}
+
+// A material can only be in one open count per location, otherwise two
+// approvals would overwrite each other's adjustments.
+function assertNotBeingCounted(busyCodes: string[]): void {
+  if (busyCodes.length > 0) {
+    throw new ConflictError(`Materiais já em inventário aberto neste local: ${busyCodes.join(", ")}`);
+  }
+}
+
+function assertCountableItems(items: Pick<InventoryCountItem, "id">[], entries: RecordInventoryCount["items"]): void {
+  for (const entry of entries) {
+    if (!items.some(item => item.id === entry.id)) {
+      throw new ValidationError("Item não pertence a este inventário");
+    }
+  }
+}
+
+function assertFullyCounted(items: Pick<InventoryCountItem, "countedQuantity">[]): void {
+  const pending = items.filter(item => item.countedQuantity === null).length;
+  if (pending === 1) {
+    throw new ValidationError("1 item ainda não foi contado");
+  }
+  if (pending > 1) {
+    throw new ValidationError(`${pending} itens ainda não foram contados`);
+  }
+}
+
+function withVariance<T extends Pick<InventoryCountItem, "countedQuantity">>(
+  item: T,
+  currentQuantity: number,
+): T & { currentQuantity: number; variance: number | null } {
+  return {
+    ...item,
+    currentQuantity,
+    variance: item.countedQuantity === null ? null : item.countedQuantity - currentQuantity,
+  };
+}
+
+function inventoryAdjustmentNote(countId: string, counted: number, current: number): string {
+  return `Inventário ${countId.slice(0, 8)}: contado ${counted}, sistema ${current}`;
+}
+
+type SupplierSummary = Pick<Supplier, "id" | "name">;
+
+type PurchaseOrderFilters = {
+  status?: PurchaseOrder["status"];
+  supplierId?: string;
+};
+
+type PurchaseOrderItemWithMaterial = PurchaseOrderItem & { material: MaterialSummary | null };
+type PurchaseOrderWithItems = PurchaseOrder & { items: PurchaseOrderItem[] };
+type NewPurchaseOrder = { order: InsertPurchaseOrder; items: InsertPurchaseOrderItem[] };
+// Who made a change, for audit entries written by storage itself
+type AuditContext = Pick<InsertAuditLog, "userId" | "ipAddress" | "userAgent">;
+
+type PurchaseOrderSummary = PurchaseOrder & {
+  supplier: SupplierSummary | null;
+  location: LocationSummary | null;
+  itemCount: number;
+  totalValue: number;
+};
+
+type PurchaseOrderWithDetails = PurchaseOrder & {
+  supplier: SupplierSummary | null;
+  location: LocationSummary | null;
+  createdBy: UserSummary | null;
+  items: PurchaseOrderItemWithMaterial[];
+};
+
+type ReceivePurchaseOrderParams = ReceivePurchaseOrder & { receivedById: string };
+type PurchaseOrderReceipt = { order: PurchaseOrder; movements: StockMovement[] };
+
+function assertUniqueSupplierDocument(existing: Pick<Supplier, "id" | "document">[], document: string | null | undefined, ignoreId?: string): void {
+  if (!document) return;
+  if (existing.some(supplier => supplier.id !== ignoreId && supplier.document === document)) {
+    throw new ConflictError("Já existe um fornecedor com este documento");
+  }
+}
+
+function assertActiveSupplier(supplier: Pick<Supplier, "isActive"> | undefined): void {
+  if (!supplier) {
+    throw new NotFoundError("Fornecedor não encontrado");
+  }
+  if (!supplier.isActive) {
+    throw new ValidationError("Fornecedor está desativado");
+  }
+}
+
+function assertPurchaseOrderStatus(
+  order: PurchaseOrder | undefined,
+  allowed: PurchaseOrder["status"][],
+  action: ConstructorParameters<typeof PurchaseOrderStatusError>[1],
+): PurchaseOrder {
+  if (!order) {
+    throw new NotFoundError("Pedido de compra não encontrado");
+  }
+  if (!allowed.includes(order.status)) {
+    throw new PurchaseOrderStatusError(order.status, action);
+  }
+  return order;
+}
+
+type PurchaseReceiptPlan = {
+  lines: { item: PurchaseOrderItem; entry: ReceivePurchaseOrder["items"][number] }[];
+  items: PurchaseOrderItem[];
+  status: PurchaseOrder["status"];
+};
+
+// Matches the received quantities to the order lines, refusing more than is
+// still open on a line, and works out the order status afterwards.
+function planPurchaseReceipt(
+  items: PurchaseOrderItem[],
+  entries: ReceivePurchaseOrder["items"],
+): PurchaseReceiptPlan {
+  const lines = entries.map(entry => {
+    const item = items.find(i => i.id === entry.id);
+    if (!item) {
+      throw new ValidationError("Item não pertence a este pedido de compra");
+    }
+    const open = item.quantity - item.receivedQuantity;
+    if (entry.quantity > open) {
+      throw new ValidationError(`Quantidade recebida excede o pendente do item: pendente ${open}, recebido ${entry.quantity}`);
+    }
+    return { item, entry };
+  }).sort((a, b) => a.item.materialId.localeCompare(b.item.materialId));
+
+  const received = items.map(item => ({
+    ...item,
+    receivedQuantity: item.receivedQuantity + (lines.find(line => line.item.id === item.id)?.entry.quantity ?? 0),
+  }));
+  const complete = received.every(item => item.receivedQuantity >= item.quantity);
+  return { lines, items: received, status: complete ? "RECEBIDO" : "PARCIALMENTE_RECEBIDO" };
+}
+
+function purchaseReceiptNote(orderId: string, observation?: string): string {
+  return observation
+    ? `Pedido de compra ${orderId.slice(0, 8)}: ${observation}`
+    : `Recebimento do pedido de compra ${orderId.slice(0, 8)}`;
+}
+
+function purchaseOrderTotal(items: Pick<PurchaseOrderItem, "quantity" | "unitPrice">[]): number {
+  return Math.round(items.reduce((sum, item) => sum + item.quantity * Number(item.unitPrice), 0) * 100) / 100;
+}
+
+// Used when neither the material nor its supplier states a lead time
+const DEFAULT_LEAD_TIME_DAYS = 7;
+
+type ReplenishmentParams = {
+  // Consumption history window
+  days: number;
+  // How many days of consumption each reorder should cover
+  coverageDays: number;
+};
+
+type ReplenishmentInput = {
+  material: Material;
+  supplier: Pick<Supplier, "id" | "name" | "leadTimeDays"> | null;
+  // Net SAIDA over the window: withdrawals minus cancelled requisitions' reversals
+  consumed: number;
+  // Still to be delivered on draft and open purchase orders
+  onOrder: number;
+  lastPurchasePrice: number | null;
+};
+
+type ReplenishmentSuggestion = {
+  material: MaterialSummary;
+  supplier: SupplierSummary | null;
+  currentStock: number;
+  minimumStock: number;
+  onOrder: number;
+  averageDailyConsumption: number;
+  leadTimeDays: number;
+  reorderPoint: number;
+  suggestedQuantity: number;
+  // Days the current stock lasts at the average consumption; null without consumption
+  daysOfCover: number | null;
+  estimatedUnitPrice: number;
+  estimatedCost: number;
+};
+
+type ReplenishmentReport = ReplenishmentParams & {
+  generatedAt: Date;
+  suggestions: ReplenishmentSuggestion[];
+};
+
+// Reorder point = consumption during the lead time plus the minimum stock,
+// which acts as safety stock. A material is suggested once its stock plus
+// what is already on order falls to that point, and the suggestion tops it
+// up to the reorder point plus `coverageDays` of consumption (or another
+// minimum's worth when there is no consumption to go by).
+function buildReplenishmentSuggestions(
+  inputs: ReplenishmentInput[],
+  { days, coverageDays }: ReplenishmentParams,
+): ReplenishmentSuggestion[] {
+  return inputs.flatMap(({ material, supplier, consumed, onOrder, lastPurchasePrice }) => {
+    const averageDailyConsumption = Math.max(consumed, 0) / days;
+    if (averageDailyConsumption === 0 && material.minimumStock === 0) return [];
+
+    const leadTimeDays = material.leadTimeDays ?? supplier?.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS;
+    const reorderPoint = Math.ceil(averageDailyConsumption * leadTimeDays) + material.minimumStock;
+    const position = material.currentStock + onOrder;
+    if (position > reorderPoint) return [];
+
+    const cycleQuantity = Math.max(Math.ceil(averageDailyConsumption * coverageDays), material.minimumStock);
+    const suggestedQuantity = Math.max(reorderPoint + cycleQuantity - position, 1);
+    const estimatedUnitPrice = lastPurchasePrice
+      ?? (Number(material.averageCost) || Number(material.unitPrice ?? 0));
+
+    return [{
+      material: { id: material.id, name: material.name, code: material.code, unit: material.unit },
+      supplier: supplier ? { id: supplier.id, name: supplier.name } : null,
+      currentStock: material.currentStock,
+      minimumStock: material.minimumStock,
+      onOrder,
+      averageDailyConsumption: Math.round(averageDailyConsumption * 100) / 100,
+      leadTimeDays,
+      reorderPoint,
+      suggestedQuantity,
+      daysOfCover: averageDailyConsumption > 0
+        ? Math.floor(Math.max(material.currentStock, 0) / averageDailyConsumption)
+        : null,
+      estimatedUnitPrice,
+      estimatedCost: Math.round(suggestedQuantity * estimatedUnitPrice * 100) / 100,
+    }];
+  }).sort((a, b) =>
+    (a.daysOfCover ?? Number.MAX_SAFE_INTEGER) - (b.daysOfCover ?? Number.MAX_SAFE_INTEGER)
+    || a.material.name.localeCompare(b.material.name));
+}
+
+// Purchase orders whose undelivered quantities count as stock on the way
+const OPEN_PURCHASE_ORDER_STATUSES: PurchaseOrder["status"][] = ["RASCUNHO", "ENVIADO", "PARCIALMENTE_RECEBIDO"];
+
+type AlertFilters = {
+  // Resolved alerts instead of the ones still open or acknowledged
+  resolved?: boolean;
+  type?: Alert["type"];
+};
+
+type AlertWithDetails = Alert & {
+  acknowledgedBy: UserSummary | null;
+  resolvedBy: UserSummary | null;
+};
+
+// A condition found by the alert monitor; type and entity identify it
+type AlertCandidate = Pick<InsertAlert, "type" | "entityType" | "entityId" | "message">;
+
+type AlertSyncResult = {
+  created: Alert[];
+  // Alerts closed because their condition cleared
+  resolved: Alert[];
+};
+
+// Resolved alerts are kept as history; only the latest ones are listed
+const RESOLVED_ALERTS_LIMIT = 200;
+
+function alertKey(alert: Pick<Alert, "type" | "entityId">): string {
+  return `${alert.type}:${alert.entityId}`;
+}
+
+// Compares the monitor's findings with the alerts whose condition was still
+// active: new conditions raise an alert and vanished ones clear theirs.
+function planAlertSync(active: Alert[], candidates: AlertCandidate[]) {
+  const activeKeys = new Set(active.map(alertKey));
+  const found = new Map(candidates.map(candidate => [alertKey(candidate), candidate]));
+  return {
+    raise: Array.from(found.values()).filter(candidate => !activeKeys.has(alertKey(candidate))),
+    clear: active.filter(alert => !found.has(alertKey(alert))),
+  };
+}
+
+function assertAlertStatus(
+  alert: Alert | undefined,
+  allowed: Alert["status"][],
+  action: ConstructorParameters<typeof AlertStatusError>[1],
+): Alert {
+  if (!alert) {
+    throw new NotFoundError("Alerta não encontrado");
+  }
+  if (!allowed.includes(alert.status)) {
+    throw new AlertStatusError(alert.status, action);
+  }
+  return alert;
+}
+
+// Each email a user can opt into
+type NotificationPreference = keyof UpdateNotificationPreferences;
+
+function defaultNotificationPreferences(userId: string): NotificationPreferences {
+  return { userId, requisitionCreated: false, lowStock: false, dailyDigest: false, updatedAt: null };
+}
+
+function assertUniqueCostCenterCode(existing: CostCenter[], code: string, ignoreId?: string): void {
+  const normalized = code.trim().toLowerCase();
+  if (existing.some(costCenter => costCenter.id !== ignoreId && costCenter.code.toLowerCase() === normalized)) {
+    throw new ConflictError("Já existe um centro de custo com este código");
+  }
+}
+
+// New requisitions may only be charged to an active cost center
+function assertUsableCostCenter(costCenter: Pick<CostCenter, "isActive"> | undefined): void {
+  if (!costCenter) throw new NotFoundError("Centro de custo não encontrado");
+  if (!costCenter.isActive) throw new ValidationError("Centro de custo está desativado");
+}
+
+// Requisitions go to active employees only, as offered by GET /api/employees
+function assertRequisitionEmployee(employee: Pick<User, "role" | "isActive"> | undefined): void {
+  if (!employee) throw new NotFoundError("Funcionário não encontrado");
+  if (employee.role !== "FUNCIONARIO") {
+    throw new ValidationError("Requisições só podem ser atribuídas a funcionários");
+  }
+  if (!employee.isActive) throw new ValidationError("Funcionário está desativado");
+}
+
+// ILIKE pattern matching `term` anywhere, with its own % and _ taken literally
+function containsPattern(term: string): string {
+  return `%${term.replace(/[\\%_]/g, "\\$&")}%`;
+}
+
+// e.g. REQ-2026-000123; six digits keep numbers sortable within a year
+function formatRequisitionNumber(year: number, sequence: number): string {
+  return `REQ-${year}-${String(sequence).padStart(6, "0")}`;
+}
+
+type ConsumptionGroupBy = "material" | "employee" | "costCenter" | "period";
+
+type ConsumptionReportParams = {
+  from: Date;
+  to: Date;
+  groupBy: ConsumptionGroupBy;
+  // Bucket size when grouping by period
+  interval: "day" | "month";
+};
+
+// A withdrawal (SAIDA) or the ENTRADA that reversed a cancelled requisition
+type ConsumptionMovement = {
+  type: StockMovement["type"];
+  quantity: number;
+  // Movement cost, or the material's current average for movements
+  // recorded before costing was introduced
+  unitCost: string | null;
+  requisitionId: string | null;
+  createdAt: Date | null;
+  material: MaterialSummary | null;
+  employee: UserSummary | null;
+  costCenter: CostCenterSummary | null;
+};
+
+type ConsumptionRow = {
+  // null collects movements without the grouped attribute, e.g. withdrawals
+  // made outside a requisition when grouping by employee
+  key: string | null;
+  label: string;
+  // Only when grouping by material: units differ between materials
+  unit: string | null;
+  quantity: number | null;
+  value: number;
+  requisitions: number;
+};
+
+type ConsumptionReport = ConsumptionReportParams & {
+  rows: ConsumptionRow[];
+  totalValue: number;
+};
+
+function consumptionGroup(
+  movement: ConsumptionMovement,
+  { groupBy, interval }: ConsumptionReportParams,
+): Pick<ConsumptionRow, "key" | "label" | "unit"> {
+  switch (groupBy) {
+    case "material":
+      return movement.material
+        ? { key: movement.material.id, label: `${movement.material.code} - ${movement.material.name}`, unit: movement.material.unit }
+        : { key: null, label: "Material removido", unit: null };
+    case "employee": {
+      const employee = movement.employee;
+      if (!employee) return { key: null, label: "Saídas sem requisição", unit: null };
+      const name = [employee.firstName, employee.lastName].filter(Boolean).join(" ");
+      return { key: employee.id, label: name || employee.email || employee.id, unit: null };
+    }
+    case "costCenter":
+      return movement.costCenter
+        ? { key: movement.costCenter.id, label: `${movement.costCenter.code} - ${movement.costCenter.name}`, unit: null }
+        : { key: null, label: "Sem centro de custo", unit: null };
+    case "period": {
+      const date = movement.createdAt ?? new Date(0);
+      const pad = (n: number) => String(n).padStart(2, "0");
+      const month = `${date.getFullYear()}-${pad(date.getMonth() + 1)}`;
+      return interval === "day"
+        ? { key: `${month}-${pad(date.getDate())}`, label: date.toLocaleDateString("pt-BR"), unit: null }
+        : { key: month, label: `${pad(date.getMonth() + 1)}/${date.getFullYear()}`, unit: null };
+    }
+  }
+}
+
+// Nets reversals against withdrawals per group. Groups whose consumption was
+// entirely reversed are left out. Periods are listed chronologically, every
+// other grouping from the highest value down.
+function buildConsumptionReport(params: ConsumptionReportParams, movements: ConsumptionMovement[]): ConsumptionReport {
+  const groups = new Map<string | null, ConsumptionRow & { requisitionIds: Set<string> }>();
+  for (const movement of movements) {
+    const sign = movement.type === "SAIDA" ? 1 : -1;
+    const group = consumptionGroup(movement, params);
+    const row = groups.get(group.key) ?? { ...group, quantity: 0, value: 0, requisitions: 0, requisitionIds: new Set<string>() };
+    row.quantity = (row.quantity ?? 0) + sign * movement.quantity;
+    row.value += sign * movement.quantity * Number(movement.unitCost ?? 0);
+    if (sign > 0 && movement.requisitionId) row.requisitionIds.add(movement.requisitionId);
+    groups.set(group.key, row);
+  }
+
+  const rows = Array.from(groups.values())
+    .map(({ requisitionIds, ...row }) => ({
+      ...row,
+      quantity: params.groupBy === "material" ? row.quantity : null,
+      value: Math.round(row.value * 100) / 100,
+      requisitions: requisitionIds.size,
+    }))
+    .filter(row => row.value !== 0 || (row.quantity ?? 0) !== 0)
+    .sort((a, b) => params.groupBy === "period"
+      ? (a.key ?? "").localeCompare(b.key ?? "")
+      : b.value - a.value || a.label.localeCompare(b.label));
+
+  return {
+    ...params,
+    rows,
+    totalValue: Math.round(rows.reduce((sum, row) => sum + row.value, 0) * 100) / 100,
+  };
+}
+
+type AuditLogFilters = {
+  userId?: string;
+  action?: string;
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  cursor?: string;
+  limit?: number;
+};
+
+type AuditLogWithUser = AuditLog & { user: UserSummary | null };
+
+type AuditLogPage = {
+  items: AuditLogWithUser[];
+  nextCursor: string | null;
+};
+
+const DEFAULT_AUDIT_PAGE_SIZE = 50;
+
+// Keyset cursor over (createdAt, id), both descending, so pages stay stable
+// while new entries are appended.
+function encodeAuditCursor(log: AuditLog): string {
+  return Buffer.from(`${log.createdAt?.toISOString() ?? ""}|${log.id}`).toString("base64url");
+}
+
+function decodeAuditCursor(cursor: string): { createdAt: Date; id: string } {
+  const [createdAt, id] = Buffer.from(cursor, "base64url").toString().split("|");
+  const date = new Date(createdAt);
+  if (!id || Number.isNaN(date.getTime())) {
+    throw new ValidationError("Cursor de paginação inválido");
+  }
+  return { createdAt: date, id };
+}
+
+function assertUniqueLocationName(existing: Location[], name: string, ignoreId?: string): void {
+  const normalized = name.trim().toLowerCase();
+  if (existing.some(location => location.id !== ignoreId && location.name.toLowerCase() === normalized)) {
+    throw new ConflictError("Já existe um local com este nome");
+  }
+}
+
+function assertLocationChange(existing: Location, changes: Partial<InsertLocation>): void {
+  if (existing.isDefault && changes.isActive === false) {
+    throw new ValidationError("O local padrão não pode ser desativado");
+  }
+}
+
+type UserFilters = {
+  search?: string;
+  role?: User["role"];
+};
+
+// Interface for storage operations
+export interface IStorage {
+  // User operations (mandatory for Replit Auth)
+  getUser(id: string): Promise<User | undefined>;
+  upsertUser(user: UpsertUser): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  createEmployeeUser(params: {
+    name: string;
+    email: string;
+    passwordHash: string;
+  }): Promise<User>;
+  getUsers(filters?: UserFilters): Promise<User[]>;
+  updateUser(id: string, changes: UpdateUser): Promise<User>;
+
+  // Material operations
+  getMaterials(filters?: MaterialFilters): Promise<Material[]>;
+  getMaterial(id: string): Promise<Material | undefined>;
+  createMaterial(material: InsertMaterial): Promise<Material>;
+  updateMaterial(id: string, material: Partial<InsertMaterial>): Promise<Material>;
+  deleteMaterial(id: string): Promise<void>;
+  updateMaterialStock(materialId: string, newStock: number): Promise<void>;
+  importMaterials(rows: MaterialImportRow[], params: MaterialImportParams): Promise<MaterialImportResult>;
+
+  // Location operations
+  getLocations(): Promise<Location[]>;
+  getLocation(id: string): Promise<Location | undefined>;
+  createLocation(location: InsertLocation): Promise<Location>;
+  updateLocation(id: string, location: Partial<InsertLocation>): Promise<Location>;
+  getStockBalances(materialId?: string): Promise<StockBalanceWithLocation[]>;
+
+  // Cost center operations
+  getCostCenters(): Promise<CostCenter[]>;
+  getCostCenter(id: string): Promise<CostCenter | undefined>;
+  createCostCenter(costCenter: InsertCostCenter): Promise<CostCenter>;
+  updateCostCenter(id: string, costCenter: Partial<InsertCostCenter>): Promise<CostCenter>;
+
+  // Stock movement operations
+  getStockMovements(filters?: StockMovementFilters): Promise<StockMovementWithDetails[]>;
+  createStockMovement(movement: InsertStockMovement): Promise<StockMovement>;
+
+  // Requisition operations
+  getRequisitions(filters?: RequisitionFilters): Promise<RequisitionWithDetails[]>;
+  getRequisition(id: string): Promise<Requisition | undefined>;
+  getRequisitionItems(requisitionId: string): Promise<RequisitionItemWithMaterial[]>;
+  getEmployeeRequisitionsWithDetails(employeeId: string): Promise<EmployeeRequisitionDetails[]>;
+  createRequisition(requisition: NewRequisition, items: InsertRequisitionItem[]): Promise<RequisitionWithItems>;
+  updateRequisition(id: string, requisition: Partial<InsertRequisition>): Promise<Requisition>;
+  signRequisition(id: string, params: SignRequisitionParams): Promise<Requisition>;
+  cancelRequisition(id: string, params: CancelRequisitionParams): Promise<Requisition>;
+  approveRequisition(id: string, params: ApproveRequisitionParams): Promise<Requisition>;
+  rejectRequisition(id: string, params: RejectRequisitionParams): Promise<Requisition>;
+
+  // Inventory count operations
+  getInventoryCounts(): Promise<InventoryCountSummary[]>;
+  getInventoryCount(id: string): Promise<InventoryCountWithDetails | undefined>;
+  openInventoryCount(params: OpenInventoryCountParams): Promise<InventoryCount & { items: InventoryCountItem[] }>;
+  recordInventoryCount(id: string, params: RecordInventoryCountParams): Promise<InventoryCountItem[]>;
+  approveInventoryCount(id: string, approvedById: string): Promise<InventoryCountApproval>;
+  cancelInventoryCount(id: string, cancelledById: string): Promise<InventoryCount>;
+
+  // Supplier operations
+  getSuppliers(): Promise<Supplier[]>;
+  getSupplier(id: string): Promise<Supplier | undefined>;
+  createSupplier(supplier: InsertSupplier): Promise<Supplier>;
+  updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier>;
+
+  // Purchase order operations
+  getPurchaseOrders(filters?: PurchaseOrderFilters): Promise<PurchaseOrderSummary[]>;
+  getPurchaseOrder(id: string): Promise<PurchaseOrderWithDetails | undefined>;
+  createPurchaseOrder(order: InsertPurchaseOrder, items: InsertPurchaseOrderItem[]): Promise<PurchaseOrderWithItems>;
+  // All or nothing, each order audited as it is created
+  createPurchaseOrders(orders: NewPurchaseOrder[], audit: AuditContext): Promise<PurchaseOrderWithItems[]>;
+  // Drafts only; `items`, when given, replaces every line of the order
+  updatePurchaseOrder(id: string, order: Partial<InsertPurchaseOrder>, items?: InsertPurchaseOrderItem[]): Promise<PurchaseOrderWithItems>;
+  sendPurchaseOrder(id: string): Promise<PurchaseOrder>;
+  cancelPurchaseOrder(id: string, cancelledById: string): Promise<PurchaseOrder>;
+  receivePurchaseOrder(id: string, params: ReceivePurchaseOrderParams): Promise<PurchaseOrderReceipt>;
+
+  // Replenishment operations
+  getReplenishmentSuggestions(params: ReplenishmentParams): Promise<ReplenishmentReport>;
+
+  // Alert operations
+  getAlerts(filters?: AlertFilters): Promise<AlertWithDetails[]>;
+  // Raises alerts for new conditions and resolves those whose condition cleared
+  syncAlerts(candidates: AlertCandidate[]): Promise<AlertSyncResult>;
+  acknowledgeAlert(id: string, userId: string): Promise<Alert>;
+  resolveAlert(id: string, userId: string): Promise<Alert>;
+
+  // Notification preference operations
+  getNotificationPreferences(userId: string): Promise<NotificationPreferences>;
+  updateNotificationPreferences(userId: string, changes: UpdateNotificationPreferences): Promise<NotificationPreferences>;
+  // Active users with an email address who opted into `preference`
+  getNotificationRecipients(preference: NotificationPreference): Promise<User[]>;
+
+  // Dashboard operations
+  getDashboardStats(startDate?: Date, endDate?: Date, locationId?: string): Promise<DashboardStats>;
+  getMaterialsWithLowStock(locationId?: string): Promise<Material[]>;
+  getExpiringLots(filters: ExpiringLotFilters): Promise<StockLotWithDetails[]>;
+
+  // Report operations
+  getStockValuation(at: Date): Promise<StockValuation>;
+  // Withdrawals net of requisition reversals between `from` and `to`
+  getConsumptionReport(params: ConsumptionReportParams): Promise<ConsumptionReport>;
+
+  // Audit operations
+  createAuditLog(log: InsertAuditLog): Promise<AuditLog>;
+  getAuditLogs(filters?: AuditLogFilters): Promise<AuditLogPage>;
+}
+
+export class DatabaseStorage implements IStorage {
+  private readonly db: DatabaseClient;
+
+  constructor() {
+    if (!databaseClient) {
+      throw new Error(
+        "Database connection is not configured. Set the DATABASE_URL environment variable to enable persistent storage.",
+      );
+    }
+    this.db = databaseClient;
+  }
+
+  // User operations (mandatory for Replit Auth)
+  async getUser(id: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    const insertPayload = {
+      ...userData,
+      id: userData.id ?? randomUUID(),
+    } satisfies UpsertUser;
+
+    const [user] = await this.db
+      .insert(users)
+      .values(insertPayload)
+      .onConflictDoUpdate({
+        target: users.id,
+        set: {
+          ...userData,
+          updatedAt: new Date(),
+        },
+      })
+      .returning();
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const normalizedEmail = email.toLowerCase();
+    const [user] = await this.db
+      .select()
+      .from(users)
+      .where(eq(users.email, normalizedEmail));
+    return user;
+  }
+
+  async createEmployeeUser({
+    name,
+    email,
+    passwordHash,
+  }: {
+    name: string;
+    email: string;
+    passwordHash: string;
+  }): Promise<User> {
+    const normalizedEmail = email.toLowerCase();
+    const trimmedName = name.trim();
+    const [firstName, ...rest] = trimmedName.split(/\s+/);
+    const lastName = rest.length > 0 ? rest.join(" ") : null;
+
+    const [user] = await this.db
+      .insert(users)
+      .values({
+        id: randomUUID(),
+        email: normalizedEmail,
+        firstName: firstName || trimmedName,
+        lastName: lastName || null,
+        passwordHash,
+        role: "FUNCIONARIO",
+      })
+      .returning();
+
+    return user;
+  }
+
+  async getUsers({ search, role }: UserFilters = {}): Promise<User[]> {
+    const conditions = [];
+    if (search) {
+      const pattern = containsPattern(search);
+      conditions.push(
+        or(
+          ilike(users.email, pattern),
+          ilike(users.firstName, pattern),
+          ilike(users.lastName, pattern),
+        ),
+      );
+    }
+    if (role) {
+      conditions.push(eq(users.role, role));
+    }
+
+    return await this.db
+      .select()
+      .from(users)
+      .where(and(...conditions))
+      .orderBy(users.firstName, users.email);
+  }
+
+  async updateUser(id: string, changes: UpdateUser): Promise<User> {
+    const [user] = await this.db
+      .update(users)
+      .set({ ...changes, updatedAt: new Date() })
+      .where(eq(users.id, id))
+      .returning();
+
+    if (!user) {
+      throw new NotFoundError("Usuário não encontrado");
+    }
+    return user;
+  }
+
+  // Material operations
+  async getMaterials({ locationId, search, lowStock, after, limit }: MaterialFilters = {}): Promise<Material[]> {
+    const stock = materialStock(locationId);
+    const conditions = [];
+    if (search) {
+      const pattern = containsPattern(search);
+      conditions.push(or(ilike(materials.name, pattern), ilike(materials.code, pattern)));
+    }
+    if (lowStock) {
+      conditions.push(lte(stock, materials.minimumStock));
+    }
+    if (after) {
+      conditions.push(
+        or(
+          gt(materials.name, after.name),
+          and(eq(materials.name, after.name), gt(materials.id, after.id)),
+        ),
+      );
+    }
+
+    const query = this.db
+      .select({ ...getTableColumns(materials), currentStock: stock })
+      .from(materials)
+      .where(and(...conditions))
+      .orderBy(materials.name, materials.id);
+    return limit ? await query.limit(limit) : await query;
+  }
+
+  async getMaterial(id: string): Promise<Material | undefined> {
+    const [material] = await this.db
+      .select()
+      .from(materials)
+      .where(eq(materials.id, id));
+    return material;
+  }
+
+  async createMaterial(material: InsertMaterial): Promise<Material> {
+    const [newMaterial] = await this.db
+      .insert(materials)
+      .values({ ...material, id: randomUUID() })
+      .returning();
+    return newMaterial;
+  }
+
+  async updateMaterial(id: string, material: Partial<InsertMaterial>): Promise<Material> {
+    const [updatedMaterial] = await this.db
+      .update(materials)
+      .set({ ...material, updatedAt: new Date() })
+      .where(eq(materials.id, id))
+      .returning();
+    return updatedMaterial;
+  }
+
+  async deleteMaterial(id: string): Promise<void> {
+    await this.db.delete(materials).where(eq(materials.id, id));
+  }
+
+  async updateMaterialStock(materialId: string, newStock: number): Promise<void> {
+    await this.db
+      .update(materials)
+      .set({ currentStock: newStock, updatedAt: new Date() })
+      .where(eq(materials.id, materialId));
+  }
+
+  // Creates or updates every row by code in one transaction, so a failure
+  // leaves the catalogue untouched.
+  async importMaterials(
+    rows: MaterialImportRow[],
+    { userId, openingBalance, locationId }: MaterialImportParams,
+  ): Promise<MaterialImportResult> {
+    return await this.db.transaction(async (tx) => {
+      const existing = await tx
+        .select()
+        .from(materials)
+        .where(inArray(materials.code, rows.map(row => row.material.code)))
+        .orderBy(materials.id)
+        .for("update");
+
+      const result: MaterialImportResult = { created: [], updated: [], movements: [] };
+      for (const { material, openingStock } of rows) {
+        const before = existing.find(m => m.code === material.code);
+        const [saved] = await tx
+          .insert(materials)
+          .values({ ...material, id: randomUUID() })
+          .onConflictDoUpdate({ target: materials.code, set: { ...material, updatedAt: new Date() } })
+          .returning();
+
+        if (before) {
+          result.updated.push({ before, after: saved });
+          continue;
+        }
+        result.created.push(saved);
+        if (openingBalance && openingStock) {
+          result.movements.push(await this.applyStockMovement(tx, {
+            materialId: saved.id,
+            type: "ENTRADA",
+            quantity: openingStock,
+            unitPrice: saved.unitPrice,
+            userId,
+            destinationLocationId: locationId ?? null,
+            observation: OPENING_BALANCE_NOTE,
+          }));
+        }
+      }
+      return result;
+    });
+  }
+
+  // Location operations
+  async getLocations(): Promise<Location[]> {
+    return await this.db.select().from(locations).orderBy(desc(locations.isDefault), locations.name);
+  }
+
+  async getLocation(id: string): Promise<Location | undefined> {
+    const [location] = await this.db.select().from(locations).where(eq(locations.id, id));
+    return location;
+  }
+
+  async createLocation(location: InsertLocation): Promise<Location> {
+    assertUniqueLocationName(await this.getLocations(), location.name);
+    const [newLocation] = await this.db
+      .insert(locations)
+      .values({ ...location, id: randomUUID() })
+      .returning();
+    return newLocation;
+  }
+
+  async updateLocation(id: string, location: Partial<InsertLocation>): Promise<Location> {
+    const all = await this.getLocations();
+    const existing = all.find(l => l.id === id);
+    if (!existing) throw new NotFoundError("Local não encontrado");
+    assertLocationChange(existing, location);
+    if (location.name !== undefined) assertUniqueLocationName(all, location.name, id);
+
+    const [updatedLocation] = await this.db
+      .update(locations)
+      .set({ ...location, updatedAt: new Date() })
+      .where(eq(locations.id, id))
+      .returning();
+    return updatedLocation;
+  }
+
+  async getStockBalances(materialId?: string): Promise<StockBalanceWithLocation[]> {
+    return await this.db
+      .select({
+        ...getTableColumns(stockBalances),
+        location: { id: locations.id, name: locations.name },
+      })
+      .from(stockBalances)
+      .leftJoin(locations, eq(stockBalances.locationId, locations.id))
+      .where(materialId ? eq(stockBalances.materialId, materialId) : undefined)
+      .orderBy(locations.name);
+  }
+
+  // Returns the default location, creating it on first use.
+  private async getDefaultLocationId(tx: DatabaseTransaction): Promise<string> {
+    const [existing] = await tx
+      .select({ id: locations.id })
+      .from(locations)
+      .where(eq(locations.isDefault, true))
+      .limit(1);
+    if (existing) return existing.id;
+
+    const [created] = await tx
+      .insert(locations)
+      .values({ id: randomUUID(), name: DEFAULT_LOCATION_NAME, isDefault: true })
+      .onConflictDoUpdate({
+        target: locations.name,
+        set: { isDefault: true, isActive: true, updatedAt: new Date() },
+      })
+      .returning({ id: locations.id });
+    return created.id;
+  }
+
+  // Cost center operations
+  async getCostCenters(): Promise<CostCenter[]> {
+    return await this.db.select().from(costCenters).orderBy(costCenters.code);
+  }
+
+  async getCostCenter(id: string): Promise<CostCenter | undefined> {
+    const [costCenter] = await this.db.select().from(costCenters).where(eq(costCenters.id, id));
+    return costCenter;
+  }
+
+  async createCostCenter(costCenter: InsertCostCenter): Promise<CostCenter> {
+    assertUniqueCostCenterCode(await this.getCostCenters(), costCenter.code);
+    const [newCostCenter] = await this.db
+      .insert(costCenters)
+      .values({ ...costCenter, id: randomUUID() })
+      .returning();
+    return newCostCenter;
+  }
+
+  async updateCostCenter(id: string, costCenter: Partial<InsertCostCenter>): Promise<CostCenter> {
+    const all = await this.getCostCenters();
+    if (!all.some(c => c.id === id)) throw new NotFoundError("Centro de custo não encontrado");
+    if (costCenter.code !== undefined) assertUniqueCostCenterCode(all, costCenter.code, id);
+
+    const [updatedCostCenter] = await this.db
+      .update(costCenters)
+      .set({ ...costCenter, updatedAt: new Date() })
+      .where(eq(costCenters.id, id))
+      .returning();
+    return updatedCostCenter;
+  }
+
+  // Stock movement operations
+  async getStockMovements(filters: StockMovementFilters = {}): Promise<StockMovementWithDetails[]> {
+    const sourceLocations = alias(locations, "source_locations");
+    const destinationLocations = alias(locations, "destination_locations");
+    const conditions = [];
+
+    if (filters.materialId) conditions.push(eq(stockMovements.materialId, filters.materialId));
+    if (filters.type) conditions.push(eq(stockMovements.type, filters.type));
+    if (filters.locationId) {
+      conditions.push(or(
+        eq(stockMovements.sourceLocationId, filters.locationId),
+        eq(stockMovements.destinationLocationId, filters.locationId),
+      ));
+    }
+    if (filters.from) conditions.push(gte(stockMovements.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(stockMovements.createdAt, filters.to));
+
+    return await this.db
+      .select({
+        ...getTableColumns(stockMovements),
+        material: {
+          id: materials.id,
+          name: materials.name,
+          code: materials.code,
+          unit: materials.unit,
+        },
+        user: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+        requisition: {
+          id: requisitions.id,
+          number: requisitions.number,
+          status: requisitions.status,
+        },
+        sourceLocation: {
+          id: sourceLocations.id,
+          name: sourceLocations.name,
+        },
+        destinationLocation: {
+          id: destinationLocations.id,
+          name: destinationLocations.name,
+        },
+      })
+      .from(stockMovements)
+      .leftJoin(materials, eq(stockMovements.materialId, materials.id))
+      .leftJoin(users, eq(stockMovements.userId, users.id))
+      .leftJoin(requisitions, eq(stockMovements.requisitionId, requisitions.id))
+      .leftJoin(sourceLocations, eq(stockMovements.sourceLocationId, sourceLocations.id))
+      .leftJoin(destinationLocations, eq(stockMovements.destinationLocationId, destinationLocations.id))
+      .where(and(...conditions))
+      .orderBy(desc(stockMovements.createdAt));
+  }
+
+  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    return await this.db.transaction((tx) => this.applyStockMovement(tx, movement));
+  }
+
+  // Locks the material row, applies the movement to its location balances
+  // and total, and records the movement, all inside the caller's transaction.
+  // `restoredLots` refills specific lots instead of booking the ENTRADA's own lot.
+  private async applyStockMovement(
+    tx: DatabaseTransaction,
+    movement: InsertStockMovement,
+    restoredLots?: LotAllocation[],
+  ): Promise<StockMovement> {
+    const [material] = await tx
+      .select({
+        id: materials.id,
+        code: materials.code,
+        currentStock: materials.currentStock,
+        averageCost: materials.averageCost,
+      })
+      .from(materials)
+      .where(eq(materials.id, movement.materialId))
+      .for("update");
+
+    if (!material) {
+      throw new NotFoundError("Material não encontrado");
+    }
+
+    const target = resolveMovementLocations(movement, await this.getDefaultLocationId(tx));
+    const locationIds = [target.sourceLocationId, target.destinationLocationId]
+      .filter((id): id is string => Boolean(id));
+    const found = await tx
+      .select({ id: locations.id, isActive: locations.isActive })
+      .from(locations)
+      .where(inArray(locations.id, locationIds));
+    assertUsableLocations(target, id => found.find(location => location.id === id));
+
+    // The material row lock above also serialises its per-location balances.
+    const rows = await tx
+      .select({ locationId: stockBalances.locationId, quantity: stockBalances.quantity })
+      .from(stockBalances)
+      .where(and(eq(stockBalances.materialId, material.id), inArray(stockBalances.locationId, locationIds)));
+    const balanceAt = (id: string | null) => rows.find(row => row.locationId === id)?.quantity ?? 0;
+
+    const before = { source: balanceAt(target.sourceLocationId), destination: balanceAt(target.destinationLocationId) };
+    const after = computeLocationBalances(material, movement.type, movement.quantity, before);
+    const balanceAfter = material.currentStock
+      + (after.source - before.source)
+      + (after.destination - before.destination);
+    const cost = computeMovementCost(material, movement);
+
+    const updates: [string | null, number][] = [
+      [target.sourceLocationId, after.source],
+      [target.destinationLocationId, after.destination],
+    ];
+    for (const [locationId, quantity] of updates) {
+      if (!locationId) continue;
+      await tx
+        .insert(stockBalances)
+        .values({ materialId: material.id, locationId, quantity })
+        .onConflictDoUpdate({
+          target: [stockBalances.materialId, stockBalances.locationId],
+          set: { quantity, updatedAt: new Date() },
+        });
+    }
+
+    await tx
+      .update(materials)
+      .set({ currentStock: balanceAfter, averageCost: cost.averageCost, updatedAt: new Date() })
+      .where(eq(materials.id, material.id));
+
+    const lots = await tx
+      .select()
+      .from(stockLots)
+      .where(and(eq(stockLots.materialId, material.id), inArray(stockLots.locationId, locationIds)));
+    const lotsAt = (id: string | null) => lots.filter(lot => lot.locationId === id);
+    const lotMovement = restoredLots
+      ? { adjusted: restoredLots, received: [] }
+      : planLotMovement(movement, lotsAt(target.sourceLocationId), lotsAt(target.destinationLocationId), after.destination);
+
+    const [newMovement] = await tx
+      .insert(stockMovements)
+      .values({
+        ...movement,
+        ...target,
+        id: randomUUID(),
+        unitPrice: cost.unitPrice,
+        balanceAfter,
+        averageCostAfter: cost.averageCost,
+      })
+      .returning();
+
+    await this.applyLotMovement(tx, newMovement, lotMovement);
+    return newMovement;
+  }
+
+  private async applyLotMovement(
+    tx: DatabaseTransaction,
+    movement: StockMovement,
+    { adjusted, received }: LotMovement,
+  ): Promise<void> {
+    const allocations = [...adjusted];
+    for (const { lotId, quantity } of adjusted) {
+      await tx
+        .update(stockLots)
+        .set({ quantity: sql`${stockLots.quantity} + ${quantity}`, updatedAt: new Date() })
+        .where(eq(stockLots.id, lotId));
+    }
+
+    for (const lot of received) {
+      const [saved] = await tx
+        .insert(stockLots)
+        .values({
+          id: randomUUID(),
+          materialId: movement.materialId,
+          locationId: movement.destinationLocationId!,
+          ...lot,
+        })
+        .onConflictDoUpdate({
+          target: [stockLots.materialId, stockLots.locationId, stockLots.lotNumber],
+          set: {
+            quantity: sql`${stockLots.quantity} + ${lot.quantity}`,
+            expiresAt: sql`coalesce(${stockLots.expiresAt}, excluded.expires_at)`,
+            updatedAt: new Date(),
+          },
+        })
+        .returning({ id: stockLots.id });
+      allocations.push({ lotId: saved.id, quantity: lot.quantity });
+    }
+
+    if (allocations.length > 0) {
+      await tx
+        .insert(stockMovementLots)
+        .values(allocations.map(allocation => ({ ...allocation, movementId: movement.id })));
+    }
+  }
+
+  // Requisition operations
+  async getRequisitions({ employeeId, number }: RequisitionFilters = {}): Promise<RequisitionWithDetails[]> {
+    const employees = alias(users, "employees");
+    const creators = alias(users, "creators");
+
+    const rows = await this.db
+      .select({
+        ...getTableColumns(requisitions),
+        employee: {
+          id: employees.id,
+          firstName: employees.firstName,
+          lastName: employees.lastName,
+          email: employees.email,
+        },
+        createdBy: {
+          id: creators.id,
+          firstName: creators.firstName,
+          lastName: creators.lastName,
+          email: creators.email,
+        },
+        costCenter: {
+          id: costCenters.id,
+          code: costCenters.code,
+          name: costCenters.name,
+        },
+      })
+      .from(requisitions)
+      .leftJoin(employees, eq(requisitions.employeeId, employees.id))
+      .leftJoin(creators, eq(requisitions.createdById, creators.id))
+      .leftJoin(costCenters, eq(requisitions.costCenterId, costCenters.id))
+      .where(and(
+        employeeId ? eq(requisitions.employeeId, employeeId) : undefined,
+        number ? ilike(requisitions.number, containsPattern(number)) : undefined,
+      ))
+      .orderBy(desc(requisitions.createdAt));
+
+    const items = await this.getItemsByRequisition(rows.map(row => row.id));
+    return rows.map(row => ({ ...row, items: items.get(row.id) ?? [] }));
+  }
+
+  // Loads the line items of several requisitions in one query.
+  private async getItemsByRequisition(
+    requisitionIds: string[],
+  ): Promise<Map<string, RequisitionItemWithMaterial[]>> {
+    const grouped = new Map<string, RequisitionItemWithMaterial[]>();
+    if (requisitionIds.length === 0) return grouped;
+
+    const rows = await this.db
+      .select({
+        ...getTableColumns(requisitionItems),
+        material: {
+          id: materials.id,
+          name: materials.name,
+          code: materials.code,
+          unit: materials.unit,
+        },
+      })
+      .from(requisitionItems)
+      .leftJoin(materials, eq(requisitionItems.materialId, materials.id))
+      .where(inArray(requisitionItems.requisitionId, requisitionIds))
+      .orderBy(requisitionItems.createdAt, requisitionItems.id);
+
+    for (const row of rows) {
+      const list = grouped.get(row.requisitionId) ?? [];
+      list.push(row);
+      grouped.set(row.requisitionId, list);
+    }
+    return grouped;
+  }
+
+  async getRequisition(id: string): Promise<Requisition | undefined> {
+    const [requisition] = await this.db
+      .select()
+      .from(requisitions)
+      .where(eq(requisitions.id, id));
+    return requisition;
+  }
+
+  async getRequisitionItems(requisitionId: string): Promise<RequisitionItemWithMaterial[]> {
+    const items = await this.getItemsByRequisition([requisitionId]);
+    return items.get(requisitionId) ?? [];
+  }
+
+  async getEmployeeRequisitionsWithDetails(employeeId: string): Promise<EmployeeRequisitionDetails[]> {
+    const rows = await this.db
+      .select({
+        ...getTableColumns(requisitions),
+        createdBy: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(requisitions)
+      .leftJoin(users, eq(requisitions.createdById, users.id))
+      .where(eq(requisitions.employeeId, employeeId))
+      .orderBy(desc(requisitions.createdAt));
+
+    const items = await this.getItemsByRequisition(rows.map(row => row.id));
+    return rows.map(row => ({ ...row, items: items.get(row.id) ?? [] }));
+  }
+
+  async createRequisition(
+    requisition: NewRequisition,
+    items: InsertRequisitionItem[],
+  ): Promise<RequisitionWithItems> {
+    return await this.db.transaction(async (tx) => {
+      if (requisition.locationId) {
+        const [location] = await tx
+          .select({ id: locations.id, isActive: locations.isActive })
+          .from(locations)
+          .where(eq(locations.id, requisition.locationId));
+        assertUsableLocations(
+          { sourceLocationId: requisition.locationId, destinationLocationId: null },
+          () => location,
+        );
+      }
+      if (requisition.costCenterId) {
+        const [costCenter] = await tx
+          .select({ isActive: costCenters.isActive })
+          .from(costCenters)
+          .where(eq(costCenters.id, requisition.costCenterId));
+        assertUsableCostCenter(costCenter);
+      }
+      const [employee] = await tx
+        .select({ role: users.role, isActive: users.isActive })
+        .from(users)
+        .where(eq(users.id, requisition.employeeId));
+      assertRequisitionEmployee(employee);
+      const found = await tx
+        .select({ id: materials.id })
+        .from(materials)
+        .where(inArray(materials.id, items.map(item => item.materialId)));
+      if (found.length !== items.length) {
+        throw new NotFoundError("Material não encontrado");
+      }
+
+      // The upsert locks the year's row until commit, so concurrent creations
+      // queue up for consecutive numbers and a rollback gives its number back.
+      const year = new Date().getFullYear();
+      const [sequence] = await tx
+        .insert(requisitionSequences)
+        .values({ year, lastNumber: 1 })
+        .onConflictDoUpdate({
+          target: requisitionSequences.year,
+          set: { lastNumber: sql`${requisitionSequences.lastNumber} + 1` },
+        })
+        .returning();
+
+      const [newRequisition] = await tx
+        .insert(requisitions)
+        .values({
+          ...requisition,
+          id: randomUUID(),
+          number: formatRequisitionNumber(year, sequence.lastNumber),
+          locationId: requisition.locationId ?? await this.getDefaultLocationId(tx),
+        })
+        .returning();
+
+      const newItems = await tx
+        .insert(requisitionItems)
+        .values(items.map(item => ({ ...item, id: randomUUID(), requisitionId: newRequisition.id })))
+        .returning();
+
+      return { ...newRequisition, items: newItems };
+    });
+  }
+
+  async updateRequisition(id: string, requisition: Partial<InsertRequisition>): Promise<Requisition> {
+    const [updatedRequisition] = await this.db
+      .update(requisitions)
+      .set({ ...requisition, updatedAt: new Date() })
+      .where(eq(requisitions.id, id))
+      .returning();
+    return updatedRequisition;
+  }
+
+  async signRequisition(id: string, params: SignRequisitionParams): Promise<Requisition> {
+    const { signerId, signedByDevice, signedByIp } = params;
+    const [current] = await this.db.select().from(requisitions).where(eq(requisitions.id, id));
+    const employee = current ? await this.getUser(current.employeeId) : undefined;
+    await authorizeSignature(current, employee, params);
+
+    return await this.db.transaction(async (tx) => {
+      const [requisition] = await tx
+        .select()
+        .from(requisitions)
+        .where(eq(requisitions.id, id))
+        .for("update");
+
+      if (!requisition) {
+        throw new NotFoundError("Requisição não encontrada");
+      }
+
+      // Re-checked under the lock: a concurrent signature may have won.
+      assertSignableStatus(requisition);
+
+      const items = await tx
+        .select({
+          materialId: requisitionItems.materialId,
+          quantity: requisitionItems.quantity,
+          materialCode: materials.code,
+        })
+        .from(requisitionItems)
+        .innerJoin(materials, eq(requisitionItems.materialId, materials.id))
+        .where(eq(requisitionItems.requisitionId, id))
+        // Consistent lock order across concurrent signatures
+        .orderBy(requisitionItems.materialId);
+
+      if (items.length === 0) {
+        throw new ValidationError("Requisição não possui itens");
+      }
+
+      // The withdrawals are part of the signature: if any line is short the
+      // whole transaction rolls back and the requisition stays pending.
+      for (const item of items) {
+        await this.applyStockMovement(tx, {
+          materialId: item.materialId,
+          type: "SAIDA",
+          quantity: item.quantity,
+          userId: signerId ?? requisition.employeeId,
+          requisitionId: requisition.id,
+          sourceLocationId: requisition.locationId,
+          observation: requisition.observation,
+        });
+      }
+
+      const signedAt = new Date();
+      const receipt = createSignatureReceipt({
+        requisitionId: requisition.id,
+        employeeId: requisition.employeeId,
+        items,
+        signedAt,
+      });
+
+      const [signedRequisition] = await tx
+        .update(requisitions)
+        .set({
+          status: "ASSINADA",
+          signedAt,
+          signedByDevice,
+          signedByIp,
+          ...receipt,
+          updatedAt: new Date(),
+        })
+        .where(eq(requisitions.id, id))
+        .returning();
+
+      return signedRequisition;
+    });
+  }
+
+  async cancelRequisition(
+    id: string,
+    { cancelledById, reason }: CancelRequisitionParams,
+  ): Promise<Requisition> {
+    return await this.db.transaction(async (tx) => {
+      const [requisition] = await tx
+        .select()
+        .from(requisitions)
+        .where(eq(requisitions.id, id))
+        .for("update");
+
+      if (!requisition) {
+        throw new NotFoundError("Requisição não encontrada");
+      }
+
+      assertCancellableStatus(requisition);
+
+      const movements = await tx
+        .select({
+          materialId: stockMovements.materialId,
+          type: stockMovements.type,
+          quantity: stockMovements.quantity,
+          sourceLocationId: stockMovements.sourceLocationId,
+          destinationLocationId: stockMovements.destinationLocationId,
+        })
+        .from(stockMovements)
+        .where(eq(stockMovements.requisitionId, id));
+
+      const lotAllocations = await tx
+        .select({
+          ...getTableColumns(stockMovementLots),
+          materialId: stockLots.materialId,
+          locationId: stockLots.locationId,
+        })
+        .from(stockMovementLots)
+        .innerJoin(stockMovements, eq(stockMovementLots.movementId, stockMovements.id))
+        .innerJoin(stockLots, eq(stockMovementLots.lotId, stockLots.id))
+        .where(eq(stockMovements.requisitionId, id));
+
+      for (const withdrawn of withdrawnQuantities(movements)) {
+        await this.applyStockMovement(tx, {
+          materialId: withdrawn.materialId,
+          type: "ENTRADA",
+          quantity: withdrawn.quantity,
+          userId: cancelledById,
+          requisitionId: requisition.id,
+          destinationLocationId: withdrawn.locationId,
+          observation: `Estorno da requisição cancelada: ${reason}`,
+        }, withdrawnLots(lotAllocations, withdrawn));
+      }
+
+      const [cancelledRequisition] = await tx
+        .update(requisitions)
+        .set({
+          status: "CANCELADA",
+          cancellationReason: reason,
+          cancelledById,
+          cancelledAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(requisitions.id, id))
+        .returning();
+
+      return cancelledRequisition;
+    });
+  }
+
+  async approveRequisition(
+    id: string,
+    { reviewedById, quantities }: ApproveRequisitionParams,
+  ): Promise<Requisition> {
+    return await this.db.transaction(async (tx) => {
+      const [requisition] = await tx
+        .select()
+        .from(requisitions)
+        .where(eq(requisitions.id, id))
+        .for("update");
+
+      if (!requisition) {
+        throw new NotFoundError("Requisição não encontrada");
+      }
+
+      assertReviewableStatus(requisition, "aprovada");
+
+      const items = await tx
+        .select()
+        .from(requisitionItems)
+        .where(eq(requisitionItems.requisitionId, id));
+
+      for (const { item, quantity } of resolveApprovedQuantities(items, quantities)) {
+        if (quantity === 0) {
+          await tx.delete(requisitionItems).where(eq(requisitionItems.id, item.id));
+        } else if (quantity !== item.quantity) {
+          await tx
+            .update(requisitionItems)
+            .set({ quantity, requestedQuantity: item.quantity })
+            .where(eq(requisitionItems.id, item.id));
+        }
+      }
+
+      const [approved] = await tx
+        .update(requisitions)
+        .set({
+          status: "PENDENTE",
+          reviewedById,
+          reviewedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(requisitions.id, id))
+        .returning();
+
+      return approved;
+    });
+  }
+
+  async rejectRequisition(
+    id: string,
+    { reviewedById, reason }: RejectRequisitionParams,
+  ): Promise<Requisition> {
+    return await this.db.transaction(async (tx) => {
+      const [requisition] = await tx
+        .select()
+        .from(requisitions)
+        .where(eq(requisitions.id, id))
+        .for("update");
+
+      if (!requisition) {
+        throw new NotFoundError("Requisição não encontrada");
+      }
+
+      assertReviewableStatus(requisition, "rejeitada");
+
+      const [rejected] = await tx
+        .update(requisitions)
+        .set({
+          status: "REJEITADA",
+          rejectionReason: reason,
+          reviewedById,
+          reviewedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(requisitions.id, id))
+        .returning();
+
+      return rejected;
+    });
+  }
+
+  // Inventory count operations
+  async getInventoryCounts(): Promise<InventoryCountSummary[]> {
+    return await this.db
+      .select({
+        ...getTableColumns(inventoryCounts),
+        location: { id: locations.id, name: locations.name },
+        openedBy: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+        itemCount: sql<number>`(select count(*) from ${inventoryCountItems} where ${inventoryCountItems.countId} = ${inventoryCounts.id})`.mapWith(Number),
+        countedCount: sql<number>`(select count(*) from ${inventoryCountItems} where ${inventoryCountItems.countId} = ${inventoryCounts.id} and ${inventoryCountItems.countedQuantity} is not null)`.mapWith(Number),
+      })
+      .from(inventoryCounts)
+      .leftJoin(locations, eq(inventoryCounts.locationId, locations.id))
+      .leftJoin(users, eq(inventoryCounts.openedById, users.id))
+      .orderBy(desc(inventoryCounts.createdAt));
+  }
+
+  async getInventoryCount(id: string): Promise<InventoryCountWithDetails | undefined> {
+    const openers = alias(users, "openers");
+    const approvers = alias(users, "approvers");
+
+    const [count] = await this.db
+      .select({
+        ...getTableColumns(inventoryCounts),
+        location: { id: locations.id, name: locations.name },
+        openedBy: {
+          id: openers.id,
+          firstName: openers.firstName,
+          lastName: openers.lastName,
+          email: openers.email,
+        },
+        approvedBy: {
+          id: approvers.id,
+          firstName: approvers.firstName,
+          lastName: approvers.lastName,
+          email: approvers.email,
+        },
+      })
+      .from(inventoryCounts)
+      .leftJoin(locations, eq(inventoryCounts.locationId, locations.id))
+      .leftJoin(openers, eq(inventoryCounts.openedById, openers.id))
+      .leftJoin(approvers, eq(inventoryCounts.approvedById, approvers.id))
+      .where(eq(inventoryCounts.id, id));
+    if (!count) return undefined;
+
+    const items = await this.db
+      .select({
+        ...getTableColumns(inventoryCountItems),
+        material: {
+          id: materials.id,
+          name: materials.name,
+          code: materials.code,
+          unit: materials.unit,
+        },
+        currentQuantity: sql<number>`coalesce(${stockBalances.quantity}, 0)`.mapWith(Number),
+      })
+      .from(inventoryCountItems)
+      .leftJoin(materials, eq(inventoryCountItems.materialId, materials.id))
+      .leftJoin(stockBalances, and(
+        eq(stockBalances.materialId, inventoryCountItems.materialId),
+        eq(stockBalances.locationId, count.locationId),
+      ))
+      .where(eq(inventoryCountItems.countId, id))
+      .orderBy(materials.name);
+
+    return { ...count, items: items.map(item => withVariance(item, item.currentQuantity)) };
+  }
+
+  async openInventoryCount({
+    locationId,
+    materialIds,
+    observation,
+    openedById,
+  }: OpenInventoryCountParams): Promise<InventoryCount & { items: InventoryCountItem[] }> {
+    return await this.db.transaction(async (tx) => {
+      const countLocationId = locationId ?? await this.getDefaultLocationId(tx);
+      const [location] = await tx
+        .select({ id: locations.id })
+        .from(locations)
+        .where(eq(locations.id, countLocationId));
+      if (!location) {
+        throw new NotFoundError("Local não encontrado");
+      }
+
+      const counted = await tx
+        .select({ id: materials.id })
+        .from(materials)
+        .where(materialIds ? inArray(materials.id, materialIds) : undefined)
+        .orderBy(materials.id);
+      if (materialIds && counted.length !== materialIds.length) {
+        throw new NotFoundError("Material não encontrado");
+      }
+      if (counted.length === 0) {
+        throw new ValidationError("Nenhum material para inventariar");
+      }
+      const ids = counted.map(material => material.id);
+
+      const busy = await tx
+        .select({ code: materials.code })
+        .from(inventoryCountItems)
+        .innerJoin(inventoryCounts, eq(inventoryCountItems.countId, inventoryCounts.id))
+        .innerJoin(materials, eq(inventoryCountItems.materialId, materials.id))
+        .where(and(
+          eq(inventoryCounts.status, "ABERTA"),
+          eq(inventoryCounts.locationId, countLocationId),
+          inArray(inventoryCountItems.materialId, ids),
+        ))
+        .orderBy(materials.code);
+      assertNotBeingCounted(busy.map(row => row.code));
+
+      const balances = await tx
+        .select({ materialId: stockBalances.materialId, quantity: stockBalances.quantity })
+        .from(stockBalances)
+        .where(and(eq(stockBalances.locationId, countLocationId), inArray(stockBalances.materialId, ids)));
+
+      const [count] = await tx
+        .insert(inventoryCounts)
+        .values({
+          id: randomUUID(),
+          locationId: countLocationId,
+          observation: observation || null,
+          openedById,
+        })
+        .returning();
+
+      const items = await tx
+        .insert(inventoryCountItems)
+        .values(ids.map(materialId => ({
+          id: randomUUID(),
+          countId: count.id,
+          materialId,
+          expectedQuantity: balances.find(balance => balance.materialId === materialId)?.quantity ?? 0,
+        })))
+        .returning();
+
+      return { ...count, items };
+    });
+  }
+
+  async recordInventoryCount(
+    id: string,
+    { items: entries, countedById }: RecordInventoryCountParams,
+  ): Promise<InventoryCountItem[]> {
+    return await this.db.transaction(async (tx) => {
+      const [count] = await tx
+        .select()
+        .from(inventoryCounts)
+        .where(eq(inventoryCounts.id, id))
+        .for("update");
+      assertOpenCount(count);
+
+      const items = await tx
+        .select({ id: inventoryCountItems.id })
+        .from(inventoryCountItems)
+        .where(eq(inventoryCountItems.countId, id));
+      assertCountableItems(items, entries);
+
+      const updated: InventoryCountItem[] = [];
+      for (const entry of entries) {
+        const [item] = await tx
+          .update(inventoryCountItems)
+          .set({
+            countedQuantity: entry.countedQuantity,
+            passes: sql`${inventoryCountItems.passes} + 1`,
+            countedById,
+            countedAt: new Date(),
+          })
+          .where(eq(inventoryCountItems.id, entry.id))
+          .returning();
+        updated.push(item);
+      }
+
+      await tx
+        .update(inventoryCounts)
+        .set({ updatedAt: new Date() })
+        .where(eq(inventoryCounts.id, id));
+
+      return updated;
+    });
+  }
+
+  async approveInventoryCount(id: string, approvedById: string): Promise<InventoryCountApproval> {
+    return await this.db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(inventoryCounts)
+        .where(eq(inventoryCounts.id, id))
+        .for("update");
+      const count = assertOpenCount(locked);
+
+      const items = await tx
+        .select()
+        .from(inventoryCountItems)
+        .where(eq(inventoryCountItems.countId, id))
+        .orderBy(inventoryCountItems.materialId);
+      assertFullyCounted(items);
+
+      // Lock the materials up front so the balances compared below are the
+      // ones the adjustments overwrite.
+      const ids = items.map(item => item.materialId);
+      await tx
+        .select({ id: materials.id })
+        .from(materials)
+        .where(inArray(materials.id, ids))
+        .orderBy(materials.id)
+        .for("update");
+      const balances = await tx
+        .select({ materialId: stockBalances.materialId, quantity: stockBalances.quantity })
+        .from(stockBalances)
+        .where(and(eq(stockBalances.locationId, count.locationId), inArray(stockBalances.materialId, ids)));
+
+      const movements: StockMovement[] = [];
+      for (const item of items) {
+        const current = balances.find(balance => balance.materialId === item.materialId)?.quantity ?? 0;
+        const counted = item.countedQuantity!;
+        if (counted === current) continue;
+
+        movements.push(await this.applyStockMovement(tx, {
+          materialId: item.materialId,
+          type: "AJUSTE",
+          quantity: counted,
+          userId: approvedById,
+          destinationLocationId: count.locationId,
+          inventoryCountId: count.id,
+          observation: inventoryAdjustmentNote(count.id, counted, current),
+        }));
+      }
+
+      const [approved] = await tx
+        .update(inventoryCounts)
+        .set({
+          status: "APROVADA",
+          approvedById,
+          approvedAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(inventoryCounts.id, id))
+        .returning();
+
+      return { count: approved, movements };
+    });
+  }
+
+  async cancelInventoryCount(id: string, cancelledById: string): Promise<InventoryCount> {
+    return await this.db.transaction(async (tx) => {
+      const [count] = await tx
+        .select()
+        .from(inventoryCounts)
+        .where(eq(inventoryCounts.id, id))
+        .for("update");
+      assertOpenCount(count);
+
+      const [cancelled] = await tx
+        .update(inventoryCounts)
+        .set({
+          status: "CANCELADA",
+          cancelledById,
+          cancelledAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(inventoryCounts.id, id))
+        .returning();
+      return cancelled;
+    });
+  }
+
+  // Supplier operations
+  async getSuppliers(): Promise<Supplier[]> {
+    return await this.db.select().from(suppliers).orderBy(suppliers.name);
+  }
+
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    const [supplier] = await this.db.select().from(suppliers).where(eq(suppliers.id, id));
+    return supplier;
+  }
+
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    if (supplier.document) {
+      assertUniqueSupplierDocument(
+        await this.db.select().from(suppliers).where(eq(suppliers.document, supplier.document)),
+        supplier.document,
+      );
+    }
+    const [newSupplier] = await this.db
+      .insert(suppliers)
+      .values({ ...supplier, id: randomUUID() })
+      .returning();
+    return newSupplier;
+  }
+
+  async updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier> {
+    if (!await this.getSupplier(id)) throw new NotFoundError("Fornecedor não encontrado");
+    if (supplier.document) {
+      assertUniqueSupplierDocument(
+        await this.db.select().from(suppliers).where(eq(suppliers.document, supplier.document)),
+        supplier.document,
+        id,
+      );
+    }
+
+    const [updatedSupplier] = await this.db
+      .update(suppliers)
+      .set({ ...supplier, updatedAt: new Date() })
+      .where(eq(suppliers.id, id))
+      .returning();
+    return updatedSupplier;
+  }
+
+  // Purchase order operations
+  async getPurchaseOrders({ status, supplierId }: PurchaseOrderFilters = {}): Promise<PurchaseOrderSummary[]> {
+    const conditions: SQL[] = [];
+    if (status) conditions.push(eq(purchaseOrders.status, status));
+    if (supplierId) conditions.push(eq(purchaseOrders.supplierId, supplierId));
+
+    return await this.db
+      .select({
+        ...getTableColumns(purchaseOrders),
+        supplier: { id: suppliers.id, name: suppliers.name },
+        location: { id: locations.id, name: locations.name },
+        itemCount: sql<number>`(select count(*) from ${purchaseOrderItems} where ${purchaseOrderItems.purchaseOrderId} = ${purchaseOrders.id})`.mapWith(Number),
+        totalValue: sql<number>`(select coalesce(sum(${purchaseOrderItems.quantity} * ${purchaseOrderItems.unitPrice}), 0) from ${purchaseOrderItems} where ${purchaseOrderItems.purchaseOrderId} = ${purchaseOrders.id})`.mapWith(Number),
+      })
+      .from(purchaseOrders)
+      .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .leftJoin(locations, eq(purchaseOrders.locationId, locations.id))
+      .where(conditions.length > 0 ? and(...conditions) : undefined)
+      .orderBy(desc(purchaseOrders.createdAt));
+  }
+
+  async getPurchaseOrder(id: string): Promise<PurchaseOrderWithDetails | undefined> {
+    const [order] = await this.db
+      .select({
+        ...getTableColumns(purchaseOrders),
+        supplier: { id: suppliers.id, name: suppliers.name },
+        location: { id: locations.id, name: locations.name },
+        createdBy: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(purchaseOrders)
+      .leftJoin(suppliers, eq(purchaseOrders.supplierId, suppliers.id))
+      .leftJoin(locations, eq(purchaseOrders.locationId, locations.id))
+      .leftJoin(users, eq(purchaseOrders.createdById, users.id))
+      .where(eq(purchaseOrders.id, id));
+    if (!order) return undefined;
+
+    const items = await this.db
+      .select({
+        ...getTableColumns(purchaseOrderItems),
+        material: {
+          id: materials.id,
+          name: materials.name,
+          code: materials.code,
+          unit: materials.unit,
+        },
+      })
+      .from(purchaseOrderItems)
+      .leftJoin(materials, eq(purchaseOrderItems.materialId, materials.id))
+      .where(eq(purchaseOrderItems.purchaseOrderId, id))
+      .orderBy(purchaseOrderItems.createdAt, purchaseOrderItems.id);
+
+    return { ...order, items };
+  }
+
+  // Checks the supplier, delivery location and materials an order refers to.
+  private async assertPurchaseOrderReferences(
+    tx: DatabaseTransaction,
+    order: Partial<InsertPurchaseOrder>,
+    items?: InsertPurchaseOrderItem[],
+  ): Promise<void> {
+    if (order.supplierId) {
+      const [supplier] = await tx
+        .select({ isActive: suppliers.isActive })
+        .from(suppliers)
+        .where(eq(suppliers.id, order.supplierId));
+      assertActiveSupplier(supplier);
+    }
+    if (order.locationId) {
+      const [location] = await tx
+        .select({ id: locations.id, isActive: locations.isActive })
+        .from(locations)
+        .where(eq(locations.id, order.locationId));
+      assertUsableLocations({ sourceLocationId: null, destinationLocationId: order.locationId }, () => location);
+    }
+    if (items) {
+      const found = await tx
+        .select({ id: materials.id })
+        .from(materials)
+        .where(inArray(materials.id, items.map(item => item.materialId)));
+      if (found.length !== items.length) {
+        throw new NotFoundError("Material não encontrado");
+      }
+    }
+  }
+
+  async createPurchaseOrder(
+    order: InsertPurchaseOrder,
+    items: InsertPurchaseOrderItem[],
+  ): Promise<PurchaseOrderWithItems> {
+    return await this.db.transaction(async (tx) => await this.insertPurchaseOrder(tx, order, items));
+  }
+
+  async createPurchaseOrders(orders: NewPurchaseOrder[], audit: AuditContext): Promise<PurchaseOrderWithItems[]> {
+    return await this.db.transaction(async (tx) => {
+      const created: PurchaseOrderWithItems[] = [];
+      for (const { order, items } of orders) {
+        const newOrder = await this.insertPurchaseOrder(tx, order, items);
+        await tx.insert(auditLogs).values({
+          ...audit,
+          id: randomUUID(),
+          action: "CREATE",
+          entityType: "PURCHASE_ORDER",
+          entityId: newOrder.id,
+          changes: { after: { ...order, items } },
+        });
+        created.push(newOrder);
+      }
+      return created;
+    });
+  }
+
+  private async insertPurchaseOrder(
+    tx: DatabaseTransaction,
+    order: InsertPurchaseOrder,
+    items: InsertPurchaseOrderItem[],
+  ): Promise<PurchaseOrderWithItems> {
+    await this.assertPurchaseOrderReferences(tx, order, items);
+
+    const [newOrder] = await tx
+      .insert(purchaseOrders)
+      .values({
+        ...order,
+        id: randomUUID(),
+        locationId: order.locationId ?? await this.getDefaultLocationId(tx),
+      })
+      .returning();
+
+    const newItems = await tx
+      .insert(purchaseOrderItems)
+      .values(items.map(item => ({ ...item, id: randomUUID(), purchaseOrderId: newOrder.id })))
+      .returning();
+
+    return { ...newOrder, items: newItems };
+  }
+
+  async updatePurchaseOrder(
+    id: string,
+    order: Partial<InsertPurchaseOrder>,
+    items?: InsertPurchaseOrderItem[],
+  ): Promise<PurchaseOrderWithItems> {
+    return await this.db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for("update");
+      assertPurchaseOrderStatus(locked, ["RASCUNHO"], "editado");
+      await this.assertPurchaseOrderReferences(tx, order, items);
+
+      const [updated] = await tx
+        .update(purchaseOrders)
+        .set({ ...order, updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+
+      if (items) {
+        await tx.delete(purchaseOrderItems).where(eq(purchaseOrderItems.purchaseOrderId, id));
+        await tx
+          .insert(purchaseOrderItems)
+          .values(items.map(item => ({ ...item, id: randomUUID(), purchaseOrderId: id })));
+      }
+
+      const savedItems = await tx
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, id))
+        .orderBy(purchaseOrderItems.createdAt, purchaseOrderItems.id);
+      return { ...updated, items: savedItems };
+    });
+  }
+
+  async sendPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    return await this.db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for("update");
+      assertPurchaseOrderStatus(locked, ["RASCUNHO"], "enviado");
+
+      const [sent] = await tx
+        .update(purchaseOrders)
+        .set({ status: "ENVIADO", sentAt: new Date(), updatedAt: new Date() })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return sent;
+    });
+  }
+
+  async cancelPurchaseOrder(id: string, cancelledById: string): Promise<PurchaseOrder> {
+    return await this.db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for("update");
+      assertPurchaseOrderStatus(locked, ["RASCUNHO", "ENVIADO"], "cancelado");
+
+      const [cancelled] = await tx
+        .update(purchaseOrders)
+        .set({
+          status: "CANCELADO",
+          cancelledById,
+          cancelledAt: new Date(),
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+      return cancelled;
+    });
+  }
+
+  async receivePurchaseOrder(
+    id: string,
+    { items: entries, invoiceNumber, observation, receivedById }: ReceivePurchaseOrderParams,
+  ): Promise<PurchaseOrderReceipt> {
+    return await this.db.transaction(async (tx) => {
+      const [locked] = await tx
+        .select()
+        .from(purchaseOrders)
+        .where(eq(purchaseOrders.id, id))
+        .for("update");
+      const order = assertPurchaseOrderStatus(locked, ["ENVIADO", "PARCIALMENTE_RECEBIDO"], "recebido");
+
+      const items = await tx
+        .select()
+        .from(purchaseOrderItems)
+        .where(eq(purchaseOrderItems.purchaseOrderId, id));
+      const plan = planPurchaseReceipt(items, entries);
+
+      const movements: StockMovement[] = [];
+      for (const { item, entry } of plan.lines) {
+        movements.push(await this.applyStockMovement(tx, {
+          materialId: item.materialId,
+          type: "ENTRADA",
+          quantity: entry.quantity,
+          unitPrice: item.unitPrice,
+          invoiceNumber,
+          lotNumber: entry.lotNumber,
+          expiresAt: entry.expiresAt,
+          userId: receivedById,
+          destinationLocationId: order.locationId,
+          purchaseOrderId: order.id,
+          observation: purchaseReceiptNote(order.id, observation),
+        }));
+
+        await tx
+          .update(purchaseOrderItems)
+          .set({ receivedQuantity: sql`${purchaseOrderItems.receivedQuantity} + ${entry.quantity}` })
+          .where(eq(purchaseOrderItems.id, item.id));
+      }
+
+      const [received] = await tx
+        .update(purchaseOrders)
+        .set({
+          status: plan.status,
+          receivedAt: plan.status === "RECEBIDO" ? new Date() : null,
+          updatedAt: new Date(),
+        })
+        .where(eq(purchaseOrders.id, id))
+        .returning();
+
+      return { order: received, movements };
+    });
+  }
+
+  // Replenishment operations
+  async getReplenishmentSuggestions(params: ReplenishmentParams): Promise<ReplenishmentReport> {
+    const since = new Date(Date.now() - params.days * 86_400_000);
+    const [allMaterials, allSuppliers] = await Promise.all([
+      this.db.select().from(materials).orderBy(materials.name),
+      this.db.select().from(suppliers),
+    ]);
+
+    const consumption = await this.db
+      .select({
+        materialId: stockMovements.materialId,
+        consumed: sql<number>`coalesce(sum(case
+          when ${stockMovements.type} = 'SAIDA' then ${stockMovements.quantity}
+          when ${stockMovements.type} = 'ENTRADA' and ${stockMovements.requisitionId} is not null then -${stockMovements.quantity}
+          else 0 end), 0)`.mapWith(Number),
+      })
+      .from(stockMovements)
+      .where(gte(stockMovements.createdAt, since))
+      .groupBy(stockMovements.materialId);
+
+    const onOrder = await this.db
+      .select({
+        materialId: purchaseOrderItems.materialId,
+        quantity: sql<number>`coalesce(sum(${purchaseOrderItems.quantity} - ${purchaseOrderItems.receivedQuantity}), 0)`.mapWith(Number),
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .where(inArray(purchaseOrders.status, OPEN_PURCHASE_ORDER_STATUSES))
+      .groupBy(purchaseOrderItems.materialId);
+
+    const lastPrices = await this.db
+      .selectDistinctOn([purchaseOrderItems.materialId], {
+        materialId: purchaseOrderItems.materialId,
+        unitPrice: purchaseOrderItems.unitPrice,
+      })
+      .from(purchaseOrderItems)
+      .innerJoin(purchaseOrders, eq(purchaseOrderItems.purchaseOrderId, purchaseOrders.id))
+      .where(sql`${purchaseOrders.status} <> 'CANCELADO'`)
+      .orderBy(purchaseOrderItems.materialId, desc(purchaseOrderItems.createdAt));
+
+    const inputs = allMaterials.map(material => {
+      const lastPrice = lastPrices.find(row => row.materialId === material.id);
+      return {
+        material,
+        supplier: allSuppliers.find(supplier => supplier.id === material.supplierId) ?? null,
+        consumed: consumption.find(row => row.materialId === material.id)?.consumed ?? 0,
+        onOrder: onOrder.find(row => row.materialId === material.id)?.quantity ?? 0,
+        lastPurchasePrice: lastPrice ? Number(lastPrice.unitPrice) : null,
+      };
+    });
+
+    return { ...params, generatedAt: new Date(), suggestions: buildReplenishmentSuggestions(inputs, params) };
+  }
+
+  // Alert operations
+  async getAlerts({ resolved = false, type }: AlertFilters = {}): Promise<AlertWithDetails[]> {
+    const acknowledgers = alias(users, "acknowledgers");
+    const resolvers = alias(users, "resolvers");
+
+    const query = this.db
+      .select({
+        ...getTableColumns(alerts),
+        acknowledgedBy: {
+          id: acknowledgers.id,
+          firstName: acknowledgers.firstName,
+          lastName: acknowledgers.lastName,
+          email: acknowledgers.email,
+        },
+        resolvedBy: {
+          id: resolvers.id,
+          firstName: resolvers.firstName,
+          lastName: resolvers.lastName,
+          email: resolvers.email,
+        },
+      })
+      .from(alerts)
+      .leftJoin(acknowledgers, eq(alerts.acknowledgedById, acknowledgers.id))
+      .leftJoin(resolvers, eq(alerts.resolvedById, resolvers.id))
+      .where(and(
+        resolved ? eq(alerts.status, "RESOLVIDO") : ne(alerts.status, "RESOLVIDO"),
+        type ? eq(alerts.type, type) : undefined,
+      ));
+
+    // Open alerts sort ahead of acknowledged ones (enum order)
+    return resolved
+      ? await query.orderBy(desc(alerts.resolvedAt)).limit(RESOLVED_ALERTS_LIMIT)
+      : await query.orderBy(alerts.status, desc(alerts.createdAt));
+  }
+
+  async syncAlerts(candidates: AlertCandidate[]): Promise<AlertSyncResult> {
+    return await this.db.transaction(async (tx) => {
+      const active = await tx
+        .select()
+        .from(alerts)
+        .where(eq(alerts.conditionActive, true))
+        .for("update");
+      const { raise, clear } = planAlertSync(active, candidates);
+
+      // A concurrent sync may have raised the same condition meanwhile
+      const created = raise.length > 0
+        ? await tx
+          .insert(alerts)
+          .values(raise.map(candidate => ({ ...candidate, id: randomUUID() })))
+          .onConflictDoNothing()
+          .returning()
+        : [];
+
+      // Alerts already resolved by hand just stop suppressing new ones
+      const resolved = clear.length > 0
+        ? await tx
+          .update(alerts)
+          .set({
+            conditionActive: false,
+            status: "RESOLVIDO",
+            resolvedAt: sql`coalesce(${alerts.resolvedAt}, now())`,
+          })
+          .where(inArray(alerts.id, clear.map(alert => alert.id)))
+          .returning()
+        : [];
+
+      const wasOpen = new Set(clear.filter(alert => alert.status !== "RESOLVIDO").map(alert => alert.id));
+      return { created, resolved: resolved.filter(alert => wasOpen.has(alert.id)) };
+    });
+  }
+
+  async acknowledgeAlert(id: string, userId: string): Promise<Alert> {
+    return await this.db.transaction(async (tx) => {
+      const [alert] = await tx.select().from(alerts).where(eq(alerts.id, id)).for("update");
+      assertAlertStatus(alert, ["ABERTO"], "reconhecido");
+
+      const [acknowledged] = await tx
+        .update(alerts)
+        .set({ status: "RECONHECIDO", acknowledgedById: userId, acknowledgedAt: new Date() })
+        .where(eq(alerts.id, id))
+        .returning();
+      return acknowledged;
+    });
+  }
+
+  async resolveAlert(id: string, userId: string): Promise<Alert> {
+    return await this.db.transaction(async (tx) => {
+      const [alert] = await tx.select().from(alerts).where(eq(alerts.id, id)).for("update");
+      assertAlertStatus(alert, ["ABERTO", "RECONHECIDO"], "resolvido");
+
+      const [resolved] = await tx
+        .update(alerts)
+        .set({ status: "RESOLVIDO", resolvedById: userId, resolvedAt: new Date() })
+        .where(eq(alerts.id, id))
+        .returning();
+      return resolved;
+    });
+  }
+
+  // Notification preference operations
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    const [preferences] = await this.db
+      .select()
+      .from(notificationPreferences)
+      .where(eq(notificationPreferences.userId, userId));
+    return preferences ?? defaultNotificationPreferences(userId);
+  }
+
+  async updateNotificationPreferences(
+    userId: string,
+    changes: UpdateNotificationPreferences,
+  ): Promise<NotificationPreferences> {
+    const [preferences] = await this.db
+      .insert(notificationPreferences)
+      .values({ ...changes, userId })
+      .onConflictDoUpdate({
+        target: notificationPreferences.userId,
+        set: { ...changes, updatedAt: new Date() },
+      })
+      .returning();
+    return preferences;
+  }
+
+  async getNotificationRecipients(preference: NotificationPreference): Promise<User[]> {
+    return await this.db
+      .select(getTableColumns(users))
+      .from(users)
+      .innerJoin(notificationPreferences, eq(notificationPreferences.userId, users.id))
+      .where(and(
+        eq(notificationPreferences[preference], true),
+        eq(users.isActive, true),
+        sql`${users.email} is not null`,
+      ));
+  }
+
+  // Dashboard operations
+  async getDashboardStats(startDate?: Date, endDate?: Date, locationId?: string): Promise<DashboardStats> {
+    const dateFilter = startDate && endDate
+      ? and(gte(stockMovements.createdAt, startDate), lte(stockMovements.createdAt, endDate))
+      : undefined;
+    const locationFilter = locationId
+      ? or(eq(stockMovements.sourceLocationId, locationId), eq(stockMovements.destinationLocationId, locationId))
+      : undefined;
+    const requisitionLocationFilter = locationId ? eq(requisitions.locationId, locationId) : undefined;
+    // Per location, transfers count as stock coming in or going out
+    const incoming = locationId
+      ? sql`${stockMovements.type} in ('ENTRADA', 'TRANSFERENCIA') and ${stockMovements.destinationLocationId} = ${locationId}`
+      : sql`${stockMovements.type} = 'ENTRADA'`;
+    const outgoing = locationId
+      ? sql`${stockMovements.type} in ('SAIDA', 'TRANSFERENCIA') and ${stockMovements.sourceLocationId} = ${locationId}`
+      : sql`${stockMovements.type} = 'SAIDA'`;
+
+    const stock = materialStock(locationId);
+    const [materialTotals] = await this.db
+      .select({
+        totalMaterials: count(),
+        lowStockMaterials: sql<number>`count(*) filter (where ${stock} <= ${materials.minimumStock})`.mapWith(Number),
+        zeroStockMaterials: sql<number>`count(*) filter (where ${stock} = 0)`.mapWith(Number),
+        totalStockValue: sql<number>`coalesce(sum(${stock} * ${materials.averageCost}), 0)`.mapWith(Number),
+      })
+      .from(materials);
+
+    const [pendingRequisitions] = await this.db
+      .select({ count: count() })
+      .from(requisitions)
+      .where(and(eq(requisitions.status, "PENDENTE"), requisitionLocationFilter));
+
+    const [requisitionsToday] = await this.db
+      .select({ count: count() })
+      .from(requisitions)
+      .where(and(gte(requisitions.createdAt, startOfToday()), requisitionLocationFilter));
+
+    const [totalMovements] = await this.db
+      .select({ count: count() })
+      .from(stockMovements)
+      .where(and(dateFilter, locationFilter));
+
+    const bucket = dashboardBucket(startDate, endDate);
+    const period = bucket === "day"
+      ? sql<string>`to_char(${stockMovements.createdAt}, 'YYYY-MM-DD')`
+      : sql<string>`to_char(${stockMovements.createdAt}, 'YYYY-MM')`;
+    const movementsByPeriod = await this.db
+      .select({
+        period,
+        entradas: sql<number>`coalesce(sum(${stockMovements.quantity}) filter (where ${incoming}), 0)`.mapWith(Number),
+        saidas: sql<number>`coalesce(sum(${stockMovements.quantity}) filter (where ${outgoing}), 0)`.mapWith(Number),
+      })
+      .from(stockMovements)
+      .where(and(dateFilter, locationFilter))
+      .groupBy(period)
+      .orderBy(period);
+
+    const consumed = sql<number>`sum(${stockMovements.quantity})`.mapWith(Number);
+    const topMaterials = await this.db
+      .select({
+        materialId: materials.id,
+        name: materials.name,
+        code: materials.code,
+        quantity: consumed,
+      })
+      .from(stockMovements)
+      .innerJoin(materials, eq(stockMovements.materialId, materials.id))
+      .where(and(
+        eq(stockMovements.type, "SAIDA"),
+        dateFilter,
+        locationId ? eq(stockMovements.sourceLocationId, locationId) : undefined,
+      ))
+      .groupBy(materials.id, materials.name, materials.code)
+      .orderBy(desc(consumed))
+      .limit(DASHBOARD_TOP_MATERIALS);
+
+    return {
+      ...materialTotals,
+      pendingRequisitions: pendingRequisitions.count,
+      requisitionsToday: requisitionsToday.count,
+      totalMovements: totalMovements.count,
+      movementsByPeriod,
+      topMaterials,
+    };
+  }
+
+  async getMaterialsWithLowStock(locationId?: string): Promise<Material[]> {
+    const stock = materialStock(locationId);
+    return await this.db
+      .select({ ...getTableColumns(materials), currentStock: stock })
+      .from(materials)
+      .where(lte(stock, materials.minimumStock))
+      .orderBy(materials.name);
+  }
+
+  async getExpiringLots({ days, locationId }: ExpiringLotFilters): Promise<StockLotWithDetails[]> {
+    return await this.db
+      .select({
+        ...getTableColumns(stockLots),
+        material: {
+          id: materials.id,
+          name: materials.name,
+          code: materials.code,
+          unit: materials.unit,
+        },
+        location: { id: locations.id, name: locations.name },
+      })
+      .from(stockLots)
+      .leftJoin(materials, eq(stockLots.materialId, materials.id))
+      .leftJoin(locations, eq(stockLots.locationId, locations.id))
+      .where(and(
+        sql`${stockLots.quantity} > 0`,
+        lte(stockLots.expiresAt, expiryCutoff(days)),
+        locationId ? eq(stockLots.locationId, locationId) : undefined,
+      ))
+      .orderBy(stockLots.expiresAt, materials.name);
+  }
+
+  // Report operations
+  async getStockValuation(at: Date): Promise<StockValuation> {
+    const latest = await this.db
+      .selectDistinctOn([stockMovements.materialId], {
+        materialId: stockMovements.materialId,
+        balanceAfter: stockMovements.balanceAfter,
+        averageCostAfter: stockMovements.averageCostAfter,
+      })
+      .from(stockMovements)
+      .where(lte(stockMovements.createdAt, at))
+      // id breaks ties between movements recorded in the same instant
+      .orderBy(stockMovements.materialId, desc(stockMovements.createdAt), desc(stockMovements.id));
+
+    // Movements before balanceAfter existed all lack it, so only materials
+    // whose latest movement lacks it need their history replayed
+    const unrecorded = latest.filter(movement => movement.balanceAfter === null).map(movement => movement.materialId);
+    const legacy = unrecorded.length === 0 ? [] : await this.db
+      .select({ materialId: stockMovements.materialId, type: stockMovements.type, quantity: stockMovements.quantity })
+      .from(stockMovements)
+      .where(and(inArray(stockMovements.materialId, unrecorded), lte(stockMovements.createdAt, at)))
+      .orderBy(stockMovements.createdAt, stockMovements.id);
+
+    return buildValuation(at, await this.db.select().from(materials), latest, legacy);
+  }
+
+  async getConsumptionReport(params: ConsumptionReportParams): Promise<ConsumptionReport> {
+    const movements = await this.db
+      .select({
+        type: stockMovements.type,
+        quantity: stockMovements.quantity,
+        unitCost: sql<string | null>`coalesce(${stockMovements.unitPrice}, ${materials.averageCost})`,
+        requisitionId: stockMovements.requisitionId,
+        createdAt: stockMovements.createdAt,
+        material: {
+          id: materials.id,
+          name: materials.name,
+          code: materials.code,
+          unit: materials.unit,
+        },
+        employee: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+        costCenter: {
+          id: costCenters.id,
+          code: costCenters.code,
+          name: costCenters.name,
+        },
+      })
+      .from(stockMovements)
+      .leftJoin(materials, eq(stockMovements.materialId, materials.id))
+      .leftJoin(requisitions, eq(stockMovements.requisitionId, requisitions.id))
+      .leftJoin(users, eq(requisitions.employeeId, users.id))
+      .leftJoin(costCenters, eq(requisitions.costCenterId, costCenters.id))
+      .where(and(
+        or(
+          eq(stockMovements.type, "SAIDA"),
+          and(eq(stockMovements.type, "ENTRADA"), isNotNull(stockMovements.requisitionId)),
+        ),
+        gte(stockMovements.createdAt, params.from),
+        lte(stockMovements.createdAt, params.to),
+      ));
+
+    return buildConsumptionReport(params, movements);
+  }
+
+  // Audit operations
+  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
+    const [newLog] = await this.db
+      .insert(auditLogs)
+      .values({ ...log, id: randomUUID() })
+      .returning();
+    return newLog;
+  }
+
+  async getAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLogPage> {
+    const limit = filters.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+    const conditions = [];
+
+    if (filters.userId) conditions.push(eq(auditLogs.userId, filters.userId));
+    if (filters.action) conditions.push(eq(auditLogs.action, filters.action));
+    if (filters.entityType) conditions.push(eq(auditLogs.entityType, filters.entityType));
+    if (filters.entityId) conditions.push(eq(auditLogs.entityId, filters.entityId));
+    if (filters.from) conditions.push(gte(auditLogs.createdAt, filters.from));
+    if (filters.to) conditions.push(lte(auditLogs.createdAt, filters.to));
+    // Postgres keeps microseconds but the cursor only has JS milliseconds
+    const createdAtMs = sql<Date>`date_trunc('milliseconds', ${auditLogs.createdAt})`;
+    if (filters.cursor) {
+      const cursor = decodeAuditCursor(filters.cursor);
+      conditions.push(
+        or(
+          lt(createdAtMs, cursor.createdAt),
+          and(eq(createdAtMs, cursor.createdAt), lt(auditLogs.id, cursor.id)),
+        ),
+      );
+    }
+
+    const rows = await this.db
+      .select({
+        ...getTableColumns(auditLogs),
+        user: {
+          id: users.id,
+          firstName: users.firstName,
+          lastName: users.lastName,
+          email: users.email,
+        },
+      })
+      .from(auditLogs)
+      .leftJoin(users, eq(auditLogs.userId, users.id))
+      .where(and(...conditions))
+      .orderBy(desc(createdAtMs), desc(auditLogs.id))
+      .limit(limit + 1);
+
+    const items = rows.slice(0, limit);
+    return {
+      items,
+      nextCursor: rows.length > limit ? encodeAuditCursor(items[items.length - 1]) : null,
+    };
+  }
+}
+
+// In-memory storage implementation for fallback
+export class InMemoryStorage implements IStorage {
+  private users = new Map<string, User>();
+  private materials = new Map<string, Material>();
+  private locations = new Map<string, Location>();
+  private costCenters = new Map<string, CostCenter>();
+  // Quantity per `${materialId}|${locationId}`
+  private stockBalances = new Map<string, number>();
+  private stockMovements = new Map<string, StockMovement>();
+  private stockLots = new Map<string, StockLot>();
+  private stockMovementLots: (LotAllocation & { movementId: string })[] = [];
+  private requisitions = new Map<string, Requisition>();
+  private requisitionSequences = new Map<number, number>();
+  private requisitionItems = new Map<string, RequisitionItem>();
+  private inventoryCounts = new Map<string, InventoryCount>();
+  private inventoryCountItems = new Map<string, InventoryCountItem>();
+  private suppliers = new Map<string, Supplier>();
+  private purchaseOrders = new Map<string, PurchaseOrder>();
+  private purchaseOrderItems = new Map<string, PurchaseOrderItem>();
+  private alerts = new Map<string, Alert>();
+  private notificationPreferences = new Map<string, NotificationPreferences>();
+  private auditLogs = new Map<string, AuditLog>();
+
+  constructor() {
+    // Create a default admin user for development
+    const adminUser: User = {
+      id: randomUUID(),
+      email: "admin@example.com",
+      firstName: "Admin",
+      lastName: "User",
+      profileImageUrl: null,
+      passwordHash: null,
+      role: "ADMIN",
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.users.set(adminUser.id, adminUser);
+    this.defaultLocationId();
+  }
+
+  // User operations
+  async getUser(id: string): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    // Keep role and status an admin may have changed since the last login
+    const existing = userData.id ? this.users.get(userData.id) : undefined;
+    const user: User = {
+      ...userData,
+      id: userData.id ?? randomUUID(),
+      email: userData.email ?? null,
+      firstName: userData.firstName ?? null,
+      lastName: userData.lastName ?? null,
+      profileImageUrl: userData.profileImageUrl ?? null,
+      passwordHash: userData.passwordHash ?? existing?.passwordHash ?? null,
+      role: userData.role ?? existing?.role ?? "FUNCIONARIO",
+      isActive: userData.isActive ?? existing?.isActive ?? true,
+      createdAt: userData.createdAt ?? existing?.createdAt ?? new Date(),
+      updatedAt: new Date(),
+    };
+    this.users.set(user.id, user);
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const normalizedEmail = email.toLowerCase();
+    return Array.from(this.users.values()).find(u => u.email?.toLowerCase() === normalizedEmail);
+  }
+
+  async createEmployeeUser({ name, email, passwordHash }: {
+    name: string;
+    email: string;
+    passwordHash: string;
+  }): Promise<User> {
+    const normalizedEmail = email.toLowerCase();
+    const trimmedName = name.trim();
+    const [firstName, ...rest] = trimmedName.split(/\s+/);
+    const lastName = rest.length > 0 ? rest.join(" ") : null;
+
+    const user: User = {
+      id: randomUUID(),
+      email: normalizedEmail,
+      firstName: firstName || trimmedName,
+      lastName,
+      profileImageUrl: null,
+      passwordHash,
+      role: "FUNCIONARIO",
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+
+    this.users.set(user.id, user);
+    return user;
+  }
 
-    const [lowStockMaterials] = await this.db
-      .select({ count: count() })
-      .from(materials)
-      .where(sql`current_stock <= minimum_stock`);
+  async getUsers({ search, role }: UserFilters = {}): Promise<User[]> {
+    const term = search?.toLowerCase();
+    return Array.from(this.users.values())
+      .filter(u => !role || u.role === role)
+      .filter(u => !term || [u.email, u.firstName, u.lastName]
+        .some(value => value?.toLowerCase().includes(term)))
+      .sort((a, b) => (a.firstName ?? a.email ?? "").localeCompare(b.firstName ?? b.email ?? ""));
+  }
 
-    const [pendingRequisitions] = await this.db
-      .select({ count: count() })
-      .from(requisitions)
-      .where(eq(requisitions.status, "PENDENTE"));
+  async updateUser(id: string, changes: UpdateUser): Promise<User> {
+    const existing = this.users.get(id);
+    if (!existing) throw new NotFoundError("Usuário não encontrado");
 
-    const [totalMovements] = await this.db
-      .select({ count: count() })
-      .from(stockMovements)
-      .where(dateFilter);
+    const updated: User = {
+      ...existing,
+      ...changes,
+      updatedAt: new Date(),
+    };
+    this.users.set(id, updated);
+    return updated;
+  }
+
+  // Material operations
+  async getMaterials({ locationId, search, lowStock, after, limit }: MaterialFilters = {}): Promise<Material[]> {
+    const term = search?.toLowerCase();
+    // Same order for sorting and for the keyset comparison
+    const byName = (a: Pick<Material, "name" | "id">, b: Pick<Material, "name" | "id">) =>
+      a.name.localeCompare(b.name) || a.id.localeCompare(b.id);
+
+    const filtered = Array.from(this.materials.values())
+      .map(m => this.stockAt(m, locationId))
+      .filter(m => !term || m.name.toLowerCase().includes(term) || m.code.toLowerCase().includes(term))
+      .filter(m => !lowStock || m.currentStock <= m.minimumStock)
+      .filter(m => !after || byName(m, after) > 0)
+      .sort(byName);
+    return limit ? filtered.slice(0, limit) : filtered;
+  }
+
+  private stockAt(material: Material, locationId?: string): Material {
+    return locationId ? { ...material, currentStock: this.balanceOf(material.id, locationId) } : material;
+  }
+
+  private balanceOf(materialId: string, locationId: string): number {
+    return this.stockBalances.get(`${materialId}|${locationId}`) ?? 0;
+  }
+
+  async getMaterial(id: string): Promise<Material | undefined> {
+    return this.materials.get(id);
+  }
+
+  async createMaterial(material: InsertMaterial): Promise<Material> {
+    const newMaterial: Material = {
+      name: material.name,
+      code: material.code,
+      unit: material.unit,
+      unitPrice: material.unitPrice ?? null,
+      averageCost: "0",
+      minimumStock: material.minimumStock ?? 0,
+      currentStock: 0,
+      supplierId: material.supplierId ?? null,
+      leadTimeDays: material.leadTimeDays ?? null,
+      id: randomUUID(),
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.materials.set(newMaterial.id, newMaterial);
+    return newMaterial;
+  }
+
+  async updateMaterial(id: string, material: Partial<InsertMaterial>): Promise<Material> {
+    const existing = this.materials.get(id);
+    if (!existing) throw new Error("Material not found");
+    
+    const updated: Material = {
+      ...existing,
+      ...material,
+      updatedAt: new Date(),
+    };
+    this.materials.set(id, updated);
+    return updated;
+  }
+
+  async deleteMaterial(id: string): Promise<void> {
+    this.materials.delete(id);
+  }
+
+  async updateMaterialStock(materialId: string, newStock: number): Promise<void> {
+    const material = this.materials.get(materialId);
+    if (material) {
+      material.currentStock = newStock;
+      material.updatedAt = new Date();
+      this.materials.set(materialId, material);
+    }
+  }
+
+  async importMaterials(
+    rows: MaterialImportRow[],
+    { userId, openingBalance, locationId }: MaterialImportParams,
+  ): Promise<MaterialImportResult> {
+    // Check the destination before writing anything, as nothing rolls back here
+    if (openingBalance) {
+      const target = resolveMovementLocations(
+        { type: "ENTRADA", sourceLocationId: null, destinationLocationId: locationId ?? null },
+        this.defaultLocationId(),
+      );
+      assertUsableLocations(target, id => this.locations.get(id));
+    }
+
+    const byCode = new Map(Array.from(this.materials.values()).map(m => [m.code, m]));
+    const result: MaterialImportResult = { created: [], updated: [], movements: [] };
+    for (const { material, openingStock } of rows) {
+      const before = byCode.get(material.code);
+      if (before) {
+        result.updated.push({ before, after: await this.updateMaterial(before.id, material) });
+        continue;
+      }
+
+      const created = await this.createMaterial(material);
+      result.created.push(created);
+      if (openingBalance && openingStock) {
+        result.movements.push(this.applyStockMovement({
+          materialId: created.id,
+          type: "ENTRADA",
+          quantity: openingStock,
+          unitPrice: created.unitPrice,
+          userId,
+          destinationLocationId: locationId ?? null,
+          observation: OPENING_BALANCE_NOTE,
+        }));
+      }
+    }
+    return result;
+  }
+
+  // Location operations
+  async getLocations(): Promise<Location[]> {
+    return Array.from(this.locations.values())
+      .sort((a, b) => Number(b.isDefault) - Number(a.isDefault) || a.name.localeCompare(b.name));
+  }
+
+  async getLocation(id: string): Promise<Location | undefined> {
+    return this.locations.get(id);
+  }
+
+  async createLocation(location: InsertLocation): Promise<Location> {
+    assertUniqueLocationName(Array.from(this.locations.values()), location.name);
+    const newLocation: Location = {
+      id: randomUUID(),
+      name: location.name,
+      description: location.description ?? null,
+      isDefault: false,
+      isActive: location.isActive ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.locations.set(newLocation.id, newLocation);
+    return newLocation;
+  }
+
+  async updateLocation(id: string, location: Partial<InsertLocation>): Promise<Location> {
+    const existing = this.locations.get(id);
+    if (!existing) throw new NotFoundError("Local não encontrado");
+    assertLocationChange(existing, location);
+    if (location.name !== undefined) {
+      assertUniqueLocationName(Array.from(this.locations.values()), location.name, id);
+    }
+
+    const updated: Location = {
+      ...existing,
+      ...location,
+      updatedAt: new Date(),
+    };
+    this.locations.set(id, updated);
+    return updated;
+  }
+
+  async getStockBalances(materialId?: string): Promise<StockBalanceWithLocation[]> {
+    return Array.from(this.stockBalances.entries())
+      .map(([key, quantity]) => {
+        const [balanceMaterialId, locationId] = key.split("|");
+        const location = this.locations.get(locationId);
+        return {
+          materialId: balanceMaterialId,
+          locationId,
+          quantity,
+          updatedAt: null,
+          location: location ? { id: location.id, name: location.name } : null,
+        };
+      })
+      .filter(balance => !materialId || balance.materialId === materialId)
+      .sort((a, b) => (a.location?.name ?? "").localeCompare(b.location?.name ?? ""));
+  }
+
+  private defaultLocationId(): string {
+    const existing = Array.from(this.locations.values()).find(location => location.isDefault);
+    if (existing) return existing.id;
+
+    const location: Location = {
+      id: randomUUID(),
+      name: DEFAULT_LOCATION_NAME,
+      description: null,
+      isDefault: true,
+      isActive: true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.locations.set(location.id, location);
+    return location.id;
+  }
+
+  private locationSummary(id: string | null): LocationSummary | null {
+    const location = id ? this.locations.get(id) : undefined;
+    return location ? { id: location.id, name: location.name } : null;
+  }
+
+  // Cost center operations
+  async getCostCenters(): Promise<CostCenter[]> {
+    return Array.from(this.costCenters.values()).sort((a, b) => a.code.localeCompare(b.code));
+  }
+
+  async getCostCenter(id: string): Promise<CostCenter | undefined> {
+    return this.costCenters.get(id);
+  }
+
+  async createCostCenter(costCenter: InsertCostCenter): Promise<CostCenter> {
+    assertUniqueCostCenterCode(Array.from(this.costCenters.values()), costCenter.code);
+    const newCostCenter: CostCenter = {
+      id: randomUUID(),
+      code: costCenter.code,
+      name: costCenter.name,
+      isActive: costCenter.isActive ?? true,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.costCenters.set(newCostCenter.id, newCostCenter);
+    return newCostCenter;
+  }
+
+  async updateCostCenter(id: string, costCenter: Partial<InsertCostCenter>): Promise<CostCenter> {
+    const existing = this.costCenters.get(id);
+    if (!existing) throw new NotFoundError("Centro de custo não encontrado");
+    if (costCenter.code !== undefined) {
+      assertUniqueCostCenterCode(Array.from(this.costCenters.values()), costCenter.code, id);
+    }
+
+    const updated: CostCenter = { ...existing, ...costCenter, updatedAt: new Date() };
+    this.costCenters.set(id, updated);
+    return updated;
+  }
+
+  private costCenterSummary(id: string | null): CostCenterSummary | null {
+    const costCenter = id ? this.costCenters.get(id) : undefined;
+    return costCenter ? { id: costCenter.id, code: costCenter.code, name: costCenter.name } : null;
+  }
+
+  // Stock movement operations
+  async getStockMovements(filters: StockMovementFilters = {}): Promise<StockMovementWithDetails[]> {
+    const time = (movement: StockMovement) => movement.createdAt?.getTime() || 0;
+
+    return Array.from(this.stockMovements.values())
+      .filter(m => !filters.materialId || m.materialId === filters.materialId)
+      .filter(m => !filters.type || m.type === filters.type)
+      .filter(m => !filters.locationId
+        || m.sourceLocationId === filters.locationId
+        || m.destinationLocationId === filters.locationId)
+      .filter(m => !filters.from || time(m) >= filters.from.getTime())
+      .filter(m => !filters.to || time(m) <= filters.to.getTime())
+      .sort((a, b) => time(b) - time(a))
+      .map(movement => {
+        const material = this.materials.get(movement.materialId);
+        const user = this.users.get(movement.userId);
+        const requisition = movement.requisitionId ? this.requisitions.get(movement.requisitionId) : undefined;
+        return {
+          ...movement,
+          material: material ? {
+            id: material.id,
+            name: material.name,
+            code: material.code,
+            unit: material.unit,
+          } : null,
+          user: user ? {
+            id: user.id,
+            firstName: user.firstName,
+            lastName: user.lastName,
+            email: user.email,
+          } : null,
+          requisition: requisition ? { id: requisition.id, number: requisition.number, status: requisition.status } : null,
+          sourceLocation: this.locationSummary(movement.sourceLocationId),
+          destinationLocation: this.locationSummary(movement.destinationLocationId),
+        };
+      });
+  }
+
+  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
+    return this.applyStockMovement(movement);
+  }
+
+  // Synchronous so the balance check and both writes cannot interleave with
+  // another request.
+  private applyStockMovement(movement: InsertStockMovement, restoredLots?: LotAllocation[]): StockMovement {
+    const material = this.materials.get(movement.materialId);
+    if (!material) throw new NotFoundError("Material não encontrado");
+
+    const target = resolveMovementLocations(movement, this.defaultLocationId());
+    assertUsableLocations(target, id => this.locations.get(id));
+
+    const balanceAt = (id: string | null) => id ? this.balanceOf(material.id, id) : 0;
+    const before = { source: balanceAt(target.sourceLocationId), destination: balanceAt(target.destinationLocationId) };
+    const after = computeLocationBalances(material, movement.type, movement.quantity, before);
+    const balanceAfter = material.currentStock
+      + (after.source - before.source)
+      + (after.destination - before.destination);
+    const cost = computeMovementCost(material, movement);
+
+    const lotsAt = (id: string | null) => Array.from(this.stockLots.values())
+      .filter(lot => lot.materialId === material.id && lot.locationId === id);
+    const lotMovement = restoredLots
+      ? { adjusted: restoredLots, received: [] }
+      : planLotMovement(movement, lotsAt(target.sourceLocationId), lotsAt(target.destinationLocationId), after.destination);
+
+    const newMovement: StockMovement = {
+      ...movement,
+      ...target,
+      id: randomUUID(),
+      unitPrice: cost.unitPrice,
+      observation: movement.observation ?? null,
+      invoiceNumber: movement.invoiceNumber ?? null,
+      lotNumber: movement.lotNumber ?? null,
+      expiresAt: movement.expiresAt ?? null,
+      requisitionId: movement.requisitionId ?? null,
+      inventoryCountId: movement.inventoryCountId ?? null,
+      purchaseOrderId: movement.purchaseOrderId ?? null,
+      balanceAfter,
+      averageCostAfter: cost.averageCost,
+      createdAt: new Date(),
+    };
+
+    if (target.sourceLocationId) {
+      this.stockBalances.set(`${material.id}|${target.sourceLocationId}`, after.source);
+    }
+    if (target.destinationLocationId) {
+      this.stockBalances.set(`${material.id}|${target.destinationLocationId}`, after.destination);
+    }
+    this.materials.set(material.id, {
+      ...material,
+      currentStock: balanceAfter,
+      averageCost: cost.averageCost,
+      updatedAt: new Date(),
+    });
+    this.stockMovements.set(newMovement.id, newMovement);
+    this.applyLotMovement(newMovement, lotMovement, lotsAt(target.destinationLocationId));
+    return newMovement;
+  }
+
+  private applyLotMovement(
+    movement: StockMovement,
+    { adjusted, received }: LotMovement,
+    destinationLots: StockLot[],
+  ): void {
+    const allocations = [...adjusted];
+    for (const { lotId, quantity } of adjusted) {
+      const lot = this.stockLots.get(lotId)!;
+      this.stockLots.set(lotId, { ...lot, quantity: lot.quantity + quantity, updatedAt: new Date() });
+    }
+
+    for (const { lotNumber, expiresAt, quantity } of received) {
+      const existing = destinationLots.find(lot => lot.lotNumber === lotNumber);
+      const lot: StockLot = existing
+        ? { ...existing, quantity: existing.quantity + quantity, expiresAt: existing.expiresAt ?? expiresAt, updatedAt: new Date() }
+        : {
+            id: randomUUID(),
+            materialId: movement.materialId,
+            locationId: movement.destinationLocationId!,
+            lotNumber,
+            expiresAt,
+            quantity,
+            createdAt: new Date(),
+            updatedAt: new Date(),
+          };
+      this.stockLots.set(lot.id, lot);
+      allocations.push({ lotId: lot.id, quantity });
+    }
+
+    this.stockMovementLots.push(...allocations.map(allocation => ({ ...allocation, movementId: movement.id })));
+  }
+
+  // Requisition operations
+  async getRequisitions({ employeeId, number }: RequisitionFilters = {}): Promise<RequisitionWithDetails[]> {
+    let reqs = Array.from(this.requisitions.values());
+    if (employeeId) {
+      reqs = reqs.filter(r => r.employeeId === employeeId);
+    }
+    if (number) {
+      reqs = reqs.filter(r => r.number.toLowerCase().includes(number.toLowerCase()));
+    }
+    return reqs
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .map(req => ({
+        ...req,
+        items: this.itemsOf(req.id),
+        employee: this.userSummary(req.employeeId),
+        createdBy: this.userSummary(req.createdById),
+        costCenter: this.costCenterSummary(req.costCenterId),
+      }));
+  }
+
+  private itemsOf(requisitionId: string): RequisitionItemWithMaterial[] {
+    return Array.from(this.requisitionItems.values())
+      .filter(item => item.requisitionId === requisitionId)
+      .map(item => {
+        const material = this.materials.get(item.materialId);
+        return {
+          ...item,
+          material: material ? {
+            id: material.id,
+            name: material.name,
+            code: material.code,
+            unit: material.unit,
+          } : null,
+        };
+      });
+  }
+
+  private userSummary(id: string): UserSummary | null {
+    const user = this.users.get(id);
+    return user ? {
+      id: user.id,
+      firstName: user.firstName,
+      lastName: user.lastName,
+      email: user.email,
+    } : null;
+  }
+
+  async getRequisition(id: string): Promise<Requisition | undefined> {
+    return this.requisitions.get(id);
+  }
+
+  async getRequisitionItems(requisitionId: string): Promise<RequisitionItemWithMaterial[]> {
+    return this.itemsOf(requisitionId);
+  }
+
+  async getEmployeeRequisitionsWithDetails(employeeId: string): Promise<EmployeeRequisitionDetails[]> {
+    return Array.from(this.requisitions.values())
+      .filter(r => r.employeeId === employeeId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .map(req => ({
+        ...req,
+        items: this.itemsOf(req.id),
+        createdBy: this.userSummary(req.createdById),
+      }));
+  }
+
+  async createRequisition(
+    requisition: NewRequisition,
+    items: InsertRequisitionItem[],
+  ): Promise<RequisitionWithItems> {
+    if (requisition.locationId) {
+      assertUsableLocations(
+        { sourceLocationId: requisition.locationId, destinationLocationId: null },
+        id => this.locations.get(id),
+      );
+    }
+    if (requisition.costCenterId) {
+      assertUsableCostCenter(this.costCenters.get(requisition.costCenterId));
+    }
+    assertRequisitionEmployee(this.users.get(requisition.employeeId));
+    if (items.some(item => !this.materials.has(item.materialId))) {
+      throw new NotFoundError("Material não encontrado");
+    }
+
+    const year = new Date().getFullYear();
+    const sequence = (this.requisitionSequences.get(year) ?? 0) + 1;
+    this.requisitionSequences.set(year, sequence);
+
+    const newRequisition: Requisition = {
+      ...requisition,
+      id: randomUUID(),
+      number: formatRequisitionNumber(year, sequence),
+      locationId: requisition.locationId ?? this.defaultLocationId(),
+      costCenterId: requisition.costCenterId ?? null,
+      observation: requisition.observation ?? null,
+      status: requisition.status,
+      signedAt: null,
+      signedByDevice: null,
+      signedByIp: null,
+      signaturePayload: null,
+      signatureHash: null,
+      signatureHmac: null,
+      cancellationReason: null,
+      cancelledById: null,
+      cancelledAt: null,
+      reviewedById: null,
+      reviewedAt: null,
+      rejectionReason: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    const newItems: RequisitionItem[] = items.map(item => ({
+      ...item,
+      id: randomUUID(),
+      requisitionId: newRequisition.id,
+      requestedQuantity: null,
+      createdAt: new Date(),
+    }));
+
+    this.requisitions.set(newRequisition.id, newRequisition);
+    for (const item of newItems) this.requisitionItems.set(item.id, item);
+    return { ...newRequisition, items: newItems };
+  }
+
+  async updateRequisition(id: string, requisition: Partial<InsertRequisition>): Promise<Requisition> {
+    const existing = this.requisitions.get(id);
+    if (!existing) throw new Error("Requisition not found");
+    
+    const updated: Requisition = {
+      ...existing,
+      ...requisition,
+      updatedAt: new Date(),
+    };
+    this.requisitions.set(id, updated);
+    return updated;
+  }
+
+  async signRequisition(id: string, params: SignRequisitionParams): Promise<Requisition> {
+    const { signerId, signedByDevice, signedByIp } = params;
+    const current = this.requisitions.get(id);
+    await authorizeSignature(current, current && this.users.get(current.employeeId), params);
+
+    // Password verification yields, so re-read before touching stock.
+    const existing = this.requisitions.get(id);
+    if (!existing) throw new NotFoundError("Requisição não encontrada");
+    assertSignableStatus(existing);
+
+    const items = this.itemsOf(id);
+    if (items.length === 0) throw new ValidationError("Requisição não possui itens");
+
+    // Check every line before withdrawing any, so a short line leaves stock untouched.
+    const locationId = existing.locationId ?? this.defaultLocationId();
+    for (const item of items) {
+      const material = this.materials.get(item.materialId);
+      if (!material) throw new NotFoundError("Material não encontrado");
+      computeBalanceAfter(material, "SAIDA", this.balanceOf(material.id, locationId), item.quantity);
+    }
+    for (const item of items) {
+      this.applyStockMovement({
+        materialId: item.materialId,
+        type: "SAIDA",
+        quantity: item.quantity,
+        userId: signerId ?? existing.employeeId,
+        requisitionId: existing.id,
+        sourceLocationId: locationId,
+        observation: existing.observation,
+      });
+    }
+
+    const signedAt = new Date();
+    const receipt = createSignatureReceipt({
+      requisitionId: existing.id,
+      employeeId: existing.employeeId,
+      items: items.map(item => ({ materialCode: item.material?.code ?? "", quantity: item.quantity })),
+      signedAt,
+    });
+
+    const signed: Requisition = {
+      ...existing,
+      status: "ASSINADA",
+      signedAt,
+      signedByDevice: signedByDevice ?? null,
+      signedByIp: signedByIp ?? null,
+      ...receipt,
+      updatedAt: new Date(),
+    };
+    this.requisitions.set(id, signed);
+    return signed;
+  }
+
+  async cancelRequisition(
+    id: string,
+    { cancelledById, reason }: CancelRequisitionParams,
+  ): Promise<Requisition> {
+    const existing = this.requisitions.get(id);
+    if (!existing) throw new NotFoundError("Requisição não encontrada");
+    assertCancellableStatus(existing);
+
+    const movements = Array.from(this.stockMovements.values())
+      .filter(m => m.requisitionId === id);
+    const lotAllocations = this.stockMovementLots
+      .filter(allocation => this.stockMovements.get(allocation.movementId)?.requisitionId === id)
+      .map(allocation => {
+        const lot = this.stockLots.get(allocation.lotId)!;
+        return { ...allocation, materialId: lot.materialId, locationId: lot.locationId };
+      });
+    for (const withdrawn of withdrawnQuantities(movements)) {
+      this.applyStockMovement({
+        materialId: withdrawn.materialId,
+        type: "ENTRADA",
+        quantity: withdrawn.quantity,
+        userId: cancelledById,
+        requisitionId: existing.id,
+        destinationLocationId: withdrawn.locationId,
+        observation: `Estorno da requisição cancelada: ${reason}`,
+      }, withdrawnLots(lotAllocations, withdrawn));
+    }
+
+    const cancelled: Requisition = {
+      ...existing,
+      status: "CANCELADA",
+      cancellationReason: reason,
+      cancelledById,
+      cancelledAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.requisitions.set(id, cancelled);
+    return cancelled;
+  }
+
+  async approveRequisition(
+    id: string,
+    { reviewedById, quantities }: ApproveRequisitionParams,
+  ): Promise<Requisition> {
+    const existing = this.requisitions.get(id);
+    if (!existing) throw new NotFoundError("Requisição não encontrada");
+    assertReviewableStatus(existing, "aprovada");
+
+    const items = Array.from(this.requisitionItems.values()).filter(item => item.requisitionId === id);
+    for (const { item, quantity } of resolveApprovedQuantities(items, quantities)) {
+      if (quantity === 0) {
+        this.requisitionItems.delete(item.id);
+      } else if (quantity !== item.quantity) {
+        this.requisitionItems.set(item.id, { ...item, quantity, requestedQuantity: item.quantity });
+      }
+    }
+
+    const approved: Requisition = {
+      ...existing,
+      status: "PENDENTE",
+      reviewedById,
+      reviewedAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.requisitions.set(id, approved);
+    return approved;
+  }
+
+  async rejectRequisition(
+    id: string,
+    { reviewedById, reason }: RejectRequisitionParams,
+  ): Promise<Requisition> {
+    const existing = this.requisitions.get(id);
+    if (!existing) throw new NotFoundError("Requisição não encontrada");
+    assertReviewableStatus(existing, "rejeitada");
 
-    return {
-      totalMaterials: totalMaterials.count,
-      lowStockMaterials: lowStockMaterials.count,
-      pendingRequisitions: pendingRequisitions.count,
-      totalMovements: totalMovements.count,
+    const rejected: Requisition = {
+      ...existing,
+      status: "REJEITADA",
+      rejectionReason: reason,
+      reviewedById,
+      reviewedAt: new Date(),
+      updatedAt: new Date(),
     };
+    this.requisitions.set(id, rejected);
+    return rejected;
   }
 
-  async getMaterialsWithLowStock(): Promise<Material[]> {
-    return await this.db
-      .select()
-      .from(materials)
-      .where(sql`current_stock <= minimum_stock`)
-      .orderBy(materials.name);
+  // Inventory count operations
+  async getInventoryCounts(): Promise<InventoryCountSummary[]> {
+    return Array.from(this.inventoryCounts.values())
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .map(count => {
+        const items = this.countItemsOf(count.id);
+        return {
+          ...count,
+          location: this.locationSummary(count.locationId),
+          openedBy: this.userSummary(count.openedById),
+          itemCount: items.length,
+          countedCount: items.filter(item => item.countedQuantity !== null).length,
+        };
+      });
   }
 
-  // Audit operations
-  async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
-    const [newLog] = await this.db
-      .insert(auditLogs)
-      .values({ ...log, id: randomUUID() })
-      .returning();
-    return newLog;
+  private countItemsOf(countId: string): InventoryCountItem[] {
+    return Array.from(this.inventoryCountItems.values()).filter(item => item.countId === countId);
   }
 
-  async getAuditLogs(): Promise<AuditLog[]> {
-    return await this.db
-      .select()
-      .from(auditLogs)
-      .orderBy(desc(auditLogs.createdAt));
+  async getInventoryCount(id: string): Promise<InventoryCountWithDetails | undefined> {
+    const count = this.inventoryCounts.get(id);
+    if (!count) return undefined;
+
+    const items = this.countItemsOf(id)
+      .map(item => {
+        const material = this.materials.get(item.materialId);
+        return withVariance({
+          ...item,
+          material: material ? {
+            id: material.id,
+            name: material.name,
+            code: material.code,
+            unit: material.unit,
+          } : null,
+        }, this.balanceOf(item.materialId, count.locationId));
+      })
+      .sort((a, b) => (a.material?.name ?? "").localeCompare(b.material?.name ?? ""));
+
+    return {
+      ...count,
+      location: this.locationSummary(count.locationId),
+      openedBy: this.userSummary(count.openedById),
+      approvedBy: count.approvedById ? this.userSummary(count.approvedById) : null,
+      items,
+    };
   }
-}
 
-// In-memory storage implementation for fallback
-export class InMemoryStorage implements IStorage {
-  private users = new Map<string, User>();
-  private materials = new Map<string, Material>();
-  private stockMovements = new Map<string, StockMovement>();
-  private requisitions = new Map<string, Requisition>();
-  private auditLogs = new Map<string, AuditLog>();
+  async openInventoryCount({
+    locationId,
+    materialIds,
+    observation,
+    openedById,
+  }: OpenInventoryCountParams): Promise<InventoryCount & { items: InventoryCountItem[] }> {
+    const countLocationId = locationId ?? this.defaultLocationId();
+    if (!this.locations.has(countLocationId)) {
+      throw new NotFoundError("Local não encontrado");
+    }
 
-  constructor() {
-    // Create a default admin user for development
-    const adminUser: User = {
+    const ids = materialIds ?? Array.from(this.materials.keys());
+    if (ids.some(materialId => !this.materials.has(materialId))) {
+      throw new NotFoundError("Material não encontrado");
+    }
+    if (ids.length === 0) {
+      throw new ValidationError("Nenhum material para inventariar");
+    }
+
+    const busyCodes = Array.from(this.inventoryCountItems.values())
+      .filter(item => ids.includes(item.materialId))
+      .filter(item => {
+        const count = this.inventoryCounts.get(item.countId);
+        return count?.status === "ABERTA" && count.locationId === countLocationId;
+      })
+      .map(item => this.materials.get(item.materialId)!.code)
+      .sort();
+    assertNotBeingCounted(busyCodes);
+
+    const count: InventoryCount = {
       id: randomUUID(),
-      email: "admin@example.com",
-      firstName: "Admin",
-      lastName: "User",
-      profileImageUrl: null,
-      passwordHash: null,
-      role: "ADMIN",
+      locationId: countLocationId,
+      status: "ABERTA",
+      observation: observation || null,
+      openedById,
+      approvedById: null,
+      approvedAt: null,
+      cancelledById: null,
+      cancelledAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
-    this.users.set(adminUser.id, adminUser);
-  }
+    this.inventoryCounts.set(count.id, count);
 
-  // User operations
-  async getUser(id: string): Promise<User | undefined> {
-    return this.users.get(id);
-  }
+    const items = ids.map(materialId => {
+      const item: InventoryCountItem = {
+        id: randomUUID(),
+        countId: count.id,
+        materialId,
+        expectedQuantity: this.balanceOf(materialId, countLocationId),
+        countedQuantity: null,
+        passes: 0,
+        countedById: null,
+        countedAt: null,
+      };
+      this.inventoryCountItems.set(item.id, item);
+      return item;
+    });
 
-  async upsertUser(userData: UpsertUser): Promise<User> {
-    const user: User = {
-      ...userData,
-      id: userData.id ?? randomUUID(),
-      email: userData.email ?? null,
-      firstName: userData.firstName ?? null,
-      lastName: userData.lastName ?? null,
-      profileImageUrl: userData.profileImageUrl ?? null,
-      passwordHash: userData.passwordHash ?? null,
-      role: userData.role ?? "FUNCIONARIO",
-      createdAt: userData.createdAt ?? new Date(),
-      updatedAt: new Date(),
-    };
-    this.users.set(user.id, user);
-    return user;
+    return { ...count, items };
   }
 
-  async getUserByEmail(email: string): Promise<User | undefined> {
-    const normalizedEmail = email.toLowerCase();
-    return Array.from(this.users.values()).find(u => u.email?.toLowerCase() === normalizedEmail);
+  async recordInventoryCount(
+    id: string,
+    { items: entries, countedById }: RecordInventoryCountParams,
+  ): Promise<InventoryCountItem[]> {
+    const count = assertOpenCount(this.inventoryCounts.get(id));
+    assertCountableItems(this.countItemsOf(id), entries);
+
+    const updated = entries.map(entry => {
+      const item = this.inventoryCountItems.get(entry.id)!;
+      const counted: InventoryCountItem = {
+        ...item,
+        countedQuantity: entry.countedQuantity,
+        passes: item.passes + 1,
+        countedById,
+        countedAt: new Date(),
+      };
+      this.inventoryCountItems.set(item.id, counted);
+      return counted;
+    });
+    this.inventoryCounts.set(id, { ...count, updatedAt: new Date() });
+    return updated;
   }
 
-  async createEmployeeUser({ name, email, passwordHash }: {
-    name: string;
-    email: string;
-    passwordHash: string;
-  }): Promise<User> {
-    const normalizedEmail = email.toLowerCase();
-    const trimmedName = name.trim();
-    const [firstName, ...rest] = trimmedName.split(/\s+/);
-    const lastName = rest.length > 0 ? rest.join(" ") : null;
+  async approveInventoryCount(id: string, approvedById: string): Promise<InventoryCountApproval> {
+    const count = assertOpenCount(this.inventoryCounts.get(id));
+    const items = this.countItemsOf(id).sort((a, b) => a.materialId.localeCompare(b.materialId));
+    assertFullyCounted(items);
 
-    const user: User = {
-      id: randomUUID(),
-      email: normalizedEmail,
-      firstName: firstName || trimmedName,
-      lastName,
-      profileImageUrl: null,
-      passwordHash,
-      role: "FUNCIONARIO",
-      createdAt: new Date(),
+    const movements: StockMovement[] = [];
+    for (const item of items) {
+      const current = this.balanceOf(item.materialId, count.locationId);
+      const counted = item.countedQuantity!;
+      if (counted === current) continue;
+
+      movements.push(this.applyStockMovement({
+        materialId: item.materialId,
+        type: "AJUSTE",
+        quantity: counted,
+        userId: approvedById,
+        destinationLocationId: count.locationId,
+        inventoryCountId: count.id,
+        observation: inventoryAdjustmentNote(count.id, counted, current),
+      }));
+    }
+
+    const approved: InventoryCount = {
+      ...count,
+      status: "APROVADA",
+      approvedById,
+      approvedAt: new Date(),
       updatedAt: new Date(),
     };
+    this.inventoryCounts.set(id, approved);
+    return { count: approved, movements };
+  }
 
-    this.users.set(user.id, user);
-    return user;
+  async cancelInventoryCount(id: string, cancelledById: string): Promise<InventoryCount> {
+    const count = assertOpenCount(this.inventoryCounts.get(id));
+    const cancelled: InventoryCount = {
+      ...count,
+      status: "CANCELADA",
+      cancelledById,
+      cancelledAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.inventoryCounts.set(id, cancelled);
+    return cancelled;
   }
 
-  // Material operations
-  async getMaterials(): Promise<Material[]> {
-    return Array.from(this.materials.values()).sort((a, b) => a.name.localeCompare(b.name));
+  // Supplier operations
+  async getSuppliers(): Promise<Supplier[]> {
+    return Array.from(this.suppliers.values()).sort((a, b) => a.name.localeCompare(b.name));
   }
 
-  async getMaterial(id: string): Promise<Material | undefined> {
-    return this.materials.get(id);
+  async getSupplier(id: string): Promise<Supplier | undefined> {
+    return this.suppliers.get(id);
   }
 
-  async createMaterial(material: InsertMaterial): Promise<Material> {
-    const newMaterial: Material = {
-      name: material.name,
-      code: material.code,
-      unit: material.unit,
-      unitPrice: material.unitPrice ?? null,
-      minimumStock: material.minimumStock ?? 0,
-      currentStock: material.currentStock ?? 0,
+  async createSupplier(supplier: InsertSupplier): Promise<Supplier> {
+    assertUniqueSupplierDocument(Array.from(this.suppliers.values()), supplier.document);
+    const newSupplier: Supplier = {
       id: randomUUID(),
+      name: supplier.name,
+      document: supplier.document ?? null,
+      email: supplier.email ?? null,
+      phone: supplier.phone ?? null,
+      contactName: supplier.contactName ?? null,
+      leadTimeDays: supplier.leadTimeDays ?? DEFAULT_LEAD_TIME_DAYS,
+      isActive: supplier.isActive ?? true,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
-    this.materials.set(newMaterial.id, newMaterial);
-    return newMaterial;
+    this.suppliers.set(newSupplier.id, newSupplier);
+    return newSupplier;
   }
 
-  async updateMaterial(id: string, material: Partial<InsertMaterial>): Promise<Material> {
-    const existing = this.materials.get(id);
-    if (!existing) throw new Error("Material not found");
-    
-    const updated: Material = {
+  async updateSupplier(id: string, supplier: Partial<InsertSupplier>): Promise<Supplier> {
+    const existing = this.suppliers.get(id);
+    if (!existing) throw new NotFoundError("Fornecedor não encontrado");
+    assertUniqueSupplierDocument(Array.from(this.suppliers.values()), supplier.document, id);
+
+    const updated: Supplier = {
       ...existing,
-      ...material,
+      ...supplier,
       updatedAt: new Date(),
     };
-    this.materials.set(id, updated);
+    this.suppliers.set(id, updated);
     return updated;
   }
 
-  async deleteMaterial(id: string): Promise<void> {
-    this.materials.delete(id);
+  // Purchase order operations
+  async getPurchaseOrders({ status, supplierId }: PurchaseOrderFilters = {}): Promise<PurchaseOrderSummary[]> {
+    return Array.from(this.purchaseOrders.values())
+      .filter(order => !status || order.status === status)
+      .filter(order => !supplierId || order.supplierId === supplierId)
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0))
+      .map(order => {
+        const items = this.purchaseOrderItemsOf(order.id);
+        return {
+          ...order,
+          supplier: this.supplierSummary(order.supplierId),
+          location: this.locationSummary(order.locationId),
+          itemCount: items.length,
+          totalValue: purchaseOrderTotal(items),
+        };
+      });
   }
 
-  async updateMaterialStock(materialId: string, newStock: number): Promise<void> {
-    const material = this.materials.get(materialId);
-    if (material) {
-      material.currentStock = newStock;
-      material.updatedAt = new Date();
-      this.materials.set(materialId, material);
-    }
+  private purchaseOrderItemsOf(orderId: string): PurchaseOrderItem[] {
+    return Array.from(this.purchaseOrderItems.values())
+      .filter(item => item.purchaseOrderId === orderId)
+      .sort((a, b) => (a.createdAt?.getTime() || 0) - (b.createdAt?.getTime() || 0));
   }
 
-  // Stock movement operations
-  async getStockMovements(materialId?: string): Promise<StockMovement[]> {
-    let movements = Array.from(this.stockMovements.values());
-    if (materialId) {
-      movements = movements.filter(m => m.materialId === materialId);
-    }
-    return movements.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  private supplierSummary(id: string): SupplierSummary | null {
+    const supplier = this.suppliers.get(id);
+    return supplier ? { id: supplier.id, name: supplier.name } : null;
   }
 
-  async createStockMovement(movement: InsertStockMovement): Promise<StockMovement> {
-    const newMovement: StockMovement = {
-      ...movement,
-      id: randomUUID(),
-      unitPrice: movement.unitPrice ?? null,
-      observation: movement.observation ?? null,
-      requisitionId: movement.requisitionId ?? null,
-      createdAt: new Date(),
+  async getPurchaseOrder(id: string): Promise<PurchaseOrderWithDetails | undefined> {
+    const order = this.purchaseOrders.get(id);
+    if (!order) return undefined;
+
+    return {
+      ...order,
+      supplier: this.supplierSummary(order.supplierId),
+      location: this.locationSummary(order.locationId),
+      createdBy: this.userSummary(order.createdById),
+      items: this.purchaseOrderItemsOf(id).map(item => {
+        const material = this.materials.get(item.materialId);
+        return {
+          ...item,
+          material: material ? {
+            id: material.id,
+            name: material.name,
+            code: material.code,
+            unit: material.unit,
+          } : null,
+        };
+      }),
     };
-    this.stockMovements.set(newMovement.id, newMovement);
-    return newMovement;
   }
 
-  // Requisition operations
-  async getRequisitions(employeeId?: string): Promise<Requisition[]> {
-    let reqs = Array.from(this.requisitions.values());
-    if (employeeId) {
-      reqs = reqs.filter(r => r.employeeId === employeeId);
+  private assertPurchaseOrderReferences(order: Partial<InsertPurchaseOrder>, items?: InsertPurchaseOrderItem[]): void {
+    if (order.supplierId) {
+      assertActiveSupplier(this.suppliers.get(order.supplierId));
+    }
+    if (order.locationId) {
+      assertUsableLocations({ sourceLocationId: null, destinationLocationId: order.locationId }, id => this.locations.get(id));
+    }
+    if (items?.some(item => !this.materials.has(item.materialId))) {
+      throw new NotFoundError("Material não encontrado");
     }
-    return reqs.sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
   }
 
-  async getEmployeeRequisitionsWithDetails(employeeId: string): Promise<EmployeeRequisitionDetails[]> {
-    const reqs = Array.from(this.requisitions.values())
-      .filter(r => r.employeeId === employeeId);
-    
-    return reqs.map(req => {
-      const material = this.materials.get(req.materialId);
-      const createdBy = this.users.get(req.createdById);
-      
-      return {
-        ...req,
-        material: material ? {
-          id: material.id,
-          name: material.name,
-          code: material.code,
-          unit: material.unit,
-        } : { id: req.materialId, name: 'Unknown', code: 'UNK', unit: 'un' },
-        createdBy: createdBy ? {
-          id: createdBy.id,
-          firstName: createdBy.firstName,
-          lastName: createdBy.lastName,
-          email: createdBy.email,
-        } : null,
+  private replacePurchaseOrderItems(orderId: string, items: InsertPurchaseOrderItem[]): PurchaseOrderItem[] {
+    for (const item of this.purchaseOrderItemsOf(orderId)) {
+      this.purchaseOrderItems.delete(item.id);
+    }
+    return items.map(item => {
+      const newItem: PurchaseOrderItem = {
+        id: randomUUID(),
+        purchaseOrderId: orderId,
+        materialId: item.materialId,
+        quantity: item.quantity,
+        unitPrice: item.unitPrice,
+        receivedQuantity: 0,
+        createdAt: new Date(),
       };
-    }).sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+      this.purchaseOrderItems.set(newItem.id, newItem);
+      return newItem;
+    });
   }
 
-  async createRequisition(requisition: InsertRequisition): Promise<Requisition> {
-    const newRequisition: Requisition = {
-      ...requisition,
+  async createPurchaseOrder(
+    order: InsertPurchaseOrder,
+    items: InsertPurchaseOrderItem[],
+  ): Promise<PurchaseOrderWithItems> {
+    this.assertPurchaseOrderReferences(order, items);
+
+    const newOrder: PurchaseOrder = {
       id: randomUUID(),
-      observation: requisition.observation ?? null,
-      status: requisition.status ?? "PENDENTE",
-      signedAt: null,
-      signedByDevice: null,
-      signedByIp: null,
+      supplierId: order.supplierId,
+      status: "RASCUNHO",
+      locationId: order.locationId ?? this.defaultLocationId(),
+      observation: order.observation ?? null,
+      createdById: order.createdById,
+      sentAt: null,
+      receivedAt: null,
+      cancelledById: null,
+      cancelledAt: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     };
-    this.requisitions.set(newRequisition.id, newRequisition);
-    return newRequisition;
+    this.purchaseOrders.set(newOrder.id, newOrder);
+    return { ...newOrder, items: this.replacePurchaseOrderItems(newOrder.id, items) };
   }
 
-  async updateRequisition(id: string, requisition: Partial<InsertRequisition>): Promise<Requisition> {
-    const existing = this.requisitions.get(id);
-    if (!existing) throw new Error("Requisition not found");
-    
-    const updated: Requisition = {
+  async createPurchaseOrders(orders: NewPurchaseOrder[], audit: AuditContext): Promise<PurchaseOrderWithItems[]> {
+    // Check every order first, so a bad one leaves nothing behind
+    for (const { order, items } of orders) {
+      this.assertPurchaseOrderReferences(order, items);
+    }
+
+    const created: PurchaseOrderWithItems[] = [];
+    for (const { order, items } of orders) {
+      const newOrder = await this.createPurchaseOrder(order, items);
+      await this.createAuditLog({
+        ...audit,
+        action: "CREATE",
+        entityType: "PURCHASE_ORDER",
+        entityId: newOrder.id,
+        changes: { after: { ...order, items } },
+      });
+      created.push(newOrder);
+    }
+    return created;
+  }
+
+  async updatePurchaseOrder(
+    id: string,
+    order: Partial<InsertPurchaseOrder>,
+    items?: InsertPurchaseOrderItem[],
+  ): Promise<PurchaseOrderWithItems> {
+    const existing = assertPurchaseOrderStatus(this.purchaseOrders.get(id), ["RASCUNHO"], "editado");
+    this.assertPurchaseOrderReferences(order, items);
+
+    const updated: PurchaseOrder = {
       ...existing,
-      ...requisition,
+      ...order,
       updatedAt: new Date(),
     };
-    this.requisitions.set(id, updated);
-    return updated;
+    this.purchaseOrders.set(id, updated);
+    const savedItems = items ? this.replacePurchaseOrderItems(id, items) : this.purchaseOrderItemsOf(id);
+    return { ...updated, items: savedItems };
+  }
+
+  async sendPurchaseOrder(id: string): Promise<PurchaseOrder> {
+    const order = assertPurchaseOrderStatus(this.purchaseOrders.get(id), ["RASCUNHO"], "enviado");
+    const sent: PurchaseOrder = {
+      ...order,
+      status: "ENVIADO",
+      sentAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.purchaseOrders.set(id, sent);
+    return sent;
+  }
+
+  async cancelPurchaseOrder(id: string, cancelledById: string): Promise<PurchaseOrder> {
+    const order = assertPurchaseOrderStatus(this.purchaseOrders.get(id), ["RASCUNHO", "ENVIADO"], "cancelado");
+    const cancelled: PurchaseOrder = {
+      ...order,
+      status: "CANCELADO",
+      cancelledById,
+      cancelledAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.purchaseOrders.set(id, cancelled);
+    return cancelled;
   }
 
-  async signRequisition(
+  async receivePurchaseOrder(
     id: string,
-    signedByDevice?: string,
-    signedByIp?: string,
-    signerId?: string,
-  ): Promise<Requisition> {
-    const existing = this.requisitions.get(id);
-    if (!existing) throw new Error("Requisition not found");
-    
-    const signed: Requisition = {
-      ...existing,
-      status: "ASSINADA",
-      signedAt: new Date(),
-      signedByDevice: signedByDevice ?? null,
-      signedByIp: signedByIp ?? null,
+    { items: entries, invoiceNumber, observation, receivedById }: ReceivePurchaseOrderParams,
+  ): Promise<PurchaseOrderReceipt> {
+    const order = assertPurchaseOrderStatus(this.purchaseOrders.get(id), ["ENVIADO", "PARCIALMENTE_RECEBIDO"], "recebido");
+    const plan = planPurchaseReceipt(this.purchaseOrderItemsOf(id), entries);
+
+    // Every line is checked before any stock moves, so a rejected line
+    // leaves the whole receipt unapplied.
+    for (const { item, entry } of plan.lines) {
+      const material = this.materials.get(item.materialId);
+      if (!material) throw new NotFoundError("Material não encontrado");
+      if (entry.lotNumber) {
+        planLotMovement(
+          { type: "ENTRADA", quantity: entry.quantity, lotNumber: entry.lotNumber, expiresAt: entry.expiresAt },
+          [],
+          Array.from(this.stockLots.values())
+            .filter(lot => lot.materialId === item.materialId && lot.locationId === order.locationId),
+          0,
+        );
+      }
+    }
+
+    const movements = plan.lines.map(({ item, entry }) => this.applyStockMovement({
+      materialId: item.materialId,
+      type: "ENTRADA",
+      quantity: entry.quantity,
+      unitPrice: item.unitPrice,
+      invoiceNumber,
+      lotNumber: entry.lotNumber,
+      expiresAt: entry.expiresAt,
+      userId: receivedById,
+      destinationLocationId: order.locationId,
+      purchaseOrderId: order.id,
+      observation: purchaseReceiptNote(order.id, observation),
+    }));
+    for (const item of plan.items) {
+      this.purchaseOrderItems.set(item.id, item);
+    }
+
+    const received: PurchaseOrder = {
+      ...order,
+      status: plan.status,
+      receivedAt: plan.status === "RECEBIDO" ? new Date() : null,
       updatedAt: new Date(),
     };
-    this.requisitions.set(id, signed);
-    return signed;
+    this.purchaseOrders.set(id, received);
+    return { order: received, movements };
+  }
+
+  // Replenishment operations
+  async getReplenishmentSuggestions(params: ReplenishmentParams): Promise<ReplenishmentReport> {
+    const since = Date.now() - params.days * 86_400_000;
+    const recent = Array.from(this.stockMovements.values())
+      .filter(movement => (movement.createdAt?.getTime() ?? 0) >= since);
+    const openItems = Array.from(this.purchaseOrderItems.values())
+      .filter(item => OPEN_PURCHASE_ORDER_STATUSES.includes(this.purchaseOrders.get(item.purchaseOrderId)!.status));
+    const pricedItems = Array.from(this.purchaseOrderItems.values())
+      .filter(item => this.purchaseOrders.get(item.purchaseOrderId)!.status !== "CANCELADO")
+      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+
+    const inputs = Array.from(this.materials.values())
+      .sort((a, b) => a.name.localeCompare(b.name))
+      .map(material => {
+        const lastPrice = pricedItems.find(item => item.materialId === material.id);
+        return {
+          material,
+          supplier: material.supplierId ? this.suppliers.get(material.supplierId) ?? null : null,
+          consumed: recent
+            .filter(movement => movement.materialId === material.id)
+            .reduce((sum, movement) => {
+              if (movement.type === "SAIDA") return sum + movement.quantity;
+              if (movement.type === "ENTRADA" && movement.requisitionId) return sum - movement.quantity;
+              return sum;
+            }, 0),
+          onOrder: openItems
+            .filter(item => item.materialId === material.id)
+            .reduce((sum, item) => sum + item.quantity - item.receivedQuantity, 0),
+          lastPurchasePrice: lastPrice ? Number(lastPrice.unitPrice) : null,
+        };
+      });
+
+    return { ...params, generatedAt: new Date(), suggestions: buildReplenishmentSuggestions(inputs, params) };
+  }
+
+  // Alert operations
+  async getAlerts({ resolved = false, type }: AlertFilters = {}): Promise<AlertWithDetails[]> {
+    const statusOrder: Alert["status"][] = ["ABERTO", "RECONHECIDO", "RESOLVIDO"];
+    const matching = Array.from(this.alerts.values())
+      .filter(alert => (alert.status === "RESOLVIDO") === resolved)
+      .filter(alert => !type || alert.type === type)
+      .sort((a, b) => resolved
+        ? (b.resolvedAt?.getTime() || 0) - (a.resolvedAt?.getTime() || 0)
+        : statusOrder.indexOf(a.status) - statusOrder.indexOf(b.status)
+          || (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+
+    return (resolved ? matching.slice(0, RESOLVED_ALERTS_LIMIT) : matching).map(alert => ({
+      ...alert,
+      acknowledgedBy: alert.acknowledgedById ? this.userSummary(alert.acknowledgedById) : null,
+      resolvedBy: alert.resolvedById ? this.userSummary(alert.resolvedById) : null,
+    }));
+  }
+
+  async syncAlerts(candidates: AlertCandidate[]): Promise<AlertSyncResult> {
+    const active = Array.from(this.alerts.values()).filter(alert => alert.conditionActive);
+    const { raise, clear } = planAlertSync(active, candidates);
+
+    const created = raise.map(candidate => {
+      const alert: Alert = {
+        ...candidate,
+        id: randomUUID(),
+        status: "ABERTO",
+        conditionActive: true,
+        acknowledgedById: null,
+        acknowledgedAt: null,
+        resolvedById: null,
+        resolvedAt: null,
+        createdAt: new Date(),
+      };
+      this.alerts.set(alert.id, alert);
+      return alert;
+    });
+
+    const resolved: Alert[] = [];
+    for (const alert of clear) {
+      const cleared: Alert = {
+        ...alert,
+        conditionActive: false,
+        status: "RESOLVIDO",
+        resolvedAt: alert.resolvedAt ?? new Date(),
+      };
+      this.alerts.set(alert.id, cleared);
+      if (alert.status !== "RESOLVIDO") resolved.push(cleared);
+    }
+
+    return { created, resolved };
+  }
+
+  async acknowledgeAlert(id: string, userId: string): Promise<Alert> {
+    const alert = assertAlertStatus(this.alerts.get(id), ["ABERTO"], "reconhecido");
+    const acknowledged: Alert = {
+      ...alert,
+      status: "RECONHECIDO",
+      acknowledgedById: userId,
+      acknowledgedAt: new Date(),
+    };
+    this.alerts.set(id, acknowledged);
+    return acknowledged;
+  }
+
+  async resolveAlert(id: string, userId: string): Promise<Alert> {
+    const alert = assertAlertStatus(this.alerts.get(id), ["ABERTO", "RECONHECIDO"], "resolvido");
+    const resolved: Alert = {
+      ...alert,
+      status: "RESOLVIDO",
+      resolvedById: userId,
+      resolvedAt: new Date(),
+    };
+    this.alerts.set(id, resolved);
+    return resolved;
+  }
+
+  // Notification preference operations
+  async getNotificationPreferences(userId: string): Promise<NotificationPreferences> {
+    return this.notificationPreferences.get(userId) ?? defaultNotificationPreferences(userId);
+  }
+
+  async updateNotificationPreferences(
+    userId: string,
+    changes: UpdateNotificationPreferences,
+  ): Promise<NotificationPreferences> {
+    const preferences: NotificationPreferences = {
+      ...(await this.getNotificationPreferences(userId)),
+      ...changes,
+      updatedAt: new Date(),
+    };
+    this.notificationPreferences.set(userId, preferences);
+    return preferences;
+  }
+
+  async getNotificationRecipients(preference: NotificationPreference): Promise<User[]> {
+    return Array.from(this.notificationPreferences.values())
+      .filter(preferences => preferences[preference])
+      .map(preferences => this.users.get(preferences.userId))
+      .filter((user): user is User => Boolean(user?.isActive && user.email));
   }
 
   // Dashboard operations
-  async getDashboardStats(startDate?: Date, endDate?: Date): Promise<any> {
+  async getDashboardStats(startDate?: Date, endDate?: Date, locationId?: string): Promise<DashboardStats> {
     let movements = Array.from(this.stockMovements.values());
     
     if (startDate && endDate) {
@@ -597,27 +4518,130 @@ export class InMemoryStorage implements IStorage {
         m.createdAt && startDate && endDate && m.createdAt >= startDate && m.createdAt <= endDate
       );
     }
+    if (locationId) {
+      movements = movements.filter(m => m.sourceLocationId === locationId || m.destinationLocationId === locationId);
+    }
+    // Per location, transfers count as stock coming in or going out
+    const isIncoming = (m: StockMovement) => locationId
+      ? (m.type === "ENTRADA" || m.type === "TRANSFERENCIA") && m.destinationLocationId === locationId
+      : m.type === "ENTRADA";
+    const isOutgoing = (m: StockMovement) => locationId
+      ? (m.type === "SAIDA" || m.type === "TRANSFERENCIA") && m.sourceLocationId === locationId
+      : m.type === "SAIDA";
+    const requisitionsAt = Array.from(this.requisitions.values())
+      .filter(r => !locationId || r.locationId === locationId);
+
+    const allMaterials = Array.from(this.materials.values()).map(m => this.stockAt(m, locationId));
+    const lowStockMaterials = allMaterials.filter(m => m.currentStock <= m.minimumStock).length;
+    const zeroStockMaterials = allMaterials.filter(m => m.currentStock === 0).length;
+    const totalStockValue = allMaterials
+      .reduce((sum, m) => sum + m.currentStock * Number(m.averageCost), 0);
+    const pendingRequisitions = requisitionsAt.filter(r => r.status === "PENDENTE").length;
+    const today = startOfToday();
+    const requisitionsToday = requisitionsAt.filter(r => r.createdAt && r.createdAt >= today).length;
+
+    const bucket = dashboardBucket(startDate, endDate);
+    const periods = new Map<string, { period: string; entradas: number; saidas: number }>();
+    const consumed = new Map<string, number>();
+    for (const movement of movements) {
+      const date = movement.createdAt ?? new Date();
+      const month = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}`;
+      const period = bucket === "day" ? `${month}-${String(date.getDate()).padStart(2, "0")}` : month;
+      const entry = periods.get(period) ?? { period, entradas: 0, saidas: 0 };
+      if (isIncoming(movement)) entry.entradas += movement.quantity;
+      if (isOutgoing(movement)) entry.saidas += movement.quantity;
+      if (movement.type === "SAIDA" && (!locationId || movement.sourceLocationId === locationId)) {
+        consumed.set(movement.materialId, (consumed.get(movement.materialId) ?? 0) + movement.quantity);
+      }
+      periods.set(period, entry);
+    }
 
-    const totalMaterials = this.materials.size;
-    const lowStockMaterials = Array.from(this.materials.values())
-      .filter(m => m.currentStock <= m.minimumStock).length;
-    const pendingRequisitions = Array.from(this.requisitions.values())
-      .filter(r => r.status === "PENDENTE").length;
+    const topMaterials = Array.from(consumed.entries())
+      .sort(([, a], [, b]) => b - a)
+      .slice(0, DASHBOARD_TOP_MATERIALS)
+      .map(([materialId, quantity]) => {
+        const material = this.materials.get(materialId);
+        return { materialId, name: material?.name ?? "", code: material?.code ?? "", quantity };
+      });
 
     return {
-      totalMaterials,
+      totalMaterials: this.materials.size,
       lowStockMaterials,
+      zeroStockMaterials,
       pendingRequisitions,
+      requisitionsToday,
       totalMovements: movements.length,
+      totalStockValue,
+      movementsByPeriod: Array.from(periods.values()).sort((a, b) => a.period.localeCompare(b.period)),
+      topMaterials,
     };
   }
 
-  async getMaterialsWithLowStock(): Promise<Material[]> {
+  async getMaterialsWithLowStock(locationId?: string): Promise<Material[]> {
     return Array.from(this.materials.values())
+      .map(m => this.stockAt(m, locationId))
       .filter(m => m.currentStock <= m.minimumStock)
       .sort((a, b) => a.name.localeCompare(b.name));
   }
 
+  async getExpiringLots({ days, locationId }: ExpiringLotFilters): Promise<StockLotWithDetails[]> {
+    const cutoff = expiryCutoff(days);
+    return Array.from(this.stockLots.values())
+      .filter(lot => lot.quantity > 0 && lot.expiresAt !== null && lot.expiresAt <= cutoff)
+      .filter(lot => !locationId || lot.locationId === locationId)
+      .sort((a, b) => a.expiresAt!.localeCompare(b.expiresAt!))
+      .map(lot => {
+        const material = this.materials.get(lot.materialId);
+        return {
+          ...lot,
+          material: material ? {
+            id: material.id,
+            name: material.name,
+            code: material.code,
+            unit: material.unit,
+          } : null,
+          location: this.locationSummary(lot.locationId),
+        };
+      });
+  }
+
+  // Report operations
+  async getStockValuation(at: Date): Promise<StockValuation> {
+    const latest = new Map<string, StockMovement>();
+    // Insertion order is chronological, so later movements overwrite earlier ones
+    const upToAt = Array.from(this.stockMovements.values())
+      .filter(movement => movement.createdAt && movement.createdAt <= at);
+    for (const movement of upToAt) latest.set(movement.materialId, movement);
+    return buildValuation(at, Array.from(this.materials.values()), Array.from(latest.values()), upToAt);
+  }
+
+  async getConsumptionReport(params: ConsumptionReportParams): Promise<ConsumptionReport> {
+    const movements = Array.from(this.stockMovements.values())
+      .filter(movement => movement.type === "SAIDA" || (movement.type === "ENTRADA" && movement.requisitionId))
+      .filter(movement => movement.createdAt && movement.createdAt >= params.from && movement.createdAt <= params.to)
+      .map(movement => {
+        const material = this.materials.get(movement.materialId);
+        const requisition = movement.requisitionId ? this.requisitions.get(movement.requisitionId) : undefined;
+        return {
+          type: movement.type,
+          quantity: movement.quantity,
+          unitCost: movement.unitPrice ?? material?.averageCost ?? null,
+          requisitionId: movement.requisitionId,
+          createdAt: movement.createdAt,
+          material: material ? {
+            id: material.id,
+            name: material.name,
+            code: material.code,
+            unit: material.unit,
+          } : null,
+          employee: requisition ? this.userSummary(requisition.employeeId) : null,
+          costCenter: this.costCenterSummary(requisition?.costCenterId ?? null),
+        };
+      });
+
+    return buildConsumptionReport(params, movements);
+  }
+
   // Audit operations
   async createAuditLog(log: InsertAuditLog): Promise<AuditLog> {
     const newLog: AuditLog = {
@@ -632,9 +4656,40 @@ export class InMemoryStorage implements IStorage {
     return newLog;
   }
 
-  async getAuditLogs(): Promise<AuditLog[]> {
-    return Array.from(this.auditLogs.values())
-      .sort((a, b) => (b.createdAt?.getTime() || 0) - (a.createdAt?.getTime() || 0));
+  async getAuditLogs(filters: AuditLogFilters = {}): Promise<AuditLogPage> {
+    const limit = filters.limit ?? DEFAULT_AUDIT_PAGE_SIZE;
+    const cursor = filters.cursor ? decodeAuditCursor(filters.cursor) : undefined;
+    const time = (log: AuditLog) => log.createdAt?.getTime() || 0;
+
+    const rows = Array.from(this.auditLogs.values())
+      .filter(log => !filters.userId || log.userId === filters.userId)
+      .filter(log => !filters.action || log.action === filters.action)
+      .filter(log => !filters.entityType || log.entityType === filters.entityType)
+      .filter(log => !filters.entityId || log.entityId === filters.entityId)
+      .filter(log => !filters.from || time(log) >= filters.from.getTime())
+      .filter(log => !filters.to || time(log) <= filters.to.getTime())
+      .filter(log => !cursor
+        || time(log) < cursor.createdAt.getTime()
+        || (time(log) === cursor.createdAt.getTime() && log.id < cursor.id))
+      .sort((a, b) => time(b) - time(a) || b.id.localeCompare(a.id));
+
+    const items = rows.slice(0, limit).map(log => {
+      const user = this.users.get(log.userId);
+      return {
+        ...log,
+        user: user ? {
+          id: user.id,
+          firstName: user.firstName,
+          lastName: user.lastName,
+          email: user.email,
+        } : null,
+      };
+    });
+
+    return {
+      items,
+      nextCursor: rows.length > limit ? encodeAuditCursor(items[items.length - 1]) : null,
+    };
   }
 }
 
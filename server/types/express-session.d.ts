@@ -3,5 +3,7 @@ import "express-session";
 declare module "express-session" {
   interface SessionData {
     employeeUserId?: string;
+    // Written by passport for Replit-authenticated staff
+    passport?: { user?: { claims?: { sub?: string }; expires_at?: number } };
   }
 }
@@ -0,0 +1,214 @@
+import type { Writable } from "stream";
+import { ZipWriter, ZipReader } from "./zip";
+
+export type XlsxCell = string | number | Date | null | undefined;
+
+export type XlsxColumn = {
+  header: string;
+  // In characters, as Excel measures column widths
+  width?: number;
+  format?: "text" | "integer" | "decimal" | "datetime";
+};
+
+export type XlsxSheet = {
+  name: string;
+  columns: XlsxColumn[];
+  rows: Iterable<XlsxCell[]> | AsyncIterable<XlsxCell[]>;
+};
+
+// cellXfs indexes in STYLES_XML
+const STYLE = { header: 1, integer: 2, decimal: 3, datetime: 4 } as const;
+
+const CONTENT_TYPES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/><Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/></Types>`;
+
+const ROOT_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`;
+
+const WORKBOOK_RELS_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/><Relationship Id="rId2" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/></Relationships>`;
+
+const STYLES_XML = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<styleSheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><numFmts count="1"><numFmt numFmtId="164" formatCode="dd/mm/yyyy hh:mm"/></numFmts><fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts><fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills><borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders><cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs><cellXfs count="5"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/><xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/><xf numFmtId="3" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="4" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/><xf numFmtId="164" fontId="0" fillId="0" borderId="0" xfId="0" applyNumberFormat="1"/></cellXfs></styleSheet>`;
+
+// Row chunks are handed to the deflater in batches of about this many bytes
+const WRITE_BATCH_SIZE = 64 * 1024;
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/[\x00-\x08\x0b\x0c\x0e-\x1f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+// Sheet names are limited to 31 characters and cannot contain []:*?/\
+function sheetName(name: string): string {
+  return name.replace(/[\[\]:*?/\\]/g, " ").slice(0, 31) || "Planilha1";
+}
+
+function columnLetter(index: number): string {
+  let letters = "";
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letters = String.fromCharCode(65 + ((n - 1) % 26)) + letters;
+  }
+  return letters;
+}
+
+// Excel stores dates as days since 1899-12-30 in local time
+function excelSerial(date: Date): number {
+  return (date.getTime() - date.getTimezoneOffset() * 60 * 1000) / 86400000 + 25569;
+}
+
+function cellXml(ref: string, value: XlsxCell, column: XlsxColumn): string {
+  if (value === null || value === undefined || value === "") return "";
+
+  if (value instanceof Date) {
+    return `<c r="${ref}" s="${STYLE.datetime}"><v>${excelSerial(value)}</v></c>`;
+  }
+
+  const numeric = typeof value === "number" ? value : column.format && column.format !== "text" ? Number(value) : NaN;
+  if (Number.isFinite(numeric) && column.format !== "text") {
+    const style = column.format === "integer" ? STYLE.integer : column.format === "decimal" ? STYLE.decimal : 0;
+    return `<c r="${ref}"${style ? ` s="${style}"` : ""}><v>${numeric}</v></c>`;
+  }
+
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(value))}</t></is></c>`;
+}
+
+// Writes a single-sheet workbook to `out` as rows arrive, without holding the
+// whole sheet in memory. Strings are stored inline, so there is no shared
+// string table to build first. The caller ends `out`.
+export async function writeXlsx(out: Writable, sheet: XlsxSheet) {
+  const zip = new ZipWriter(out);
+  const { columns } = sheet;
+
+  await zip.addFile("[Content_Types].xml", CONTENT_TYPES_XML);
+  await zip.addFile("_rels/.rels", ROOT_RELS_XML);
+  await zip.addFile("xl/workbook.xml", `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName(sheet.name))}" sheetId="1" r:id="rId1"/></sheets></workbook>`);
+  await zip.addFile("xl/_rels/workbook.xml.rels", WORKBOOK_RELS_XML);
+  await zip.addFile("xl/styles.xml", STYLES_XML);
+
+  const entry = await zip.begin("xl/worksheets/sheet1.xml");
+  const cols = columns
+    .map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width ?? 14}" customWidth="1"/>`)
+    .join("");
+  const header = columns
+    .map((column, index) => `<c r="${columnLetter(index)}1" s="${STYLE.header}" t="inlineStr"><is><t>${escapeXml(column.header)}</t></is></c>`)
+    .join("");
+
+  // Header row frozen so it stays visible while scrolling
+  let batch = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews><cols>${cols}</cols><sheetData><row r="1">${header}</row>`;
+
+  let rowNumber = 1;
+  for await (const row of sheet.rows) {
+    rowNumber++;
+    const cells = columns.map((column, index) => cellXml(`${columnLetter(index)}${rowNumber}`, row[index], column)).join("");
+    batch += `<row r="${rowNumber}">${cells}</row>`;
+    if (batch.length >= WRITE_BATCH_SIZE) {
+      await entry.write(batch);
+      batch = "";
+    }
+  }
+
+  await entry.write(`${batch}</sheetData></worksheet>`);
+  await entry.end();
+  await zip.finish();
+}
+
+function unescapeXml(value: string): string {
+  return value.replace(/&(#x[0-9a-f]+|#\d+|lt|gt|amp|quot|apos);/gi, (entity, code: string) => {
+    switch (code.toLowerCase()) {
+      case "lt": return "<";
+      case "gt": return ">";
+      case "amp": return "&";
+      case "quot": return '"';
+      case "apos": return "'";
+    }
+    const point = code[1] === "x" || code[1] === "X" ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+    return Number.isFinite(point) ? String.fromCodePoint(point) : entity;
+  });
+}
+
+// Concatenated <t> runs of a string item, leaving out phonetic hints
+function itemText(xml: string): string {
+  const text = xml.replace(/<(?:\w+:)?rPh\b[\s\S]*?<\/(?:\w+:)?rPh>/g, "");
+  return Array.from(text.matchAll(/<(?:\w+:)?t\b[^>]*>([\s\S]*?)<\/(?:\w+:)?t>/g))
+    .map((match) => unescapeXml(match[1]))
+    .join("");
+}
+
+function attribute(attributes: string, name: string): string | undefined {
+  return new RegExp(`\\b${name}="([^"]*)"`).exec(attributes)?.[1];
+}
+
+function columnIndex(ref: string): number {
+  let index = 0;
+  for (const letter of ref.replace(/\d+$/, "").toUpperCase()) {
+    index = index * 26 + letter.charCodeAt(0) - 64;
+  }
+  return index - 1;
+}
+
+// Largest workbook part readXlsx inflates; far above any sheet of materials
+const MAX_PART_SIZE = 64 * 1024 * 1024;
+
+// Path of the workbook's first sheet, as listed in workbook.xml
+function firstSheetPath(zip: ZipReader): string {
+  const workbook = zip.read("xl/workbook.xml")?.toString("utf8");
+  const rels = zip.read("xl/_rels/workbook.xml.rels")?.toString("utf8");
+  const sheet = workbook && /<(?:\w+:)?sheet\b([^>]*)\/?>/.exec(workbook);
+  const relationId = sheet && attribute(sheet[1], "r:id");
+  const relation = rels && relationId
+    ? Array.from(rels.matchAll(/<Relationship\b([^>]*)\/?>/g)).find((match) => attribute(match[1], "Id") === relationId)
+    : undefined;
+  const target = relation && attribute(relation[1], "Target");
+  if (!target) {
+    throw new Error("Workbook has no worksheet");
+  }
+  return target.startsWith("/") ? target.slice(1) : `xl/${target}`;
+}
+
+// Reads the first sheet of an uploaded workbook into rows of cell text, one
+// array per spreadsheet row (row 1 at index 0) and one string per column,
+// empty where the sheet has no value. Numbers keep Excel's stored form
+// (e.g. "12.5"); formulas yield their cached result.
+export function readXlsx(file: Buffer): string[][] {
+  const zip = new ZipReader(file, MAX_PART_SIZE);
+  const sheetXml = zip.read(firstSheetPath(zip))?.toString("utf8");
+  if (!sheetXml) {
+    throw new Error("Worksheet not found in workbook");
+  }
+
+  const sharedXml = zip.read("xl/sharedStrings.xml")?.toString("utf8") ?? "";
+  const shared = Array.from(sharedXml.matchAll(/<(?:\w+:)?si\b[^>]*>([\s\S]*?)<\/(?:\w+:)?si>/g))
+    .map((match) => itemText(match[1]));
+
+  const rows: string[][] = [];
+  const rowPattern = /<(?:\w+:)?row\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?row>)/g;
+  const cellPattern = /<(?:\w+:)?c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/(?:\w+:)?c>)/g;
+  for (const [, rowAttributes, rowXml = ""] of sheetXml.matchAll(rowPattern)) {
+    const rowNumber = Number(attribute(rowAttributes, "r")) || rows.length + 1;
+    const cells: string[] = [];
+    for (const [, cellAttributes, cellXml = ""] of rowXml.matchAll(cellPattern)) {
+      const ref = attribute(cellAttributes, "r");
+      const index = ref ? columnIndex(ref) : cells.length;
+      const type = attribute(cellAttributes, "t");
+      const value = /<(?:\w+:)?v>([\s\S]*?)<\/(?:\w+:)?v>/.exec(cellXml)?.[1];
+
+      let text = "";
+      if (type === "inlineStr") text = itemText(cellXml);
+      else if (type === "s") text = shared[Number(value)] ?? "";
+      else if (value !== undefined) text = unescapeXml(value);
+
+      while (cells.length < index) cells.push("");
+      cells[index] = text;
+    }
+    while (rows.length < rowNumber - 1) rows.push([]);
+    rows[rowNumber - 1] = cells;
+  }
+  return rows;
+}
@@ -0,0 +1,200 @@
+import zlib from "zlib";
+import { once } from "events";
+import type { Writable } from "stream";
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) {
+      c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    }
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export function crc32(data: Buffer, previous = 0): number {
+  let crc = previous ^ 0xffffffff;
+  for (let i = 0; i < data.length; i++) {
+    crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+  }
+  return (crc ^ 0xffffffff) >>> 0;
+}
+
+type CentralEntry = {
+  name: Buffer;
+  crc: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+};
+
+// Writes a ZIP archive straight to `out`, one deflated entry at a time.
+// Sizes and CRCs follow each entry in a data descriptor, so entries can be
+// streamed without knowing their length up front. No ZIP64: entries and the
+// archive must stay under 4 GB.
+export class ZipWriter {
+  private offset = 0;
+  private entries: CentralEntry[] = [];
+
+  constructor(private readonly out: Writable) {}
+
+  private async emit(chunk: Buffer) {
+    this.offset += chunk.length;
+    if (!this.out.write(chunk)) {
+      await once(this.out, "drain");
+    }
+  }
+
+  // Starts an entry; write its content through the returned writer, then end it
+  async begin(fileName: string) {
+    const name = Buffer.from(fileName, "utf8");
+    const offset = this.offset;
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(20, 4); // version needed
+    header.writeUInt16LE(0x0808, 6); // data descriptor follows, UTF-8 names
+    header.writeUInt16LE(8, 8); // deflate
+    header.writeUInt32LE(0, 10); // DOS time/date left at zero
+    header.writeUInt16LE(name.length, 26);
+    await this.emit(Buffer.concat([header, name]));
+
+    const deflate = zlib.createDeflateRaw();
+    let crc = 0;
+    let size = 0;
+    let compressedSize = 0;
+    const compressed: Buffer[] = [];
+    deflate.on("data", (chunk: Buffer) => compressed.push(chunk));
+
+    const flush = async () => {
+      for (const chunk of compressed.splice(0)) {
+        compressedSize += chunk.length;
+        await this.emit(chunk);
+      }
+    };
+
+    return {
+      write: async (content: string | Buffer) => {
+        const data = typeof content === "string" ? Buffer.from(content, "utf8") : content;
+        crc = crc32(data, crc);
+        size += data.length;
+        if (!deflate.write(data)) {
+          await once(deflate, "drain");
+        }
+        await flush();
+      },
+      end: async () => {
+        const finished = once(deflate, "end");
+        deflate.end();
+        await finished;
+        await flush();
+
+        const descriptor = Buffer.alloc(16);
+        descriptor.writeUInt32LE(0x08074b50, 0);
+        descriptor.writeUInt32LE(crc, 4);
+        descriptor.writeUInt32LE(compressedSize, 8);
+        descriptor.writeUInt32LE(size, 12);
+        await this.emit(descriptor);
+        this.entries.push({ name, crc, compressedSize, size, offset });
+      },
+    };
+  }
+
+  async addFile(fileName: string, content: string | Buffer) {
+    const entry = await this.begin(fileName);
+    await entry.write(content);
+    await entry.end();
+  }
+
+  // Writes the central directory; the caller ends `out`
+  async finish() {
+    const directoryOffset = this.offset;
+    for (const entry of this.entries) {
+      const record = Buffer.alloc(46);
+      record.writeUInt32LE(0x02014b50, 0);
+      record.writeUInt16LE(20, 4); // version made by
+      record.writeUInt16LE(20, 6); // version needed
+      record.writeUInt16LE(0x0808, 8);
+      record.writeUInt16LE(8, 10);
+      record.writeUInt32LE(entry.crc, 16);
+      record.writeUInt32LE(entry.compressedSize, 20);
+      record.writeUInt32LE(entry.size, 24);
+      record.writeUInt16LE(entry.name.length, 28);
+      record.writeUInt32LE(entry.offset, 42);
+      await this.emit(Buffer.concat([record, entry.name]));
+    }
+
+    const end = Buffer.alloc(22);
+    end.writeUInt32LE(0x06054b50, 0);
+    end.writeUInt16LE(this.entries.length, 8);
+    end.writeUInt16LE(this.entries.length, 10);
+    end.writeUInt32LE(this.offset - directoryOffset, 12);
+    end.writeUInt32LE(directoryOffset, 16);
+    await this.emit(end);
+  }
+}
+
+type ZipEntry = {
+  method: number;
+  compressedSize: number;
+  // Uncompressed size as declared in the central directory
+  size: number;
+  dataStart: number;
+};
+
+// Reads entries of an in-memory ZIP archive (as uploaded) by name. Entries
+// are only inflated when read and never past `maxEntrySize`, so a small
+// upload cannot expand into gigabytes.
+export class ZipReader {
+  private readonly entries = new Map<string, ZipEntry>();
+
+  constructor(
+    private readonly archive: Buffer,
+    private readonly maxEntrySize: number,
+  ) {
+    const endOffset = archive.lastIndexOf(Buffer.from([0x50, 0x4b, 0x05, 0x06]));
+    if (endOffset < 0) {
+      throw new Error("Not a ZIP archive");
+    }
+
+    const count = archive.readUInt16LE(endOffset + 10);
+    let position = archive.readUInt32LE(endOffset + 16);
+
+    for (let i = 0; i < count; i++) {
+      if (archive.readUInt32LE(position) !== 0x02014b50) {
+        throw new Error("Corrupt ZIP central directory");
+      }
+      const method = archive.readUInt16LE(position + 10);
+      const compressedSize = archive.readUInt32LE(position + 20);
+      const size = archive.readUInt32LE(position + 24);
+      const nameLength = archive.readUInt16LE(position + 28);
+      const extraLength = archive.readUInt16LE(position + 30);
+      const commentLength = archive.readUInt16LE(position + 32);
+      const localOffset = archive.readUInt32LE(position + 42);
+      const name = archive.toString("utf8", position + 46, position + 46 + nameLength);
+
+      const localNameLength = archive.readUInt16LE(localOffset + 26);
+      const localExtraLength = archive.readUInt16LE(localOffset + 28);
+      const dataStart = localOffset + 30 + localNameLength + localExtraLength;
+      this.entries.set(name, { method, compressedSize, size, dataStart });
+
+      position += 46 + nameLength + extraLength + commentLength;
+    }
+  }
+
+  read(name: string): Buffer | undefined {
+    const entry = this.entries.get(name);
+    if (!entry) return undefined;
+    if (entry.size > this.maxEntrySize) {
+      throw new Error(`ZIP entry ${name} is larger than ${this.maxEntrySize} bytes`);
+    }
+
+    const data = this.archive.subarray(entry.dataStart, entry.dataStart + entry.compressedSize);
+    if (entry.method === 0) return data;
+    // The declared size can lie; the output cap is what actually bounds memory
+    if (entry.method === 8) return zlib.inflateRawSync(data, { maxOutputLength: this.maxEntrySize });
+    throw new Error(`Unsupported ZIP compression method ${entry.method} for ${name}`);
+  }
+}
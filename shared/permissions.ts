@@ -0,0 +1,33 @@
+import type { userRoleEnum } from "./schema";
+
+export type UserRole = (typeof userRoleEnum.enumValues)[number];
+
+// Single source of truth for who may do what. The server guards routes with it
+// and the client uses it to decide which menus and actions to show.
+export const permissions = {
+  // Store-wide figures; employees start on their own requisitions instead
+  "dashboard:view": ["ADMIN", "ESTOQUE"],
+  "materials:view": ["ADMIN", "ESTOQUE", "FUNCIONARIO"],
+  "materials:manage": ["ADMIN", "ESTOQUE"],
+  "movements:view": ["ADMIN", "ESTOQUE"],
+  "movements:create": ["ADMIN", "ESTOQUE"],
+  "inventory:manage": ["ADMIN", "ESTOQUE"],
+  "purchasing:manage": ["ADMIN", "ESTOQUE"],
+  "requisitions:view": ["ADMIN", "ESTOQUE", "FUNCIONARIO"],
+  // Roles that only ever see requisitions assigned to themselves
+  "requisitions:view-own": ["FUNCIONARIO"],
+  "requisitions:manage": ["ADMIN", "ESTOQUE"],
+  "alerts:view": ["ADMIN", "ESTOQUE"],
+  "reports:view": ["ADMIN"],
+  "users:manage": ["ADMIN"],
+  "audit:view": ["ADMIN"],
+  "settings:manage": ["ADMIN"],
+  // Choosing which emails one receives
+  "notifications:manage": ["ADMIN", "ESTOQUE", "FUNCIONARIO"],
+} as const satisfies Record<string, readonly UserRole[]>;
+
+export type Permission = keyof typeof permissions;
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  return Boolean(role) && (permissions[permission] as readonly string[]).includes(role!);
+}
@@ -11,6 +11,10 @@ import {
   integer,
   pgEnum,
   boolean,
+  primaryKey,
+  unique,
+  uniqueIndex,
+  date,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -38,6 +42,7 @@ export const users = pgTable("users", {
   profileImageUrl: varchar("profile_image_url"),
   passwordHash: varchar("password_hash"),
   role: userRoleEnum("role").notNull().default('FUNCIONARIO'),
+  isActive: boolean("is_active").notNull().default(true),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -49,14 +54,50 @@ export const materials = pgTable("materials", {
   code: varchar("code").notNull().unique(),
   unit: varchar("unit").notNull(), // kg, un, l, etc.
   unitPrice: decimal("unit_price", { precision: 10, scale: 2 }),
+  averageCost: decimal("average_cost", { precision: 12, scale: 4 }).notNull().default("0"), // moving weighted average of ENTRADA costs
   minimumStock: integer("minimum_stock").notNull().default(0),
-  currentStock: integer("current_stock").notNull().default(0),
+  currentStock: integer("current_stock").notNull().default(0), // total across all locations
+  supplierId: varchar("supplier_id").references(() => suppliers.id), // preferred supplier for reorders
+  leadTimeDays: integer("lead_time_days"), // overrides the supplier's lead time for this material
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Storage locations: the central warehouse plus site containers
+export const locations = pgTable("locations", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull().unique(),
+  description: text("description"),
+  isDefault: boolean("is_default").notNull().default(false), // used when a movement names no location
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Cost centers requisitions are charged to, for consumption reports
+export const costCenters = pgTable("cost_centers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  code: varchar("code").notNull().unique(),
+  name: varchar("name").notNull(),
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Balance of each material per location; materials.currentStock is their sum
+export const stockBalances = pgTable(
+  "stock_balances",
+  {
+    materialId: varchar("material_id").notNull().references(() => materials.id, { onDelete: "cascade" }),
+    locationId: varchar("location_id").notNull().references(() => locations.id),
+    quantity: integer("quantity").notNull().default(0),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [primaryKey({ columns: [table.materialId, table.locationId] })],
+);
+
 // Movement types enum
-export const movementTypeEnum = pgEnum('movement_type', ['ENTRADA', 'SAIDA', 'AJUSTE']);
+export const movementTypeEnum = pgEnum('movement_type', ['ENTRADA', 'SAIDA', 'AJUSTE', 'TRANSFERENCIA']);
 
 // Stock movements table
 export const stockMovements = pgTable("stock_movements", {
@@ -64,32 +105,237 @@ export const stockMovements = pgTable("stock_movements", {
   materialId: varchar("material_id").notNull().references(() => materials.id),
   type: movementTypeEnum("type").notNull(),
   quantity: integer("quantity").notNull(),
-  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }),
+  unitPrice: decimal("unit_price", { precision: 10, scale: 2 }), // purchase cost for ENTRADA, average cost otherwise
   observation: text("observation"),
+  invoiceNumber: varchar("invoice_number"), // supplier invoice for ENTRADA
+  lotNumber: varchar("lot_number"), // lot received by an ENTRADA
+  expiresAt: date("expires_at"), // expiry of that lot
   userId: varchar("user_id").notNull().references(() => users.id),
   requisitionId: varchar("requisition_id").references(() => requisitions.id),
+  inventoryCountId: varchar("inventory_count_id").references(() => inventoryCounts.id), // AJUSTE generated by a count
+  purchaseOrderId: varchar("purchase_order_id").references(() => purchaseOrders.id), // ENTRADA receiving a purchase order
+  // SAIDA and TRANSFERENCIA take from the source; ENTRADA, AJUSTE and
+  // TRANSFERENCIA put into (or, for AJUSTE, recount) the destination.
+  sourceLocationId: varchar("source_location_id").references(() => locations.id),
+  destinationLocationId: varchar("destination_location_id").references(() => locations.id),
+  balanceAfter: integer("balance_after"), // material stock after this movement
+  averageCostAfter: decimal("average_cost_after", { precision: 12, scale: 4 }), // material average cost after this movement
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Lots held per material and location. Stock received without a lot is not
+// tracked here, so a balance may exceed the sum of its lots.
+export const stockLots = pgTable(
+  "stock_lots",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    materialId: varchar("material_id").notNull().references(() => materials.id, { onDelete: "cascade" }),
+    locationId: varchar("location_id").notNull().references(() => locations.id),
+    lotNumber: varchar("lot_number").notNull(),
+    expiresAt: date("expires_at"),
+    quantity: integer("quantity").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [
+    unique().on(table.materialId, table.locationId, table.lotNumber),
+    index("IDX_stock_lots_expires_at").on(table.expiresAt),
+  ],
+);
+
+// How much each movement put into (positive) or took from (negative) each lot
+export const stockMovementLots = pgTable(
+  "stock_movement_lots",
+  {
+    movementId: varchar("movement_id").notNull().references(() => stockMovements.id, { onDelete: "cascade" }),
+    lotId: varchar("lot_id").notNull().references(() => stockLots.id),
+    quantity: integer("quantity").notNull(),
+  },
+  (table) => [primaryKey({ columns: [table.movementId, table.lotId] })],
+);
+
 // Requisition status enum
-export const requisitionStatusEnum = pgEnum('requisition_status', ['PENDENTE', 'ASSINADA', 'CANCELADA']);
+// SOLICITADA: requested by the employee, awaiting stock approval.
+// REJEITADA: request turned down before it became a requisition.
+export const requisitionStatusEnum = pgEnum('requisition_status', ['SOLICITADA', 'PENDENTE', 'ASSINADA', 'CANCELADA', 'REJEITADA']);
 
 // Requisitions table
 export const requisitions = pgTable("requisitions", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  number: varchar("number").notNull().unique(), // REQ-<year>-<sequence>, assigned on creation
   employeeId: varchar("employee_id").notNull().references(() => users.id),
-  materialId: varchar("material_id").notNull().references(() => materials.id),
-  quantity: integer("quantity").notNull(),
   observation: text("observation"),
   status: requisitionStatusEnum("status").notNull().default('PENDENTE'),
+  locationId: varchar("location_id").references(() => locations.id), // where the materials are withdrawn
+  costCenterId: varchar("cost_center_id").references(() => costCenters.id),
   createdById: varchar("created_by_id").notNull().references(() => users.id),
   signedAt: timestamp("signed_at"),
   signedByDevice: varchar("signed_by_device"),
   signedByIp: varchar("signed_by_ip"),
+  signaturePayload: text("signature_payload"), // canonical JSON that was signed
+  signatureHash: varchar("signature_hash"), // sha256 of the payload
+  signatureHmac: varchar("signature_hmac"), // HMAC-SHA256 of the payload with the server key
+  cancellationReason: text("cancellation_reason"),
+  cancelledById: varchar("cancelled_by_id").references(() => users.id),
+  cancelledAt: timestamp("cancelled_at"),
+  reviewedById: varchar("reviewed_by_id").references(() => users.id), // who approved or rejected the request
+  reviewedAt: timestamp("reviewed_at"),
+  rejectionReason: text("rejection_reason"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// Last requisition number handed out in each year. Creating a requisition
+// bumps its year's row, whose lock keeps numbers unique and gap-free.
+export const requisitionSequences = pgTable("requisition_sequences", {
+  year: integer("year").primaryKey(),
+  lastNumber: integer("last_number").notNull().default(0),
+});
+
+// Requisition line items: one per material, all covered by the header's signature
+export const requisitionItems = pgTable("requisition_items", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  requisitionId: varchar("requisition_id").notNull().references(() => requisitions.id, { onDelete: "cascade" }),
+  materialId: varchar("material_id").notNull().references(() => materials.id),
+  quantity: integer("quantity").notNull(),
+  requestedQuantity: integer("requested_quantity"), // what the employee asked for, when approval reduced it
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Inventory count status enum
+// ABERTA: counts are still being entered. APROVADA: differences were
+// adjusted. CANCELADA: discarded without touching stock.
+export const inventoryCountStatusEnum = pgEnum('inventory_count_status', ['ABERTA', 'APROVADA', 'CANCELADA']);
+
+// Physical inventory count of a set of materials at one location
+export const inventoryCounts = pgTable("inventory_counts", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  locationId: varchar("location_id").notNull().references(() => locations.id),
+  status: inventoryCountStatusEnum("status").notNull().default('ABERTA'),
+  observation: text("observation"),
+  openedById: varchar("opened_by_id").notNull().references(() => users.id),
+  approvedById: varchar("approved_by_id").references(() => users.id),
+  approvedAt: timestamp("approved_at"),
+  cancelledById: varchar("cancelled_by_id").references(() => users.id),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// One line per material counted; each pass overwrites the counted quantity
+export const inventoryCountItems = pgTable(
+  "inventory_count_items",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    countId: varchar("count_id").notNull().references(() => inventoryCounts.id, { onDelete: "cascade" }),
+    materialId: varchar("material_id").notNull().references(() => materials.id),
+    expectedQuantity: integer("expected_quantity").notNull(), // balance at the location when the count was opened
+    countedQuantity: integer("counted_quantity"),
+    passes: integer("passes").notNull().default(0),
+    countedById: varchar("counted_by_id").references(() => users.id),
+    countedAt: timestamp("counted_at"),
+  },
+  (table) => [unique().on(table.countId, table.materialId)],
+);
+
+// Suppliers materials are bought from
+export const suppliers = pgTable("suppliers", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  name: varchar("name").notNull(),
+  document: varchar("document").unique(), // CNPJ or CPF
+  email: varchar("email"),
+  phone: varchar("phone"),
+  contactName: varchar("contact_name"),
+  leadTimeDays: integer("lead_time_days").notNull().default(7), // usual days from order to delivery
+  isActive: boolean("is_active").notNull().default(true),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Purchase order status enum
+// RASCUNHO: still being edited. ENVIADO: sent to the supplier, awaiting
+// delivery. PARCIALMENTE_RECEBIDO/RECEBIDO: some or all lines received.
+// CANCELADO: dropped before anything was received.
+export const purchaseOrderStatusEnum = pgEnum('purchase_order_status', ['RASCUNHO', 'ENVIADO', 'PARCIALMENTE_RECEBIDO', 'RECEBIDO', 'CANCELADO']);
+
+// Purchase orders: what was bought from a supplier and where it is delivered
+export const purchaseOrders = pgTable("purchase_orders", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  supplierId: varchar("supplier_id").notNull().references(() => suppliers.id),
+  status: purchaseOrderStatusEnum("status").notNull().default('RASCUNHO'),
+  locationId: varchar("location_id").references(() => locations.id), // where deliveries are received
+  observation: text("observation"),
+  createdById: varchar("created_by_id").notNull().references(() => users.id),
+  sentAt: timestamp("sent_at"),
+  receivedAt: timestamp("received_at"), // when the last line was fully received
+  cancelledById: varchar("cancelled_by_id").references(() => users.id),
+  cancelledAt: timestamp("cancelled_at"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Purchase order lines; receiving books an ENTRADA at the line's unit price
+export const purchaseOrderItems = pgTable(
+  "purchase_order_items",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    purchaseOrderId: varchar("purchase_order_id").notNull().references(() => purchaseOrders.id, { onDelete: "cascade" }),
+    materialId: varchar("material_id").notNull().references(() => materials.id),
+    quantity: integer("quantity").notNull(),
+    unitPrice: decimal("unit_price", { precision: 10, scale: 2 }).notNull(),
+    receivedQuantity: integer("received_quantity").notNull().default(0),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [unique().on(table.purchaseOrderId, table.materialId)],
+);
+
+// Alert type enum
+// ESTOQUE_BAIXO/ESTOQUE_ZERADO: material at or below its minimum / out of
+// stock. REQUISICAO_PENDENTE: requisition awaiting signature for too long.
+// LOTE_VENCENDO: lot with stock expiring soon or already expired.
+export const alertTypeEnum = pgEnum('alert_type', ['ESTOQUE_BAIXO', 'ESTOQUE_ZERADO', 'REQUISICAO_PENDENTE', 'LOTE_VENCENDO']);
+
+// Alert status enum
+// ABERTO: not seen yet. RECONHECIDO: someone is taking care of it.
+// RESOLVIDO: closed by hand or because its condition cleared.
+export const alertStatusEnum = pgEnum('alert_status', ['ABERTO', 'RECONHECIDO', 'RESOLVIDO']);
+
+// Alerts raised by the monitor. While conditionActive is set the condition
+// still holds, so no second alert is raised for the same entity even after
+// this one is resolved by hand.
+export const alerts = pgTable(
+  "alerts",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    type: alertTypeEnum("type").notNull(),
+    status: alertStatusEnum("status").notNull().default('ABERTO'),
+    entityType: varchar("entity_type").notNull(), // MATERIAL, REQUISITION or STOCK_LOT
+    entityId: varchar("entity_id").notNull(),
+    message: text("message").notNull(),
+    conditionActive: boolean("condition_active").notNull().default(true),
+    acknowledgedById: varchar("acknowledged_by_id").references(() => users.id),
+    acknowledgedAt: timestamp("acknowledged_at"),
+    resolvedById: varchar("resolved_by_id").references(() => users.id), // null when resolved automatically
+    resolvedAt: timestamp("resolved_at"),
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("IDX_alerts_active_condition")
+      .on(table.type, table.entityId)
+      .where(sql`${table.conditionActive}`),
+    index("IDX_alerts_status").on(table.status),
+  ],
+);
+
+// Emails each user opted into; a user without a row receives none
+export const notificationPreferences = pgTable("notification_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  requisitionCreated: boolean("requisition_created").notNull().default(false), // a requisition was created for me
+  lowStock: boolean("low_stock").notNull().default(false), // a material fell to or below its minimum
+  dailyDigest: boolean("daily_digest").notNull().default(false), // morning summary of open alerts and requisitions
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Audit logs table
 export const auditLogs = pgTable("audit_logs", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -104,19 +350,76 @@ export const auditLogs = pgTable("audit_logs", {
 });
 
 // Relations
-export const usersRelations = relations(users, ({ many }) => ({
+export const usersRelations = relations(users, ({ one, many }) => ({
   stockMovements: many(stockMovements),
   createdRequisitions: many(requisitions, { relationName: "creator" }),
   assignedRequisitions: many(requisitions, { relationName: "employee" }),
+  cancelledRequisitions: many(requisitions, { relationName: "canceller" }),
+  reviewedRequisitions: many(requisitions, { relationName: "reviewer" }),
+  openedInventoryCounts: many(inventoryCounts, { relationName: "inventoryOpener" }),
+  approvedInventoryCounts: many(inventoryCounts, { relationName: "inventoryApprover" }),
+  createdPurchaseOrders: many(purchaseOrders, { relationName: "purchaseOrderCreator" }),
+  acknowledgedAlerts: many(alerts, { relationName: "alertAcknowledger" }),
+  resolvedAlerts: many(alerts, { relationName: "alertResolver" }),
+  notificationPreferences: one(notificationPreferences),
   auditLogs: many(auditLogs),
 }));
 
-export const materialsRelations = relations(materials, ({ many }) => ({
+export const materialsRelations = relations(materials, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [materials.supplierId],
+    references: [suppliers.id],
+  }),
   stockMovements: many(stockMovements),
+  requisitionItems: many(requisitionItems),
+  purchaseOrderItems: many(purchaseOrderItems),
+  stockBalances: many(stockBalances),
+  stockLots: many(stockLots),
+}));
+
+export const locationsRelations = relations(locations, ({ many }) => ({
+  stockBalances: many(stockBalances),
+  stockLots: many(stockLots),
+  outgoingMovements: many(stockMovements, { relationName: "source" }),
+  incomingMovements: many(stockMovements, { relationName: "destination" }),
   requisitions: many(requisitions),
 }));
 
-export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
+export const stockBalancesRelations = relations(stockBalances, ({ one }) => ({
+  material: one(materials, {
+    fields: [stockBalances.materialId],
+    references: [materials.id],
+  }),
+  location: one(locations, {
+    fields: [stockBalances.locationId],
+    references: [locations.id],
+  }),
+}));
+
+export const stockLotsRelations = relations(stockLots, ({ one, many }) => ({
+  material: one(materials, {
+    fields: [stockLots.materialId],
+    references: [materials.id],
+  }),
+  location: one(locations, {
+    fields: [stockLots.locationId],
+    references: [locations.id],
+  }),
+  movements: many(stockMovementLots),
+}));
+
+export const stockMovementLotsRelations = relations(stockMovementLots, ({ one }) => ({
+  movement: one(stockMovements, {
+    fields: [stockMovementLots.movementId],
+    references: [stockMovements.id],
+  }),
+  lot: one(stockLots, {
+    fields: [stockMovementLots.lotId],
+    references: [stockLots.id],
+  }),
+}));
+
+export const stockMovementsRelations = relations(stockMovements, ({ one, many }) => ({
   material: one(materials, {
     fields: [stockMovements.materialId],
     references: [materials.id],
@@ -129,6 +432,25 @@ export const stockMovementsRelations = relations(stockMovements, ({ one }) => ({
     fields: [stockMovements.requisitionId],
     references: [requisitions.id],
   }),
+  sourceLocation: one(locations, {
+    fields: [stockMovements.sourceLocationId],
+    references: [locations.id],
+    relationName: "source",
+  }),
+  destinationLocation: one(locations, {
+    fields: [stockMovements.destinationLocationId],
+    references: [locations.id],
+    relationName: "destination",
+  }),
+  inventoryCount: one(inventoryCounts, {
+    fields: [stockMovements.inventoryCountId],
+    references: [inventoryCounts.id],
+  }),
+  purchaseOrder: one(purchaseOrders, {
+    fields: [stockMovements.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  lots: many(stockMovementLots),
 }));
 
 export const requisitionsRelations = relations(requisitions, ({ one, many }) => ({
@@ -142,13 +464,127 @@ export const requisitionsRelations = relations(requisitions, ({ one, many }) =>
     references: [users.id],
     relationName: "creator",
   }),
+  cancelledBy: one(users, {
+    fields: [requisitions.cancelledById],
+    references: [users.id],
+    relationName: "canceller",
+  }),
+  reviewedBy: one(users, {
+    fields: [requisitions.reviewedById],
+    references: [users.id],
+    relationName: "reviewer",
+  }),
+  location: one(locations, {
+    fields: [requisitions.locationId],
+    references: [locations.id],
+  }),
+  costCenter: one(costCenters, {
+    fields: [requisitions.costCenterId],
+    references: [costCenters.id],
+  }),
+  items: many(requisitionItems),
+  stockMovements: many(stockMovements),
+}));
+
+export const requisitionItemsRelations = relations(requisitionItems, ({ one }) => ({
+  requisition: one(requisitions, {
+    fields: [requisitionItems.requisitionId],
+    references: [requisitions.id],
+  }),
+  material: one(materials, {
+    fields: [requisitionItems.materialId],
+    references: [materials.id],
+  }),
+}));
+
+export const inventoryCountsRelations = relations(inventoryCounts, ({ one, many }) => ({
+  location: one(locations, {
+    fields: [inventoryCounts.locationId],
+    references: [locations.id],
+  }),
+  openedBy: one(users, {
+    fields: [inventoryCounts.openedById],
+    references: [users.id],
+    relationName: "inventoryOpener",
+  }),
+  approvedBy: one(users, {
+    fields: [inventoryCounts.approvedById],
+    references: [users.id],
+    relationName: "inventoryApprover",
+  }),
+  items: many(inventoryCountItems),
+  stockMovements: many(stockMovements),
+}));
+
+export const inventoryCountItemsRelations = relations(inventoryCountItems, ({ one }) => ({
+  count: one(inventoryCounts, {
+    fields: [inventoryCountItems.countId],
+    references: [inventoryCounts.id],
+  }),
   material: one(materials, {
-    fields: [requisitions.materialId],
+    fields: [inventoryCountItems.materialId],
     references: [materials.id],
   }),
+}));
+
+export const costCentersRelations = relations(costCenters, ({ many }) => ({
+  requisitions: many(requisitions),
+}));
+
+export const suppliersRelations = relations(suppliers, ({ many }) => ({
+  materials: many(materials),
+  purchaseOrders: many(purchaseOrders),
+}));
+
+export const purchaseOrdersRelations = relations(purchaseOrders, ({ one, many }) => ({
+  supplier: one(suppliers, {
+    fields: [purchaseOrders.supplierId],
+    references: [suppliers.id],
+  }),
+  location: one(locations, {
+    fields: [purchaseOrders.locationId],
+    references: [locations.id],
+  }),
+  createdBy: one(users, {
+    fields: [purchaseOrders.createdById],
+    references: [users.id],
+    relationName: "purchaseOrderCreator",
+  }),
+  items: many(purchaseOrderItems),
   stockMovements: many(stockMovements),
 }));
 
+export const purchaseOrderItemsRelations = relations(purchaseOrderItems, ({ one }) => ({
+  purchaseOrder: one(purchaseOrders, {
+    fields: [purchaseOrderItems.purchaseOrderId],
+    references: [purchaseOrders.id],
+  }),
+  material: one(materials, {
+    fields: [purchaseOrderItems.materialId],
+    references: [materials.id],
+  }),
+}));
+
+export const alertsRelations = relations(alerts, ({ one }) => ({
+  acknowledgedBy: one(users, {
+    fields: [alerts.acknowledgedById],
+    references: [users.id],
+    relationName: "alertAcknowledger",
+  }),
+  resolvedBy: one(users, {
+    fields: [alerts.resolvedById],
+    references: [users.id],
+    relationName: "alertResolver",
+  }),
+}));
+
+export const notificationPreferencesRelations = relations(notificationPreferences, ({ one }) => ({
+  user: one(users, {
+    fields: [notificationPreferences.userId],
+    references: [users.id],
+  }),
+}));
+
 export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   user: one(users, {
     fields: [auditLogs.userId],
@@ -158,24 +594,146 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
 
 // Insert schemas
 export const insertUserSchema = createInsertSchema(users).omit({ id: true, createdAt: true, updatedAt: true });
-export const insertMaterialSchema = createInsertSchema(materials).omit({ id: true, createdAt: true, updatedAt: true, currentStock: true });
-export const insertStockMovementSchema = createInsertSchema(stockMovements).omit({ id: true, createdAt: true });
-export const insertRequisitionSchema = createInsertSchema(requisitions).omit({ id: true, createdAt: true, updatedAt: true, signedAt: true, signedByDevice: true, signedByIp: true });
+export const updateUserSchema = createInsertSchema(users).pick({ role: true, isActive: true }).partial();
+export const insertMaterialSchema = createInsertSchema(materials, {
+  leadTimeDays: (schema) => schema.int().min(0, "Prazo de entrega não pode ser negativo").nullish(),
+}).omit({ id: true, createdAt: true, updatedAt: true, currentStock: true, averageCost: true });
+export const insertLocationSchema = createInsertSchema(locations, {
+  name: (schema) => schema.trim().min(1, "Nome do local é obrigatório"),
+}).omit({ id: true, isDefault: true, createdAt: true, updatedAt: true });
+export const insertCostCenterSchema = createInsertSchema(costCenters, {
+  code: (schema) => schema.trim().min(1, "Código do centro de custo é obrigatório"),
+  name: (schema) => schema.trim().min(1, "Nome do centro de custo é obrigatório"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertStockMovementSchema = createInsertSchema(stockMovements, {
+  lotNumber: (schema) => schema.trim().min(1, "Lote é obrigatório").nullish(),
+  expiresAt: (schema) => schema.regex(/^\d{4}-\d{2}-\d{2}$/, "Data de validade inválida").nullish(),
+}).omit({ id: true, createdAt: true, balanceAfter: true, averageCostAfter: true });
+export const insertRequisitionSchema = createInsertSchema(requisitions).omit({ id: true, number: true, status: true, createdAt: true, updatedAt: true, signedAt: true, signedByDevice: true, signedByIp: true, signaturePayload: true, signatureHash: true, signatureHmac: true, cancellationReason: true, cancelledById: true, cancelledAt: true, reviewedById: true, reviewedAt: true, rejectionReason: true });
+export const insertRequisitionItemSchema = createInsertSchema(requisitionItems, {
+  quantity: (schema) => schema.int().positive("Quantidade deve ser maior que zero"),
+}).omit({ id: true, requisitionId: true, requestedQuantity: true, createdAt: true });
+export const createRequisitionSchema = insertRequisitionSchema.extend({
+  items: z
+    .array(insertRequisitionItemSchema)
+    .min(1, "Informe ao menos um material")
+    .refine(
+      (items) => new Set(items.map((item) => item.materialId)).size === items.length,
+      "Cada material pode aparecer apenas uma vez na requisição",
+    ),
+});
+export const openInventoryCountSchema = z.object({
+  locationId: z.string().min(1).optional(),
+  // Every material when omitted
+  materialIds: z
+    .array(z.string().min(1))
+    .refine((ids) => new Set(ids).size === ids.length, "Cada material pode aparecer apenas uma vez no inventário")
+    .optional(),
+  observation: z.string().trim().optional(),
+});
+export const recordInventoryCountSchema = z.object({
+  items: z
+    .array(z.object({
+      id: z.string().min(1),
+      countedQuantity: z.number().int().min(0, "Quantidade contada não pode ser negativa"),
+    }))
+    .min(1, "Informe ao menos uma contagem"),
+});
+export const insertSupplierSchema = createInsertSchema(suppliers, {
+  name: (schema) => schema.trim().min(1, "Nome do fornecedor é obrigatório"),
+  document: (schema) => schema.trim().min(1).nullish(),
+  email: (schema) => schema.trim().email("E-mail inválido").nullish(),
+  leadTimeDays: (schema) => schema.int().min(0, "Prazo de entrega não pode ser negativo"),
+}).omit({ id: true, createdAt: true, updatedAt: true });
+export const insertPurchaseOrderSchema = createInsertSchema(purchaseOrders).omit({ id: true, status: true, sentAt: true, receivedAt: true, cancelledById: true, cancelledAt: true, createdAt: true, updatedAt: true });
+export const insertPurchaseOrderItemSchema = createInsertSchema(purchaseOrderItems, {
+  quantity: (schema) => schema.int().positive("Quantidade deve ser maior que zero"),
+  unitPrice: (schema) => schema.regex(/^\d+(\.\d{1,2})?$/, "Preço unitário inválido"),
+}).omit({ id: true, purchaseOrderId: true, receivedQuantity: true, createdAt: true });
+export const createPurchaseOrderSchema = insertPurchaseOrderSchema.extend({
+  items: z
+    .array(insertPurchaseOrderItemSchema)
+    .min(1, "Informe ao menos um material")
+    .refine(
+      (items) => new Set(items.map((item) => item.materialId)).size === items.length,
+      "Cada material pode aparecer apenas uma vez no pedido",
+    ),
+});
+export const receivePurchaseOrderSchema = z.object({
+  invoiceNumber: z.string().trim().min(1, "Número da nota fiscal é obrigatório"),
+  observation: z.string().trim().optional(),
+  items: z
+    .array(z.object({
+      id: z.string().min(1),
+      quantity: z.number().int().positive("Quantidade recebida deve ser maior que zero"),
+      lotNumber: z.string().trim().min(1).optional(),
+      expiresAt: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Data de validade inválida").optional(),
+    }).refine((item) => !item.expiresAt || item.lotNumber, {
+      path: ["lotNumber"],
+      message: "Informe o lote da data de validade",
+    }))
+    .min(1, "Informe ao menos um item recebido")
+    .refine(
+      (items) => new Set(items.map((item) => item.id)).size === items.length,
+      "Cada item pode aparecer apenas uma vez no recebimento",
+    ),
+});
+export const updateNotificationPreferencesSchema = createInsertSchema(notificationPreferences)
+  .pick({ requisitionCreated: true, lowStock: true, dailyDigest: true })
+  .partial();
 export const insertAuditLogSchema = createInsertSchema(auditLogs).omit({ id: true, createdAt: true });
 
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
+export type UpdateUser = z.infer<typeof updateUserSchema>;
 
 export type Material = typeof materials.$inferSelect;
 export type InsertMaterial = z.infer<typeof insertMaterialSchema>;
 
+export type Location = typeof locations.$inferSelect;
+export type InsertLocation = z.infer<typeof insertLocationSchema>;
+
+export type CostCenter = typeof costCenters.$inferSelect;
+export type InsertCostCenter = z.infer<typeof insertCostCenterSchema>;
+
+export type StockBalance = typeof stockBalances.$inferSelect;
+
+export type StockLot = typeof stockLots.$inferSelect;
+export type StockMovementLot = typeof stockMovementLots.$inferSelect;
+
 export type StockMovement = typeof stockMovements.$inferSelect;
 export type InsertStockMovement = z.infer<typeof insertStockMovementSchema>;
 
 export type Requisition = typeof requisitions.$inferSelect;
 export type InsertRequisition = z.infer<typeof insertRequisitionSchema>;
+export type CreateRequisition = z.infer<typeof createRequisitionSchema>;
+
+export type RequisitionItem = typeof requisitionItems.$inferSelect;
+export type InsertRequisitionItem = z.infer<typeof insertRequisitionItemSchema>;
+
+export type InventoryCount = typeof inventoryCounts.$inferSelect;
+export type InventoryCountItem = typeof inventoryCountItems.$inferSelect;
+export type OpenInventoryCount = z.infer<typeof openInventoryCountSchema>;
+export type RecordInventoryCount = z.infer<typeof recordInventoryCountSchema>;
+
+export type Supplier = typeof suppliers.$inferSelect;
+export type InsertSupplier = z.infer<typeof insertSupplierSchema>;
+
+export type PurchaseOrder = typeof purchaseOrders.$inferSelect;
+export type InsertPurchaseOrder = z.infer<typeof insertPurchaseOrderSchema>;
+export type CreatePurchaseOrder = z.infer<typeof createPurchaseOrderSchema>;
+export type ReceivePurchaseOrder = z.infer<typeof receivePurchaseOrderSchema>;
+
+export type PurchaseOrderItem = typeof purchaseOrderItems.$inferSelect;
+export type InsertPurchaseOrderItem = z.infer<typeof insertPurchaseOrderItemSchema>;
+
+export type Alert = typeof alerts.$inferSelect;
+export type InsertAlert = typeof alerts.$inferInsert;
+
+export type NotificationPreferences = typeof notificationPreferences.$inferSelect;
+export type UpdateNotificationPreferences = z.infer<typeof updateNotificationPreferencesSchema>;
 
 export type AuditLog = typeof auditLogs.$inferSelect;
 export type InsertAuditLog = z.infer<typeof insertAuditLogSchema>;